@@ -0,0 +1,259 @@
+pragma solidity >=0.8.17;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+import "./Entity.sol";
+import "./Errors.sol";
+import "./Etherman.sol";
+
+/**
+ * @notice Roles and configuration timelock of HamsterSwap, linked as an external library to keep the swap under the contract size limit.
+ **/
+library Administration {
+	/** @dev Events, mirrored in HamsterSwap */
+	event ConfigurationChanged(
+		address actor,
+		uint256 timestamp,
+		uint256 maxAllowedItems,
+		uint256 maxAllowedOptions,
+		address[] whitelistedAddresses,
+		address[] blacklistedAddresses,
+		address ethermanAddress
+	);
+
+	event RoleGranted(
+		address actor,
+		uint256 timestamp,
+		bytes32 role,
+		address account
+	);
+
+	event RoleRevoked(
+		address actor,
+		uint256 timestamp,
+		bytes32 role,
+		address account
+	);
+
+	event TimelockDelayChanged(
+		address actor,
+		uint256 timestamp,
+		uint256 timelockDelay
+	);
+
+	event TimelockDelayQueued(
+		address actor,
+		uint256 timestamp,
+		bytes32 operationId,
+		uint256 timelockDelay,
+		uint256 readyAt
+	);
+
+	event ConfigurationQueued(
+		address actor,
+		uint256 timestamp,
+		bytes32 operationId,
+		uint256 maxAllowedItems,
+		uint256 maxAllowedOptions,
+		address ethermanAddress,
+		uint256 readyAt
+	);
+
+	event ConfigurationExecuted(
+		address actor,
+		uint256 timestamp,
+		bytes32 operationId
+	);
+
+	event ConfigurationCancelled(
+		address actor,
+		uint256 timestamp,
+		bytes32 operationId
+	);
+
+	/**
+	 * @dev Grant or revoke a role and emit event, nothing happens if the account already has it or not
+	 * @param administration: the administration storage
+	 * @param role: the role
+	 * @param account: the account
+	 * @param granted: whether the account has the role afterwards
+	 */
+	function setRole(
+		Entity.Administration storage administration,
+		bytes32 role,
+		address account,
+		bool granted
+	) external {
+		if (administration.roles[role][account] == granted) return;
+
+		administration.roles[role][account] = granted;
+
+		if (granted) {
+			emit RoleGranted(msg.sender, block.timestamp, role, account);
+		} else {
+			emit RoleRevoked(msg.sender, block.timestamp, role, account);
+		}
+	}
+
+	/**
+	 * @dev Record the delay of the configuration changes queued afterwards and emit event,
+	 * a lower delay is queued first and recorded by the same call once the current delay elapsed
+	 * @param administration: the administration storage
+	 * @param timelockDelay: the delay in seconds
+	 */
+	function setTimelockDelay(
+		Entity.Administration storage administration,
+		uint256 timelockDelay
+	) external {
+		if (timelockDelay < administration.timelockDelay) {
+			bytes32 operationId = getDelayOperationId(timelockDelay);
+			uint256 readyAt = administration.readyAt[operationId];
+
+			if (readyAt == 0) {
+				readyAt = block.timestamp + administration.timelockDelay;
+				administration.readyAt[operationId] = readyAt;
+
+				emit TimelockDelayQueued(
+					msg.sender,
+					block.timestamp,
+					operationId,
+					timelockDelay,
+					readyAt
+				);
+				return;
+			}
+			if (block.timestamp < readyAt) {
+				revert Errors.ConfigurationNotReady(operationId, readyAt);
+			}
+
+			delete administration.readyAt[operationId];
+		}
+
+		administration.timelockDelay = timelockDelay;
+
+		emit TimelockDelayChanged(msg.sender, block.timestamp, timelockDelay);
+	}
+
+	/**
+	 * @dev Queue a change of the item limits and etherman, it can be executed once the timelock delay elapsed
+	 * @param administration: the administration storage
+	 * @param maxAllowedItems: maximum amount of allowed items
+	 * @param maxAllowedOptions: maximum amount of allowed options
+	 * @param etherman: the etherman address
+	 */
+	function queueConfiguration(
+		Entity.Administration storage administration,
+		uint256 maxAllowedItems,
+		uint256 maxAllowedOptions,
+		address etherman
+	) external {
+		bytes32 operationId = getOperationId(
+			maxAllowedItems,
+			maxAllowedOptions,
+			etherman
+		);
+
+		if (administration.readyAt[operationId] != 0) {
+			revert Errors.ConfigurationAlreadyQueued(operationId);
+		}
+
+		uint256 readyAt = block.timestamp + administration.timelockDelay;
+		administration.readyAt[operationId] = readyAt;
+
+		emit ConfigurationQueued(
+			msg.sender,
+			block.timestamp,
+			operationId,
+			maxAllowedItems,
+			maxAllowedOptions,
+			etherman,
+			readyAt
+		);
+	}
+
+	/**
+	 * @dev Dequeue a ready configuration change, approve the etherman and emit events, the swap records the values
+	 * @param administration: the administration storage
+	 * @param maxAllowedItems: maximum amount of allowed items
+	 * @param maxAllowedOptions: maximum amount of allowed options
+	 * @param etherman: the etherman
+	 */
+	function executeConfiguration(
+		Entity.Administration storage administration,
+		uint256 maxAllowedItems,
+		uint256 maxAllowedOptions,
+		Etherman etherman
+	) external {
+		bytes32 operationId = getOperationId(
+			maxAllowedItems,
+			maxAllowedOptions,
+			address(etherman)
+		);
+		uint256 readyAt = administration.readyAt[operationId];
+
+		if (readyAt == 0) revert Errors.ConfigurationNotQueued(operationId);
+		if (block.timestamp < readyAt) {
+			revert Errors.ConfigurationNotReady(operationId, readyAt);
+		}
+
+		delete administration.readyAt[operationId];
+
+		IERC20(etherman.WETH()).approve(address(etherman), type(uint256).max);
+
+		emit ConfigurationExecuted(msg.sender, block.timestamp, operationId);
+		emit ConfigurationChanged(
+			msg.sender,
+			block.timestamp,
+			maxAllowedItems,
+			maxAllowedOptions,
+			new address[](0),
+			new address[](0),
+			address(etherman)
+		);
+	}
+
+	/**
+	 * @dev Dequeue a configuration change before it is executed and emit event
+	 * @param administration: the administration storage
+	 * @param operationId: the operation id, see `getOperationId`
+	 */
+	function cancelConfiguration(
+		Entity.Administration storage administration,
+		bytes32 operationId
+	) external {
+		if (administration.readyAt[operationId] == 0) {
+			revert Errors.ConfigurationNotQueued(operationId);
+		}
+
+		delete administration.readyAt[operationId];
+
+		emit ConfigurationCancelled(msg.sender, block.timestamp, operationId);
+	}
+
+	/**
+	 * @dev Get the id of a configuration change
+	 * @param maxAllowedItems: maximum amount of allowed items
+	 * @param maxAllowedOptions: maximum amount of allowed options
+	 * @param etherman: the etherman address
+	 */
+	function getOperationId(
+		uint256 maxAllowedItems,
+		uint256 maxAllowedOptions,
+		address etherman
+	) public pure returns (bytes32) {
+		return
+			keccak256(abi.encode(maxAllowedItems, maxAllowedOptions, etherman));
+	}
+
+	/**
+	 * @dev Get the id of a timelock delay decrease, it never matches the id of a configuration change
+	 * @param timelockDelay: the delay in seconds
+	 */
+	function getDelayOperationId(uint256 timelockDelay)
+		public
+		pure
+		returns (bytes32)
+	{
+		return keccak256(abi.encode(timelockDelay));
+	}
+}
@@ -0,0 +1,299 @@
+pragma solidity >=0.8.17;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+
+import "./Entity.sol";
+import "./Errors.sol";
+import "./Etherman.sol";
+import "./Params.sol";
+import "./Proposals.sol";
+
+/**
+ * @notice Batch fulfillments of HamsterSwap, linked as an external library to keep the swap under the contract size limit.
+ * Functions are delegatecalled, so `address(this)` is the swap vault.
+ **/
+library Batches {
+	/**
+	 * @dev Define the currencies paid by a batch, summed up per contract
+	 */
+	struct Payment {
+		address[] tokens;
+		uint256[] amounts;
+		uint256 length;
+	}
+
+	/** @dev Events, mirrored in HamsterSwap */
+	event ProposalsFulfilled(
+		string[] proposalIds,
+		bool[] fulfilled,
+		address actor,
+		uint256 timestamp
+	);
+
+	/**
+	 * @dev Pull the currencies asked by the chosen options at once into the buyer credits, then delegatecall the swap
+	 * to fulfill each proposal out of them. WETH is paid in native coin when a value is sent, what is left is refunded
+	 * once the batch is idle again and the credits are cleared.
+	 * @param batch: the swap batch, only ready while a proposal is delegatecalled
+	 * @param proposals: the proposals keyed by bytes32, see `Proposals.keyOf`
+	 * @param credits: the swap credits, per owner and token
+	 * @param etherman: the swap etherman
+	 * @param data: the encoded fulfillments, buyer and whether failed fulfillments are skipped, see `HamsterSwap.fulfillProposals`
+	 * @param selector: the swap function fulfilling a proposal of the batch, called with the proposal id, the option id and the buyer
+	 * @return fulfilled whether each proposal was fulfilled
+	 */
+	function fulfillProposals(
+		Entity.Batch storage batch,
+		mapping(bytes32 => Entity.Proposal) storage proposals,
+		mapping(address => mapping(address => uint256)) storage credits,
+		Etherman etherman,
+		bytes memory data,
+		bytes4 selector
+	) external returns (bool[] memory) {
+		(
+			Params.FulfillmentParams[] memory fulfillments,
+			address buyer,
+			bool skipFailed
+		) = abi.decode(data, (Params.FulfillmentParams[], address, bool));
+
+		/**
+		 * @dev The buyer pays for the batch up front, so it must be the actor as for a single fulfillment
+		 */
+		if (buyer != msg.sender && buyer != tx.origin) {
+			revert Errors.UnauthorizedActor(buyer);
+		}
+
+		Payment memory payment = getPayment(proposals, fulfillments);
+		address weth = msg.value > 0 ? etherman.WETH() : address(0);
+		uint256 wrappedAmount = deposit(
+			credits,
+			etherman,
+			payment,
+			buyer,
+			weth
+		);
+
+		(string[] memory proposalIds, bool[] memory fulfilled) = fulfill(
+			batch,
+			fulfillments,
+			buyer,
+			skipFailed,
+			selector
+		);
+
+		refund(credits, etherman, payment, buyer, weth, wrappedAmount);
+
+		emit ProposalsFulfilled(
+			proposalIds,
+			fulfilled,
+			msg.sender,
+			block.timestamp
+		);
+
+		return fulfilled;
+	}
+
+	/**
+	 * @dev Pull the currencies of the batch into the buyer credits, WETH is wrapped out of `msg.value` when it is sent
+	 * @return wrappedAmount the amount of native coin wrapped
+	 */
+	function deposit(
+		mapping(address => mapping(address => uint256)) storage credits,
+		Etherman etherman,
+		Payment memory payment,
+		address buyer,
+		address weth
+	) private returns (uint256 wrappedAmount) {
+		for (uint256 i = 0; i < payment.length; i++) {
+			address token = payment.tokens[i];
+			uint256 amount = payment.amounts[i];
+
+			if (token == weth) {
+				if (msg.value < amount) {
+					revert Errors.AmountMismatch(amount, msg.value);
+				}
+				etherman.wrapETH{value: amount}(address(this), amount);
+				wrappedAmount = amount;
+			} else {
+				transferERC20(token, buyer, address(this), amount);
+			}
+
+			credits[buyer][token] += amount;
+		}
+	}
+
+	/**
+	 * @dev Delegatecall the swap to fulfill each proposal, a failed fulfillment is rolled back along with the credits it spent.
+	 * The batch is ready for one proposal at a time and idle once done, so that it cannot be re-entered from a fulfillment.
+	 * @return proposalIds the proposals of the batch
+	 * @return fulfilled whether each proposal was fulfilled
+	 */
+	function fulfill(
+		Entity.Batch storage batch,
+		Params.FulfillmentParams[] memory fulfillments,
+		address buyer,
+		bool skipFailed,
+		bytes4 selector
+	) private returns (string[] memory proposalIds, bool[] memory fulfilled) {
+		proposalIds = new string[](fulfillments.length);
+		fulfilled = new bool[](fulfillments.length);
+
+		for (uint256 i = 0; i < fulfillments.length; i++) {
+			proposalIds[i] = fulfillments[i].proposalId;
+
+			batch.status = Entity.BatchStatus.Ready;
+			(bool success, bytes memory result) = address(this).delegatecall(
+				abi.encodeWithSelector(
+					selector,
+					fulfillments[i].proposalId,
+					fulfillments[i].optionId,
+					buyer
+				)
+			);
+			if (!skipFailed) {
+				Address.verifyCallResult(
+					success,
+					result,
+					"Batches: fulfillment failed"
+				);
+			}
+
+			fulfilled[i] = success;
+		}
+
+		batch.status = Entity.BatchStatus.Idle;
+	}
+
+	/**
+	 * @dev Give back what is left in the vault on behalf of the buyer, native coin goes back to the sender.
+	 * Every credit is cleared before anything is sent.
+	 */
+	function refund(
+		mapping(address => mapping(address => uint256)) storage credits,
+		Etherman etherman,
+		Payment memory payment,
+		address buyer,
+		address weth,
+		uint256 wrappedAmount
+	) private {
+		uint256[] memory unused = new uint256[](payment.length);
+		for (uint256 i = 0; i < payment.length; i++) {
+			unused[i] = credits[buyer][payment.tokens[i]];
+			credits[buyer][payment.tokens[i]] = 0;
+		}
+
+		for (uint256 i = 0; i < payment.length; i++) {
+			address token = payment.tokens[i];
+			if (unused[i] == 0) continue;
+
+			if (token == weth) {
+				etherman.unwrapWETH(payable(msg.sender), unused[i]);
+			} else {
+				transferERC20(token, address(this), buyer, unused[i]);
+			}
+		}
+
+		if (msg.value > wrappedAmount) {
+			(bool success, ) = payable(msg.sender).call{
+				value: msg.value - wrappedAmount
+			}("");
+			if (!success) {
+				revert Errors.NativeTransferFailed(
+					msg.sender,
+					msg.value - wrappedAmount
+				);
+			}
+		}
+	}
+
+	/**
+	 * @dev Sum up the currency items of the chosen options per contract,
+	 * proposals that are not deposited and unknown options are left out as they cannot be fulfilled
+	 * @param proposals: the proposals keyed by bytes32
+	 * @param fulfillments: the proposals and the options they are fulfilled with
+	 */
+	function getPayment(
+		mapping(bytes32 => Entity.Proposal) storage proposals,
+		Params.FulfillmentParams[] memory fulfillments
+	) private view returns (Payment memory payment) {
+		uint256 itemCount = 0;
+		for (uint256 i = 0; i < fulfillments.length; i++) {
+			(Entity.Proposal storage proposal, uint256 position) = findOption(
+				proposals,
+				fulfillments[i]
+			);
+			if (position == 0) continue;
+
+			itemCount += proposal.swapOptions[position - 1].askingItems.length;
+		}
+
+		payment.tokens = new address[](itemCount);
+		payment.amounts = new uint256[](itemCount);
+
+		for (uint256 i = 0; i < fulfillments.length; i++) {
+			(Entity.Proposal storage proposal, uint256 position) = findOption(
+				proposals,
+				fulfillments[i]
+			);
+			if (position == 0) continue;
+
+			Entity.PackedSwapItem[] storage items = proposal
+				.swapOptions[position - 1]
+				.askingItems;
+			for (uint256 j = 0; j < items.length; j++) {
+				if (items[j].itemType != Entity.SwapItemType.Currency) continue;
+
+				uint256 k = 0;
+				while (
+					k < payment.length &&
+					payment.tokens[k] != items[j].contractAddress
+				) k++;
+
+				if (k == payment.length) {
+					payment.tokens[k] = items[j].contractAddress;
+					payment.length++;
+				}
+				payment.amounts[k] += items[j].amount;
+			}
+		}
+	}
+
+	/**
+	 * @dev Find the proposal and the position of the chosen option, zero if the proposal cannot be fulfilled with it
+	 */
+	function findOption(
+		mapping(bytes32 => Entity.Proposal) storage proposals,
+		Params.FulfillmentParams memory fulfillment
+	)
+		private
+		view
+		returns (Entity.Proposal storage proposal, uint256 position)
+	{
+		proposal = proposals[Proposals.keyOf(fulfillment.proposalId)];
+
+		if (proposal.status == Entity.ProposalStatus.Deposited) {
+			position = proposal.optionPositions[
+				Proposals.keyOf(fulfillment.optionId)
+			];
+		}
+	}
+
+	/**
+	 * @dev Transfer an ERC20 amount, from the vault or pulled from an user
+	 */
+	function transferERC20(
+		address contractAddress,
+		address from,
+		address to,
+		uint256 amount
+	) private {
+		bool success = from == address(this)
+			? IERC20(contractAddress).transfer(to, amount)
+			: IERC20(contractAddress).transferFrom(from, to, amount);
+
+		if (!success) {
+			revert Errors.TransferFailed(contractAddress, from, to, amount);
+		}
+	}
+}
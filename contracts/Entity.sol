@@ -2,11 +2,16 @@ pragma solidity >=0.8.17;
 
 library Entity {
 	/*
-	 * @dev Define the item type
+	 * @dev Define the item type, collection-wide types are only asked for and resolved to `Nft` once fulfilled:
+	 * `NftCollection` accepts any token of the collection,
+	 * `NftTraitSet` accepts the token ids of the Merkle root held in `tokenId`, see `Proposals.resolveAskingItems`
 	 */
 	enum SwapItemType {
 		Nft,
-		Currency
+		Currency,
+		SemiFungible,
+		NftCollection,
+		NftTraitSet
 	}
 
 	/**
@@ -28,11 +33,42 @@ library Entity {
 		Fulfilled,
 		Canceled,
 		Redeemed,
+		Withdrawn,
+		Expired
+	}
+
+	/**
+	 * @dev Define counter-offer status
+	 */
+	enum CounterOfferStatus {
+		Created,
+		Deposited,
+		Accepted,
 		Withdrawn
 	}
 
 	/**
-	 * @dev Define pocket item
+	 * @dev Define the on-chain proposal indexes
+	 */
+	enum ProposalIndexType {
+		All,
+		Owner,
+		Fulfiller,
+		Status,
+		Collection
+	}
+
+	/**
+	 * @dev Define the phase of a batch fulfillment, a proposal of the batch is only fulfilled while it is ready
+	 */
+	enum BatchStatus {
+		Idle,
+		Ready,
+		Fulfilling
+	}
+
+	/**
+	 * @dev Define pocket item, as read through the swap getters and as held by the legacy records
 	 */
 	struct SwapItem {
 		string id;
@@ -45,7 +81,7 @@ library Entity {
 	}
 
 	/**
-	 * @dev Define pocket option
+	 * @dev Define pocket option, as read through the swap getters and as held by the legacy records
 	 */
 	struct SwapOption {
 		string id;
@@ -53,19 +89,160 @@ library Entity {
 	}
 
 	/**
-	 * @dev Define proposal
+	 * @dev Define pocket item as stored, the type and status share the slot of the contract address.
+	 * The owner is not stored: offered items belong to the proposal or counter-offer owner,
+	 * asking items to the fulfiller once redeemed, see `Proposals.encodeItemsAndOptions`
+	 */
+	struct PackedSwapItem {
+		string id;
+		address contractAddress;
+		SwapItemType itemType;
+		SwapItemStatus status;
+		uint256 amount;
+		uint256 tokenId;
+	}
+
+	/**
+	 * @dev Define pocket option as stored
+	 */
+	struct PackedSwapOption {
+		string id;
+		PackedSwapItem[] askingItems;
+	}
+
+	/**
+	 * @dev Define proposal, stored under the keccak256 of its id, see `Proposals.keyOf`, or under its digest when signed
 	 */
 	struct Proposal {
+		string id;
+		address owner;
+		uint48 expiredAt;
+		ProposalStatus status;
+		/**
+		 * @dev Fillable proposals only hold currency items and can be redeemed in parts,
+		 * the remaining amounts of the offered items are tracked until it is fully filled.
+		 */
+		bool fillable;
+		/**
+		 * @dev Following fields will be assigned during runtime, the option or counter-offer
+		 * the proposal is fulfilled by is its 1-based position in `swapOptions` or `counterOfferIds`.
+		 */
+		address fulfilledBy;
+		uint32 fulfilledByOption;
+		uint32 fulfilledByCounterOffer;
+		PackedSwapItem[] offeredItems;
+		PackedSwapOption[] swapOptions;
+		/**
+		 * @dev 1-based positions of the options in `swapOptions`, by the keccak256 of their id.
+		 */
+		mapping(bytes32 => uint256) optionPositions;
+		/**
+		 * @dev Only these addresses can fulfill the proposal, anyone can when empty.
+		 */
+		address[] allowedFulfillers;
+		uint256[] remainingAmounts;
+		/**
+		 * @dev Counter-offers made against the proposal.
+		 */
+		string[] counterOfferIds;
+	}
+
+	/**
+	 * @dev Define counter-offer, items are escrowed by a buyer against a deposited proposal,
+	 * stored under the keccak256 of its id along with its 1-based position in `Proposal.counterOfferIds`
+	 */
+	struct CounterOffer {
+		string id;
+		bytes32 proposalKey;
+		address owner;
+		uint48 expiredAt;
+		CounterOfferStatus status;
+		uint32 position;
+		PackedSwapItem[] offeredItems;
+	}
+
+	/**
+	 * @dev Define proposal as recorded under its string id before the storage redesign, only read by `Migrations`
+	 */
+	struct LegacyProposal {
 		string id;
 		uint256 expiredAt;
 		SwapItem[] offeredItems;
 		SwapOption[] swapOptions;
-		/**
-		 * @dev Following fields will be assigned during runtime.
-		 */
 		address owner;
 		address fulfilledBy;
 		string fulfilledByOptionId;
 		ProposalStatus status;
+		address[] allowedFulfillers;
+		bool fillable;
+		uint256[] remainingAmounts;
+		string[] counterOfferIds;
+	}
+
+	/**
+	 * @dev Define counter-offer as recorded under its string id before the storage redesign, only read by `Migrations`
+	 */
+	struct LegacyCounterOffer {
+		string id;
+		string proposalId;
+		uint256 expiredAt;
+		SwapItem[] offeredItems;
+		address owner;
+		CounterOfferStatus status;
+	}
+
+	/**
+	 * @dev Define the enumerable proposal indexes, positions are 1-based so that 0 means absent
+	 */
+	struct ProposalIndex {
+		string[] ids;
+		mapping(address => string[]) ownerIds;
+		mapping(address => string[]) fulfillerIds;
+		mapping(address => mapping(string => bool)) isFulfilledBy;
+		/**
+		 * @dev Proposal ids per status, a proposal is moved along with its status.
+		 */
+		mapping(ProposalStatus => string[]) statusIds;
+		mapping(string => ProposalStatus) indexedStatuses;
+		mapping(string => uint256) statusPositions;
+		/**
+		 * @dev Deposited proposal ids per contract address of their offered and asking items.
+		 */
+		mapping(address => string[]) collectionIds;
+		mapping(address => mapping(string => uint256)) collectionPositions;
+	}
+
+	/**
+	 * @dev Define the enumerable whitelist with the item type allowed for each address, positions are 1-based so that 0 means absent
+	 */
+	struct Whitelist {
+		address[] addresses;
+		mapping(address => uint256) positions;
+		mapping(address => SwapItemType) itemTypes;
+	}
+
+	/**
+	 * @dev Define the role-based administration, configuration changes wait in the timelock until their operation is ready
+	 */
+	struct Administration {
+		mapping(bytes32 => mapping(address => bool)) roles;
+		uint256 timelockDelay;
+		mapping(bytes32 => uint256) readyAt;
+	}
+
+	/**
+	 * @dev Define royalty override of a collection, used instead of EIP-2981 royaltyInfo
+	 */
+	struct RoyaltyOverride {
+		bool enabled;
+		address receiver;
+		uint256 basisPoints;
+	}
+
+	/**
+	 * @dev Define the running batch fulfillment, see `Batches.fulfillProposals`
+	 */
+	struct Batch {
+		BatchStatus status;
 	}
 }
@@ -0,0 +1,144 @@
+pragma solidity >=0.8.17;
+
+import "./Entity.sol";
+
+/**
+ * @notice Custom errors, declared in an interface so that contracts inheriting it expose all of them in their ABI,
+ * including the ones only reverted by linked libraries.
+ **/
+interface Errors {
+	/**
+	 * @dev Actor is neither the sender nor the transaction origin
+	 */
+	error UnauthorizedActor(address actor);
+
+	/**
+	 * @dev Id has been used by another proposal, option or item
+	 */
+	error DuplicateId(string id);
+
+	/**
+	 * @dev Id must not be empty
+	 */
+	error EmptyId();
+
+	/**
+	 * @dev Constraints exceeded
+	 */
+	error TooManyItems(uint256 length, uint256 maxAllowedItems);
+	error TooManyOptions(uint256 length, uint256 maxAllowedOptions);
+
+	/**
+	 * @dev Expiry date must be in the future
+	 */
+	error InvalidExpiredAt(uint256 expiredAt);
+
+	/**
+	 * @dev Item contract is not whitelisted
+	 */
+	error NotWhitelisted(address contractAddress);
+	error ItemTypeNotWhitelisted(
+		address contractAddress,
+		Entity.SwapItemType itemType
+	);
+	error InvalidWhitelistItemType(
+		address contractAddress,
+		Entity.SwapItemType itemType
+	);
+
+	/**
+	 * @dev Administration errors
+	 */
+	error MissingRole(bytes32 role, address account);
+	error AlreadyConfigured();
+	error ConfigurationAlreadyQueued(bytes32 operationId);
+	error ConfigurationNotQueued(bytes32 operationId);
+	error ConfigurationNotReady(bytes32 operationId, uint256 readyAt);
+
+	/**
+	 * @dev Proposal errors
+	 */
+	error ProposalNotFound(string id);
+	error ProposalExpired(string id, uint256 expiredAt);
+	error ProposalNotExpired(string id, uint256 expiredAt);
+	error InvalidProposalStatus(string id, Entity.ProposalStatus status);
+	error NotProposalOwner(string id, address actor);
+	error OptionNotFound(string proposalId, string optionId);
+	error NotAllowedFulfiller(string id, address buyer);
+
+	/**
+	 * @dev Counter-offer errors
+	 */
+	error CounterOfferNotFound(string id);
+	error CounterOfferExpired(string id, uint256 expiredAt);
+	error InvalidCounterOfferStatus(
+		string id,
+		Entity.CounterOfferStatus status
+	);
+	error NotCounterOfferOwner(string id, address actor);
+
+	/**
+	 * @dev Partial fill errors
+	 */
+	error NotFillable(string id);
+	error InvalidFillAmount(
+		string id,
+		uint256 fillAmount,
+		uint256 remainingAmount
+	);
+
+	/**
+	 * @dev Collection-wide item errors
+	 */
+	error InvalidItemType(string id, Entity.SwapItemType itemType);
+	error AskingTokenRequired(string id);
+	error InvalidTokenProof(string id, uint256 tokenId);
+
+	/**
+	 * @dev Signed proposal errors
+	 */
+	error InvalidSignature(address owner);
+	error NonceAlreadyUsed(address owner, uint256 nonce);
+
+	/**
+	 * @dev Protocol fee errors
+	 */
+	error ProtocolFeeTooHigh(
+		uint256 protocolFeeBasisPoints,
+		uint256 maxProtocolFeeBasisPoints
+	);
+	error InvalidProtocolFeeRecipient(address protocolFeeRecipient);
+
+	/**
+	 * @dev Royalty errors
+	 */
+	error RoyaltyTooHigh(
+		uint256 royaltyBasisPoints,
+		uint256 maxRoyaltyBasisPoints
+	);
+
+	/**
+	 * @dev Transfer errors
+	 */
+	error ZeroAmount();
+	error AmountMismatch(uint256 expected, uint256 actual);
+	error TransferFailed(
+		address contractAddress,
+		address from,
+		address to,
+		uint256 amount
+	);
+	error NativeTransferFailed(address to, uint256 amount);
+
+	/**
+	 * @dev Permit errors
+	 */
+	error PermitFailed(address token, address owner);
+	error UnusedPermit2Amount(address token, uint256 amount);
+	error Permit2Unavailable(address permit2);
+
+	/**
+	 * @dev Batch errors
+	 */
+	error BatchInProgress();
+}
@@ -4,6 +4,8 @@ pragma solidity >=0.8.17;
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 
+import "./Errors.sol";
+
 /// @title Interface for WETH9
 interface IWETH9 is IERC20 {
 	/// @notice Deposit ether to get wrapped ether
@@ -26,14 +28,17 @@ contract Etherman is Ownable {
 		payable
 		onlyOwner
 	{
-		assert(msg.value == amount);
-		assert(msg.value > 0);
+		if (msg.value != amount)
+			revert Errors.AmountMismatch(amount, msg.value);
+		if (msg.value == 0) revert Errors.ZeroAmount();
 
 		/// @dev Deposit ETH
 		IWETH9(WETH).deposit{value: amount}();
 
 		/// @dev Now transfer WETH
-		assert(IERC20(WETH).transfer(target, amount));
+		if (!IERC20(WETH).transfer(target, amount)) {
+			revert Errors.TransferFailed(WETH, address(this), target, amount);
+		}
 	}
 
 	/// @notice Unwrap WETH for owner
@@ -41,7 +46,7 @@ contract Etherman is Ownable {
 		external
 		onlyOwner
 	{
-		assert(amount > 0);
+		if (amount == 0) revert Errors.ZeroAmount();
 
 		/// @dev Deposit ERC-20 of WETH
 		IWETH9(WETH).transferFrom(msg.sender, address(this), amount);
@@ -50,7 +55,7 @@ contract Etherman is Ownable {
 		IWETH9(WETH).withdraw(amount);
 
 		(bool success, ) = target.call{value: amount}("");
-		require(success, "Error: cannot unwrap WETH");
+		if (!success) revert Errors.NativeTransferFailed(target, amount);
 	}
 
 	/// @dev To receive
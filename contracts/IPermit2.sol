@@ -0,0 +1,40 @@
+pragma solidity >=0.8.17;
+
+/**
+ * @notice Signature transfers of Uniswap Permit2, only the batch transfer used by HamsterSwap.
+ * Owners approve their tokens to Permit2 once, then sign each transfer.
+ **/
+interface ISignatureTransfer {
+	/**
+	 * @dev Define token and amount that the spender may transfer
+	 */
+	struct TokenPermissions {
+		address token;
+		uint256 amount;
+	}
+
+	/**
+	 * @dev Define the signed permit of a batch transfer
+	 */
+	struct PermitBatchTransferFrom {
+		TokenPermissions[] permitted;
+		uint256 nonce;
+		uint256 deadline;
+	}
+
+	/**
+	 * @dev Define the recipient and amount of a transfer, chosen by the spender
+	 */
+	struct SignatureTransferDetails {
+		address to;
+		uint256 requestedAmount;
+	}
+
+	/// @notice Transfer tokens of the owner with a signed permit, the spender is the sender
+	function permitTransferFrom(
+		PermitBatchTransferFrom memory permit,
+		SignatureTransferDetails[] calldata transferDetails,
+		address owner,
+		bytes calldata signature
+	) external;
+}
@@ -0,0 +1,148 @@
+pragma solidity >=0.8.17;
+
+import "./Entity.sol";
+import "./ProposalIndexes.sol";
+import "./Proposals.sol";
+
+/**
+ * @notice Storage migrations of HamsterSwap, linked as an external library to keep the swap under the contract size limit.
+ **/
+library Migrations {
+	/** @dev Events, mirrored in HamsterSwap */
+	event ProposalMigrated(string id, address actor, uint256 timestamp);
+
+	/**
+	 * @dev Copy legacy proposals along with their counter-offers into the records keyed by bytes32,
+	 * unknown and already migrated proposals are skipped so that batches can be sent again.
+	 * The legacy records are left untouched, expiries beyond the stored timestamp are capped.
+	 * Proposals recorded before the indexes are indexed along, see `ProposalIndexes.backfill`.
+	 * @param legacyProposals: the proposals recorded under their string id
+	 * @param legacyCounterOffers: the counter-offers recorded under their string id
+	 * @param proposals: the proposals keyed by bytes32, see `Proposals.keyOf`
+	 * @param counterOffers: the counter-offers keyed by bytes32
+	 * @param proposalIndex: the proposal indexes
+	 * @param ids: ids of the proposals to migrate
+	 */
+	function migrateProposals(
+		mapping(string => Entity.LegacyProposal) storage legacyProposals,
+		mapping(string => Entity.LegacyCounterOffer)
+			storage legacyCounterOffers,
+		mapping(bytes32 => Entity.Proposal) storage proposals,
+		mapping(bytes32 => Entity.CounterOffer) storage counterOffers,
+		Entity.ProposalIndex storage proposalIndex,
+		string[] memory ids
+	) external {
+		for (uint256 i = 0; i < ids.length; i++) {
+			Entity.LegacyProposal storage legacy = legacyProposals[ids[i]];
+			bytes32 key = Proposals.keyOf(ids[i]);
+			Entity.Proposal storage proposal = proposals[key];
+
+			if (bytes(legacy.id).length == 0 || bytes(proposal.id).length > 0) {
+				continue;
+			}
+
+			proposal.id = legacy.id;
+			proposal.owner = legacy.owner;
+			proposal.expiredAt = toExpiredAt(legacy.expiredAt);
+			proposal.status = legacy.status;
+			proposal.fillable = legacy.fillable;
+			proposal.fulfilledBy = legacy.fulfilledBy;
+			proposal.allowedFulfillers = legacy.allowedFulfillers;
+			proposal.remainingAmounts = legacy.remainingAmounts;
+
+			copyItems(legacy.offeredItems, proposal.offeredItems);
+
+			/**
+			 * @dev The option or counter-offer the proposal is fulfilled by is recorded by its position
+			 */
+			bytes32 fulfilledByKey;
+			if (bytes(legacy.fulfilledByOptionId).length > 0) {
+				fulfilledByKey = Proposals.keyOf(legacy.fulfilledByOptionId);
+			}
+
+			for (uint256 j = 0; j < legacy.swapOptions.length; j++) {
+				Entity.PackedSwapOption storage option = proposal
+					.swapOptions
+					.push();
+				option.id = legacy.swapOptions[j].id;
+				copyItems(
+					legacy.swapOptions[j].askingItems,
+					option.askingItems
+				);
+
+				bytes32 optionKey = Proposals.keyOf(option.id);
+				proposal.optionPositions[optionKey] = j + 1;
+				if (optionKey == fulfilledByKey) {
+					proposal.fulfilledByOption = uint32(j + 1);
+				}
+			}
+
+			for (uint256 j = 0; j < legacy.counterOfferIds.length; j++) {
+				string storage counterOfferId = legacy.counterOfferIds[j];
+				bytes32 counterOfferKey = Proposals.keyOf(counterOfferId);
+
+				proposal.counterOfferIds.push(counterOfferId);
+				migrateCounterOffer(
+					legacyCounterOffers[counterOfferId],
+					counterOffers[counterOfferKey],
+					key,
+					j + 1
+				);
+				if (counterOfferKey == fulfilledByKey) {
+					proposal.fulfilledByCounterOffer = uint32(j + 1);
+				}
+			}
+
+			ProposalIndexes.backfill(proposalIndex, proposal);
+
+			emit ProposalMigrated(proposal.id, msg.sender, block.timestamp);
+		}
+	}
+
+	/**
+	 * @dev Copy a legacy counter-offer
+	 */
+	function migrateCounterOffer(
+		Entity.LegacyCounterOffer storage legacy,
+		Entity.CounterOffer storage counterOffer,
+		bytes32 proposalKey,
+		uint256 position
+	) private {
+		counterOffer.id = legacy.id;
+		counterOffer.proposalKey = proposalKey;
+		counterOffer.owner = legacy.owner;
+		counterOffer.expiredAt = toExpiredAt(legacy.expiredAt);
+		counterOffer.status = legacy.status;
+		counterOffer.position = uint32(position);
+
+		copyItems(legacy.offeredItems, counterOffer.offeredItems);
+	}
+
+	/**
+	 * @dev Copy legacy items, their owner follows from where they are held
+	 */
+	function copyItems(
+		Entity.SwapItem[] storage legacyItems,
+		Entity.PackedSwapItem[] storage items
+	) private {
+		for (uint256 i = 0; i < legacyItems.length; i++) {
+			Entity.SwapItem storage legacyItem = legacyItems[i];
+			Entity.PackedSwapItem storage item = items.push();
+
+			item.id = legacyItem.id;
+			item.contractAddress = legacyItem.contractAddress;
+			item.itemType = legacyItem.itemType;
+			item.status = legacyItem.status;
+			item.amount = legacyItem.amount;
+			item.tokenId = legacyItem.tokenId;
+		}
+	}
+
+	/**
+	 * @dev Cap a legacy expiry to the stored timestamp
+	 */
+	function toExpiredAt(uint256 expiredAt) private pure returns (uint48) {
+		return
+			expiredAt > type(uint48).max ? type(uint48).max : uint48(expiredAt);
+	}
+}
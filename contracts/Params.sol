@@ -31,4 +31,52 @@ library Params {
 		SwapItemParams[] offeredItems;
 		SwapOptionParams[] swapOptions;
 	}
+
+	/**
+	 * @dev Define proposal update
+	 */
+	struct ProposalUpdateParams {
+		uint256 expiredAt;
+		SwapOptionParams[] addedSwapOptions;
+		string[] removedOptionIds;
+	}
+
+	/**
+	 * @dev Define counter-offer
+	 */
+	struct CounterOfferParams {
+		string id;
+		string proposalId;
+		uint256 expiredAt;
+		SwapItemParams[] offeredItems;
+	}
+
+	/**
+	 * @dev Define the token chosen by the buyer for a collection-wide asking item, the proof is only used for trait sets
+	 */
+	struct AskingTokenParams {
+		uint256 tokenId;
+		bytes32[] proof;
+	}
+
+	/**
+	 * @dev Define a fulfillment of a batch, the proposal and the option it is fulfilled with
+	 */
+	struct FulfillmentParams {
+		string proposalId;
+		string optionId;
+	}
+
+	/**
+	 * @dev Define proposal signed off-chain by its owner, items stay in the owner wallet until fulfilled
+	 */
+	struct SignedProposalParams {
+		string id;
+		address owner;
+		uint256 expiredAt;
+		uint256 nonce;
+		SwapItemParams[] offeredItems;
+		SwapOptionParams[] swapOptions;
+		address[] allowedFulfillers;
+	}
 }
@@ -0,0 +1,131 @@
+pragma solidity >=0.8.17;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/draft-IERC20Permit.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+
+import "./Errors.sol";
+import "./IPermit2.sol";
+
+/**
+ * @notice Signature based currency allowances of HamsterSwap, EIP-2612 permits and Permit2 signature transfers,
+ * linked as an external library to keep the swap under the contract size limit.
+ * Functions are delegatecalled, so `address(this)` is the swap vault.
+ **/
+library Permits {
+	/**
+	 * @dev Canonical Permit2 deployment, same address on every chain it is deployed to,
+	 * `permit2Call` reverts with `Permit2Unavailable` on the other ones
+	 */
+	address internal constant PERMIT2 =
+		0x000000000022D473030F116dDEE9F6B43aC78BA3;
+
+	/**
+	 * @dev Give the swap an EIP-2612 allowance of the sender
+	 * @param token: the currency that supports EIP-2612
+	 * @param value: the allowance
+	 * @param deadline: the permit deadline
+	 */
+	function selfPermit(
+		address token,
+		uint256 value,
+		uint256 deadline,
+		uint8 v,
+		bytes32 r,
+		bytes32 s
+	) external {
+		try
+			IERC20Permit(token).permit(
+				msg.sender,
+				address(this),
+				value,
+				deadline,
+				v,
+				r,
+				s
+			)
+		{} catch {
+			/// @dev The permit may have been submitted by someone else already
+			if (IERC20(token).allowance(msg.sender, address(this)) < value) {
+				revert Errors.PermitFailed(token, msg.sender);
+			}
+		}
+	}
+
+	/**
+	 * @dev Pull the permitted currencies of the sender into the vault, then delegatecall the swap with data.
+	 * Currency items pulled from the sender are paid out of the credits while the call runs, they must all be spent.
+	 * @param tokens: the permitted currencies
+	 * @param amounts: the permitted amount of each currency, all of it is transferred
+	 * @param nonce: the Permit2 nonce
+	 * @param deadline: the Permit2 deadline
+	 * @param signature: the Permit2 signature of the sender
+	 * @param data: the encoded swap call
+	 * @param credits: the swap credits, per owner and token
+	 * @return result the data returned by the call
+	 */
+	function permit2Call(
+		address[] memory tokens,
+		uint256[] memory amounts,
+		uint256 nonce,
+		uint256 deadline,
+		bytes memory signature,
+		bytes memory data,
+		mapping(address => mapping(address => uint256)) storage credits
+	) external returns (bytes memory result) {
+		if (tokens.length != amounts.length) {
+			revert Errors.AmountMismatch(tokens.length, amounts.length);
+		}
+		if (PERMIT2.code.length == 0) revert Errors.Permit2Unavailable(PERMIT2);
+
+		ISignatureTransfer.TokenPermissions[]
+			memory permitted = new ISignatureTransfer.TokenPermissions[](
+				tokens.length
+			);
+		ISignatureTransfer.SignatureTransferDetails[]
+			memory transferDetails = new ISignatureTransfer.SignatureTransferDetails[](
+				tokens.length
+			);
+
+		for (uint256 i = 0; i < tokens.length; i++) {
+			permitted[i] = ISignatureTransfer.TokenPermissions(
+				tokens[i],
+				amounts[i]
+			);
+			transferDetails[i] = ISignatureTransfer.SignatureTransferDetails(
+				address(this),
+				amounts[i]
+			);
+			credits[msg.sender][tokens[i]] += amounts[i];
+		}
+
+		ISignatureTransfer(PERMIT2).permitTransferFrom(
+			ISignatureTransfer.PermitBatchTransferFrom(
+				permitted,
+				nonce,
+				deadline
+			),
+			transferDetails,
+			msg.sender,
+			signature
+		);
+
+		bool success;
+		(success, result) = address(this).delegatecall(data);
+		result = Address.verifyCallResult(
+			success,
+			result,
+			"Permits: call failed"
+		);
+
+		/**
+		 * @dev Nothing must be left in the vault on behalf of the sender
+		 */
+		for (uint256 i = 0; i < tokens.length; i++) {
+			uint256 unused = credits[msg.sender][tokens[i]];
+			if (unused > 0) {
+				revert Errors.UnusedPermit2Amount(tokens[i], unused);
+			}
+		}
+	}
+}
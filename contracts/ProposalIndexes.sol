@@ -0,0 +1,244 @@
+pragma solidity >=0.8.17;
+
+import "./Entity.sol";
+
+/**
+ * @notice Enumerable proposal indexes of HamsterSwap, kept up to date by `Proposals` and read through the linked `encodeIds`.
+ **/
+library ProposalIndexes {
+	/**
+	 * @dev Index a newly recorded proposal, it is listed per collection while deposited
+	 * @param index: the index storage
+	 * @param proposal: the proposal storage
+	 */
+	function add(
+		Entity.ProposalIndex storage index,
+		Entity.Proposal storage proposal
+	) internal {
+		index.ids.push(proposal.id);
+		index.ownerIds[proposal.owner].push(proposal.id);
+
+		index.indexedStatuses[proposal.id] = proposal.status;
+		index.statusIds[proposal.status].push(proposal.id);
+		index.statusPositions[proposal.id] = index
+			.statusIds[proposal.status]
+			.length;
+
+		if (proposal.status == Entity.ProposalStatus.Deposited) {
+			addCollections(index, proposal);
+		}
+	}
+
+	/**
+	 * @dev Index a proposal recorded before the indexes in its current status, along with its fulfiller,
+	 * proposals already indexed are skipped
+	 * @param index: the index storage
+	 * @param proposal: the proposal storage
+	 */
+	function backfill(
+		Entity.ProposalIndex storage index,
+		Entity.Proposal storage proposal
+	) internal {
+		if (index.statusPositions[proposal.id] != 0) return;
+
+		add(index, proposal);
+
+		address fulfiller = proposal.fulfilledBy;
+		if (fulfiller != address(0)) {
+			index.isFulfilledBy[fulfiller][proposal.id] = true;
+			index.fulfillerIds[fulfiller].push(proposal.id);
+		}
+	}
+
+	/**
+	 * @dev Bring the indexes up to date after a proposal changed
+	 * @param index: the index storage
+	 * @param proposal: the proposal storage
+	 * @param fulfiller: the address that redeemed or filled the proposal, zero if none
+	 */
+	function sync(
+		Entity.ProposalIndex storage index,
+		Entity.Proposal storage proposal,
+		address fulfiller
+	) internal {
+		string memory id = proposal.id;
+
+		/**
+		 * @dev Record the fulfiller once, fillable proposals can be filled many times by the same buyer
+		 */
+		if (fulfiller != address(0) && !index.isFulfilledBy[fulfiller][id]) {
+			index.isFulfilledBy[fulfiller][id] = true;
+			index.fulfillerIds[fulfiller].push(id);
+		}
+
+		Entity.ProposalStatus indexedStatus = index.indexedStatuses[id];
+		if (indexedStatus == proposal.status) return;
+
+		/**
+		 * @dev Move the proposal to the list of its new status
+		 */
+		removeId(
+			index.statusIds[indexedStatus],
+			index.statusPositions,
+			index.statusPositions[id]
+		);
+		index.indexedStatuses[id] = proposal.status;
+		index.statusIds[proposal.status].push(id);
+		index.statusPositions[id] = index.statusIds[proposal.status].length;
+
+		/**
+		 * @dev Closed proposals are no longer listed per collection
+		 */
+		if (proposal.status != Entity.ProposalStatus.Deposited) {
+			removeCollections(index, proposal);
+		}
+	}
+
+	/**
+	 * @dev ABI-encode a page of the proposal ids of an index with the amount of ids it holds, see `HamsterSwap.getProposalIds`
+	 * @param index: the index storage
+	 * @param indexType: the index to read
+	 * @param key: the owner, fulfiller or collection address, ignored otherwise
+	 * @param status: the status to list, ignored unless listing by status
+	 * @param offset: the amount of ids to skip
+	 * @param limit: the maximum amount of ids to return
+	 */
+	function encodeIds(
+		Entity.ProposalIndex storage index,
+		Entity.ProposalIndexType indexType,
+		address key,
+		Entity.ProposalStatus status,
+		uint256 offset,
+		uint256 limit
+	) external view returns (bytes memory) {
+		string[] storage source = index.ids;
+
+		if (indexType == Entity.ProposalIndexType.Owner) {
+			source = index.ownerIds[key];
+		} else if (indexType == Entity.ProposalIndexType.Fulfiller) {
+			source = index.fulfillerIds[key];
+		} else if (indexType == Entity.ProposalIndexType.Status) {
+			source = index.statusIds[status];
+		} else if (indexType == Entity.ProposalIndexType.Collection) {
+			source = index.collectionIds[key];
+		}
+
+		uint256 total = source.length;
+		uint256 end = offset + limit > total ? total : offset + limit;
+		string[] memory ids = new string[](end > offset ? end - offset : 0);
+
+		for (uint256 i = 0; i < ids.length; i++) {
+			ids[i] = source[offset + i];
+		}
+
+		return abi.encode(ids, total);
+	}
+
+	/**
+	 * @dev List the proposal under the contract addresses of all its items
+	 */
+	function addCollections(
+		Entity.ProposalIndex storage index,
+		Entity.Proposal storage proposal
+	) internal {
+		for (uint256 i = 0; i < proposal.offeredItems.length; i++) {
+			addCollection(
+				index,
+				proposal.offeredItems[i].contractAddress,
+				proposal.id
+			);
+		}
+
+		for (uint256 i = 0; i < proposal.swapOptions.length; i++) {
+			Entity.PackedSwapItem[] storage askingItems = proposal
+				.swapOptions[i]
+				.askingItems;
+
+			for (uint256 j = 0; j < askingItems.length; j++) {
+				addCollection(
+					index,
+					askingItems[j].contractAddress,
+					proposal.id
+				);
+			}
+		}
+	}
+
+	/**
+	 * @dev Remove the proposal from the lists of all its items
+	 */
+	function removeCollections(
+		Entity.ProposalIndex storage index,
+		Entity.Proposal storage proposal
+	) internal {
+		for (uint256 i = 0; i < proposal.offeredItems.length; i++) {
+			removeCollection(
+				index,
+				proposal.offeredItems[i].contractAddress,
+				proposal.id
+			);
+		}
+
+		for (uint256 i = 0; i < proposal.swapOptions.length; i++) {
+			Entity.PackedSwapItem[] storage askingItems = proposal
+				.swapOptions[i]
+				.askingItems;
+
+			for (uint256 j = 0; j < askingItems.length; j++) {
+				removeCollection(
+					index,
+					askingItems[j].contractAddress,
+					proposal.id
+				);
+			}
+		}
+	}
+
+	/**
+	 * @dev List the proposal under a contract address, once
+	 */
+	function addCollection(
+		Entity.ProposalIndex storage index,
+		address collection,
+		string memory id
+	) private {
+		if (index.collectionPositions[collection][id] != 0) return;
+
+		index.collectionIds[collection].push(id);
+		index.collectionPositions[collection][id] = index
+			.collectionIds[collection]
+			.length;
+	}
+
+	/**
+	 * @dev Remove the proposal from the list of a contract address, if listed
+	 */
+	function removeCollection(
+		Entity.ProposalIndex storage index,
+		address collection,
+		string memory id
+	) private {
+		removeId(
+			index.collectionIds[collection],
+			index.collectionPositions[collection],
+			index.collectionPositions[collection][id]
+		);
+	}
+
+	/**
+	 * @dev Swap an id with the last one and pop it, positions are 1-based
+	 */
+	function removeId(
+		string[] storage ids,
+		mapping(string => uint256) storage positions,
+		uint256 position
+	) private {
+		if (position == 0) return;
+
+		string storage lastId = ids[ids.length - 1];
+		positions[lastId] = position;
+		delete positions[ids[position - 1]];
+		ids[position - 1] = lastId;
+		ids.pop();
+	}
+}
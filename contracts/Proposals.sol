@@ -0,0 +1,1217 @@
+pragma solidity >=0.8.17;
+
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+import "./Entity.sol";
+import "./Errors.sol";
+import "./Params.sol";
+import "./ProposalIndexes.sol";
+
+/**
+ * @notice Proposal bookkeeping of HamsterSwap, linked as an external library to keep the swap under the contract size limit.
+ **/
+library Proposals {
+	/**
+	 * @dev Define the swap constraints
+	 */
+	struct Limits {
+		uint256 maxAllowedItems;
+		uint256 maxAllowedOptions;
+	}
+
+	/** @dev Events, mirrored in HamsterSwap */
+	event SignedProposalFulfilled(
+		bytes32 digest,
+		string id,
+		address owner,
+		address actor,
+		uint256 timestamp,
+		string optionId
+	);
+
+	event ProposalRedeemed(
+		string id,
+		address actor,
+		uint256 timestamp,
+		string optionId
+	);
+
+	event ProposalFulfillersUpdated(
+		string id,
+		address actor,
+		uint256 timestamp,
+		address[] allowedFulfillers
+	);
+
+	event CounterOfferCreated(
+		string id,
+		string proposalId,
+		address actor,
+		uint256 timestamp
+	);
+
+	event CounterOfferAccepted(
+		string id,
+		string proposalId,
+		address actor,
+		uint256 timestamp
+	);
+
+	event CounterOfferWithdrawn(
+		string id,
+		string proposalId,
+		address actor,
+		uint256 timestamp
+	);
+
+	/**
+	 * @dev Validate and record a proposal with its options and items, all ids are registered as used
+	 * @param proposal: the proposal storage
+	 * @param uniqueStringRegistry: the swap id registry
+	 * @param whitelist: the swap whitelist
+	 * @param proposalIndex: the proposal indexes
+	 * @param params: the proposal params
+	 * @param owner: the proposal owner
+	 * @param limits: the swap constraints
+	 */
+	function store(
+		Entity.Proposal storage proposal,
+		mapping(string => bool) storage uniqueStringRegistry,
+		Entity.Whitelist storage whitelist,
+		Entity.ProposalIndex storage proposalIndex,
+		Params.ProposalParams memory params,
+		address owner,
+		Limits memory limits
+	) external {
+		record(proposal, whitelist, params, owner, limits);
+
+		/**
+		 * @dev Avoid duplicated ids to be recorded in.
+		 */
+		registerUniqueId(uniqueStringRegistry, params.id);
+		registerOptionIds(uniqueStringRegistry, params.swapOptions);
+		registerItemIds(uniqueStringRegistry, params.offeredItems);
+
+		ProposalIndexes.add(proposalIndex, proposal);
+	}
+
+	/**
+	 * @dev Record a signed proposal and redeem it with one of its options, items are not transferred.
+	 * It is keyed by its digest, so its ids are not registered and it is not indexed.
+	 * @param proposal: the storage under the digest of the signed proposal
+	 * @param whitelist: the swap whitelist
+	 * @param params: the signed proposal
+	 * @param digest: the digest that the owner signed
+	 * @param optionId: the option the proposal is redeemed with
+	 * @param buyer: the address that redeems the proposal
+	 * @param limits: the swap constraints
+	 * @return option the option the proposal is redeemed with
+	 */
+	function redeemSigned(
+		Entity.Proposal storage proposal,
+		Entity.Whitelist storage whitelist,
+		Params.SignedProposalParams memory params,
+		bytes32 digest,
+		string memory optionId,
+		address buyer,
+		Limits memory limits
+	) external returns (Entity.PackedSwapOption storage option) {
+		record(
+			proposal,
+			whitelist,
+			Params.ProposalParams(
+				params.id,
+				params.expiredAt,
+				params.offeredItems,
+				params.swapOptions
+			),
+			params.owner,
+			limits
+		);
+		proposal.allowedFulfillers = params.allowedFulfillers;
+
+		option = redeemOption(
+			proposal,
+			optionId,
+			buyer,
+			new Params.AskingTokenParams[](0)
+		);
+		proposal.status = Entity.ProposalStatus.Redeemed;
+		proposal.fulfilledBy = buyer;
+
+		emit SignedProposalFulfilled(
+			digest,
+			params.id,
+			params.owner,
+			msg.sender,
+			block.timestamp,
+			optionId
+		);
+	}
+
+	/**
+	 * @dev Validate and apply an update of a deposited proposal, removed options are swapped with the last one
+	 * @param proposal: the proposal storage
+	 * @param uniqueStringRegistry: the swap id registry
+	 * @param whitelist: the swap whitelist
+	 * @param proposalIndex: the proposal indexes
+	 * @param params: the update params
+	 * @param maxAllowedOptions: maximum amount of allowed options
+	 */
+	function update(
+		Entity.Proposal storage proposal,
+		mapping(string => bool) storage uniqueStringRegistry,
+		Entity.Whitelist storage whitelist,
+		Entity.ProposalIndex storage proposalIndex,
+		Params.ProposalUpdateParams memory params,
+		uint256 maxAllowedOptions
+	) external {
+		/**
+		 * @dev The expiry can only be extended
+		 */
+		if (params.expiredAt < proposal.expiredAt) {
+			revert Errors.InvalidExpiredAt(params.expiredAt);
+		}
+		proposal.expiredAt = toExpiredAt(params.expiredAt);
+
+		/**
+		 * @dev The collections are listed again once the options are updated
+		 */
+		ProposalIndexes.removeCollections(proposalIndex, proposal);
+
+		/**
+		 * @dev Remove options, their ids stay registered
+		 */
+		for (uint256 i = 0; i < params.removedOptionIds.length; i++) {
+			uint256 position = findSwapOption(
+				proposal,
+				params.removedOptionIds[i]
+			);
+			uint256 lastPosition = proposal.swapOptions.length;
+			delete proposal.optionPositions[keyOf(params.removedOptionIds[i])];
+
+			/**
+			 * @dev The last option takes the place of the removed one
+			 */
+			if (position != lastPosition) {
+				Entity.PackedSwapOption storage option = proposal.swapOptions[
+					position - 1
+				];
+				Entity.PackedSwapOption storage lastOption = proposal
+					.swapOptions[lastPosition - 1];
+
+				option.id = lastOption.id;
+				delete option.askingItems;
+				for (uint256 j = 0; j < lastOption.askingItems.length; j++) {
+					option.askingItems.push(lastOption.askingItems[j]);
+				}
+				proposal.optionPositions[keyOf(lastOption.id)] = position;
+			}
+
+			proposal.swapOptions.pop();
+		}
+
+		/**
+		 * @dev Add options
+		 */
+		for (uint256 i = 0; i < params.addedSwapOptions.length; i++) {
+			storeSwapOption(proposal, whitelist, params.addedSwapOptions[i]);
+
+			/**
+			 * @dev Options of a fillable proposal must ask for currencies only
+			 */
+			if (proposal.fillable) {
+				Params.SwapItemParams[] memory askingItems = params
+					.addedSwapOptions[i]
+					.askingItems;
+
+				for (uint256 j = 0; j < askingItems.length; j++) {
+					if (
+						askingItems[j].itemType != Entity.SwapItemType.Currency
+					) {
+						revert Errors.NotFillable(proposal.id);
+					}
+				}
+			}
+		}
+
+		if (proposal.swapOptions.length > maxAllowedOptions) {
+			revert Errors.TooManyOptions(
+				proposal.swapOptions.length,
+				maxAllowedOptions
+			);
+		}
+
+		registerOptionIds(uniqueStringRegistry, params.addedSwapOptions);
+
+		ProposalIndexes.addCollections(proposalIndex, proposal);
+	}
+
+	/**
+	 * @dev Validate and record a counter-offer with its items, all ids are registered as used
+	 * @param counterOffer: the counter-offer storage
+	 * @param proposal: the storage of the proposal that the counter-offer targets
+	 * @param uniqueStringRegistry: the swap id registry
+	 * @param whitelist: the swap whitelist
+	 * @param params: the counter-offer params
+	 * @param owner: the buyer that makes the counter-offer
+	 * @param maxAllowedItems: maximum amount of allowed items
+	 */
+	function storeCounterOffer(
+		Entity.CounterOffer storage counterOffer,
+		Entity.Proposal storage proposal,
+		mapping(string => bool) storage uniqueStringRegistry,
+		Entity.Whitelist storage whitelist,
+		Params.CounterOfferParams memory params,
+		address owner,
+		uint256 maxAllowedItems
+	) external {
+		/**
+		 * @dev The buyer must be able to fulfill the proposal
+		 */
+		requireRedeemable(proposal, owner);
+
+		/**
+		 * @dev Must be unique id
+		 */
+		if (bytes(params.id).length == 0) revert Errors.EmptyId();
+		registerUniqueId(uniqueStringRegistry, params.id);
+
+		/**
+		 * @dev Require constraints
+		 */
+		if (params.offeredItems.length > maxAllowedItems) {
+			revert Errors.TooManyItems(
+				params.offeredItems.length,
+				maxAllowedItems
+			);
+		}
+
+		/**
+		 * @dev Assign counter-offer
+		 */
+		proposal.counterOfferIds.push(params.id);
+
+		counterOffer.id = params.id;
+		counterOffer.proposalKey = keyOf(params.proposalId);
+		counterOffer.expiredAt = toExpiredAt(params.expiredAt);
+		counterOffer.owner = owner;
+		counterOffer.status = Entity.CounterOfferStatus.Deposited;
+		counterOffer.position = uint32(proposal.counterOfferIds.length);
+
+		storeOfferedItems(
+			counterOffer.offeredItems,
+			whitelist,
+			params.offeredItems
+		);
+		registerItemIds(uniqueStringRegistry, params.offeredItems);
+
+		emit CounterOfferCreated(
+			params.id,
+			params.proposalId,
+			owner,
+			block.timestamp
+		);
+	}
+
+	/**
+	 * @dev Accept a deposited counter-offer, the proposal is redeemed with the counter-offer id as option, items are not transferred
+	 * @param counterOffer: the counter-offer storage
+	 * @param proposal: the storage of the proposal that the counter-offer targets
+	 * @param proposalIndex: the proposal indexes
+	 */
+	function acceptCounterOffer(
+		Entity.CounterOffer storage counterOffer,
+		Entity.Proposal storage proposal,
+		Entity.ProposalIndex storage proposalIndex
+	) external {
+		requireCounterOfferDeposited(counterOffer);
+
+		/**
+		 * @dev Only the proposal owner can accept counter-offers.
+		 */
+		if (proposal.owner != msg.sender) {
+			revert Errors.NotProposalOwner(proposal.id, msg.sender);
+		}
+
+		/**
+		 * @dev The counter-offer must be still in time window.
+		 */
+		if (counterOffer.expiredAt <= block.timestamp) {
+			revert Errors.CounterOfferExpired(
+				counterOffer.id,
+				counterOffer.expiredAt
+			);
+		}
+
+		/**
+		 * @dev The proposal must be still redeemable by the buyer.
+		 */
+		requireRedeemable(proposal, counterOffer.owner);
+
+		/**
+		 * @dev Adjust values
+		 */
+		counterOffer.status = Entity.CounterOfferStatus.Accepted;
+		proposal.fulfilledByCounterOffer = counterOffer.position;
+		close(
+			proposal,
+			proposalIndex,
+			Entity.ProposalStatus.Redeemed,
+			counterOffer.owner
+		);
+
+		emit CounterOfferAccepted(
+			counterOffer.id,
+			proposal.id,
+			msg.sender,
+			block.timestamp
+		);
+		emit ProposalRedeemed(
+			proposal.id,
+			msg.sender,
+			block.timestamp,
+			counterOffer.id
+		);
+	}
+
+	/**
+	 * @dev Withdraw a deposited counter-offer, only its owner can withdraw it, items are not transferred
+	 * @param counterOffer: the counter-offer storage
+	 * @param proposal: the storage of the proposal that the counter-offer targets
+	 */
+	function withdrawCounterOffer(
+		Entity.CounterOffer storage counterOffer,
+		Entity.Proposal storage proposal
+	) external {
+		requireCounterOfferDeposited(counterOffer);
+
+		if (counterOffer.owner != msg.sender) {
+			revert Errors.NotCounterOfferOwner(counterOffer.id, msg.sender);
+		}
+
+		counterOffer.status = Entity.CounterOfferStatus.Withdrawn;
+
+		emit CounterOfferWithdrawn(
+			counterOffer.id,
+			proposal.id,
+			msg.sender,
+			block.timestamp
+		);
+	}
+
+	/**
+	 * @dev Store the allowed fulfillers of a proposal and emit event
+	 * @param proposal: the proposal storage
+	 * @param allowedFulfillers: addresses that can fulfill the proposal, empty to make it public
+	 */
+	function setAllowedFulfillers(
+		Entity.Proposal storage proposal,
+		address[] memory allowedFulfillers
+	) external {
+		proposal.allowedFulfillers = allowedFulfillers;
+
+		emit ProposalFulfillersUpdated(
+			proposal.id,
+			msg.sender,
+			block.timestamp,
+			allowedFulfillers
+		);
+	}
+
+	/**
+	 * @dev Make a recorded proposal fillable, all of its items must be currencies
+	 * @param proposal: the proposal storage
+	 */
+	function makeFillable(Entity.Proposal storage proposal) external {
+		if (proposal.offeredItems.length == 0) {
+			revert Errors.NotFillable(proposal.id);
+		}
+
+		for (uint256 i = 0; i < proposal.offeredItems.length; i++) {
+			if (
+				proposal.offeredItems[i].itemType !=
+				Entity.SwapItemType.Currency ||
+				proposal.offeredItems[i].amount == 0
+			) {
+				revert Errors.NotFillable(proposal.id);
+			}
+
+			proposal.remainingAmounts.push(proposal.offeredItems[i].amount);
+		}
+
+		for (uint256 i = 0; i < proposal.swapOptions.length; i++) {
+			Entity.PackedSwapItem[] storage askingItems = proposal
+				.swapOptions[i]
+				.askingItems;
+
+			for (uint256 j = 0; j < askingItems.length; j++) {
+				if (askingItems[j].itemType != Entity.SwapItemType.Currency) {
+					revert Errors.NotFillable(proposal.id);
+				}
+			}
+		}
+
+		proposal.fillable = true;
+	}
+
+	/**
+	 * @dev Record a fill of a fillable proposal that the buyer can redeem, fills are measured in the first offered item.
+	 * Offered amounts are rounded down and asking amounts are rounded up so that the vault never over-pays,
+	 * the fill that takes what remains of the first offered item takes what remains of the others too
+	 * and redeems the proposal.
+	 * @param proposal: the proposal storage
+	 * @param proposalIndex: the proposal indexes
+	 * @param optionId: the option the proposal is filled with
+	 * @param buyer: the address that fills the proposal
+	 * @param fillAmount: the amount of the first offered item to be taken, must not exceed what remains
+	 * @return option the option the proposal is filled with
+	 * @return offeredAmounts the amounts of the offered items to be paid out to the buyer
+	 * @return askingAmounts the amounts of the asking items to be paid by the buyer
+	 */
+	function fill(
+		Entity.Proposal storage proposal,
+		Entity.ProposalIndex storage proposalIndex,
+		string memory optionId,
+		address buyer,
+		uint256 fillAmount
+	)
+		external
+		returns (
+			Entity.PackedSwapOption storage option,
+			uint256[] memory offeredAmounts,
+			uint256[] memory askingAmounts
+		)
+	{
+		requireRedeemable(proposal, buyer);
+
+		uint256 position = findSwapOption(proposal, optionId);
+		option = proposal.swapOptions[position - 1];
+
+		uint256 totalAmount = proposal.offeredItems[0].amount;
+		uint256 remainingAmount = proposal.remainingAmounts[0];
+
+		if (fillAmount == 0 || fillAmount > remainingAmount) {
+			revert Errors.InvalidFillAmount(
+				proposal.id,
+				fillAmount,
+				remainingAmount
+			);
+		}
+
+		bool isFullyFilled = fillAmount == remainingAmount;
+
+		offeredAmounts = new uint256[](proposal.offeredItems.length);
+		for (uint256 i = 0; i < offeredAmounts.length; i++) {
+			offeredAmounts[i] = isFullyFilled
+				? proposal.remainingAmounts[i]
+				: (proposal.offeredItems[i].amount * fillAmount) / totalAmount;
+			proposal.remainingAmounts[i] -= offeredAmounts[i];
+		}
+
+		askingAmounts = new uint256[](option.askingItems.length);
+		for (uint256 i = 0; i < askingAmounts.length; i++) {
+			askingAmounts[i] = Math.ceilDiv(
+				option.askingItems[i].amount * fillAmount,
+				totalAmount
+			);
+		}
+
+		/**
+		 * @dev Adjust proposal value once fully filled.
+		 */
+		if (isFullyFilled) {
+			proposal.fulfilledBy = buyer;
+			proposal.fulfilledByOption = uint32(position);
+			proposal.status = Entity.ProposalStatus.Redeemed;
+
+			for (uint256 i = 0; i < proposal.offeredItems.length; i++) {
+				proposal.offeredItems[i].status = Entity
+					.SwapItemStatus
+					.Redeemed;
+			}
+		}
+
+		ProposalIndexes.sync(proposalIndex, proposal, buyer);
+	}
+
+	/**
+	 * @dev Close a deposited proposal, items are not transferred
+	 * @param proposal: the proposal storage
+	 * @param proposalIndex: the proposal indexes
+	 * @param status: the status that the proposal is closed with
+	 * @param fulfiller: the address that redeemed the proposal, zero if withdrawn or expired,
+	 * the option or counter-offer it is redeemed with is recorded by the caller
+	 */
+	function close(
+		Entity.Proposal storage proposal,
+		Entity.ProposalIndex storage proposalIndex,
+		Entity.ProposalStatus status,
+		address fulfiller
+	) public {
+		proposal.status = status;
+
+		if (fulfiller != address(0)) proposal.fulfilledBy = fulfiller;
+
+		ProposalIndexes.sync(proposalIndex, proposal, fulfiller);
+	}
+
+	/**
+	 * @dev Close a deposited proposal without a buyer, expired proposals must be out of their time window, items are not transferred
+	 * @param proposal: the proposal storage
+	 * @param proposalIndex: the proposal indexes
+	 * @param status: the status that the proposal is closed with, withdrawn or expired
+	 * @param forcible: whether the sender may withdraw a proposal it does not own
+	 * @return forced whether the proposal was withdrawn by someone else than its owner
+	 */
+	function withdraw(
+		Entity.Proposal storage proposal,
+		Entity.ProposalIndex storage proposalIndex,
+		Entity.ProposalStatus status,
+		bool forcible
+	) external returns (bool forced) {
+		if (
+			status == Entity.ProposalStatus.Withdrawn &&
+			proposal.owner != msg.sender
+		) {
+			if (!forcible) {
+				revert Errors.NotProposalOwner(proposal.id, msg.sender);
+			}
+			forced = true;
+		}
+
+		if (proposal.status != Entity.ProposalStatus.Deposited) {
+			revert Errors.InvalidProposalStatus(proposal.id, proposal.status);
+		}
+
+		if (
+			status == Entity.ProposalStatus.Expired &&
+			proposal.expiredAt > block.timestamp
+		) {
+			revert Errors.ProposalNotExpired(proposal.id, proposal.expiredAt);
+		}
+
+		close(proposal, proposalIndex, status, address(0));
+	}
+
+	/**
+	 * @dev Clear the remaining amounts of a fillable proposal that is closed and mark its offered items, items are not transferred
+	 * @param proposal: the proposal storage
+	 * @param status: the status of the offered items
+	 * @return remainingAmounts the amounts of the offered items that are left in the vault
+	 */
+	function releaseRemainingAmounts(
+		Entity.Proposal storage proposal,
+		Entity.SwapItemStatus status
+	) external returns (uint256[] memory remainingAmounts) {
+		remainingAmounts = proposal.remainingAmounts;
+		delete proposal.remainingAmounts;
+
+		for (uint256 i = 0; i < proposal.offeredItems.length; i++) {
+			proposal.offeredItems[i].status = status;
+		}
+	}
+
+	/**
+	 * @dev Redeem a proposal with one of its options once `requireRedeemable` passed, items are not transferred
+	 * @param proposal: the proposal storage
+	 * @param proposalIndex: the proposal indexes
+	 * @param optionId: the option the proposal is redeemed with
+	 * @param buyer: the address that redeems the proposal
+	 * @param askingTokens: the tokens chosen for the collection-wide asking items of the option, see `resolveAskingItems`
+	 * @return option the option the proposal is redeemed with
+	 */
+	function redeem(
+		Entity.Proposal storage proposal,
+		Entity.ProposalIndex storage proposalIndex,
+		string memory optionId,
+		address buyer,
+		Params.AskingTokenParams[] memory askingTokens
+	) external returns (Entity.PackedSwapOption storage option) {
+		option = redeemOption(proposal, optionId, buyer, askingTokens);
+		close(proposal, proposalIndex, Entity.ProposalStatus.Redeemed, buyer);
+	}
+
+	/**
+	 * @dev Bind the option a proposal is redeemed with once `requireRedeemable` passed, the caller closes the proposal
+	 */
+	function redeemOption(
+		Entity.Proposal storage proposal,
+		string memory optionId,
+		address buyer,
+		Params.AskingTokenParams[] memory askingTokens
+	) private returns (Entity.PackedSwapOption storage option) {
+		requireRedeemable(proposal, buyer);
+
+		uint256 position = findSwapOption(proposal, optionId);
+		option = proposal.swapOptions[position - 1];
+		resolveAskingItems(option.askingItems, askingTokens);
+
+		proposal.fulfilledByOption = uint32(position);
+	}
+
+	/**
+	 * @dev Resolve the collection-wide asking items to the tokens chosen by the buyer, tokens are matched
+	 * by index with the asking items and ignored for the other item types.
+	 * Token ids of a trait set are leaves of `keccak256(bytes.concat(keccak256(abi.encode(tokenId))))`.
+	 * @param askingItems: the asking items of the option
+	 * @param askingTokens: the tokens chosen by the buyer
+	 */
+	function resolveAskingItems(
+		Entity.PackedSwapItem[] storage askingItems,
+		Params.AskingTokenParams[] memory askingTokens
+	) private {
+		for (uint256 i = 0; i < askingItems.length; i++) {
+			Entity.PackedSwapItem storage item = askingItems[i];
+
+			if (
+				item.itemType != Entity.SwapItemType.NftCollection &&
+				item.itemType != Entity.SwapItemType.NftTraitSet
+			) continue;
+
+			if (i >= askingTokens.length) {
+				revert Errors.AskingTokenRequired(item.id);
+			}
+
+			uint256 tokenId = askingTokens[i].tokenId;
+
+			/**
+			 * @dev The token must be part of the committed trait set
+			 */
+			if (
+				item.itemType == Entity.SwapItemType.NftTraitSet &&
+				!MerkleProof.verify(
+					askingTokens[i].proof,
+					bytes32(item.tokenId),
+					keccak256(bytes.concat(keccak256(abi.encode(tokenId))))
+				)
+			) {
+				revert Errors.InvalidTokenProof(item.id, tokenId);
+			}
+
+			item.itemType = Entity.SwapItemType.Nft;
+			item.tokenId = tokenId;
+		}
+	}
+
+	/**
+	 * @dev ABI-encode the fields of a proposal that are not lists, see `HamsterSwap.proposals`
+	 * @param proposal: the proposal storage
+	 */
+	function encodeProposal(Entity.Proposal storage proposal)
+		external
+		view
+		returns (bytes memory)
+	{
+		/**
+		 * @dev The option or counter-offer the proposal is fulfilled by is read back by its position
+		 */
+		string memory fulfilledByOptionId;
+		if (proposal.fulfilledByOption != 0) {
+			fulfilledByOptionId = proposal
+				.swapOptions[proposal.fulfilledByOption - 1]
+				.id;
+		} else if (proposal.fulfilledByCounterOffer != 0) {
+			fulfilledByOptionId = proposal.counterOfferIds[
+				proposal.fulfilledByCounterOffer - 1
+			];
+		}
+
+		return
+			abi.encode(
+				proposal.id,
+				proposal.expiredAt,
+				proposal.owner,
+				proposal.fulfilledBy,
+				fulfilledByOptionId,
+				proposal.status,
+				proposal.fillable
+			);
+	}
+
+	/**
+	 * @dev ABI-encode the fields of a counter-offer that are not lists, see `HamsterSwap.counterOffers`
+	 * @param counterOffer: the counter-offer storage
+	 * @param proposal: the storage of the proposal that the counter-offer targets
+	 */
+	function encodeCounterOffer(
+		Entity.CounterOffer storage counterOffer,
+		Entity.Proposal storage proposal
+	) external view returns (bytes memory) {
+		return
+			abi.encode(
+				counterOffer.id,
+				proposal.id,
+				counterOffer.expiredAt,
+				counterOffer.owner,
+				counterOffer.status
+			);
+	}
+
+	/**
+	 * @dev ABI-encode the offered items and options of a proposal, see `HamsterSwap.getProposalItemsAndOptions`
+	 * @param proposal: the proposal storage
+	 */
+	function encodeItemsAndOptions(Entity.Proposal storage proposal)
+		external
+		view
+		returns (bytes memory)
+	{
+		Entity.SwapOption[] memory swapOptions = new Entity.SwapOption[](
+			proposal.swapOptions.length
+		);
+
+		for (uint256 i = 0; i < swapOptions.length; i++) {
+			swapOptions[i].id = proposal.swapOptions[i].id;
+			swapOptions[i].askingItems = unpackItems(
+				proposal.swapOptions[i].askingItems,
+				address(0),
+				proposal.fulfilledBy
+			);
+		}
+
+		return
+			abi.encode(
+				unpackItems(
+					proposal.offeredItems,
+					proposal.owner,
+					proposal.owner
+				),
+				swapOptions
+			);
+	}
+
+	/**
+	 * @dev ABI-encode the addresses allowed to fulfill a proposal, see `HamsterSwap.getProposalAllowedFulfillers`
+	 * @param proposal: the proposal storage
+	 */
+	function encodeAllowedFulfillers(Entity.Proposal storage proposal)
+		external
+		view
+		returns (bytes memory)
+	{
+		return abi.encode(proposal.allowedFulfillers);
+	}
+
+	/**
+	 * @dev ABI-encode the remaining amounts of a fillable proposal, see `HamsterSwap.getProposalRemainingAmounts`
+	 * @param proposal: the proposal storage
+	 */
+	function encodeRemainingAmounts(Entity.Proposal storage proposal)
+		external
+		view
+		returns (bytes memory)
+	{
+		return abi.encode(proposal.remainingAmounts);
+	}
+
+	/**
+	 * @dev ABI-encode the ids of the counter-offers made against a proposal, see `HamsterSwap.getProposalCounterOfferIds`
+	 * @param proposal: the proposal storage
+	 */
+	function encodeCounterOfferIds(Entity.Proposal storage proposal)
+		external
+		view
+		returns (bytes memory)
+	{
+		return abi.encode(proposal.counterOfferIds);
+	}
+
+	/**
+	 * @dev ABI-encode the offered items of a counter-offer, see `HamsterSwap.getCounterOfferItems`
+	 * @param counterOffer: the counter-offer storage
+	 */
+	function encodeCounterOfferItems(Entity.CounterOffer storage counterOffer)
+		external
+		view
+		returns (bytes memory)
+	{
+		return
+			abi.encode(
+				unpackItems(
+					counterOffer.offeredItems,
+					counterOffer.owner,
+					counterOffer.owner
+				)
+			);
+	}
+
+	/**
+	 * @dev Revert unless the proposal exists, is owned by the sender and is at deposited phase
+	 * @param proposal: the proposal storage
+	 * @param proposalId: the proposal id, reported when the proposal does not exist
+	 */
+	function requireOwnedDeposited(
+		Entity.Proposal storage proposal,
+		string memory proposalId
+	) external view {
+		if (bytes(proposal.id).length == 0) {
+			revert Errors.ProposalNotFound(proposalId);
+		}
+		if (proposal.owner != msg.sender) {
+			revert Errors.NotProposalOwner(proposal.id, msg.sender);
+		}
+		if (proposal.status != Entity.ProposalStatus.Deposited) {
+			revert Errors.InvalidProposalStatus(proposal.id, proposal.status);
+		}
+	}
+
+	/**
+	 * @dev Revert if the counter-offer is not at deposited phase
+	 * @param counterOffer: the counter-offer storage
+	 */
+	function requireCounterOfferDeposited(
+		Entity.CounterOffer storage counterOffer
+	) private view {
+		if (counterOffer.status != Entity.CounterOfferStatus.Deposited) {
+			revert Errors.InvalidCounterOfferStatus(
+				counterOffer.id,
+				counterOffer.status
+			);
+		}
+	}
+
+	/**
+	 * @dev Revert if the proposal cannot be redeemed by the buyer
+	 * @param proposal: the proposal storage
+	 * @param buyer: the address that fulfills the proposal
+	 */
+	function requireRedeemable(Entity.Proposal storage proposal, address buyer)
+		public
+		view
+	{
+		/**
+		 * @dev The proposal must be at deposited phase.
+		 */
+		if (proposal.status != Entity.ProposalStatus.Deposited) {
+			revert Errors.InvalidProposalStatus(proposal.id, proposal.status);
+		}
+
+		/**
+		 * @dev The proposal must be still in time window.
+		 */
+		if (proposal.expiredAt <= block.timestamp) {
+			revert Errors.ProposalExpired(proposal.id, proposal.expiredAt);
+		}
+
+		/**
+		 * @dev Private proposals can only be fulfilled by the allowed addresses.
+		 */
+		if (!isAllowedFulfiller(proposal, buyer)) {
+			revert Errors.NotAllowedFulfiller(proposal.id, buyer);
+		}
+	}
+
+	/**
+	 * @dev Check whether the buyer can fulfill the proposal, public proposals can be fulfilled by anyone
+	 * @param proposal: the proposal storage
+	 * @param buyer: the address that fulfills the proposal
+	 */
+	function isAllowedFulfiller(Entity.Proposal storage proposal, address buyer)
+		public
+		view
+		returns (bool)
+	{
+		address[] storage allowedFulfillers = proposal.allowedFulfillers;
+
+		if (allowedFulfillers.length == 0) return true;
+
+		for (uint256 i = 0; i < allowedFulfillers.length; i++) {
+			if (allowedFulfillers[i] == buyer) return true;
+		}
+
+		return false;
+	}
+
+	/**
+	 * @dev Get the key that a proposal, counter-offer or option is stored under
+	 * @param id: the string id
+	 */
+	function keyOf(string memory id) internal pure returns (bytes32) {
+		return keccak256(bytes(id));
+	}
+
+	/**
+	 * @dev Find an option of a proposal through its recorded position, revert if it does not exist
+	 * @param proposal: the proposal storage
+	 * @param optionId: the option id
+	 * @return position the 1-based position of the option
+	 */
+	function findSwapOption(
+		Entity.Proposal storage proposal,
+		string memory optionId
+	) private view returns (uint256 position) {
+		position = proposal.optionPositions[keyOf(optionId)];
+
+		if (position == 0) revert Errors.OptionNotFound(proposal.id, optionId);
+	}
+
+	/**
+	 * @dev Copy stored items into the shape read through the swap getters
+	 * @param items: the stored items
+	 * @param owner: the owner of the items
+	 * @param redeemedOwner: the owner of the items once redeemed
+	 */
+	function unpackItems(
+		Entity.PackedSwapItem[] storage items,
+		address owner,
+		address redeemedOwner
+	) private view returns (Entity.SwapItem[] memory unpacked) {
+		unpacked = new Entity.SwapItem[](items.length);
+
+		for (uint256 i = 0; i < items.length; i++) {
+			Entity.PackedSwapItem storage item = items[i];
+
+			unpacked[i] = Entity.SwapItem(
+				item.id,
+				item.contractAddress,
+				item.amount,
+				item.status == Entity.SwapItemStatus.Redeemed
+					? redeemedOwner
+					: owner,
+				item.tokenId,
+				item.status,
+				item.itemType
+			);
+		}
+	}
+
+	/**
+	 * @dev Validate and record a proposal with its options and items, ids are registered by the caller
+	 */
+	function record(
+		Entity.Proposal storage proposal,
+		Entity.Whitelist storage whitelist,
+		Params.ProposalParams memory params,
+		address owner,
+		Limits memory limits
+	) private {
+		if (bytes(params.id).length == 0) revert Errors.EmptyId();
+
+		/**
+		 * @dev Require constraints
+		 */
+		if (params.swapOptions.length > limits.maxAllowedOptions) {
+			revert Errors.TooManyOptions(
+				params.swapOptions.length,
+				limits.maxAllowedOptions
+			);
+		}
+		if (params.offeredItems.length > limits.maxAllowedItems) {
+			revert Errors.TooManyItems(
+				params.offeredItems.length,
+				limits.maxAllowedItems
+			);
+		}
+
+		/**
+		 * @dev Assign proposal
+		 */
+		proposal.id = params.id;
+		proposal.expiredAt = toExpiredAt(params.expiredAt);
+		proposal.status = Entity.ProposalStatus.Deposited;
+		proposal.owner = owner;
+
+		/**
+		 * @dev Populate data
+		 */
+		for (uint256 i = 0; i < params.swapOptions.length; i++) {
+			storeSwapOption(proposal, whitelist, params.swapOptions[i]);
+		}
+
+		/**
+		 * @dev Populate data
+		 */
+		storeOfferedItems(
+			proposal.offeredItems,
+			whitelist,
+			params.offeredItems
+		);
+	}
+
+	/**
+	 * @dev Populate an option and its asking items, the option is recorded at its position
+	 */
+	function storeSwapOption(
+		Entity.Proposal storage proposal,
+		Entity.Whitelist storage whitelist,
+		Params.SwapOptionParams memory swapOptionData
+	) private {
+		/**
+		 * @dev Check for constraints
+		 */
+		if (bytes(swapOptionData.id).length == 0) {
+			revert Errors.EmptyId();
+		}
+
+		/**
+		 * @dev Populate pocket option data
+		 */
+		Entity.PackedSwapOption storage option = proposal.swapOptions.push();
+		option.id = swapOptionData.id;
+		proposal.optionPositions[keyOf(swapOptionData.id)] = proposal
+			.swapOptions
+			.length;
+
+		for (uint256 i = 0; i < swapOptionData.askingItems.length; i++) {
+			/**
+			 * @dev Must be a whitelisted addresses
+			 */
+			requireWhitelisted(
+				whitelist,
+				swapOptionData.askingItems[i].contractAddress,
+				swapOptionData.askingItems[i].itemType
+			);
+
+			/**
+			 * @dev Trait sets must commit to a Merkle root
+			 */
+			if (
+				swapOptionData.askingItems[i].itemType ==
+				Entity.SwapItemType.NftTraitSet &&
+				swapOptionData.askingItems[i].tokenId == 0
+			) {
+				revert Errors.InvalidItemType(
+					swapOptionData.askingItems[i].id,
+					Entity.SwapItemType.NftTraitSet
+				);
+			}
+
+			/**
+			 * @dev Populate pocket item data
+			 */
+			Entity.PackedSwapItem storage item = option.askingItems.push();
+
+			item.id = swapOptionData.askingItems[i].id;
+			item.contractAddress = swapOptionData
+				.askingItems[i]
+				.contractAddress;
+			item.itemType = swapOptionData.askingItems[i].itemType;
+			item.tokenId = swapOptionData.askingItems[i].tokenId;
+			item.amount = swapOptionData.askingItems[i].amount;
+			item.status = Entity.SwapItemStatus.Created;
+		}
+	}
+
+	/**
+	 * @dev Populate offered items, they are recorded as deposited
+	 */
+	function storeOfferedItems(
+		Entity.PackedSwapItem[] storage items,
+		Entity.Whitelist storage whitelist,
+		Params.SwapItemParams[] memory swapItemsData
+	) private {
+		for (uint256 i = 0; i < swapItemsData.length; i++) {
+			/**
+			 * @dev Must be a whitelisted addresses
+			 */
+			requireWhitelisted(
+				whitelist,
+				swapItemsData[i].contractAddress,
+				swapItemsData[i].itemType
+			);
+
+			/**
+			 * @dev Only exact items can be deposited
+			 */
+			if (
+				swapItemsData[i].itemType ==
+				Entity.SwapItemType.NftCollection ||
+				swapItemsData[i].itemType == Entity.SwapItemType.NftTraitSet
+			) {
+				revert Errors.InvalidItemType(
+					swapItemsData[i].id,
+					swapItemsData[i].itemType
+				);
+			}
+
+			/**
+			 * @dev Initialize empty struct
+			 */
+			Entity.PackedSwapItem storage swapItem = items.push();
+
+			/**
+			 * @dev Assign data
+			 */
+			swapItem.id = swapItemsData[i].id;
+			swapItem.contractAddress = swapItemsData[i].contractAddress;
+			swapItem.itemType = swapItemsData[i].itemType;
+			swapItem.amount = swapItemsData[i].amount;
+			swapItem.status = Entity.SwapItemStatus.Deposited;
+			swapItem.tokenId = swapItemsData[i].tokenId;
+		}
+	}
+
+	/**
+	 * @dev Mark an id as used, revert if it has been used
+	 */
+	function registerUniqueId(
+		mapping(string => bool) storage uniqueStringRegistry,
+		string memory id
+	) private {
+		if (uniqueStringRegistry[id]) revert Errors.DuplicateId(id);
+		uniqueStringRegistry[id] = true;
+	}
+
+	/**
+	 * @dev Mark the ids of options and their asking items as used
+	 */
+	function registerOptionIds(
+		mapping(string => bool) storage uniqueStringRegistry,
+		Params.SwapOptionParams[] memory swapOptions
+	) private {
+		for (uint256 i = 0; i < swapOptions.length; i++) {
+			registerUniqueId(uniqueStringRegistry, swapOptions[i].id);
+			registerItemIds(uniqueStringRegistry, swapOptions[i].askingItems);
+		}
+	}
+
+	/**
+	 * @dev Mark the ids of items as used
+	 */
+	function registerItemIds(
+		mapping(string => bool) storage uniqueStringRegistry,
+		Params.SwapItemParams[] memory items
+	) private {
+		for (uint256 i = 0; i < items.length; i++) {
+			registerUniqueId(uniqueStringRegistry, items[i].id);
+		}
+	}
+
+	/**
+	 * @dev Revert if the contract address is not whitelisted for the item type, collections and trait sets are whitelisted as Nft
+	 */
+	function requireWhitelisted(
+		Entity.Whitelist storage whitelist,
+		address contractAddress,
+		Entity.SwapItemType itemType
+	) private view {
+		if (whitelist.positions[contractAddress] == 0) {
+			revert Errors.NotWhitelisted(contractAddress);
+		}
+
+		Entity.SwapItemType whitelistedType = itemType;
+		if (
+			itemType == Entity.SwapItemType.NftCollection ||
+			itemType == Entity.SwapItemType.NftTraitSet
+		) {
+			whitelistedType = Entity.SwapItemType.Nft;
+		}
+
+		if (whitelist.itemTypes[contractAddress] != whitelistedType) {
+			revert Errors.ItemTypeNotWhitelisted(contractAddress, itemType);
+		}
+	}
+
+	/**
+	 * @dev Revert unless the expiry is in the future and fits the stored timestamp
+	 */
+	function toExpiredAt(uint256 expiredAt) private view returns (uint48) {
+		if (expiredAt <= block.timestamp || expiredAt > type(uint48).max) {
+			revert Errors.InvalidExpiredAt(expiredAt);
+		}
+
+		return uint48(expiredAt);
+	}
+}
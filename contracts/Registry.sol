@@ -0,0 +1,355 @@
+pragma solidity >=0.8.17;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
+
+import "./Entity.sol";
+import "./Errors.sol";
+import "./Etherman.sol";
+
+/**
+ * @notice Item address registry of HamsterSwap, linked as an external library to keep the swap under the contract size limit.
+ **/
+library Registry {
+	/** @dev Events, mirrored in HamsterSwap */
+	event ConfigurationChanged(
+		address actor,
+		uint256 timestamp,
+		uint256 maxAllowedItems,
+		uint256 maxAllowedOptions,
+		address[] whitelistedAddresses,
+		address[] blacklistedAddresses,
+		address ethermanAddress
+	);
+
+	event ProtocolFeeConfigurationChanged(
+		address actor,
+		uint256 timestamp,
+		uint256 protocolFeeBasisPoints,
+		address protocolFeeRecipient
+	);
+
+	event RoyaltyConfigurationChanged(
+		address actor,
+		uint256 timestamp,
+		uint256 royaltyCapBasisPoints
+	);
+
+	event RoyaltyOverrideChanged(
+		address actor,
+		uint256 timestamp,
+		address collectionAddress,
+		bool enabled,
+		address receiver,
+		uint256 basisPoints
+	);
+
+	event WhitelistAdded(
+		address actor,
+		uint256 timestamp,
+		address contractAddress,
+		Entity.SwapItemType itemType
+	);
+
+	event WhitelistRemoved(
+		address actor,
+		uint256 timestamp,
+		address contractAddress
+	);
+
+	/**
+	 * @dev Whitelist and blacklist item addresses, then let the etherman unwrap the WETH held by the swap
+	 * @param whitelist: the enumerable whitelist storage
+	 * @param whitelistedAddresses: the whitelist lookup storage
+	 * @param maxAllowedItems: maximum amount of allowed items
+	 * @param maxAllowedOptions: maximum amount of allowed options
+	 * @param whitelisted: addresses to be whitelisted, their item type is detected unless they are whitelisted already
+	 * @param blacklisted: addresses to be blacklisted
+	 * @param etherman: the etherman
+	 */
+	function configure(
+		Entity.Whitelist storage whitelist,
+		mapping(address => bool) storage whitelistedAddresses,
+		uint256 maxAllowedItems,
+		uint256 maxAllowedOptions,
+		address[] memory whitelisted,
+		address[] memory blacklisted,
+		Etherman etherman
+	) external {
+		for (uint256 i = 0; i < whitelisted.length; i++) {
+			if (whitelist.positions[whitelisted[i]] != 0) continue;
+
+			add(
+				whitelist,
+				whitelistedAddresses,
+				whitelisted[i],
+				detectItemType(whitelisted[i])
+			);
+		}
+
+		for (uint256 i = 0; i < blacklisted.length; i++) {
+			if (whitelist.positions[blacklisted[i]] == 0) {
+				whitelistedAddresses[blacklisted[i]] = false;
+				continue;
+			}
+
+			remove(whitelist, whitelistedAddresses, blacklisted[i]);
+		}
+
+		IERC20(etherman.WETH()).approve(address(etherman), type(uint256).max);
+
+		emit ConfigurationChanged(
+			msg.sender,
+			block.timestamp,
+			maxAllowedItems,
+			maxAllowedOptions,
+			whitelisted,
+			blacklisted,
+			address(etherman)
+		);
+	}
+
+	/**
+	 * @dev Whitelist item addresses, the item type of an address already whitelisted is updated
+	 * @param whitelist: the enumerable whitelist storage
+	 * @param whitelistedAddresses: the whitelist lookup storage
+	 * @param addresses: addresses to be whitelisted
+	 * @param itemTypes: the item type allowed for each address, collections and trait sets are whitelisted as Nft
+	 */
+	function addToWhitelist(
+		Entity.Whitelist storage whitelist,
+		mapping(address => bool) storage whitelistedAddresses,
+		address[] memory addresses,
+		Entity.SwapItemType[] memory itemTypes
+	) external {
+		if (addresses.length != itemTypes.length) {
+			revert Errors.AmountMismatch(addresses.length, itemTypes.length);
+		}
+
+		for (uint256 i = 0; i < addresses.length; i++) {
+			if (
+				addresses[i] == address(0) ||
+				itemTypes[i] == Entity.SwapItemType.NftCollection ||
+				itemTypes[i] == Entity.SwapItemType.NftTraitSet
+			) {
+				revert Errors.InvalidWhitelistItemType(
+					addresses[i],
+					itemTypes[i]
+				);
+			}
+
+			add(whitelist, whitelistedAddresses, addresses[i], itemTypes[i]);
+		}
+	}
+
+	/**
+	 * @dev Remove item addresses from the whitelist, they can no longer be deposited nor paid with,
+	 * items already in the vault can still be returned or redeemed, see `Transfers.transferSwapItems`
+	 * @param whitelist: the enumerable whitelist storage
+	 * @param whitelistedAddresses: the whitelist lookup storage
+	 * @param addresses: addresses to be removed
+	 */
+	function removeFromWhitelist(
+		Entity.Whitelist storage whitelist,
+		mapping(address => bool) storage whitelistedAddresses,
+		address[] memory addresses
+	) external {
+		for (uint256 i = 0; i < addresses.length; i++) {
+			if (whitelist.positions[addresses[i]] == 0) {
+				revert Errors.NotWhitelisted(addresses[i]);
+			}
+
+			remove(whitelist, whitelistedAddresses, addresses[i]);
+		}
+	}
+
+	/**
+	 * @dev ABI-encode a page of the whitelist with the item type of each address and the amount of whitelisted addresses,
+	 * see `HamsterSwap.getWhitelist`
+	 * @param whitelist: the enumerable whitelist storage
+	 * @param offset: the amount of entries to skip
+	 * @param limit: the maximum amount of entries to return
+	 */
+	function encodeWhitelist(
+		Entity.Whitelist storage whitelist,
+		uint256 offset,
+		uint256 limit
+	) external view returns (bytes memory) {
+		uint256 total = whitelist.addresses.length;
+		uint256 end = offset + limit > total ? total : offset + limit;
+		address[] memory addresses = new address[](
+			end > offset ? end - offset : 0
+		);
+		Entity.SwapItemType[] memory itemTypes = new Entity.SwapItemType[](
+			addresses.length
+		);
+
+		for (uint256 i = 0; i < addresses.length; i++) {
+			addresses[i] = whitelist.addresses[offset + i];
+			itemTypes[i] = whitelist.itemTypes[addresses[i]];
+		}
+
+		return abi.encode(addresses, itemTypes, total);
+	}
+
+	/**
+	 * @dev Validate the protocol fee and emit event, the swap records the values
+	 * @param protocolFeeBasisPoints: fee in basis points
+	 * @param protocolFeeRecipient: the address that receives the fee
+	 * @param maxBasisPoints: the maximum fee in basis points
+	 */
+	function configureProtocolFee(
+		uint256 protocolFeeBasisPoints,
+		address protocolFeeRecipient,
+		uint256 maxBasisPoints
+	) external {
+		if (protocolFeeBasisPoints > maxBasisPoints) {
+			revert Errors.ProtocolFeeTooHigh(
+				protocolFeeBasisPoints,
+				maxBasisPoints
+			);
+		}
+		if (protocolFeeBasisPoints > 0 && protocolFeeRecipient == address(0)) {
+			revert Errors.InvalidProtocolFeeRecipient(protocolFeeRecipient);
+		}
+
+		emit ProtocolFeeConfigurationChanged(
+			msg.sender,
+			block.timestamp,
+			protocolFeeBasisPoints,
+			protocolFeeRecipient
+		);
+	}
+
+	/**
+	 * @dev Validate the global royalty cap and emit event, the swap records the value
+	 * @param royaltyCapBasisPoints: maximum royalty in basis points of the sale price
+	 * @param maxBasisPoints: the maximum cap in basis points
+	 */
+	function configureRoyalty(
+		uint256 royaltyCapBasisPoints,
+		uint256 maxBasisPoints
+	) external {
+		if (royaltyCapBasisPoints > maxBasisPoints) {
+			revert Errors.RoyaltyTooHigh(royaltyCapBasisPoints, maxBasisPoints);
+		}
+
+		emit RoyaltyConfigurationChanged(
+			msg.sender,
+			block.timestamp,
+			royaltyCapBasisPoints
+		);
+	}
+
+	/**
+	 * @dev Record the royalty override of a collection and emit event
+	 * @param royaltyOverrides: the royalty overrides storage
+	 * @param royaltyOverride: the override, a zero receiver disables the royalty of the collection
+	 * @param collectionAddress: the NFT collection address
+	 * @param maxBasisPoints: the maximum royalty in basis points
+	 */
+	function configureRoyaltyOverride(
+		mapping(address => Entity.RoyaltyOverride) storage royaltyOverrides,
+		Entity.RoyaltyOverride memory royaltyOverride,
+		address collectionAddress,
+		uint256 maxBasisPoints
+	) external {
+		if (royaltyOverride.basisPoints > maxBasisPoints) {
+			revert Errors.RoyaltyTooHigh(
+				royaltyOverride.basisPoints,
+				maxBasisPoints
+			);
+		}
+
+		royaltyOverrides[collectionAddress] = royaltyOverride;
+
+		emit RoyaltyOverrideChanged(
+			msg.sender,
+			block.timestamp,
+			collectionAddress,
+			royaltyOverride.enabled,
+			royaltyOverride.receiver,
+			royaltyOverride.basisPoints
+		);
+	}
+
+	/**
+	 * @dev Record an address with its item type and emit event
+	 */
+	function add(
+		Entity.Whitelist storage whitelist,
+		mapping(address => bool) storage whitelistedAddresses,
+		address contractAddress,
+		Entity.SwapItemType itemType
+	) private {
+		if (whitelist.positions[contractAddress] == 0) {
+			whitelist.addresses.push(contractAddress);
+			whitelist.positions[contractAddress] = whitelist.addresses.length;
+		}
+
+		whitelist.itemTypes[contractAddress] = itemType;
+		whitelistedAddresses[contractAddress] = true;
+
+		emit WhitelistAdded(
+			msg.sender,
+			block.timestamp,
+			contractAddress,
+			itemType
+		);
+	}
+
+	/**
+	 * @dev Swap a whitelisted address with the last one and pop it, then emit event
+	 */
+	function remove(
+		Entity.Whitelist storage whitelist,
+		mapping(address => bool) storage whitelistedAddresses,
+		address contractAddress
+	) private {
+		uint256 position = whitelist.positions[contractAddress];
+		address lastAddress = whitelist.addresses[
+			whitelist.addresses.length - 1
+		];
+
+		whitelist.positions[lastAddress] = position;
+		whitelist.addresses[position - 1] = lastAddress;
+		whitelist.addresses.pop();
+
+		delete whitelist.positions[contractAddress];
+		delete whitelist.itemTypes[contractAddress];
+		whitelistedAddresses[contractAddress] = false;
+
+		emit WhitelistRemoved(msg.sender, block.timestamp, contractAddress);
+	}
+
+	/**
+	 * @dev Detect the item type of an address through EIP-165, addresses supporting neither ERC721 nor ERC1155 are currencies
+	 */
+	function detectItemType(address contractAddress)
+		private
+		view
+		returns (Entity.SwapItemType)
+	{
+		if (
+			ERC165Checker.supportsInterface(
+				contractAddress,
+				type(IERC721).interfaceId
+			)
+		) {
+			return Entity.SwapItemType.Nft;
+		}
+
+		if (
+			ERC165Checker.supportsInterface(
+				contractAddress,
+				type(IERC1155).interfaceId
+			)
+		) {
+			return Entity.SwapItemType.SemiFungible;
+		}
+
+		return Entity.SwapItemType.Currency;
+	}
+}
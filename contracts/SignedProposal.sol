@@ -0,0 +1,197 @@
+pragma solidity >=0.8.17;
+
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+
+import "./Errors.sol";
+import "./Params.sol";
+
+/**
+ * @notice EIP-712 hashing and verification of proposals that are signed off-chain,
+ * linked as an external library to keep the swap under the contract size limit.
+ **/
+library SignedProposal {
+	bytes32 internal constant DOMAIN_TYPEHASH =
+		keccak256(
+			"EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+		);
+
+	bytes32 internal constant SWAP_ITEM_TYPEHASH =
+		keccak256(
+			"SwapItem(string id,address contractAddress,uint256 amount,uint256 tokenId,uint8 itemType)"
+		);
+
+	bytes32 internal constant SWAP_OPTION_TYPEHASH =
+		keccak256(
+			"SwapOption(string id,SwapItem[] askingItems)SwapItem(string id,address contractAddress,uint256 amount,uint256 tokenId,uint8 itemType)"
+		);
+
+	bytes32 internal constant PROPOSAL_TYPEHASH =
+		keccak256(
+			"Proposal(string id,address owner,uint256 expiredAt,uint256 nonce,SwapItem[] offeredItems,SwapOption[] swapOptions,address[] allowedFulfillers)SwapItem(string id,address contractAddress,uint256 amount,uint256 tokenId,uint8 itemType)SwapOption(string id,SwapItem[] askingItems)"
+		);
+
+	/** @dev Events, mirrored in HamsterSwap */
+	event NoncesCancelled(address actor, uint256 timestamp, uint256[] nonces);
+
+	/**
+	 * @dev Get the domain separator of the verifying contract
+	 * @param verifyingContract: the swap proxy address
+	 */
+	function domainSeparator(address verifyingContract)
+		internal
+		view
+		returns (bytes32)
+	{
+		return
+			keccak256(
+				abi.encode(
+					DOMAIN_TYPEHASH,
+					keccak256("HamsterSwap"),
+					keccak256("1"),
+					block.chainid,
+					verifyingContract
+				)
+			);
+	}
+
+	/**
+	 * @dev Get the digest that the proposal owner signs
+	 * @param proposal: the signed proposal
+	 * @param verifyingContract: the swap proxy address
+	 */
+	function hashTypedData(
+		Params.SignedProposalParams memory proposal,
+		address verifyingContract
+	) public view returns (bytes32) {
+		return
+			keccak256(
+				abi.encodePacked(
+					"\x19\x01",
+					domainSeparator(verifyingContract),
+					hashProposal(proposal)
+				)
+			);
+	}
+
+	/**
+	 * @dev Hash the proposal struct
+	 */
+	function hashProposal(Params.SignedProposalParams memory proposal)
+		private
+		pure
+		returns (bytes32)
+	{
+		bytes32[] memory optionHashes = new bytes32[](
+			proposal.swapOptions.length
+		);
+
+		for (uint256 i = 0; i < proposal.swapOptions.length; i++) {
+			optionHashes[i] = keccak256(
+				abi.encode(
+					SWAP_OPTION_TYPEHASH,
+					keccak256(bytes(proposal.swapOptions[i].id)),
+					hashItems(proposal.swapOptions[i].askingItems)
+				)
+			);
+		}
+
+		return
+			keccak256(
+				abi.encode(
+					PROPOSAL_TYPEHASH,
+					keccak256(bytes(proposal.id)),
+					proposal.owner,
+					proposal.expiredAt,
+					proposal.nonce,
+					hashItems(proposal.offeredItems),
+					keccak256(abi.encodePacked(optionHashes)),
+					keccak256(abi.encodePacked(proposal.allowedFulfillers))
+				)
+			);
+	}
+
+	/**
+	 * @dev Hash an array of items
+	 */
+	function hashItems(Params.SwapItemParams[] memory items)
+		private
+		pure
+		returns (bytes32)
+	{
+		bytes32[] memory itemHashes = new bytes32[](items.length);
+
+		for (uint256 i = 0; i < items.length; i++) {
+			itemHashes[i] = keccak256(
+				abi.encode(
+					SWAP_ITEM_TYPEHASH,
+					keccak256(bytes(items[i].id)),
+					items[i].contractAddress,
+					items[i].amount,
+					items[i].tokenId,
+					items[i].itemType
+				)
+			);
+		}
+
+		return keccak256(abi.encodePacked(itemHashes));
+	}
+
+	/**
+	 * @dev Check that a signed proposal can be fulfilled and consume its nonce, the calling swap is the verifying contract
+	 * @param proposal: the signed proposal
+	 * @param signature: the EIP-712 signature of the proposal owner
+	 * @param usedNonces: the used nonces registry of the swap
+	 * @return digest the digest that the owner signed, the proposal is recorded under it
+	 */
+	function consume(
+		Params.SignedProposalParams memory proposal,
+		bytes memory signature,
+		mapping(address => mapping(uint256 => bool)) storage usedNonces
+	) external returns (bytes32 digest) {
+		/**
+		 * @dev The proposal must be still in time window.
+		 */
+		if (proposal.expiredAt <= block.timestamp) {
+			revert Errors.ProposalExpired(proposal.id, proposal.expiredAt);
+		}
+
+		/**
+		 * @dev A nonce can only be used once, either fulfilled or cancelled.
+		 */
+		if (usedNonces[proposal.owner][proposal.nonce]) {
+			revert Errors.NonceAlreadyUsed(proposal.owner, proposal.nonce);
+		}
+
+		/**
+		 * @dev The proposal must be signed by its owner, contract wallets are verified with EIP-1271.
+		 */
+		digest = hashTypedData(proposal, address(this));
+		if (
+			!SignatureChecker.isValidSignatureNow(
+				proposal.owner,
+				digest,
+				signature
+			)
+		) {
+			revert Errors.InvalidSignature(proposal.owner);
+		}
+
+		usedNonces[proposal.owner][proposal.nonce] = true;
+	}
+
+	/**
+	 * @dev Mark nonces of the sender as used and emit event
+	 * @param usedNonces: the used nonces registry of the swap
+	 * @param nonces: the nonces to be cancelled
+	 */
+	function cancelNonces(
+		mapping(address => mapping(uint256 => bool)) storage usedNonces,
+		uint256[] memory nonces
+	) external {
+		for (uint256 i = 0; i < nonces.length; i++) {
+			usedNonces[msg.sender][nonces[i]] = true;
+		}
+
+		emit NoncesCancelled(msg.sender, block.timestamp, nonces);
+	}
+}
@@ -11,16 +11,29 @@ import "@openzeppelin/contracts-upgradeable/utils/MulticallUpgradeable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
 import "@openzeppelin/contracts/token/ERC721/IERC721Receiver.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155Receiver.sol";
 
+import "./Administration.sol";
 import "./Entity.sol";
+import "./Errors.sol";
 import "./Params.sol";
+import "./Proposals.sol";
+import "./ProposalIndexes.sol";
+import "./Registry.sol";
+import "./SignedProposal.sol";
 import "./Etherman.sol";
+import "./Batches.sol";
+import "./Migrations.sol";
+import "./Permits.sol";
+import "./Transfers.sol";
 
 import "hardhat/console.sol";
 
 /**
  * @notice HamsterSwap which is a trustless p2p exchange,
- * handles NFT-NFT, NFT-Currency and Currency-Currency pocket transactions.
+ * handles NFT-NFT, NFT-Currency and Currency-Currency pocket transactions,
+ * NFTs can either be ERC721 or ERC1155 semi-fungible tokens.
  **/
 /// @custom:security-contact khang@cavies.xyz
 contract HamsterSwap is
@@ -29,7 +42,9 @@ contract HamsterSwap is
 	ReentrancyGuardUpgradeable,
 	OwnableUpgradeable,
 	MulticallUpgradeable,
-	IERC721Receiver
+	IERC721Receiver,
+	IERC1155Receiver,
+	Errors
 {
 	Etherman public etherman;
 
@@ -41,11 +56,81 @@ contract HamsterSwap is
 	mapping(address => bool) public whitelistedAddresses;
 
 	/**
-	 * @dev Storing proposal data inside a mapping
+	 * @dev Proposals recorded under their string id before the storage redesign, see `migrateProposals`
+	 * @custom:oz-renamed-from proposals
 	 */
-	mapping(string => Entity.Proposal) public proposals;
+	mapping(string => Entity.LegacyProposal) private proposalRecords;
 	mapping(string => bool) public uniqueStringRegistry;
 
+	/**
+	 * @dev Protocol fee configurations, charged on currency items when a proposal is redeemed.
+	 */
+	uint256 public constant BASIS_POINTS = 10000;
+	uint256 public constant MAX_PROTOCOL_FEE_BASIS_POINTS = 1000;
+	uint256 public protocolFeeBasisPoints;
+	address public protocolFeeRecipient;
+
+	/**
+	 * @dev Royalty configurations, EIP-2981 royalties are paid out of currency items when NFTs are redeemed.
+	 */
+	uint256 public constant MAX_ROYALTY_BASIS_POINTS = 5000;
+	uint256 public royaltyCapBasisPoints;
+	mapping(address => Entity.RoyaltyOverride) public royaltyOverrides;
+
+	/**
+	 * @dev Nonces of signed proposals that have been fulfilled or cancelled, per owner
+	 */
+	mapping(address => mapping(uint256 => bool)) public usedNonces;
+
+	/**
+	 * @dev Counter-offers recorded under their string id before the storage redesign, see `migrateProposals`
+	 * @custom:oz-renamed-from counterOffers
+	 */
+	mapping(string => Entity.LegacyCounterOffer) private counterOfferRecords;
+
+	/**
+	 * @dev Enumerable indexes of the proposals, see `getProposalIds`
+	 */
+	Entity.ProposalIndex private proposalIndex;
+
+	/**
+	 * @dev Currencies pulled through Permit2 or for a batch for the call in progress, per owner and token, see `permit2Call` and `fulfillProposals`
+	 */
+	mapping(address => mapping(address => uint256)) private permit2Credits;
+
+	/**
+	 * @dev Enumerable whitelist with the item type allowed for each address, `whitelistedAddresses` is kept in sync
+	 */
+	Entity.Whitelist private whitelist;
+
+	/**
+	 * @dev Roles granted by the owner, and configuration changes waiting in the timelock
+	 */
+	bytes32 internal constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+	bytes32 internal constant COLLECTION_MANAGER_ROLE =
+		keccak256("COLLECTION_MANAGER_ROLE");
+	bytes32 internal constant CONFIG_ADMIN_ROLE =
+		keccak256("CONFIG_ADMIN_ROLE");
+	Entity.Administration private administration;
+
+	/**
+	 * @dev Proposals and counter-offers keyed by the keccak256 of their id, read through `proposals` and `counterOffers`,
+	 * ids stay strings in the registry, the indexes and the events
+	 */
+	mapping(bytes32 => Entity.Proposal) private proposalsByKey;
+	mapping(bytes32 => Entity.CounterOffer) private counterOffersByKey;
+
+	/**
+	 * @dev The running `fulfillProposals`, its native payment is wrapped once for all of its fulfillments
+	 */
+	Entity.Batch private batch;
+
+	/**
+	 * @dev Fulfilled signed proposals keyed by the EIP-712 digest their owner signed, see `SignedProposalFulfilled`,
+	 * their ids are not registered so that nobody can take them beforehand
+	 */
+	mapping(bytes32 => Entity.Proposal) private signedProposalsByDigest;
+
 	/** @dev Events */
 	event ConfigurationChanged(
 		address actor,
@@ -57,8 +142,122 @@ contract HamsterSwap is
 		address ethermanAddress
 	);
 
+	event RoleGranted(
+		address actor,
+		uint256 timestamp,
+		bytes32 role,
+		address account
+	);
+
+	event RoleRevoked(
+		address actor,
+		uint256 timestamp,
+		bytes32 role,
+		address account
+	);
+
+	event TimelockDelayChanged(
+		address actor,
+		uint256 timestamp,
+		uint256 timelockDelay
+	);
+
+	event TimelockDelayQueued(
+		address actor,
+		uint256 timestamp,
+		bytes32 operationId,
+		uint256 timelockDelay,
+		uint256 readyAt
+	);
+
+	event ConfigurationQueued(
+		address actor,
+		uint256 timestamp,
+		bytes32 operationId,
+		uint256 maxAllowedItems,
+		uint256 maxAllowedOptions,
+		address ethermanAddress,
+		uint256 readyAt
+	);
+
+	event ConfigurationExecuted(
+		address actor,
+		uint256 timestamp,
+		bytes32 operationId
+	);
+
+	event ConfigurationCancelled(
+		address actor,
+		uint256 timestamp,
+		bytes32 operationId
+	);
+
+	event WhitelistAdded(
+		address actor,
+		uint256 timestamp,
+		address contractAddress,
+		Entity.SwapItemType itemType
+	);
+
+	event WhitelistRemoved(
+		address actor,
+		uint256 timestamp,
+		address contractAddress
+	);
+
+	event ProtocolFeeConfigurationChanged(
+		address actor,
+		uint256 timestamp,
+		uint256 protocolFeeBasisPoints,
+		address protocolFeeRecipient
+	);
+
+	event ProtocolFeeCollected(
+		string id,
+		address fromAddress,
+		address toAddress,
+		uint256 timestamp,
+		address contractAddress,
+		uint256 amount
+	);
+
+	event RoyaltyConfigurationChanged(
+		address actor,
+		uint256 timestamp,
+		uint256 royaltyCapBasisPoints
+	);
+
+	event RoyaltyOverrideChanged(
+		address actor,
+		uint256 timestamp,
+		address collectionAddress,
+		bool enabled,
+		address receiver,
+		uint256 basisPoints
+	);
+
+	event RoyaltyPaid(
+		string id,
+		address fromAddress,
+		address toAddress,
+		uint256 timestamp,
+		address contractAddress,
+		uint256 amount,
+		address collectionAddress,
+		uint256 tokenId
+	);
+
 	event ProposalCreated(string id, address actor, uint256 timestamp);
 
+	event SignedProposalFulfilled(
+		bytes32 digest,
+		string id,
+		address owner,
+		address actor,
+		uint256 timestamp,
+		string optionId
+	);
+
 	event ProposalRedeemed(
 		string id,
 		address actor,
@@ -66,8 +265,67 @@ contract HamsterSwap is
 		string optionId
 	);
 
+	event ProposalFilled(
+		string id,
+		address actor,
+		uint256 timestamp,
+		string optionId,
+		uint256 fillAmount,
+		uint256 remainingAmount
+	);
+
 	event ProposalWithdrawn(string id, address actor, uint256 timestamp);
 
+	event ExpiredProposalReclaimed(string id, address actor, uint256 timestamp);
+
+	event ProposalEmergencyWithdrawn(
+		string id,
+		address actor,
+		address owner,
+		uint256 timestamp
+	);
+
+	event ProposalUpdated(string id, address actor, uint256 timestamp);
+
+	event ProposalMigrated(string id, address actor, uint256 timestamp);
+
+	event ProposalsFulfilled(
+		string[] proposalIds,
+		bool[] fulfilled,
+		address actor,
+		uint256 timestamp
+	);
+
+	event ProposalFulfillersUpdated(
+		string id,
+		address actor,
+		uint256 timestamp,
+		address[] allowedFulfillers
+	);
+
+	event NoncesCancelled(address actor, uint256 timestamp, uint256[] nonces);
+
+	event CounterOfferCreated(
+		string id,
+		string proposalId,
+		address actor,
+		uint256 timestamp
+	);
+
+	event CounterOfferAccepted(
+		string id,
+		string proposalId,
+		address actor,
+		uint256 timestamp
+	);
+
+	event CounterOfferWithdrawn(
+		string id,
+		string proposalId,
+		address actor,
+		uint256 timestamp
+	);
+
 	event ItemDeposited(
 		string id,
 		address actor,
@@ -100,6 +358,71 @@ contract HamsterSwap is
 		uint256 tokenId
 	);
 
+	/**
+	 * @dev Only accounts holding the role, see `requireRole`
+	 */
+	modifier onlyRole(bytes32 role) {
+		requireRole(role);
+		_;
+	}
+
+	/**
+	 * @dev Get a proposal, its items, options and lists are read through the other getters
+	 * @param proposalId: id of the proposal
+	 */
+	function proposals(string memory proposalId)
+		external
+		view
+		returns (
+			string memory id,
+			uint256 expiredAt,
+			address owner,
+			address fulfilledBy,
+			string memory fulfilledByOptionId,
+			Entity.ProposalStatus status,
+			bool fillable
+		)
+	{
+		(
+			id,
+			expiredAt,
+			owner,
+			fulfilledBy,
+			fulfilledByOptionId,
+			status,
+			fillable
+		);
+		returnEncoded(Proposals.encodeProposal(proposalOf(proposalId)));
+	}
+
+	/**
+	 * @dev Get a counter-offer, its items are read through `getCounterOfferItems`
+	 * @param counterOfferId: id of the counter-offer
+	 */
+	function counterOffers(string memory counterOfferId)
+		external
+		view
+		returns (
+			string memory id,
+			string memory proposalId,
+			uint256 expiredAt,
+			address owner,
+			Entity.CounterOfferStatus status
+		)
+	{
+		(id, proposalId, expiredAt, owner, status);
+		Entity.CounterOffer storage counterOffer = counterOfferOf(
+			counterOfferId
+		);
+
+		returnEncoded(
+			Proposals.encodeCounterOffer(
+				counterOffer,
+				proposalsByKey[counterOffer.proposalKey]
+			)
+		);
+	}
+
 	/**
 	 * @dev Get proposal items and options
 	 * @param id: id of the proposal
@@ -109,11 +432,102 @@ contract HamsterSwap is
 		view
 		returns (Entity.SwapItem[] memory, Entity.SwapOption[] memory)
 	{
-		return (proposals[id].offeredItems, proposals[id].swapOptions);
+		returnEncoded(Proposals.encodeItemsAndOptions(proposalOf(id)));
+	}
+
+	/**
+	 * @dev Get the addresses allowed to fulfill a proposal, empty for public proposals
+	 * @param id: id of the proposal
+	 */
+	function getProposalAllowedFulfillers(string memory id)
+		external
+		view
+		returns (address[] memory)
+	{
+		returnEncoded(Proposals.encodeAllowedFulfillers(proposalOf(id)));
+	}
+
+	/**
+	 * @dev Get the remaining amounts of the offered items of a fillable proposal
+	 * @param id: id of the proposal
+	 */
+	function getProposalRemainingAmounts(string memory id)
+		external
+		view
+		returns (uint256[] memory)
+	{
+		returnEncoded(Proposals.encodeRemainingAmounts(proposalOf(id)));
+	}
+
+	/**
+	 * @dev Get the ids of the counter-offers made against a proposal
+	 * @param id: id of the proposal
+	 */
+	function getProposalCounterOfferIds(string memory id)
+		external
+		view
+		returns (string[] memory)
+	{
+		returnEncoded(Proposals.encodeCounterOfferIds(proposalOf(id)));
+	}
+
+	/**
+	 * @dev Get the items offered by a counter-offer
+	 * @param id: id of the counter-offer
+	 */
+	function getCounterOfferItems(string memory id)
+		external
+		view
+		returns (Entity.SwapItem[] memory)
+	{
+		returnEncoded(Proposals.encodeCounterOfferItems(counterOfferOf(id)));
+	}
+
+	/**
+	 * @dev Get a page of proposal ids, most recent last unless listed by status or collection
+	 * @param indexType: the index to read, all proposals or by owner, fulfiller, status or collection
+	 * @param key: the owner, fulfiller or collection address, ignored otherwise
+	 * @param status: the status to list, ignored unless listing by status
+	 * @param offset: the amount of ids to skip
+	 * @param limit: the maximum amount of ids to return
+	 * @return ids the page of proposal ids
+	 * @return total the amount of ids in the index
+	 */
+	function getProposalIds(
+		Entity.ProposalIndexType indexType,
+		address key,
+		Entity.ProposalStatus status,
+		uint256 offset,
+		uint256 limit
+	) external view returns (string[] memory ids, uint256 total) {
+		(ids, total);
+		returnEncoded(
+			ProposalIndexes.encodeIds(
+				proposalIndex,
+				indexType,
+				key,
+				status,
+				offset,
+				limit
+			)
+		);
+	}
+
+	/**
+	 * @dev Check whether an address can fulfill a proposal
+	 * @param id: id of the proposal
+	 * @param buyer: the address that wants to fulfill the proposal
+	 */
+	function isAllowedFulfiller(string memory id, address buyer)
+		public
+		view
+		returns (bool)
+	{
+		return Proposals.isAllowedFulfiller(proposalOf(id), buyer);
 	}
 
 	/**
-	 * @dev Configure pocket registry
+	 * @dev Configure pocket registry once deployed, the limits and etherman are then changed through the timelock
 	 * @param _maxAllowedItems: maximum amount of allowed items
 	 * @param _maxAllowedOptions: maximum amount of allowed options
 	 * @param _whitelistedItemAddresses: whitelisted addresses
@@ -126,535 +540,1281 @@ contract HamsterSwap is
 		address[] memory _blackListedItemAddresses,
 		address payable _ethermanAddress
 	) external onlyOwner whenNotPaused {
+		if (address(etherman) != address(0)) revert AlreadyConfigured();
+
 		/**
 		 * @dev Configure values
 		 */
 		maxAllowedItems = _maxAllowedItems;
 		maxAllowedOptions = _maxAllowedOptions;
 
-		/**
-		 * @dev Whitelisting addresses
-		 */
-		for (uint256 i = 0; i < _whitelistedItemAddresses.length; i++) {
-			whitelistedAddresses[_whitelistedItemAddresses[i]] = true;
-		}
-
-		/**
-		 * @dev Blacklisted addresses
-		 */
-		for (uint256 i = 0; i < _blackListedItemAddresses.length; i++) {
-			whitelistedAddresses[_blackListedItemAddresses[i]] = false;
-		}
-
 		/**
 		 * @dev Set etherman address
 		 */
 		etherman = Etherman(_ethermanAddress);
-		IERC20(etherman.WETH()).approve(_ethermanAddress, type(uint256).max);
 
 		/**
-		 * @dev Emit event
+		 * @dev Whitelist addresses and emit event
 		 */
-		emit ConfigurationChanged(
-			msg.sender,
-			block.timestamp,
+		Registry.configure(
+			whitelist,
+			whitelistedAddresses,
 			_maxAllowedItems,
 			_maxAllowedOptions,
 			_whitelistedItemAddresses,
 			_blackListedItemAddresses,
-			_ethermanAddress
+			etherman
 		);
 	}
 
 	/**
-	 * @dev Create proposal and deposit items
-	 * @param id: proposal id
-	 * @param swapItemsData: pocket item list to be passed into proposal creation
-	 * @param swapOptionsData: pocket option list to be passed into proposal creation
-	 * @param expiredAt: expiry date of the proposal
+	 * @dev Queue a change of the item limits and etherman, see `Administration.queueConfiguration`
+	 * @param _maxAllowedItems: maximum amount of allowed items
+	 * @param _maxAllowedOptions: maximum amount of allowed options
+	 * @param _ethermanAddress: the etherman address
 	 */
-	function createProposal(
-		string memory id,
-		address owner,
-		Params.SwapItemParams[] memory swapItemsData,
-		Params.SwapOptionParams[] memory swapOptionsData,
-		uint256 expiredAt
-	) external nonReentrant whenNotPaused {
-		/**
-		 * @dev This allow owner can use smart contract to create proposal
-		 */
-		assert(owner == msg.sender || owner == tx.origin);
+	function queueConfiguration(
+		uint256 _maxAllowedItems,
+		uint256 _maxAllowedOptions,
+		address _ethermanAddress
+	) external onlyRole(CONFIG_ADMIN_ROLE) {
+		Administration.queueConfiguration(
+			administration,
+			_maxAllowedItems,
+			_maxAllowedOptions,
+			_ethermanAddress
+		);
+	}
 
-		/**
-		 * @dev Avoid duplicated proposal id to be recorded in.
-		 */
-		assert(bytes(proposals[id].id).length == 0);
+	/**
+	 * @dev Apply a queued configuration change once its timelock delay elapsed
+	 * @param _maxAllowedItems: maximum amount of allowed items
+	 * @param _maxAllowedOptions: maximum amount of allowed options
+	 * @param _ethermanAddress: the etherman address
+	 */
+	function executeConfiguration(
+		uint256 _maxAllowedItems,
+		uint256 _maxAllowedOptions,
+		address payable _ethermanAddress
+	) external onlyRole(CONFIG_ADMIN_ROLE) {
+		Administration.executeConfiguration(
+			administration,
+			_maxAllowedItems,
+			_maxAllowedOptions,
+			Etherman(_ethermanAddress)
+		);
 
-		/**
-		 * @dev Must be unique id
+		maxAllowedItems = _maxAllowedItems;
+		maxAllowedOptions = _maxAllowedOptions;
+		etherman = Etherman(_ethermanAddress);
+	}
+
+	/**
+	 * @dev Cancel a queued configuration change
+	 * @param operationId: the operation id, see `Administration.getOperationId`
+	 */
+	function cancelConfiguration(bytes32 operationId)
+		external
+		onlyRole(CONFIG_ADMIN_ROLE)
+	{
+		Administration.cancelConfiguration(administration, operationId);
+	}
+
+	/**
+	 * @dev Get the timelock delay, and when a queued configuration change can be executed
+	 * @param operationId: the operation id, see `Administration.getOperationId` and `getDelayOperationId`
+	 * @return timelockDelay the delay of the changes queued from now on
+	 * @return readyAt the time the change can be executed from, 0 if it is not queued
+	 */
+	function getTimelock(bytes32 operationId)
+		external
+		view
+		returns (uint256 timelockDelay, uint256 readyAt)
+	{
+		return (
+			administration.timelockDelay,
+			administration.readyAt[operationId]
+		);
+	}
+
+	/**
+	 * @dev Set the delay of the configuration changes queued afterwards, a lower delay is queued
+	 * and applied by calling it again once the current delay elapsed, it is cancelled with `cancelConfiguration`
+	 * @param timelockDelay: the delay in seconds
+	 */
+	function setTimelockDelay(uint256 timelockDelay) external onlyOwner {
+		Administration.setTimelockDelay(administration, timelockDelay);
+	}
+
+	/**
+	 * @dev Grant a role to an account
+	 * @param role: PAUSER_ROLE, COLLECTION_MANAGER_ROLE or CONFIG_ADMIN_ROLE
+	 * @param account: the account
+	 */
+	function grantRole(bytes32 role, address account) external onlyOwner {
+		setRole(role, account, true);
+	}
+
+	/**
+	 * @dev Revoke a role of an account
+	 * @param role: the role
+	 * @param account: the account
+	 */
+	function revokeRole(bytes32 role, address account) external onlyOwner {
+		setRole(role, account, false);
+	}
+
+	/**
+	 * @dev Give up a role of the sender
+	 * @param role: the role
+	 */
+	function renounceRole(bytes32 role) external {
+		setRole(role, msg.sender, false);
+	}
+
+	/**
+	 * @dev Whether an account has a role
+	 * @param role: the role
+	 * @param account: the account
+	 */
+	function hasRole(bytes32 role, address account)
+		external
+		view
+		returns (bool)
+	{
+		return administration.roles[role][account];
+	}
+
+	/**
+	 * @dev Whitelist item addresses, see `Registry.addToWhitelist`
+	 * @param addresses: addresses to be whitelisted
+	 * @param itemTypes: the item type allowed for each address
+	 */
+	function addToWhitelist(
+		address[] memory addresses,
+		Entity.SwapItemType[] memory itemTypes
+	) external onlyRole(COLLECTION_MANAGER_ROLE) whenNotPaused {
+		Registry.addToWhitelist(
+			whitelist,
+			whitelistedAddresses,
+			addresses,
+			itemTypes
+		);
+	}
+
+	/**
+	 * @dev Remove item addresses from the whitelist, see `Registry.removeFromWhitelist`
+	 * @param addresses: addresses to be removed
+	 */
+	function removeFromWhitelist(address[] memory addresses)
+		external
+		onlyRole(COLLECTION_MANAGER_ROLE)
+		whenNotPaused
+	{
+		Registry.removeFromWhitelist(
+			whitelist,
+			whitelistedAddresses,
+			addresses
+		);
+	}
+
+	/**
+	 * @dev Get a page of the whitelisted addresses with their item types, see `Registry.encodeWhitelist`
+	 * @param offset: the amount of entries to skip
+	 * @param limit: the maximum amount of entries to return
+	 */
+	function getWhitelist(uint256 offset, uint256 limit)
+		external
+		view
+		returns (
+			address[] memory,
+			Entity.SwapItemType[] memory,
+			uint256
+		)
+	{
+		returnEncoded(Registry.encodeWhitelist(whitelist, offset, limit));
+	}
+
+	/**
+	 * @dev Configure protocol fee, see `Registry.configureProtocolFee`
+	 * @param _protocolFeeBasisPoints: fee in basis points, capped by MAX_PROTOCOL_FEE_BASIS_POINTS
+	 * @param _protocolFeeRecipient: the address that receives the fee
+	 */
+	function configureProtocolFee(
+		uint256 _protocolFeeBasisPoints,
+		address _protocolFeeRecipient
+	) external onlyRole(CONFIG_ADMIN_ROLE) whenNotPaused {
+		Registry.configureProtocolFee(
+			_protocolFeeBasisPoints,
+			_protocolFeeRecipient,
+			MAX_PROTOCOL_FEE_BASIS_POINTS
+		);
+
+		/**
+		 * @dev Configure values
 		 */
-		assert(uniqueStringRegistry[id] == false);
-		uniqueStringRegistry[id] = true;
+		protocolFeeBasisPoints = _protocolFeeBasisPoints;
+		protocolFeeRecipient = _protocolFeeRecipient;
+	}
+
+	/**
+	 * @dev Configure the global royalty cap, royalties are disabled when the cap is 0
+	 * @param _royaltyCapBasisPoints: maximum royalty in basis points of the sale price, capped by MAX_ROYALTY_BASIS_POINTS
+	 */
+	function configureRoyalty(uint256 _royaltyCapBasisPoints)
+		external
+		onlyRole(CONFIG_ADMIN_ROLE)
+		whenNotPaused
+	{
+		Registry.configureRoyalty(
+			_royaltyCapBasisPoints,
+			MAX_ROYALTY_BASIS_POINTS
+		);
+
+		royaltyCapBasisPoints = _royaltyCapBasisPoints;
+	}
+
+	/**
+	 * @dev Override the royalty of a collection, see `Registry.configureRoyaltyOverride`
+	 * @param collectionAddress: the NFT collection address
+	 * @param enabled: whether the override is used instead of EIP-2981 royaltyInfo
+	 * @param receiver: the royalty receiver
+	 * @param basisPoints: royalty in basis points of the sale price, still bounded by the global cap
+	 */
+	function configureRoyaltyOverride(
+		address collectionAddress,
+		bool enabled,
+		address receiver,
+		uint256 basisPoints
+	) external onlyRole(CONFIG_ADMIN_ROLE) whenNotPaused {
+		Registry.configureRoyaltyOverride(
+			royaltyOverrides,
+			Entity.RoyaltyOverride(enabled, receiver, basisPoints),
+			collectionAddress,
+			MAX_ROYALTY_BASIS_POINTS
+		);
+	}
+
+	/**
+	 * @dev Get the royalty of an NFT, the override takes precedence over EIP-2981 and the result is bounded by the cap
+	 * @param collectionAddress: the NFT collection address
+	 * @param tokenId: the NFT token id
+	 * @param salePrice: the price that the NFT is sold for
+	 * @return receiver the royalty receiver
+	 * @return royaltyAmount the royalty to be paid
+	 */
+	function getRoyalty(
+		address collectionAddress,
+		uint256 tokenId,
+		uint256 salePrice
+	) public view returns (address receiver, uint256 royaltyAmount) {
+		return
+			Transfers.getRoyalty(
+				royaltyOverrides[collectionAddress],
+				royaltyCapBasisPoints,
+				collectionAddress,
+				tokenId,
+				salePrice
+			);
+	}
+
+	/**
+	 * @dev Create proposal and deposit items, offered WETH can be paid with `msg.value` which is wrapped and the excess refunded
+	 * @param id: proposal id
+	 * @param swapItemsData: pocket item list to be passed into proposal creation
+	 * @param swapOptionsData: pocket option list to be passed into proposal creation
+	 * @param expiredAt: expiry date of the proposal
+	 * @param allowedFulfillers: addresses that can fulfill the proposal, empty for a public proposal
+	 * @param fillable: whether the proposal can be filled in parts, only allowed for currency items
+	 */
+	function createProposal(
+		string memory id,
+		address owner,
+		Params.SwapItemParams[] memory swapItemsData,
+		Params.SwapOptionParams[] memory swapOptionsData,
+		uint256 expiredAt,
+		address[] memory allowedFulfillers,
+		bool fillable
+	) external payable nonReentrant whenNotPaused {
+		requireActor(owner);
 
 		/**
-		 * @dev Require constraints
+		 * @dev Validate and record the proposal
 		 */
-		assert(swapOptionsData.length <= maxAllowedOptions);
-		assert(swapItemsData.length <= maxAllowedItems);
-		assert(expiredAt > block.timestamp);
+		Entity.Proposal storage proposal = storeProposal(
+			id,
+			owner,
+			swapItemsData,
+			swapOptionsData,
+			expiredAt
+		);
+
+		if (fillable) Proposals.makeFillable(proposal);
 
 		/**
-		 * @dev Assign proposal
+		 * @dev Transfer items from user address to contract, WETH can be paid in native coin
 		 */
-		proposals[id].id = id;
-		proposals[id].expiredAt = expiredAt;
-		proposals[id].status = Entity.ProposalStatus.Deposited;
-		proposals[id].owner = owner;
+		wrapNative(proposal.offeredItems, new uint256[](0), owner);
+		transferSwapItems(
+			proposal.offeredItems,
+			owner,
+			address(this),
+			Entity.SwapItemStatus.Deposited,
+			proposal.offeredItems
+		);
+
+		/**
+		 * @dev Emit event
+		 */
+		emit ProposalCreated(id, owner, block.timestamp);
+
+		/**
+		 * @dev Restrict the counterparties of a private proposal
+		 */
+		if (allowedFulfillers.length > 0) {
+			setAllowedFulfillers(id, allowedFulfillers);
+		}
+	}
+
+	/**
+	 * @dev Update the addresses allowed to fulfill a proposal
+	 * @param proposalId: the proposal id that targeted to
+	 * @param allowedFulfillers: addresses that can fulfill the proposal, empty to make it public
+	 */
+	function updateAllowedFulfillers(
+		string memory proposalId,
+		address[] memory allowedFulfillers
+	) external nonReentrant whenNotPaused {
+		/**
+		 * @dev Must be an existed proposal at deposited phase, only the proposal owner can update the counterparties.
+		 */
+		requireOwnedDepositedProposal(proposalId);
+
+		setAllowedFulfillers(proposalId, allowedFulfillers);
+	}
 
+	/**
+	 * @dev Update a deposited proposal, only the proposal owner can update it
+	 * @param proposalId: the proposal id that targeted to
+	 * @param expiredAt: the new expiry date, it cannot be earlier than the current one
+	 * @param addedSwapOptions: options to be added, the same constraints as proposal creation apply
+	 * @param removedOptionIds: ids of the options to be removed
+	 */
+	function updateProposal(
+		string memory proposalId,
+		uint256 expiredAt,
+		Params.SwapOptionParams[] memory addedSwapOptions,
+		string[] memory removedOptionIds
+	) external nonReentrant whenNotPaused {
 		/**
-		 * @dev Populate data
+		 * @dev Must be an existed proposal at deposited phase, only the proposal owner can update it.
 		 */
-		for (uint256 i = 0; i < swapOptionsData.length; i++) {
-			/**
-			 * @dev Ensure the id is unique
-			 */
-			assert(uniqueStringRegistry[swapOptionsData[i].id] == false);
-			uniqueStringRegistry[swapOptionsData[i].id] = true;
+		requireOwnedDepositedProposal(proposalId);
+
+		Proposals.update(
+			proposalOf(proposalId),
+			uniqueStringRegistry,
+			whitelist,
+			proposalIndex,
+			Params.ProposalUpdateParams(
+				expiredAt,
+				addedSwapOptions,
+				removedOptionIds
+			),
+			maxAllowedOptions
+		);
 
-			/**
-			 * @dev Check for constraints
-			 */
-			assert(bytes(swapOptionsData[i].id).length > 0);
+		emit ProposalUpdated(proposalId, msg.sender, block.timestamp);
+	}
 
-			/**
-			 * @dev Populate pocket option data
-			 */
-			Entity.SwapOption storage option = proposals[id].swapOptions.push();
-			option.id = swapOptionsData[i].id;
+	/**
+	 * @dev Fulfill proposal, WETH asking items can be paid with `msg.value` which is wrapped and the excess refunded
+	 * @param proposalId: the proposal id that targeted to
+	 * @param optionId: the option id that user wants to fulfil with
+	 */
+	function fulfillProposal(
+		string memory proposalId,
+		string memory optionId,
+		address payable buyer
+	) external payable nonReentrant whenNotPaused {
+		fulfill(proposalId, optionId, buyer, new Params.AskingTokenParams[](0));
+	}
 
-			for (
-				uint256 j = 0;
-				j < swapOptionsData[i].askingItems.length;
-				j++
-			) {
-				/**
-				 * @dev Ensure the id is unique
-				 */
-				assert(
-					uniqueStringRegistry[
-						swapOptionsData[i].askingItems[j].id
-					] == false
-				);
-				uniqueStringRegistry[
-					swapOptionsData[i].askingItems[j].id
-				] = true;
+	/**
+	 * @dev Fulfill proposal with an option asking for collection-wide items
+	 * @param proposalId: the proposal id that targeted to
+	 * @param optionId: the option id that user wants to fulfil with
+	 * @param askingTokens: the tokens chosen for the asking items, matched by index and ignored for exact items
+	 */
+	function fulfillProposalWithTokens(
+		string memory proposalId,
+		string memory optionId,
+		address payable buyer,
+		Params.AskingTokenParams[] memory askingTokens
+	) external payable nonReentrant whenNotPaused {
+		fulfill(proposalId, optionId, buyer, askingTokens);
+	}
 
-				/**
-				 * @dev Must be a whitelisted addresses
-				 */
-				assert(
-					whitelistedAddresses[
-						swapOptionsData[i].askingItems[j].contractAddress
-					] == true
-				);
+	/**
+	 * @dev Fulfill a deposited proposal, see `fulfillProposal`
+	 */
+	function fulfill(
+		string memory proposalId,
+		string memory optionId,
+		address buyer,
+		Params.AskingTokenParams[] memory askingTokens
+	) private {
+		requireActor(buyer);
 
-				/**
-				 * @dev Populate pocket item data
-				 */
-				Entity.SwapItem storage item = option.askingItems.push();
+		/**
+		 * @dev Must be an existed proposal
+		 */
+		requireProposalExists(proposalId);
 
-				item.id = swapOptionsData[i].askingItems[j].id;
-				item.contractAddress = swapOptionsData[i]
-					.askingItems[j]
-					.contractAddress;
-				item.itemType = swapOptionsData[i].askingItems[j].itemType;
-				item.tokenId = swapOptionsData[i].askingItems[j].tokenId;
-				item.amount = swapOptionsData[i].askingItems[j].amount;
-				item.status = Entity.SwapItemStatus.Created;
-			}
+		/**
+		 * @dev Swap the items, fillable proposals are filled with what remains
+		 */
+		Entity.Proposal storage proposal = proposalOf(proposalId);
+		if (proposal.fillable) {
+			fillProposalPart(
+				proposalId,
+				optionId,
+				buyer,
+				proposal.remainingAmounts[0]
+			);
+		} else {
+			redeemProposal(proposalId, optionId, buyer, askingTokens);
 		}
+	}
+
+	/**
+	 * @dev Fill a part of a fillable proposal, the offered items are paid out pro-rata
+	 * @param proposalId: the proposal id that targeted to
+	 * @param optionId: the option id that user wants to fulfil with
+	 * @param buyer: the address that fills the proposal
+	 * @param fillAmount: the amount of the first offered item to be taken, other items follow its proportion
+	 */
+	function fillProposal(
+		string memory proposalId,
+		string memory optionId,
+		address payable buyer,
+		uint256 fillAmount
+	) external payable nonReentrant whenNotPaused {
+		requireActor(buyer);
 
 		/**
-		 * @dev Populate data
+		 * @dev Must be an existed fillable proposal
 		 */
-		for (uint256 i = 0; i < swapItemsData.length; i++) {
-			/**
-			 * @dev Must be a whitelisted addresses
-			 */
-			assert(
-				whitelistedAddresses[swapItemsData[i].contractAddress] == true
+		requireProposalExists(proposalId);
+		if (!proposalOf(proposalId).fillable) {
+			revert Errors.NotFillable(proposalId);
+		}
+
+		fillProposalPart(proposalId, optionId, buyer, fillAmount);
+	}
+
+	/**
+	 * @dev Fulfill several proposals at once, each of them as with `fulfillProposal`. The currencies of the chosen options
+	 * are pulled once per contract, or paid with `msg.value` for WETH, and what failed fulfillments leave is refunded.
+	 * The parameters are left unnamed as the swap never reads them: `Batches.fulfillProposals` decodes the call data itself,
+	 * so that the swap does not embed their decoder. They are, in order, the proposals and the options they are fulfilled
+	 * with, the address that fulfills the proposals and whether failed fulfillments are skipped, the whole batch reverts otherwise.
+	 */
+	function fulfillProposals(
+		Params.FulfillmentParams[] calldata,
+		address payable,
+		bool
+	) external payable nonReentrant whenNotPaused returns (bool[] memory) {
+		return
+			Batches.fulfillProposals(
+				batch,
+				proposalsByKey,
+				permit2Credits,
+				etherman,
+				msg.data[4:],
+				this.fulfillBatchedProposal.selector
+			);
+	}
+
+	/**
+	 * @dev Fulfill a proposal of the running batch, only delegatecalled by `Batches.fulfillProposals` which holds the
+	 * reentrancy guard, see `fulfillProposal`. Outside callers always revert with `BatchInProgress`, the batch is only
+	 * ready for a fulfillment while `fulfillProposals` runs.
+	 * @param proposalId: the proposal id that targeted to
+	 * @param optionId: the option id that user wants to fulfil with
+	 * @param buyer: the address that fulfills the proposal
+	 */
+	function fulfillBatchedProposal(
+		string memory proposalId,
+		string memory optionId,
+		address payable buyer
+	) external payable {
+		if (batch.status != Entity.BatchStatus.Ready) {
+			revert Errors.BatchInProgress();
+		}
+		batch.status = Entity.BatchStatus.Fulfilling;
+
+		fulfill(proposalId, optionId, buyer, new Params.AskingTokenParams[](0));
+	}
+
+	/**
+	 * @dev Get the EIP-712 digest that the owner of a signed proposal signs
+	 * @param proposal: the signed proposal
+	 */
+	function hashSignedProposal(Params.SignedProposalParams memory proposal)
+		public
+		view
+		returns (bytes32)
+	{
+		return SignedProposal.hashTypedData(proposal, address(this));
+	}
+
+	/**
+	 * @dev Fulfill a proposal signed off-chain, items are moved directly between the owner and the buyer
+	 * @param proposal: the signed proposal
+	 * @param signature: the EIP-712 signature of the proposal owner
+	 * @param optionId: the option id that user wants to fulfil with
+	 * @param buyer: the address that fulfills the proposal
+	 */
+	function fulfillSignedProposal(
+		Params.SignedProposalParams memory proposal,
+		bytes memory signature,
+		string memory optionId,
+		address payable buyer
+	) external nonReentrant whenNotPaused {
+		requireActor(buyer);
+
+		/**
+		 * @dev Verify the signature and consume the nonce
+		 */
+		bytes32 digest = SignedProposal.consume(
+			proposal,
+			signature,
+			usedNonces
+		);
+
+		/**
+		 * @dev Record the proposal under its digest and redeem it
+		 */
+		Entity.Proposal storage signedProposal = signedProposalsByDigest[
+			digest
+		];
+		Entity.PackedSwapOption storage option = Proposals.redeemSigned(
+			signedProposal,
+			whitelist,
+			proposal,
+			digest,
+			optionId,
+			buyer,
+			Proposals.Limits(maxAllowedItems, maxAllowedOptions)
+		);
+
+		/**
+		 * @dev Swap the items, offered items are pulled from the owner
+		 */
+		swapRedeemedItems(signedProposal, option, buyer, proposal.owner);
+	}
+
+	/**
+	 * @dev Cancel nonces so that the signed proposals using them cannot be fulfilled
+	 * @param nonces: the nonces to be cancelled
+	 */
+	function cancelNonces(uint256[] memory nonces)
+		external
+		nonReentrant
+		whenNotPaused
+	{
+		SignedProposal.cancelNonces(usedNonces, nonces);
+	}
+
+	/**
+	 * @dev Cancel proposal and withdraw assets. It is deliberately not `whenNotPaused`: owners can also cancel while the swap is paused
+	 * to recover their items, and pausers can then force-return any deposited proposal, never to another address than its owner
+	 * @param proposalId: proposal id that was targeted
+	 */
+	function cancelProposal(string memory proposalId) external nonReentrant {
+		/**
+		 * @dev The proposal must exist and the proposal owner has the rights to cancel it, pausers can force it while paused.
+		 * The proposal must be at deposited phase, modify value and withdraw items to the proposal owner
+		 */
+		address owner = proposalOf(proposalId).owner;
+		bool forced = withdrawProposal(
+			proposalId,
+			Entity.ProposalStatus.Withdrawn,
+			paused() && administration.roles[PAUSER_ROLE][msg.sender]
+		);
+
+		/**
+		 * @dev Emit event
+		 */
+		emit ProposalWithdrawn(proposalId, msg.sender, block.timestamp);
+		if (forced) {
+			emit ProposalEmergencyWithdrawn(
+				proposalId,
+				msg.sender,
+				owner,
+				block.timestamp
+			);
+		}
+	}
+
+	/**
+	 * @dev Return the offered items of an expired proposal to its owner, anyone can trigger it
+	 * @param proposalId: proposal id that was targeted
+	 */
+	function reclaimExpiredProposal(string memory proposalId)
+		external
+		nonReentrant
+		whenNotPaused
+	{
+		/**
+		 * @dev The proposal must exist, be at deposited phase and out of its time window,
+		 * modify value and return items to the proposal owner
+		 */
+		withdrawProposal(proposalId, Entity.ProposalStatus.Expired, false);
+
+		/**
+		 * @dev Emit event
+		 */
+		emit ExpiredProposalReclaimed(proposalId, msg.sender, block.timestamp);
+	}
+
+	/**
+	 * @dev Make a counter-offer against a deposited proposal and deposit its items
+	 * @param id: counter-offer id
+	 * @param proposalId: the proposal id that targeted to
+	 * @param owner: the buyer that makes the counter-offer
+	 * @param swapItemsData: the items offered in exchange of the proposal offered items
+	 * @param expiredAt: expiry date of the counter-offer, it cannot be accepted afterwards
+	 */
+	function createCounterOffer(
+		string memory id,
+		string memory proposalId,
+		address owner,
+		Params.SwapItemParams[] memory swapItemsData,
+		uint256 expiredAt
+	) external nonReentrant whenNotPaused {
+		requireActor(owner);
+		requireProposalExists(proposalId);
+
+		/**
+		 * @dev Record the counter-offer, the buyer must be able to fulfill the proposal
+		 */
+		Entity.CounterOffer storage counterOffer = counterOfferOf(id);
+		Proposals.storeCounterOffer(
+			counterOffer,
+			proposalOf(proposalId),
+			uniqueStringRegistry,
+			whitelist,
+			Params.CounterOfferParams(id, proposalId, expiredAt, swapItemsData),
+			owner,
+			maxAllowedItems
+		);
+
+		/**
+		 * @dev Transfer items from buyer address to contract
+		 */
+		transferSwapItems(
+			counterOffer.offeredItems,
+			owner,
+			address(this),
+			Entity.SwapItemStatus.Deposited,
+			counterOffer.offeredItems
+		);
+	}
+
+	/**
+	 * @dev Accept a counter-offer, both escrows are swapped
+	 * @param counterOfferId: the counter-offer id that targeted to
+	 */
+	function acceptCounterOffer(string memory counterOfferId)
+		external
+		nonReentrant
+		whenNotPaused
+	{
+		Entity.CounterOffer storage counterOffer = requireCounterOfferExists(
+			counterOfferId
+		);
+		Entity.Proposal storage proposal = proposalsByKey[
+			counterOffer.proposalKey
+		];
+
+		/**
+		 * @dev Only the proposal owner can accept a counter-offer in time, the proposal is redeemed
+		 */
+		Proposals.acceptCounterOffer(counterOffer, proposal, proposalIndex);
+
+		/**
+		 * @dev Transfer the counter-offer items to the proposal owner, and then redeem the proposal items
+		 */
+		transferSwapItems(
+			counterOffer.offeredItems,
+			address(this),
+			msg.sender,
+			Entity.SwapItemStatus.Redeemed,
+			proposal.offeredItems
+		);
+		releaseOfferedItems(
+			proposal,
+			counterOffer.owner,
+			Entity.SwapItemStatus.Redeemed,
+			counterOffer.offeredItems
+		);
+	}
+
+	/**
+	 * @dev Withdraw a counter-offer that has not been accepted, expired ones included, it stays open while the swap is paused
+	 * @param counterOfferId: the counter-offer id that targeted to
+	 */
+	function withdrawCounterOffer(string memory counterOfferId)
+		external
+		nonReentrant
+	{
+		Entity.CounterOffer storage counterOffer = requireCounterOfferExists(
+			counterOfferId
+		);
+
+		/**
+		 * @dev Only the buyer can withdraw the counter-offer.
+		 */
+		Proposals.withdrawCounterOffer(
+			counterOffer,
+			proposalsByKey[counterOffer.proposalKey]
+		);
+
+		transferSwapItems(
+			counterOffer.offeredItems,
+			address(this),
+			msg.sender,
+			Entity.SwapItemStatus.Withdrawn,
+			counterOffer.offeredItems
+		);
+	}
+
+	/**
+	 * @dev Give the swap an EIP-2612 allowance of the sender, meant to be batched with `multicall`
+	 * @param token: the currency that supports EIP-2612
+	 * @param value: the allowance
+	 * @param deadline: the permit deadline
+	 */
+	function selfPermit(
+		address token,
+		uint256 value,
+		uint256 deadline,
+		uint8 v,
+		bytes32 r,
+		bytes32 s
+	) external {
+		Permits.selfPermit(token, value, deadline, v, r, s);
+	}
+
+	/**
+	 * @dev Pull currencies of the sender with a Permit2 batch signature transfer, then run a swap call that spends all of them,
+	 * see `Permits.permit2Call`
+	 * @param tokens: the permitted currencies
+	 * @param amounts: the permitted amount of each currency, all of it is transferred
+	 * @param nonce: the Permit2 nonce
+	 * @param deadline: the Permit2 deadline
+	 * @param signature: the Permit2 signature of the sender, the swap being the spender
+	 * @param data: the encoded swap call, e.g. `createProposal` or `fulfillProposal`
+	 */
+	function permit2Call(
+		address[] memory tokens,
+		uint256[] memory amounts,
+		uint256 nonce,
+		uint256 deadline,
+		bytes memory signature,
+		bytes memory data
+	) external returns (bytes memory) {
+		return
+			Permits.permit2Call(
+				tokens,
+				amounts,
+				nonce,
+				deadline,
+				signature,
+				data,
+				permit2Credits
 			);
+	}
+
+	/**
+	 * @dev Wrap ETH to WETH
+	 */
+	function wrapETH(address actor, uint256 amount)
+		external
+		payable
+		nonReentrant
+		whenNotPaused
+	{
+		requireActor(actor);
+		etherman.wrapETH{value: amount}(actor, amount);
+	}
+
+	/**
+	 * @dev Unwrap WETH to ETH
+	 */
+	function unwrapETH(address payable actor)
+		external
+		nonReentrant
+		whenNotPaused
+	{
+		requireActor(actor);
+		Transfers.unwrapAll(actor, etherman);
+	}
 
-			/**
-			 * @dev Ensure the id is unique
-			 */
-			assert(uniqueStringRegistry[swapItemsData[i].id] == false);
-			uniqueStringRegistry[swapItemsData[i].id] = true;
-
-			/**
-			 * @dev Initialize empty struct
-			 */
-			Entity.SwapItem storage swapItem = proposals[id]
-				.offeredItems
-				.push();
-
-			/**
-			 * @dev Assign data
-			 */
-			swapItem.id = swapItemsData[i].id;
-			swapItem.contractAddress = swapItemsData[i].contractAddress;
-			swapItem.itemType = swapItemsData[i].itemType;
-			swapItem.amount = swapItemsData[i].amount;
-			swapItem.owner = owner;
-			swapItem.status = Entity.SwapItemStatus.Deposited;
-			swapItem.tokenId = swapItemsData[i].tokenId;
-		}
+	/**
+	 * @dev Move proposals recorded before the storage redesign, along with their counter-offers, to the records keyed by bytes32,
+	 * they cannot be read nor fulfilled until then and the ones recorded before the indexes are indexed along,
+	 * see `Migrations.migrateProposals`
+	 * @param ids: ids of the proposals to migrate, unknown and already migrated ones are skipped
+	 */
+	function migrateProposals(string[] memory ids) external onlyOwner {
+		Migrations.migrateProposals(
+			proposalRecords,
+			counterOfferRecords,
+			proposalsByKey,
+			counterOffersByKey,
+			proposalIndex,
+			ids
+		);
+	}
 
-		/**
-		 * @dev Transfer items from user address to contract
-		 */
-		transferSwapItems(
-			proposals[id].offeredItems,
+	/**
+	 * @dev Validate and record a proposal, items are not transferred
+	 * @param id: proposal id
+	 * @param owner: the proposal owner
+	 * @param swapItemsData: pocket item list to be passed into proposal creation
+	 * @param swapOptionsData: pocket option list to be passed into proposal creation
+	 * @param expiredAt: expiry date of the proposal
+	 * @return proposal the proposal storage
+	 */
+	function storeProposal(
+		string memory id,
+		address owner,
+		Params.SwapItemParams[] memory swapItemsData,
+		Params.SwapOptionParams[] memory swapOptionsData,
+		uint256 expiredAt
+	) private returns (Entity.Proposal storage proposal) {
+		proposal = proposalOf(id);
+
+		Proposals.store(
+			proposal,
+			uniqueStringRegistry,
+			whitelist,
+			proposalIndex,
+			Params.ProposalParams(
+				id,
+				expiredAt,
+				swapItemsData,
+				swapOptionsData
+			),
 			owner,
-			address(this),
-			Entity.SwapItemStatus.Deposited,
-			address(0)
+			Proposals.Limits(maxAllowedItems, maxAllowedOptions)
 		);
-
-		/**
-		 * @dev Emit event
-		 */
-		emit ProposalCreated(id, owner, block.timestamp);
 	}
 
 	/**
-	 * @dev Fulfill proposal
+	 * @dev Redeem a deposited proposal with one of its options
 	 * @param proposalId: the proposal id that targeted to
 	 * @param optionId: the option id that user wants to fulfil with
+	 * @param buyer: the address that fulfills the proposal
+	 * @param askingTokens: the tokens chosen for the collection-wide asking items
 	 */
-	function fulfillProposal(
+	function redeemProposal(
 		string memory proposalId,
 		string memory optionId,
-		address payable buyer
-	) external nonReentrant whenNotPaused {
-		/**
-		 * @dev This allow owner can use smart contract to create proposal
-		 */
-		assert(buyer == msg.sender || buyer == tx.origin);
+		address buyer,
+		Params.AskingTokenParams[] memory askingTokens
+	) private {
+		Entity.Proposal storage proposal = proposalOf(proposalId);
 
 		/**
-		 * @dev Must be an existed proposal
+		 * @dev Adjust proposal value and bind the option
 		 */
-		assert(bytes(proposals[proposalId].id).length > 0);
+		Entity.PackedSwapOption storage option = Proposals.redeem(
+			proposal,
+			proposalIndex,
+			optionId,
+			buyer,
+			askingTokens
+		);
 
-		/**
-		 * @dev The proposal must be at deposited phase.
-		 */
-		assert(proposals[proposalId].status == Entity.ProposalStatus.Deposited);
+		swapRedeemedItems(proposal, option, buyer, address(this));
 
 		/**
-		 * @dev The proposal must be still in time window.
+		 * @dev Emit event
 		 */
-		assert(proposals[proposalId].expiredAt > block.timestamp);
+		emit ProposalRedeemed(
+			proposalId,
+			msg.sender,
+			block.timestamp,
+			optionId
+		);
+	}
 
+	/**
+	 * @dev Swap the items of a redeemed proposal
+	 * @param proposal: the proposal storage
+	 * @param option: the option the proposal is redeemed with
+	 * @param buyer: the address that fulfills the proposal
+	 * @param offeredFrom: where the offered items are pulled from, the vault or the owner of a signed proposal
+	 */
+	function swapRedeemedItems(
+		Entity.Proposal storage proposal,
+		Entity.PackedSwapOption storage option,
+		address buyer,
+		address offeredFrom
+	) private {
 		/**
-		 * @dev Adjust proposal value.
+		 * @dev Transfer assets to owner, royalties of the offered NFTs are paid out of the asking currencies
 		 */
-		proposals[proposalId].fulfilledBy = buyer;
-		proposals[proposalId].fulfilledByOptionId = optionId;
-		proposals[proposalId].status = Entity.ProposalStatus.Redeemed;
+		wrapNative(option.askingItems, new uint256[](0), buyer);
+		transferSwapItems(
+			option.askingItems,
+			buyer,
+			proposal.owner,
+			Entity.SwapItemStatus.Redeemed,
+			proposal.offeredItems
+		);
 
 		/**
-		 * @dev Find the proposal
+		 * @dev And then redeem items, royalties of the asking NFTs are paid out of the offered currencies
 		 */
-		uint256 index = maxAllowedItems + 1;
-
-		for (uint256 i = 0; i < proposals[proposalId].swapOptions.length; i++) {
-			Entity.Proposal memory _proposal = proposals[proposalId];
-			Entity.SwapOption memory _option = _proposal.swapOptions[i];
-			string memory _optionId = _option.id;
-
-			if (areStringsEqual(_optionId, optionId)) {
-				index = i;
-				break;
-			}
-		}
+		transferSwapItems(
+			proposal.offeredItems,
+			offeredFrom,
+			buyer,
+			Entity.SwapItemStatus.Redeemed,
+			option.askingItems
+		);
+	}
 
-		/**
-		 * @dev Check for constraints
-		 */
-		assert(index != maxAllowedItems + 1);
+	/**
+	 * @dev Fill a part of a deposited fillable proposal, the proposal is redeemed once fully filled, see `Proposals.fill`
+	 * @param proposalId: the proposal id that targeted to
+	 * @param optionId: the option id that user wants to fulfil with
+	 * @param buyer: the address that fills the proposal
+	 * @param fillAmount: the amount of the first offered item to be taken
+	 */
+	function fillProposalPart(
+		string memory proposalId,
+		string memory optionId,
+		address buyer,
+		uint256 fillAmount
+	) private {
+		Entity.Proposal storage proposal = proposalOf(proposalId);
 
 		/**
-		 * @dev Binding option
+		 * @dev Record the fill
 		 */
-		Entity.SwapOption storage option = proposals[proposalId].swapOptions[
-			index
-		];
+		(
+			Entity.PackedSwapOption storage option,
+			uint256[] memory offeredAmounts,
+			uint256[] memory askingAmounts
+		) = Proposals.fill(
+				proposal,
+				proposalIndex,
+				optionId,
+				buyer,
+				fillAmount
+			);
 
 		/**
-		 * @dev Transfer assets to owner
+		 * @dev Transfer assets to owner, and then redeem items
 		 */
-		transferSwapItems(
+		wrapNative(option.askingItems, askingAmounts, buyer);
+		transferSwapItemParts(
 			option.askingItems,
+			askingAmounts,
 			buyer,
-			address(proposals[proposalId].owner),
-			Entity.SwapItemStatus.Redeemed,
-			buyer
+			proposal.owner,
+			Entity.SwapItemStatus.Redeemed
 		);
-
-		/**
-		 * @dev And then redeem items
-		 */
-		transferSwapItems(
-			proposals[proposalId].offeredItems,
+		transferSwapItemParts(
+			proposal.offeredItems,
+			offeredAmounts,
 			address(this),
 			buyer,
-			Entity.SwapItemStatus.Redeemed,
-			address(0)
+			Entity.SwapItemStatus.Redeemed
 		);
 
 		/**
 		 * @dev Emit event
 		 */
-		emit ProposalRedeemed(
+		emit ProposalFilled(
 			proposalId,
 			msg.sender,
 			block.timestamp,
-			optionId
+			optionId,
+			fillAmount,
+			proposal.remainingAmounts[0]
 		);
+
+		if (proposal.status == Entity.ProposalStatus.Redeemed) {
+			emit ProposalRedeemed(
+				proposalId,
+				msg.sender,
+				block.timestamp,
+				optionId
+			);
+		}
 	}
 
 	/**
-	 * @dev Cancel proposal and withdraw assets
-	 * @param proposalId: proposal id that was targeted
+	 * @dev Close an existing proposal without a buyer and return its offered items to the owner, see `Proposals.withdraw`
+	 * @param proposalId: the proposal id
+	 * @param status: the status that the proposal is closed with
+	 * @param forcible: whether the sender may withdraw a proposal it does not own
+	 * @return forced whether the proposal was withdrawn by someone else than its owner
 	 */
-	function cancelProposal(string memory proposalId)
-		external
-		nonReentrant
-		whenNotPaused
-	{
-		/**
-		 * @dev Must be an existed proposal
-		 */
-		assert(bytes(proposals[proposalId].id).length > 0);
+	function withdrawProposal(
+		string memory proposalId,
+		Entity.ProposalStatus status,
+		bool forcible
+	) private returns (bool forced) {
+		requireProposalExists(proposalId);
+		Entity.Proposal storage proposal = proposalOf(proposalId);
+
+		forced = Proposals.withdraw(proposal, proposalIndex, status, forcible);
+		releaseOfferedItems(
+			proposal,
+			proposal.owner,
+			Entity.SwapItemStatus.Withdrawn,
+			proposal.offeredItems
+		);
+	}
 
-		/**
-		 * @dev The proposal owner has the rights to cancel the proposal.
-		 */
-		assert(proposals[proposalId].owner == msg.sender);
+	/**
+	 * @dev Release the offered items of a proposal from the vault, only what remains of a fillable proposal
+	 * @param proposal: the proposal storage
+	 * @param to: the address that receives the items
+	 * @param remarkedStatus: the status that user wants to change to
+	 * @param counterItems: the items traded against, see `transferSwapItems`
+	 */
+	function releaseOfferedItems(
+		Entity.Proposal storage proposal,
+		address to,
+		Entity.SwapItemStatus remarkedStatus,
+		Entity.PackedSwapItem[] storage counterItems
+	) private {
+		if (proposal.fillable) {
+			transferSwapItemParts(
+				proposal.offeredItems,
+				Proposals.releaseRemainingAmounts(proposal, remarkedStatus),
+				address(this),
+				to,
+				remarkedStatus
+			);
+		} else {
+			transferSwapItems(
+				proposal.offeredItems,
+				address(this),
+				to,
+				remarkedStatus,
+				counterItems
+			);
+		}
+	}
 
-		/**
-		 * @dev The proposal must be at deposited phase.
-		 */
-		assert(proposals[proposalId].status == Entity.ProposalStatus.Deposited);
+	/**
+	 * @dev Move items between the vault and users, see `Transfers.transferSwapItems`
+	 * @param items: the items that user wants to transfer
+	 * @param from: the address that user wants to transfer from
+	 * @param to: the address that user wants to transfer to
+	 * @param remarkedStatus: the status that user wants to change to
+	 * @param counterItems: the items traded against, royalties of their NFTs are paid out of the currency items, ignored unless redeemed
+	 */
+	function transferSwapItems(
+		Entity.PackedSwapItem[] storage items,
+		address from,
+		address to,
+		Entity.SwapItemStatus remarkedStatus,
+		Entity.PackedSwapItem[] storage counterItems
+	) private {
+		Transfers.transferSwapItems(
+			items,
+			counterItems,
+			whitelistedAddresses,
+			royaltyOverrides,
+			permit2Credits,
+			transferContext(from, to, remarkedStatus)
+		);
+	}
 
-		/**
-		 * @dev Modify value
-		 */
-		proposals[proposalId].status = Entity.ProposalStatus.Withdrawn;
+	/**
+	 * @dev Move parts of currency items between the vault and users, see `Transfers.transferSwapItemParts`
+	 * @param items: the items that user wants to transfer
+	 * @param amounts: the amount of each item to be transferred
+	 * @param from: the address that user wants to transfer from
+	 * @param to: the address that user wants to transfer to
+	 * @param remarkedStatus: the status the transfer is made for, items are not updated
+	 */
+	function transferSwapItemParts(
+		Entity.PackedSwapItem[] storage items,
+		uint256[] memory amounts,
+		address from,
+		address to,
+		Entity.SwapItemStatus remarkedStatus
+	) private {
+		Transfers.transferSwapItemParts(
+			items,
+			amounts,
+			whitelistedAddresses,
+			permit2Credits,
+			transferContext(from, to, remarkedStatus)
+		);
+	}
 
-		/**
-		 * @dev Withdraw items
-		 */
-		transferSwapItems(
-			proposals[proposalId].offeredItems,
-			address(this),
-			msg.sender,
-			Entity.SwapItemStatus.Withdrawn,
-			address(0)
+	/**
+	 * @dev Wrap the native coin sent along to pay WETH items, see `Transfers.wrapNative`, batches wrap it beforehand
+	 * @param items: the items to be paid by the sender
+	 * @param amounts: the amount of each item to be paid, the item amounts if empty
+	 * @param from: the payer of the items
+	 */
+	function wrapNative(
+		Entity.PackedSwapItem[] storage items,
+		uint256[] memory amounts,
+		address from
+	) private {
+		Transfers.wrapNative(
+			items,
+			amounts,
+			permit2Credits,
+			batch,
+			from,
+			etherman
 		);
+	}
 
-		/**
-		 * @dev Emit event
-		 */
-		emit ProposalWithdrawn(proposalId, msg.sender, block.timestamp);
+	/**
+	 * @dev Build the transfer context out of the current configurations
+	 */
+	function transferContext(
+		address from,
+		address to,
+		Entity.SwapItemStatus remarkedStatus
+	) private view returns (Transfers.Context memory) {
+		return
+			Transfers.Context(
+				from,
+				to,
+				remarkedStatus,
+				etherman,
+				protocolFeeBasisPoints,
+				protocolFeeRecipient,
+				royaltyCapBasisPoints
+			);
 	}
 
 	/**
-	 * @dev Wrap ETH to WETH
+	 * @dev Store the allowed fulfillers of a proposal and emit event, see `Proposals.setAllowedFulfillers`
 	 */
-	function wrapETH(address actor, uint256 amount)
-		external
-		payable
-		nonReentrant
-		whenNotPaused
-	{
-		assert(actor == msg.sender || actor == tx.origin);
-		etherman.wrapETH{value: amount}(actor, amount);
+	function setAllowedFulfillers(
+		string memory proposalId,
+		address[] memory allowedFulfillers
+	) private {
+		Proposals.setAllowedFulfillers(
+			proposalOf(proposalId),
+			allowedFulfillers
+		);
 	}
 
 	/**
-	 * @dev Unwrap WETH to ETH
+	 * @dev Grant or revoke a role, see `Administration.setRole`
 	 */
-	function unwrapETH(address payable actor)
-		external
-		nonReentrant
-		whenNotPaused
+	function setRole(
+		bytes32 role,
+		address account,
+		bool granted
+	) private {
+		Administration.setRole(administration, role, account, granted);
+	}
+
+	/**
+	 * @dev Get the storage of a proposal by its string id, see `Proposals.keyOf`
+	 */
+	function proposalOf(string memory id)
+		private
+		view
+		returns (Entity.Proposal storage)
 	{
-		/**
-		 * @dev This allow owner can use smart contract to create proposal
-		 */
-		assert(actor == msg.sender || actor == tx.origin);
+		return proposalsByKey[Proposals.keyOf(id)];
+	}
 
-		uint256 amount = IWETH9(etherman.WETH()).balanceOf(actor);
+	/**
+	 * @dev Get the storage of a counter-offer by its string id, see `Proposals.keyOf`
+	 */
+	function counterOfferOf(string memory id)
+		private
+		view
+		returns (Entity.CounterOffer storage)
+	{
+		return counterOffersByKey[Proposals.keyOf(id)];
+	}
 
-		assert(amount > 0);
-		assert(
-			IWETH9(etherman.WETH()).transferFrom(actor, address(this), amount)
-		);
+	/**
+	 * @dev Return data that is already ABI-encoded, so that the swap does not embed the encoder of nested items.
+	 * It returns through assembly to keep the swap under the contract size limit, the getters calling it keep naming
+	 * their outputs for the ABI and only mention them in a statement so that they are not reported as unassigned
+	 */
+	function returnEncoded(bytes memory data) private pure {
+		assembly {
+			return(add(data, 32), mload(data))
+		}
+	}
 
-		etherman.unwrapWETH(actor, amount);
+	/**
+	 * @dev Revert if the sender has not been granted the role
+	 */
+	function requireRole(bytes32 role) private view {
+		if (!administration.roles[role][msg.sender]) {
+			revert Errors.MissingRole(role, msg.sender);
+		}
 	}
 
 	/**
-	 * @dev Withdraw assets from contract
-	 * @param items: the items that user wants to transfer
-	 * @param from: the address that user wants to transfer from
-	 * @param to: the address that user wants to transfer to
-	 * @param remarkedStatus: the status that user wants to change to
-	 * @param remarkedOwner: the owner that user wants to change to
+	 * @dev Revert if the actor is neither the sender nor the transaction origin,
+	 * this allow owner can use smart contract to interact with the swap
 	 */
-	function transferSwapItems(
-		Entity.SwapItem[] storage items,
-		address from,
-		address to,
-		Entity.SwapItemStatus remarkedStatus,
-		address remarkedOwner
-	) private {
-		/**
-		 * @dev And then withdraw items
-		 */
-		for (uint256 i = 0; i < items.length; i++) {
-			/**
-			 * @dev Must be a whitelisted addresses
-			 */
-			require(whitelistedAddresses[items[i].contractAddress] == true);
-
-			/**
-			 * @dev Change to remarkedStatus
-			 */
-			items[i].status = remarkedStatus;
-
-			/**
-			 * @dev Change to remarked owner if needed
-			 */
-			if (remarkedOwner != address(0)) {
-				items[i].owner = remarkedOwner;
-			}
-
-			/**
-			 * @dev transfer ERC721 assets
-			 */
-			if (items[i].itemType == Entity.SwapItemType.Nft) {
-				items[i].amount = 1;
-
-				IERC721(items[i].contractAddress).safeTransferFrom(
-					from,
-					to,
-					items[i].tokenId
-				);
-			}
-
-			/**
-			 * @dev transfer ERC20 assets
-			 */
-			if (items[i].itemType == Entity.SwapItemType.Currency) {
-				/// @dev Mark tokenId as 0 as it's not an ERC721 item
-				items[i].tokenId = 0;
-
-				bool shouldUnwrap = items[i].contractAddress ==
-					address(etherman.WETH()) &&
-					(from == address(this) || to != address(this));
-
-				/// @dev If transferring out of the vault
-				if (from == address(this)) {
-					/// @dev If it's WETH, unwrap it
-					if (shouldUnwrap) {
-						etherman.unwrapWETH(payable(to), items[i].amount);
-					} else {
-						/// @dev Transfer normal ERC20 assets
-						assert(
-							IERC20(items[i].contractAddress).transfer(
-								to,
-								items[i].amount
-							)
-						);
-					}
-				} else {
-					if (shouldUnwrap) {
-						/// @dev If transferring to the vault and it's WETH, unwrap it
-						assert(
-							IERC20(items[i].contractAddress).transferFrom(
-								from,
-								address(this),
-								items[i].amount
-							)
-						);
-
-						etherman.unwrapWETH(payable(to), items[i].amount);
-					} else {
-						/// @dev If transferring to the vault, process it normally
-						assert(
-							IERC20(items[i].contractAddress).transferFrom(
-								from,
-								to,
-								items[i].amount
-							)
-						);
-					}
-				}
-			}
-
-			/**
-			 * @dev Emit event
-			 */
-			if (remarkedStatus == Entity.SwapItemStatus.Deposited) {
-				emit ItemDeposited(
-					items[i].id,
-					msg.sender,
-					from,
-					block.timestamp,
-					items[i].contractAddress,
-					items[i].tokenId,
-					items[i].amount
-				);
-			} else if (remarkedStatus == Entity.SwapItemStatus.Redeemed) {
-				emit ItemRedeemed(
-					items[i].id,
-					msg.sender,
-					from,
-					to,
-					block.timestamp,
-					items[i].contractAddress,
-					items[i].tokenId,
-					items[i].amount
-				);
-			} else if (remarkedStatus == Entity.SwapItemStatus.Withdrawn) {
-				emit ItemWithdrawn(
-					items[i].id,
-					msg.sender,
-					from,
-					to,
-					block.timestamp,
-					items[i].contractAddress,
-					items[i].tokenId,
-					items[i].amount
-				);
-			}
+	function requireActor(address actor) private view {
+		if (actor != msg.sender && actor != tx.origin) {
+			revert Errors.UnauthorizedActor(actor);
 		}
 	}
 
 	/**
-	 * @dev Utility function
+	 * @dev Revert unless the proposal exists, is owned by the sender and is at deposited phase, see `Proposals.requireOwnedDeposited`
 	 */
-	function areStringsEqual(string memory s1, string memory s2)
+	function requireOwnedDepositedProposal(string memory proposalId)
 		private
-		pure
-		returns (bool)
+		view
 	{
-		return
-			keccak256(abi.encodePacked(s1)) == keccak256(abi.encodePacked(s2));
+		Proposals.requireOwnedDeposited(proposalOf(proposalId), proposalId);
+	}
+
+	/**
+	 * @dev Revert if the counter-offer does not exist, its status is checked by `Proposals`
+	 */
+	function requireCounterOfferExists(string memory counterOfferId)
+		private
+		view
+		returns (Entity.CounterOffer storage counterOffer)
+	{
+		counterOffer = counterOfferOf(counterOfferId);
+
+		if (bytes(counterOffer.id).length == 0) {
+			revert Errors.CounterOfferNotFound(counterOfferId);
+		}
+	}
+
+	/**
+	 * @dev Revert if the proposal does not exist
+	 */
+	function requireProposalExists(string memory proposalId) private view {
+		if (bytes(proposalOf(proposalId).id).length == 0) {
+			revert Errors.ProposalNotFound(proposalId);
+		}
 	}
 
 	/// @custom:oz-upgrades-unsafe-allow constructor
@@ -662,16 +1822,23 @@ contract HamsterSwap is
 		_disableInitializers();
 	}
 
+	/**
+	 * @dev The deployer is the owner and holds every role until they are handed over
+	 */
 	function initialize() public initializer {
 		__Pausable_init();
 		__Ownable_init();
+
+		setRole(PAUSER_ROLE, msg.sender, true);
+		setRole(COLLECTION_MANAGER_ROLE, msg.sender, true);
+		setRole(CONFIG_ADMIN_ROLE, msg.sender, true);
 	}
 
-	function pause() public onlyOwner {
+	function pause() public onlyRole(PAUSER_ROLE) {
 		_pause();
 	}
 
-	function unpause() public onlyOwner {
+	function unpause() public onlyRole(PAUSER_ROLE) {
 		_unpause();
 	}
 
@@ -683,4 +1850,35 @@ contract HamsterSwap is
 	) external pure returns (bytes4) {
 		return IERC721Receiver.onERC721Received.selector;
 	}
+
+	function onERC1155Received(
+		address,
+		address,
+		uint256,
+		uint256,
+		bytes calldata
+	) external pure returns (bytes4) {
+		return IERC1155Receiver.onERC1155Received.selector;
+	}
+
+	function onERC1155BatchReceived(
+		address,
+		address,
+		uint256[] calldata,
+		uint256[] calldata,
+		bytes calldata
+	) external pure returns (bytes4) {
+		return IERC1155Receiver.onERC1155BatchReceived.selector;
+	}
+
+	function supportsInterface(bytes4 interfaceId)
+		external
+		pure
+		returns (bool)
+	{
+		return
+			interfaceId == type(IERC1155Receiver).interfaceId ||
+			interfaceId == type(IERC721Receiver).interfaceId ||
+			interfaceId == type(IERC165).interfaceId;
+	}
 }
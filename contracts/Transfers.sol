@@ -0,0 +1,616 @@
+pragma solidity >=0.8.17;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import "@openzeppelin/contracts/interfaces/IERC2981.sol";
+import "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
+
+import "./Entity.sol";
+import "./Errors.sol";
+import "./Etherman.sol";
+
+/**
+ * @notice Item transfers of HamsterSwap, linked as an external library to keep the swap under the contract size limit.
+ * Functions are delegatecalled, so `address(this)` is the swap vault.
+ **/
+library Transfers {
+	uint256 internal constant BASIS_POINTS = 10000;
+
+	/**
+	 * @dev Define the transfer context, snapshot of the swap configurations
+	 */
+	struct Context {
+		address from;
+		address to;
+		Entity.SwapItemStatus remarkedStatus;
+		Etherman etherman;
+		uint256 protocolFeeBasisPoints;
+		address protocolFeeRecipient;
+		uint256 royaltyCapBasisPoints;
+	}
+
+	/** @dev Events, mirrored in HamsterSwap */
+	event ProtocolFeeCollected(
+		string id,
+		address fromAddress,
+		address toAddress,
+		uint256 timestamp,
+		address contractAddress,
+		uint256 amount
+	);
+
+	event RoyaltyPaid(
+		string id,
+		address fromAddress,
+		address toAddress,
+		uint256 timestamp,
+		address contractAddress,
+		uint256 amount,
+		address collectionAddress,
+		uint256 tokenId
+	);
+
+	event ItemDeposited(
+		string id,
+		address actor,
+		address fromAddress,
+		uint256 timestamp,
+		address contractAddress,
+		uint256 amount,
+		uint256 tokenId
+	);
+
+	event ItemRedeemed(
+		string id,
+		address actor,
+		address fromAddress,
+		address toAddress,
+		uint256 timestamp,
+		address contractAddress,
+		uint256 amount,
+		uint256 tokenId
+	);
+
+	event ItemWithdrawn(
+		string id,
+		address actor,
+		address fromAddress,
+		address toAddress,
+		uint256 timestamp,
+		address contractAddress,
+		uint256 amount,
+		uint256 tokenId
+	);
+
+	/**
+	 * @dev Move items between the vault and users, charging protocol fee and royalties on redeemed currencies
+	 * @param items: the items that user wants to transfer
+	 * @param counterItems: the items traded against, royalties of their NFTs are paid out of the currency items, ignored unless redeemed
+	 * @param whitelistedAddresses: the swap whitelist, checked for the items pulled from users
+	 * @param royaltyOverrides: the swap royalty overrides
+	 * @param credits: the swap credits, see `Permits.permit2Call`
+	 * @param context: the transfer context
+	 */
+	function transferSwapItems(
+		Entity.PackedSwapItem[] storage items,
+		Entity.PackedSwapItem[] storage counterItems,
+		mapping(address => bool) storage whitelistedAddresses,
+		mapping(address => Entity.RoyaltyOverride) storage royaltyOverrides,
+		mapping(address => mapping(address => uint256)) storage credits,
+		Context memory context
+	) external {
+		/**
+		 * @dev And then withdraw items
+		 */
+		for (uint256 i = 0; i < items.length; i++) {
+			/**
+			 * @dev Items pulled from users must be whitelisted, items leaving the vault are not checked
+			 * so that escrowed items of a removed address can still be returned or redeemed
+			 */
+			if (
+				context.from != address(this) &&
+				!whitelistedAddresses[items[i].contractAddress]
+			) {
+				revert Errors.NotWhitelisted(items[i].contractAddress);
+			}
+
+			/**
+			 * @dev Change to remarkedStatus
+			 */
+			items[i].status = context.remarkedStatus;
+
+			/**
+			 * @dev transfer ERC721 assets
+			 */
+			if (items[i].itemType == Entity.SwapItemType.Nft) {
+				items[i].amount = 1;
+
+				IERC721(items[i].contractAddress).safeTransferFrom(
+					context.from,
+					context.to,
+					items[i].tokenId
+				);
+			}
+
+			/**
+			 * @dev transfer ERC1155 assets
+			 */
+			if (items[i].itemType == Entity.SwapItemType.SemiFungible) {
+				IERC1155(items[i].contractAddress).safeTransferFrom(
+					context.from,
+					context.to,
+					items[i].tokenId,
+					items[i].amount,
+					""
+				);
+			}
+
+			/**
+			 * @dev transfer ERC20 assets
+			 */
+			if (items[i].itemType == Entity.SwapItemType.Currency) {
+				/// @dev Mark tokenId as 0 as it's not an ERC721 item
+				items[i].tokenId = 0;
+
+				/// @dev Prefunded currencies are already in the vault
+				address from = context.from;
+				if (isPrefunded(items[i], items[i].amount, credits, context)) {
+					context.from = address(this);
+				}
+
+				/// @dev Royalties are only paid when the proposal is redeemed
+				uint256 royaltyAmount = context.remarkedStatus ==
+					Entity.SwapItemStatus.Redeemed
+					? payRoyalties(
+						items[i],
+						counterItems,
+						royaltyOverrides,
+						context
+					)
+					: 0;
+
+				transferCurrency(
+					items[i],
+					items[i].amount,
+					royaltyAmount,
+					context
+				);
+
+				context.from = from;
+			}
+
+			emitItemEvent(items[i], items[i].amount, context);
+		}
+	}
+
+	/**
+	 * @dev Move parts of currency items between the vault and users, item status is left to the caller
+	 * @param items: the currency items that user wants to transfer
+	 * @param amounts: the amount of each item to be transferred, zero amounts are skipped
+	 * @param whitelistedAddresses: the swap whitelist, checked for the items pulled from users
+	 * @param credits: the swap credits, see `Permits.permit2Call`
+	 * @param context: the transfer context
+	 */
+	function transferSwapItemParts(
+		Entity.PackedSwapItem[] storage items,
+		uint256[] memory amounts,
+		mapping(address => bool) storage whitelistedAddresses,
+		mapping(address => mapping(address => uint256)) storage credits,
+		Context memory context
+	) external {
+		for (uint256 i = 0; i < items.length; i++) {
+			if (amounts[i] == 0) continue;
+
+			/**
+			 * @dev Items pulled from users must be whitelisted, items leaving the vault are not checked
+			 * so that escrowed items of a removed address can still be returned or redeemed
+			 */
+			if (
+				context.from != address(this) &&
+				!whitelistedAddresses[items[i].contractAddress]
+			) {
+				revert Errors.NotWhitelisted(items[i].contractAddress);
+			}
+
+			/// @dev Prefunded currencies are already in the vault
+			address from = context.from;
+			if (isPrefunded(items[i], amounts[i], credits, context)) {
+				context.from = address(this);
+			}
+
+			transferCurrency(items[i], amounts[i], 0, context);
+
+			context.from = from;
+
+			emitItemEvent(items[i], amounts[i], context);
+		}
+	}
+
+	/**
+	 * @dev Wrap the native coin sent along for the WETH items to be paid into the vault and credit it to the payer,
+	 * the excess is refunded to the sender
+	 * @param items: the items to be paid
+	 * @param amounts: the amount of each item to be paid, the item amounts if empty
+	 * @param credits: the swap credits, spent by `isPrefunded`
+	 * @param batch: the swap batch, a running batch has wrapped the native coin beforehand
+	 * @param from: the payer of the items
+	 * @param etherman: the swap etherman
+	 */
+	function wrapNative(
+		Entity.PackedSwapItem[] storage items,
+		uint256[] memory amounts,
+		mapping(address => mapping(address => uint256)) storage credits,
+		Entity.Batch storage batch,
+		address from,
+		Etherman etherman
+	) external {
+		if (msg.value == 0 || batch.status != Entity.BatchStatus.Idle) return;
+
+		address weth = etherman.WETH();
+		uint256 amount = 0;
+
+		for (uint256 i = 0; i < items.length; i++) {
+			if (
+				items[i].itemType == Entity.SwapItemType.Currency &&
+				items[i].contractAddress == weth
+			) {
+				amount += amounts.length > 0 ? amounts[i] : items[i].amount;
+			}
+		}
+
+		if (msg.value < amount) revert Errors.AmountMismatch(amount, msg.value);
+		if (amount > 0) {
+			etherman.wrapETH{value: amount}(address(this), amount);
+			credits[from][weth] += amount;
+		}
+
+		/// @dev Refund the excess
+		if (msg.value > amount) {
+			(bool success, ) = payable(msg.sender).call{
+				value: msg.value - amount
+			}("");
+			if (!success) {
+				revert Errors.NativeTransferFailed(
+					msg.sender,
+					msg.value - amount
+				);
+			}
+		}
+	}
+
+	/**
+	 * @dev Unwrap the whole WETH balance of an user into native coin
+	 * @param actor: the user, WETH must be approved to the swap
+	 * @param etherman: the swap etherman
+	 */
+	function unwrapAll(address payable actor, Etherman etherman) external {
+		address weth = etherman.WETH();
+		uint256 amount = IERC20(weth).balanceOf(actor);
+
+		if (amount == 0) revert Errors.ZeroAmount();
+		transferERC20(weth, actor, address(this), amount);
+
+		etherman.unwrapWETH(actor, amount);
+	}
+
+	/**
+	 * @dev Transfer an amount of a currency item, WETH is unwrapped when it leaves the vault
+	 * @param item: the currency item
+	 * @param amount: the amount to be transferred
+	 * @param royaltyAmount: the royalties already paid out of the amount
+	 * @param context: the transfer context
+	 */
+	function transferCurrency(
+		Entity.PackedSwapItem storage item,
+		uint256 amount,
+		uint256 royaltyAmount,
+		Context memory context
+	) private {
+		/// @dev Protocol fee is only charged when the proposal is redeemed
+		if (context.remarkedStatus == Entity.SwapItemStatus.Redeemed) {
+			amount -= collectProtocolFee(item, amount, context);
+		}
+		amount -= royaltyAmount;
+
+		/// @dev Already in the vault, see `wrapNative`
+		if (context.from == context.to) return;
+
+		bool shouldUnwrap = item.contractAddress ==
+			address(context.etherman.WETH()) &&
+			(context.from == address(this) || context.to != address(this));
+
+		/// @dev If transferring out of the vault
+		if (context.from == address(this)) {
+			/// @dev If it's WETH, unwrap it
+			if (shouldUnwrap) {
+				context.etherman.unwrapWETH(payable(context.to), amount);
+			} else {
+				/// @dev Transfer normal ERC20 assets
+				transferERC20(
+					item.contractAddress,
+					context.from,
+					context.to,
+					amount
+				);
+			}
+		} else {
+			if (shouldUnwrap) {
+				/// @dev If transferring to the vault and it's WETH, unwrap it
+				transferERC20(
+					item.contractAddress,
+					context.from,
+					address(this),
+					amount
+				);
+
+				context.etherman.unwrapWETH(payable(context.to), amount);
+			} else {
+				/// @dev If transferring to the vault, process it normally
+				transferERC20(
+					item.contractAddress,
+					context.from,
+					context.to,
+					amount
+				);
+			}
+		}
+	}
+
+	/**
+	 * @dev Whether a currency item pulled from an user is already in the vault, spent out of the user credits.
+	 * WETH paid in native coin is credited as well, so that each item spends its own share of it.
+	 * @param item: the currency item
+	 * @param amount: the amount to be pulled
+	 * @param credits: the swap credits, see `Permits.permit2Call`, `Batches.fulfillProposals` and `wrapNative`
+	 * @param context: the transfer context
+	 */
+	function isPrefunded(
+		Entity.PackedSwapItem storage item,
+		uint256 amount,
+		mapping(address => mapping(address => uint256)) storage credits,
+		Context memory context
+	) private returns (bool) {
+		if (context.from == address(this)) return false;
+
+		uint256 credit = credits[context.from][item.contractAddress];
+		if (credit < amount) return false;
+
+		credits[context.from][item.contractAddress] = credit - amount;
+		return true;
+	}
+
+	/**
+	 * @dev Emit the item event matching the remarked status, the amount comes before the token id as declared
+	 * @param item: the transferred item
+	 * @param amount: the transferred amount
+	 * @param context: the transfer context
+	 */
+	function emitItemEvent(
+		Entity.PackedSwapItem storage item,
+		uint256 amount,
+		Context memory context
+	) private {
+		if (context.remarkedStatus == Entity.SwapItemStatus.Deposited) {
+			emit ItemDeposited(
+				item.id,
+				msg.sender,
+				context.from,
+				block.timestamp,
+				item.contractAddress,
+				amount,
+				item.tokenId
+			);
+		} else if (context.remarkedStatus == Entity.SwapItemStatus.Redeemed) {
+			emit ItemRedeemed(
+				item.id,
+				msg.sender,
+				context.from,
+				context.to,
+				block.timestamp,
+				item.contractAddress,
+				amount,
+				item.tokenId
+			);
+		} else if (context.remarkedStatus == Entity.SwapItemStatus.Withdrawn) {
+			emit ItemWithdrawn(
+				item.id,
+				msg.sender,
+				context.from,
+				context.to,
+				block.timestamp,
+				item.contractAddress,
+				amount,
+				item.tokenId
+			);
+		}
+	}
+
+	/**
+	 * @dev Charge protocol fee on a currency item, the fee is paid in the item token
+	 * @param item: the currency item that is being redeemed
+	 * @param amount: the redeemed amount of the item
+	 * @param context: the transfer context
+	 * @return fee the amount that has been sent to the fee recipient
+	 */
+	function collectProtocolFee(
+		Entity.PackedSwapItem storage item,
+		uint256 amount,
+		Context memory context
+	) private returns (uint256 fee) {
+		fee = (amount * context.protocolFeeBasisPoints) / BASIS_POINTS;
+		if (fee == 0) return 0;
+
+		transferERC20(
+			item.contractAddress,
+			context.from,
+			context.protocolFeeRecipient,
+			fee
+		);
+
+		emit ProtocolFeeCollected(
+			item.id,
+			context.from,
+			context.protocolFeeRecipient,
+			block.timestamp,
+			item.contractAddress,
+			fee
+		);
+	}
+
+	/**
+	 * @dev Pay royalties of the traded NFTs out of a currency item, the item amount is split evenly between the NFTs
+	 * @param item: the currency item that is being redeemed
+	 * @param counterItems: the items traded against the currency item
+	 * @param royaltyOverrides: the swap royalty overrides
+	 * @param context: the transfer context
+	 * @return total the amount that has been sent to the royalty receivers
+	 */
+	function payRoyalties(
+		Entity.PackedSwapItem storage item,
+		Entity.PackedSwapItem[] storage counterItems,
+		mapping(address => Entity.RoyaltyOverride) storage royaltyOverrides,
+		Context memory context
+	) private returns (uint256 total) {
+		if (context.royaltyCapBasisPoints == 0) return 0;
+
+		uint256 nftCount = 0;
+		for (uint256 i = 0; i < counterItems.length; i++) {
+			if (counterItems[i].itemType != Entity.SwapItemType.Currency) {
+				nftCount++;
+			}
+		}
+		if (nftCount == 0) return 0;
+
+		/// @dev Rounding down never pays more than the item amount
+		uint256 salePrice = item.amount / nftCount;
+
+		for (uint256 i = 0; i < counterItems.length; i++) {
+			if (counterItems[i].itemType == Entity.SwapItemType.Currency) {
+				continue;
+			}
+
+			total += payRoyalty(
+				item,
+				counterItems[i],
+				royaltyOverrides[counterItems[i].contractAddress],
+				salePrice,
+				context
+			);
+		}
+	}
+
+	/**
+	 * @dev Pay the royalty of a single NFT out of a currency item
+	 * @param item: the currency item that is being redeemed
+	 * @param nft: the NFT traded against the currency item
+	 * @param royaltyOverride: the royalty override of the NFT collection
+	 * @param salePrice: the share of the currency item the NFT is sold for
+	 * @param context: the transfer context
+	 * @return royaltyAmount the amount that has been sent to the royalty receiver
+	 */
+	function payRoyalty(
+		Entity.PackedSwapItem storage item,
+		Entity.PackedSwapItem storage nft,
+		Entity.RoyaltyOverride storage royaltyOverride,
+		uint256 salePrice,
+		Context memory context
+	) private returns (uint256 royaltyAmount) {
+		address receiver;
+		(receiver, royaltyAmount) = getRoyalty(
+			royaltyOverride,
+			context.royaltyCapBasisPoints,
+			nft.contractAddress,
+			nft.tokenId,
+			salePrice
+		);
+		if (royaltyAmount == 0) return 0;
+
+		transferERC20(
+			item.contractAddress,
+			context.from,
+			receiver,
+			royaltyAmount
+		);
+
+		emit RoyaltyPaid(
+			item.id,
+			context.from,
+			receiver,
+			block.timestamp,
+			item.contractAddress,
+			royaltyAmount,
+			nft.contractAddress,
+			nft.tokenId
+		);
+	}
+
+	/**
+	 * @dev Transfer ERC20 tokens, from the vault or from an user
+	 * @param contractAddress: the ERC20 contract address
+	 * @param from: the address that user wants to transfer from
+	 * @param to: the address that user wants to transfer to
+	 * @param amount: the amount to be transferred
+	 */
+	function transferERC20(
+		address contractAddress,
+		address from,
+		address to,
+		uint256 amount
+	) private {
+		bool success = from == address(this)
+			? IERC20(contractAddress).transfer(to, amount)
+			: IERC20(contractAddress).transferFrom(from, to, amount);
+
+		if (!success) {
+			revert Errors.TransferFailed(contractAddress, from, to, amount);
+		}
+	}
+
+	/**
+	 * @dev Get the royalty of an NFT, the override takes precedence over EIP-2981 and the result is bounded by the cap
+	 * @param royaltyOverride: the royalty override of the collection
+	 * @param royaltyCapBasisPoints: the global royalty cap
+	 * @param collectionAddress: the NFT collection address
+	 * @param tokenId: the NFT token id
+	 * @param salePrice: the price that the NFT is sold for
+	 * @return receiver the royalty receiver
+	 * @return royaltyAmount the royalty to be paid
+	 */
+	function getRoyalty(
+		Entity.RoyaltyOverride storage royaltyOverride,
+		uint256 royaltyCapBasisPoints,
+		address collectionAddress,
+		uint256 tokenId,
+		uint256 salePrice
+	) public view returns (address receiver, uint256 royaltyAmount) {
+		if (royaltyOverride.enabled) {
+			receiver = royaltyOverride.receiver;
+			royaltyAmount =
+				(salePrice * royaltyOverride.basisPoints) /
+				BASIS_POINTS;
+		} else if (
+			ERC165Checker.supportsInterface(
+				collectionAddress,
+				type(IERC2981).interfaceId
+			)
+		) {
+			try
+				IERC2981(collectionAddress).royaltyInfo(tokenId, salePrice)
+			returns (address _receiver, uint256 _royaltyAmount) {
+				receiver = _receiver;
+				royaltyAmount = _royaltyAmount;
+			} catch {
+				return (address(0), 0);
+			}
+		}
+
+		/**
+		 * @dev Bound the royalty by the global cap
+		 */
+		uint256 maxRoyaltyAmount = (salePrice * royaltyCapBasisPoints) /
+			BASIS_POINTS;
+		if (royaltyAmount > maxRoyaltyAmount) royaltyAmount = maxRoyaltyAmount;
+		if (receiver == address(0)) royaltyAmount = 0;
+	}
+}
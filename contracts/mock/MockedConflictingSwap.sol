@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts-upgradeable/security/PausableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/MulticallUpgradeable.sol";
+
+import "../Etherman.sol";
+
+/**
+ * @dev Swap implementation declaring a variable before the swap state, its upgrades must be rejected
+ */
+contract MockedConflictingSwap is
+	Initializable,
+	PausableUpgradeable,
+	ReentrancyGuardUpgradeable,
+	OwnableUpgradeable,
+	MulticallUpgradeable
+{
+	uint256 public version;
+	Etherman public etherman;
+	uint256 public maxAllowedItems;
+	uint256 public maxAllowedOptions;
+	mapping(address => bool) public whitelistedAddresses;
+}
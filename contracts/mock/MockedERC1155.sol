@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+contract MockedERC1155 is ERC1155, Ownable {
+	constructor() ERC1155("https://google.com/{id}.json") {}
+
+	function mint(
+		address to,
+		uint256 id,
+		uint256 amount
+	) public onlyOwner {
+		_mint(to, id, amount, "");
+	}
+}
@@ -2,9 +2,10 @@
 pragma solidity ^0.8.9;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/draft-ERC20Permit.sol";
 
-contract MockedERC20 is ERC20 {
-	constructor() ERC20("MockedERC20", "MERC20") {
+contract MockedERC20 is ERC20, ERC20Permit {
+	constructor() ERC20("MockedERC20", "MERC20") ERC20Permit("MockedERC20") {
 		_mint(msg.sender, 1000000 * 10**decimals());
 	}
 }
@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/token/ERC721/extensions/ERC721Royalty.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+contract MockedERC721Royalty is ERC721Royalty, Ownable {
+	constructor() ERC721("MockedERC721Royalty", "MERC721R") {}
+
+	function _baseURI() internal pure override returns (string memory) {
+		return "https://google.com/";
+	}
+
+	function safeMint(address to, uint256 tokenId) public onlyOwner {
+		_safeMint(to, tokenId);
+	}
+
+	function setDefaultRoyalty(address receiver, uint96 feeNumerator)
+		public
+		onlyOwner
+	{
+		_setDefaultRoyalty(receiver, feeNumerator);
+	}
+
+	function setTokenRoyalty(
+		uint256 tokenId,
+		address receiver,
+		uint96 feeNumerator
+	) public onlyOwner {
+		_setTokenRoyalty(tokenId, receiver, feeNumerator);
+	}
+}
@@ -0,0 +1,117 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+import "../IPermit2.sol";
+
+/**
+ * @notice Batch signature transfers of Uniswap Permit2, hashed the same way so that signatures are interchangeable.
+ * Has no constructor state so that its code can be set at the canonical address.
+ **/
+contract MockedPermit2 is ISignatureTransfer {
+	bytes32 private constant TYPE_HASH =
+		keccak256(
+			"EIP712Domain(string name,uint256 chainId,address verifyingContract)"
+		);
+
+	bytes32 private constant TOKEN_PERMISSIONS_TYPEHASH =
+		keccak256("TokenPermissions(address token,uint256 amount)");
+
+	bytes32 private constant PERMIT_BATCH_TRANSFER_FROM_TYPEHASH =
+		keccak256(
+			"PermitBatchTransferFrom(TokenPermissions[] permitted,address spender,uint256 nonce,uint256 deadline)TokenPermissions(address token,uint256 amount)"
+		);
+
+	mapping(address => mapping(uint256 => uint256)) public nonceBitmap;
+
+	error SignatureExpired(uint256 deadline);
+	error InvalidNonce();
+	error InvalidSigner();
+	error LengthMismatch();
+	error InvalidAmount(uint256 maxAmount);
+
+	function DOMAIN_SEPARATOR() public view returns (bytes32) {
+		return
+			keccak256(
+				abi.encode(
+					TYPE_HASH,
+					keccak256("Permit2"),
+					block.chainid,
+					address(this)
+				)
+			);
+	}
+
+	function permitTransferFrom(
+		PermitBatchTransferFrom memory permit,
+		SignatureTransferDetails[] calldata transferDetails,
+		address owner,
+		bytes calldata signature
+	) external {
+		if (block.timestamp > permit.deadline) {
+			revert SignatureExpired(permit.deadline);
+		}
+		if (permit.permitted.length != transferDetails.length) {
+			revert LengthMismatch();
+		}
+
+		useUnorderedNonce(owner, permit.nonce);
+
+		if (ECDSA.recover(hashPermit(permit), signature) != owner) {
+			revert InvalidSigner();
+		}
+
+		for (uint256 i = 0; i < permit.permitted.length; i++) {
+			uint256 requestedAmount = transferDetails[i].requestedAmount;
+
+			if (requestedAmount > permit.permitted[i].amount) {
+				revert InvalidAmount(permit.permitted[i].amount);
+			}
+			if (requestedAmount != 0) {
+				IERC20(permit.permitted[i].token).transferFrom(
+					owner,
+					transferDetails[i].to,
+					requestedAmount
+				);
+			}
+		}
+	}
+
+	function hashPermit(PermitBatchTransferFrom memory permit)
+		private
+		view
+		returns (bytes32)
+	{
+		bytes32[] memory tokenPermissionHashes = new bytes32[](
+			permit.permitted.length
+		);
+		for (uint256 i = 0; i < permit.permitted.length; i++) {
+			tokenPermissionHashes[i] = keccak256(
+				abi.encode(TOKEN_PERMISSIONS_TYPEHASH, permit.permitted[i])
+			);
+		}
+
+		return
+			ECDSA.toTypedDataHash(
+				DOMAIN_SEPARATOR(),
+				keccak256(
+					abi.encode(
+						PERMIT_BATCH_TRANSFER_FROM_TYPEHASH,
+						keccak256(abi.encodePacked(tokenPermissionHashes)),
+						msg.sender,
+						permit.nonce,
+						permit.deadline
+					)
+				)
+			);
+	}
+
+	function useUnorderedNonce(address owner, uint256 nonce) private {
+		uint256 bit = 1 << uint8(nonce);
+		uint256 flipped = (nonceBitmap[owner][nonce >> 8] ^= bit);
+
+		if (flipped & bit == 0) revert InvalidNonce();
+	}
+}
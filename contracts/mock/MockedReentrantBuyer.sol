@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/token/ERC721/IERC721Receiver.sol";
+
+/**
+ * @dev Buyer calling the swap again whenever it receives an nft or native coin, the revert data of each call is recorded
+ */
+contract MockedReentrantBuyer is IERC721Receiver {
+	address private immutable swap;
+	bytes private reentry;
+	bytes[] private reentryErrors;
+
+	error ReentrySucceeded();
+
+	constructor(address _swap) {
+		swap = _swap;
+	}
+
+	function setReentry(bytes memory data) external {
+		reentry = data;
+		delete reentryErrors;
+	}
+
+	function getReentryErrors() external view returns (bytes[] memory) {
+		return reentryErrors;
+	}
+
+	function execute(bytes memory data) external payable {
+		(bool success, bytes memory result) = swap.call{value: msg.value}(data);
+		if (!success) {
+			assembly {
+				revert(add(result, 32), mload(result))
+			}
+		}
+	}
+
+	function onERC721Received(
+		address,
+		address,
+		uint256,
+		bytes calldata
+	) external returns (bytes4) {
+		reenter();
+		return IERC721Receiver.onERC721Received.selector;
+	}
+
+	receive() external payable {
+		reenter();
+	}
+
+	function reenter() private {
+		if (reentry.length == 0) return;
+
+		(bool success, bytes memory result) = swap.call(reentry);
+		if (success) revert ReentrySucceeded();
+
+		reentryErrors.push(result);
+	}
+}
@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+contract MockedWETH9 is ERC20 {
+	constructor() ERC20("Wrapped Ether", "WETH") {}
+
+	function deposit() public payable {
+		_mint(msg.sender, msg.value);
+	}
+
+	function withdraw(uint256 amount) public {
+		_burn(msg.sender, amount);
+		payable(msg.sender).transfer(amount);
+	}
+
+	receive() external payable {
+		deposit();
+	}
+}
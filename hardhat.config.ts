@@ -8,6 +8,8 @@ import "tsconfig-paths/register";
 import "@openzeppelin/hardhat-upgrades";
 import { ethers } from "ethers";
 
+import "./scripts/tasks/swap";
+
 /**
  * Config dotenv first
  */
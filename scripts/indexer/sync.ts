@@ -0,0 +1,36 @@
+import { ethers } from "hardhat";
+import { HamsterSwap } from "../../typechain-types";
+import { HamsterSwapIndexer, JsonFileStore } from "../../src/indexer";
+
+async function main() {
+  const Config = {
+    HamsterSwapAddress: process.env.SWAP_ADDRESS || "",
+    FromBlock: parseInt(process.env.FROM_BLOCK || "0"),
+    ToBlock: process.env.TO_BLOCK ? parseInt(process.env.TO_BLOCK) : undefined,
+    StorePath: process.env.INDEXER_STORE || "./cache/indexer.json",
+  };
+
+  const Swap = (await ethers.getContractAt(
+    "HamsterSwap",
+    Config.HamsterSwapAddress
+  )) as unknown as HamsterSwap;
+
+  /**
+   * @dev Resume from the stored checkpoint if any
+   */
+  const Indexer = new HamsterSwapIndexer(
+    Swap,
+    new JsonFileStore(Config.StorePath),
+    { fromBlock: Config.FromBlock }
+  );
+  const checkpoint = await Indexer.sync(Config.ToBlock);
+
+  console.log("HamsterSwap indexed up to block:", checkpoint?.blockNumber);
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
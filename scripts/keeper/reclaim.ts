@@ -0,0 +1,46 @@
+import { ethers } from "hardhat";
+import { HamsterSwap } from "../../typechain-types";
+import { HamsterSwapIndexer, JsonFileStore } from "../../src/indexer";
+import { HamsterSwapKeeper } from "../../src/keeper";
+import { HamsterSwapClient } from "../../src/sdk";
+
+async function main() {
+  const Config = {
+    HamsterSwapAddress: process.env.SWAP_ADDRESS || "",
+    FromBlock: parseInt(process.env.FROM_BLOCK || "0"),
+    StorePath: process.env.INDEXER_STORE || "./cache/indexer.json",
+    BatchSize: parseInt(process.env.BATCH_SIZE || "20"),
+  };
+
+  const [keeper] = await ethers.getSigners();
+  const Swap = (await ethers.getContractAt(
+    "HamsterSwap",
+    Config.HamsterSwapAddress
+  )) as unknown as HamsterSwap;
+
+  /**
+   * @dev Expired proposals are found from the indexed state
+   */
+  const Keeper = new HamsterSwapKeeper(
+    new HamsterSwapClient(Swap, keeper),
+    new HamsterSwapIndexer(Swap, new JsonFileStore(Config.StorePath), {
+      fromBlock: Config.FromBlock,
+    }),
+    { batchSize: Config.BatchSize }
+  );
+  const { reclaimedIds, skippedIds, receipts } = await Keeper.sweep();
+
+  console.log("Reclaimed expired proposals:", reclaimedIds);
+  console.log("Skipped proposals no longer deposited:", skippedIds);
+  console.log(
+    "Transactions:",
+    receipts.map(({ transactionHash }) => transactionHash)
+  );
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,256 @@
+import fs from "fs";
+import { BigNumber, ContractTransaction, ethers } from "ethers";
+
+import type { HamsterSwap } from "../../typechain-types";
+
+/**
+ * @dev Roles of the swap by their name in deployment configs, the keccak256 of the `HamsterSwap` role constants
+ */
+export const SWAP_ROLES = {
+  pauser: ethers.utils.id("PAUSER_ROLE"),
+  collectionManager: ethers.utils.id("COLLECTION_MANAGER_ROLE"),
+  configAdmin: ethers.utils.id("CONFIG_ADMIN_ROLE"),
+};
+
+export type SwapRoleName = keyof typeof SWAP_ROLES;
+
+/**
+ * @dev Accounts holding each role, roles that are omitted are left untouched
+ */
+export type SwapRoleHolders = Partial<Record<SwapRoleName, string[]>>;
+
+/**
+ * @dev Item limits and etherman, changed through the configuration timelock
+ */
+export interface SwapConfiguration {
+  maxAllowedItems: number;
+  maxAllowedOptions: number;
+  etherman: string;
+}
+
+/**
+ * @dev Result of a role migration, no transaction is sent on dry runs or when nothing is missing
+ */
+export interface RoleMigrationResult {
+  granted: { role: SwapRoleName; account: string }[];
+  /** @dev Only set when the delay changes */
+  timelockDelay?: number;
+  /** @dev Time a lower delay can be recorded from, in seconds, only set while it is waiting in the timelock */
+  timelockDelayReadyAt?: number;
+  data?: string;
+  transactionHash?: string;
+}
+
+/**
+ * @dev Result of a configuration change, the transactions that were not sent are missing
+ */
+export interface ConfigurationResult {
+  operationId: string;
+  /** @dev Time the change can be executed from, in seconds */
+  readyAt: number;
+  queueTransactionHash?: string;
+  executeTransactionHash?: string;
+}
+
+/**
+ * @dev The ethers v5 interface of the swap, typechain types target ethers v6
+ * @param swap: the swap contract
+ */
+const getSwapInterface = (swap: HamsterSwap): ethers.utils.Interface =>
+  swap.interface as unknown as ethers.utils.Interface;
+
+/**
+ * @dev Wait for a swap transaction
+ * @param tx: the transaction, as returned by the typechain contract
+ */
+const waitTransactionHash = async (tx: unknown): Promise<string> =>
+  (await (tx as ContractTransaction).wait()).transactionHash;
+
+/**
+ * @dev Get the id of a configuration change, see `Administration.getOperationId`
+ * @param configuration: the item limits and etherman
+ */
+export const getOperationId = (configuration: SwapConfiguration): string =>
+  ethers.utils.keccak256(
+    ethers.utils.defaultAbiCoder.encode(
+      ["uint256", "uint256", "address"],
+      [
+        configuration.maxAllowedItems,
+        configuration.maxAllowedOptions,
+        configuration.etherman,
+      ]
+    )
+  );
+
+/**
+ * @dev Read the role holders and timelock delay of a deployment config
+ * @param file: the json file
+ */
+export const readAdministrationFile = (
+  file: string
+): { roles?: SwapRoleHolders; timelockDelay?: number } => {
+  if (!fs.existsSync(file)) {
+    throw new Error(`No deployment config at ${file}`);
+  }
+
+  const { roles, timelockDelay } = JSON.parse(fs.readFileSync(file, "utf8"));
+  requireRoleHolders(roles || {}, file);
+
+  return { roles, timelockDelay };
+};
+
+/**
+ * @dev Throw if a role or an account of the role holders is invalid
+ * @param holders: the role holders
+ * @param file: the file they are read from
+ */
+export const requireRoleHolders = (holders: SwapRoleHolders, file: string) => {
+  for (const [role, accounts] of Object.entries(holders)) {
+    if (!(role in SWAP_ROLES)) {
+      throw new Error(`Invalid role ${role} in ${file}`);
+    }
+    for (const account of accounts || []) {
+      if (!ethers.utils.isAddress(account)) {
+        throw new Error(`Invalid address ${account} in ${file}`);
+      }
+    }
+  }
+};
+
+/**
+ * @dev Get the id of a timelock delay decrease, see `Administration.getDelayOperationId`
+ * @param timelockDelay: the delay in seconds
+ */
+export const getDelayOperationId = (timelockDelay: number): string =>
+  ethers.utils.keccak256(
+    ethers.utils.defaultAbiCoder.encode(["uint256"], [timelockDelay])
+  );
+
+/**
+ * @dev Grant the missing roles and set the timelock delay in a single `multicall` of the owner,
+ * proxies upgraded from versions without roles hold none until it is run,
+ * a lower delay is queued and recorded by the first run after the current delay elapsed
+ * @param swap: the swap contract, connected to its owner
+ * @param holders: the accounts holding each role
+ * @param timelockDelay: the timelock delay in seconds, unchanged if omitted
+ * @param options: whether to only print the calls
+ */
+export const migrateRoles = async (
+  swap: HamsterSwap,
+  holders: SwapRoleHolders,
+  timelockDelay?: number,
+  options: { dryRun?: boolean } = {}
+): Promise<RoleMigrationResult> => {
+  const result: RoleMigrationResult = { granted: [] };
+  const calls: string[] = [];
+
+  for (const [role, accounts] of Object.entries(holders)) {
+    for (const account of new Set(
+      (accounts || []).map((account) => ethers.utils.getAddress(account))
+    )) {
+      const roleId = SWAP_ROLES[role as SwapRoleName];
+      if (await swap.hasRole(roleId, account)) continue;
+
+      result.granted.push({ role: role as SwapRoleName, account });
+      calls.push(
+        getSwapInterface(swap).encodeFunctionData("grantRole", [
+          roleId,
+          account,
+        ])
+      );
+    }
+  }
+
+  if (timelockDelay !== undefined) {
+    const [currentDelay] = await swap.getTimelock(ethers.constants.HashZero);
+    const [, readyAt] = await swap.getTimelock(
+      getDelayOperationId(timelockDelay)
+    );
+    const signer = (swap as unknown as ethers.Contract).signer;
+    const { timestamp } = await (
+      signer.provider as ethers.providers.Provider
+    ).getBlock("latest");
+
+    if (BigNumber.from(readyAt).gt(timestamp)) {
+      result.timelockDelayReadyAt = BigNumber.from(readyAt).toNumber();
+    } else if (!BigNumber.from(currentDelay).eq(timelockDelay)) {
+      result.timelockDelay = timelockDelay;
+      calls.push(
+        getSwapInterface(swap).encodeFunctionData("setTimelockDelay", [
+          timelockDelay,
+        ])
+      );
+    }
+  }
+
+  for (const { role, account } of result.granted) {
+    console.log(`+ ${role} ${account}`);
+  }
+  if (result.timelockDelay !== undefined) {
+    console.log(`timelock delay ${result.timelockDelay}s`);
+  }
+  if (result.timelockDelayReadyAt !== undefined) {
+    console.log(
+      `timelock delay ${timelockDelay}s ready at ${new Date(
+        result.timelockDelayReadyAt * 1000
+      ).toISOString()}`
+    );
+  }
+  if (calls.length === 0) return result;
+
+  result.data = getSwapInterface(swap).encodeFunctionData("multicall", [calls]);
+  if (options.dryRun) return result;
+
+  result.transactionHash = await waitTransactionHash(
+    await swap.multicall(calls)
+  );
+  return result;
+};
+
+/**
+ * @dev Queue a configuration change unless it is already queued, then execute it once it is ready,
+ * running it again after the timelock delay executes a change queued before
+ * @param swap: the swap contract, connected to a config admin
+ * @param configuration: the item limits and etherman
+ */
+export const applyConfiguration = async (
+  swap: HamsterSwap,
+  configuration: SwapConfiguration
+): Promise<ConfigurationResult> => {
+  const operationId = getOperationId(configuration);
+  const args = [
+    configuration.maxAllowedItems,
+    configuration.maxAllowedOptions,
+    configuration.etherman,
+  ] as const;
+  const result: ConfigurationResult = { operationId, readyAt: 0 };
+
+  let [, readyAt] = await swap.getTimelock(operationId);
+  if (BigNumber.from(readyAt).isZero()) {
+    result.queueTransactionHash = await waitTransactionHash(
+      await swap.queueConfiguration(...args)
+    );
+    [, readyAt] = await swap.getTimelock(operationId);
+  }
+  result.readyAt = BigNumber.from(readyAt).toNumber();
+
+  const signer = (swap as unknown as ethers.Contract).signer;
+  const { timestamp } = await (
+    signer.provider as ethers.providers.Provider
+  ).getBlock("latest");
+
+  if (result.readyAt > timestamp) {
+    console.log(
+      `Configuration ${operationId} ready at ${new Date(
+        result.readyAt * 1000
+      ).toISOString()}`
+    );
+    return result;
+  }
+
+  result.executeTransactionHash = await waitTransactionHash(
+    await swap.executeConfiguration(...args)
+  );
+  console.log(`Configuration ${operationId} executed`);
+  return result;
+};
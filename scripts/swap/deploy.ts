@@ -0,0 +1,23 @@
+import { config } from "hardhat";
+import { deploySwap, verifySwap } from "./deployment";
+
+async function main() {
+  /**
+   * @dev Inputs are read from deployments/config/<chainId>.json, what is deployed is recorded in deployments/<chainId>.json
+   */
+  const manifest = await deploySwap();
+  console.log("HamsterSwap deployed at:", manifest.proxy?.address);
+
+  if (!config.etherscan?.apiKey) {
+    console.log("ETHERSCAN_KEY is not set, skipped verification");
+    return;
+  }
+  await verifySwap();
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,581 @@
+import fs from "fs";
+import path from "path";
+import { Contract, ContractTransaction, providers } from "ethers";
+import { artifacts, ethers, network, run, upgrades } from "hardhat";
+
+import { Etherman, HamsterSwap } from "../../typechain-types";
+import {
+  applyConfiguration,
+  migrateRoles,
+  requireRoleHolders,
+  SWAP_ROLES,
+  SwapRoleHolders,
+} from "./administration";
+import { getSwapContractFactory, SWAP_LIBRARIES } from "./factory";
+import { migrateProposals } from "./migration";
+import {
+  requireWhitelistEntry,
+  syncWhitelist,
+  WhitelistItemTypeName,
+} from "./whitelist";
+
+/**
+ * @dev Deployment configs and manifests, `config/<chainId>.json` and `<chainId>.json`
+ */
+export const DEPLOYMENTS_DIR = path.join(__dirname, "../../deployments");
+
+/**
+ * @dev Proxies link external libraries, see `getSwapContractFactory`
+ */
+export const UNSAFE_ALLOW: ("delegatecall" | "external-library-linking")[] = [
+  "delegatecall",
+  "external-library-linking",
+];
+
+/**
+ * @dev Whitelisted item address of a deployment config
+ */
+export interface WhitelistEntry {
+  address: string;
+  name?: string;
+  /** @dev Detected through EIP-165 when omitted, see `detectItemType` */
+  itemType?: WhitelistItemTypeName;
+}
+
+/**
+ * @dev Inputs of a deployment, read from `config/<chainId>.json`
+ */
+export interface DeploymentConfig {
+  /** @dev WETH, or the wrapped native coin of the chain */
+  weth: string;
+  maxAllowedItems: number;
+  maxAllowedOptions: number;
+  whitelist: WhitelistEntry[];
+  /** @dev Accounts granted each role, the deployer holds every role when omitted */
+  roles?: SwapRoleHolders;
+  /** @dev Delay of the configuration changes in seconds, unchanged when omitted */
+  timelockDelay?: number;
+  /** @dev Proxy deployed before manifests were recorded, adopted by the first deploy */
+  proxy?: string;
+}
+
+/**
+ * @dev Deployed contract, the transaction is unknown for adopted contracts
+ */
+export interface DeployedContract {
+  address: string;
+  blockNumber?: number;
+  transactionHash?: string;
+  verified?: boolean;
+}
+
+/**
+ * @dev Implementation of the proxy with the libraries it links
+ */
+export interface DeployedImplementation extends DeployedContract {
+  /** @dev Hash of the unlinked bytecodes, an upgrade is needed when it changes */
+  buildHash: string;
+  libraries: Record<string, DeployedContract>;
+}
+
+/**
+ * @dev What has been deployed on a chain, written to `<chainId>.json` after every step
+ */
+export interface DeploymentManifest {
+  chainId: number;
+  network: string;
+  etherman?: DeployedContract;
+  implementation?: DeployedImplementation;
+  proxy?: DeployedContract & { admin: string };
+  /** @dev Last `configure`, or execution of a timelocked configuration change, sent by the deploy */
+  configuration?: Omit<DeployedContract, "address" | "verified">;
+  /** @dev Upgrade transactions, with the implementation that was replaced */
+  upgrades: (Omit<DeployedContract, "address" | "verified"> & {
+    previousImplementation: DeployedImplementation;
+  })[];
+}
+
+/**
+ * @dev Contract verification on the block explorer
+ */
+export type Verifier = (contract: {
+  address: string;
+  constructorArguments: unknown[];
+  libraries: Record<string, string>;
+}) => Promise<void>;
+
+/**
+ * @dev Get the chain id of the network the scripts run against
+ */
+export const getChainId = async (): Promise<number> =>
+  network.config.chainId || (await ethers.provider.getNetwork()).chainId;
+
+/**
+ * @dev Read the deployment config of a chain
+ * @param chainId: the chain id
+ * @param dir: the deployments directory
+ */
+export const readDeploymentConfig = (
+  chainId: number,
+  dir: string = DEPLOYMENTS_DIR
+): DeploymentConfig => {
+  const file = path.join(dir, "config", `${chainId}.json`);
+
+  if (!fs.existsSync(file)) {
+    throw new Error(`No deployment config for chain ${chainId} at ${file}`);
+  }
+
+  const config: DeploymentConfig = JSON.parse(fs.readFileSync(file, "utf8"));
+
+  for (const address of [
+    config.weth,
+    ...(config.proxy ? [config.proxy] : []),
+  ]) {
+    if (!ethers.utils.isAddress(address)) {
+      throw new Error(`Invalid address ${address} in ${file}`);
+    }
+  }
+  config.whitelist.forEach((entry) => requireWhitelistEntry(entry, file));
+  requireRoleHolders(config.roles || {}, file);
+
+  return config;
+};
+
+/**
+ * @dev Read the deployment manifest of a chain, empty if nothing has been deployed yet
+ * @param chainId: the chain id
+ * @param dir: the deployments directory
+ */
+export const readDeploymentManifest = (
+  chainId: number,
+  dir: string = DEPLOYMENTS_DIR
+): DeploymentManifest => {
+  const file = path.join(dir, `${chainId}.json`);
+
+  if (!fs.existsSync(file)) {
+    return { chainId, network: network.name, upgrades: [] };
+  }
+
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+};
+
+/**
+ * @dev Write the deployment manifest of a chain
+ * @param manifest: the manifest
+ * @param dir: the deployments directory
+ */
+const writeDeploymentManifest = (manifest: DeploymentManifest, dir: string) => {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, `${manifest.chainId}.json`),
+    `${JSON.stringify(manifest, null, 2)}\n`
+  );
+};
+
+/**
+ * @dev Hash the unlinked bytecodes of HamsterSwap and its libraries
+ */
+export const getBuildHash = async (): Promise<string> => {
+  const bytecodes = await Promise.all(
+    ["HamsterSwap", ...SWAP_LIBRARIES].map(
+      async (name) => (await artifacts.readArtifact(name)).bytecode
+    )
+  );
+
+  /**
+   * @dev Unlinked bytecodes hold library placeholders, hash them as text
+   */
+  return ethers.utils.id(bytecodes.join(""));
+};
+
+/**
+ * @dev Fail on manifests of another chain state, e.g. a restarted local node
+ * @param name: the contract name
+ * @param contract: the recorded contract
+ */
+const requireCode = async (name: string, contract: DeployedContract) => {
+  if ((await ethers.provider.getCode(contract.address)) === "0x") {
+    throw new Error(
+      `Stale deployment manifest: no ${name} code at ${contract.address}`
+    );
+  }
+};
+
+/**
+ * @dev Record a mined transaction
+ * @param tx: the transaction
+ */
+const recordTransaction = async (
+  tx: ContractTransaction | providers.TransactionResponse
+): Promise<{ blockNumber: number; transactionHash: string }> => {
+  const { blockNumber, transactionHash } = await tx.wait();
+
+  return { blockNumber, transactionHash };
+};
+
+/**
+ * @dev Record a deployed contract
+ * @param contract: the contract, as returned by its factory
+ */
+const recordContract = async (
+  contract: Contract
+): Promise<DeployedContract> => ({
+  address: contract.address,
+  ...(await recordTransaction(contract.deployTransaction)),
+});
+
+/**
+ * @dev Get the HamsterSwap factory linked to recorded libraries
+ * @param libraries: the recorded libraries
+ */
+const getLinkedFactory = (libraries: Record<string, DeployedContract>) =>
+  getSwapContractFactory(
+    Object.fromEntries(
+      Object.entries(libraries).map(([name, { address }]) => [name, address])
+    )
+  );
+
+/**
+ * @dev Deploy the libraries, then a HamsterSwap implementation linking them
+ */
+const deployImplementation = async (): Promise<DeployedImplementation> => {
+  const deployedLibraries: Record<string, DeployedContract> = {};
+
+  for (const name of SWAP_LIBRARIES) {
+    const LibraryFactory = await ethers.getContractFactory(name);
+    deployedLibraries[name] = await recordContract(
+      await LibraryFactory.deploy()
+    );
+    console.log(`${name} deployed at:`, deployedLibraries[name].address);
+  }
+
+  const SwapContract = await getLinkedFactory(deployedLibraries);
+  const deployment = await upgrades.deployImplementation(SwapContract, {
+    unsafeAllow: UNSAFE_ALLOW,
+    getTxResponse: true,
+  });
+
+  /**
+   * @dev Known implementations are not deployed again
+   */
+  let implementation: DeployedContract = { address: deployment as string };
+  if (typeof deployment !== "string") {
+    const { contractAddress, blockNumber, transactionHash } =
+      await deployment.wait();
+    implementation = { address: contractAddress, blockNumber, transactionHash };
+  }
+  console.log("HamsterSwap implementation at:", implementation.address);
+
+  return {
+    ...implementation,
+    buildHash: await getBuildHash(),
+    libraries: deployedLibraries,
+  };
+};
+
+/**
+ * @dev Record a proxy deployed before manifests, its transactions are unknown
+ * @param manifest: the manifest
+ * @param proxy: the proxy address
+ */
+const adoptProxy = async (manifest: DeploymentManifest, proxy: string) => {
+  const Swap = (await ethers.getContractAt(
+    "HamsterSwap",
+    proxy
+  )) as unknown as HamsterSwap;
+
+  manifest.proxy = {
+    address: proxy,
+    admin: await upgrades.erc1967.getAdminAddress(proxy),
+  };
+  manifest.etherman = { address: await Swap.etherman() };
+  manifest.implementation = {
+    address: await upgrades.erc1967.getImplementationAddress(proxy),
+    buildHash: "",
+    libraries: {},
+  };
+  console.log("HamsterSwap adopted at:", proxy);
+};
+
+/**
+ * @dev Get the role holders of a deployment config
+ * @param config: the deployment config
+ * @param deployer: the deployer address, holding every role when the config has none
+ */
+const getRoleHolders = (
+  config: DeploymentConfig,
+  deployer: string
+): SwapRoleHolders =>
+  config.roles ||
+  Object.fromEntries(Object.keys(SWAP_ROLES).map((role) => [role, [deployer]]));
+
+/**
+ * @dev Deploy Etherman, the libraries and the HamsterSwap proxy of the network, then configure it.
+ * Every step is recorded in the manifest and skipped when it is run again.
+ * @param dir: the deployments directory
+ */
+export const deploySwap = async (
+  dir: string = DEPLOYMENTS_DIR
+): Promise<DeploymentManifest> => {
+  const chainId = await getChainId();
+  const config = readDeploymentConfig(chainId, dir);
+  const manifest = readDeploymentManifest(chainId, dir);
+
+  if (!manifest.proxy && config.proxy) {
+    await adoptProxy(manifest, config.proxy);
+    writeDeploymentManifest(manifest, dir);
+  }
+
+  /**
+   * @dev Etherman
+   */
+  if (!manifest.etherman) {
+    const EthermanFactory = await ethers.getContractFactory("Etherman");
+    manifest.etherman = await recordContract(
+      await EthermanFactory.deploy(config.weth)
+    );
+    writeDeploymentManifest(manifest, dir);
+    console.log("Etherman deployed at:", manifest.etherman.address);
+  }
+  await requireCode("Etherman", manifest.etherman);
+
+  /**
+   * @dev Implementation and proxy
+   */
+  if (!manifest.implementation) {
+    manifest.implementation = await deployImplementation();
+    writeDeploymentManifest(manifest, dir);
+  }
+  await requireCode("HamsterSwap implementation", manifest.implementation);
+
+  if (!manifest.proxy) {
+    const Swap = await upgrades.deployProxy(
+      await getLinkedFactory(manifest.implementation.libraries),
+      [],
+      { unsafeAllow: UNSAFE_ALLOW }
+    );
+
+    manifest.proxy = {
+      ...(await recordContract(Swap)),
+      admin: await upgrades.erc1967.getAdminAddress(Swap.address),
+    };
+    writeDeploymentManifest(manifest, dir);
+    console.log("HamsterSwap deployed at:", manifest.proxy.address);
+  }
+  await requireCode("HamsterSwap proxy", manifest.proxy);
+
+  const [deployer] = await ethers.getSigners();
+  const Swap = (await ethers.getContractAt(
+    "HamsterSwap",
+    manifest.proxy.address,
+    deployer
+  )) as unknown as HamsterSwap;
+
+  /**
+   * @dev The swap wraps and unwraps through its etherman
+   */
+  const Etherman = (await ethers.getContractAt(
+    "Etherman",
+    manifest.etherman.address,
+    deployer
+  )) as unknown as Etherman;
+
+  if ((await Etherman.owner()) !== manifest.proxy.address) {
+    await recordTransaction(
+      await Etherman.transferOwnership(manifest.proxy.address)
+    );
+    console.log("Etherman owned by HamsterSwap");
+  }
+
+  await migrateRoles(
+    Swap,
+    getRoleHolders(config, deployer.address),
+    config.timelockDelay
+  );
+
+  /**
+   * @dev The first configuration is applied at once, later changes of the limits or etherman go through the timelock
+   */
+  const [maxAllowedItems, maxAllowedOptions, etherman] = await Promise.all([
+    Swap.maxAllowedItems(),
+    Swap.maxAllowedOptions(),
+    Swap.etherman(),
+  ]);
+
+  if (etherman === ethers.constants.AddressZero) {
+    /**
+     * @dev Only the entries without item type are sent, the others are synced afterwards
+     */
+    const whitelist = config.whitelist
+      .filter(({ itemType }) => !itemType)
+      .map(({ address }) => ethers.utils.getAddress(address));
+
+    manifest.configuration = await recordTransaction(
+      await Swap.configure(
+        config.maxAllowedItems,
+        config.maxAllowedOptions,
+        whitelist,
+        [],
+        manifest.etherman.address
+      )
+    );
+    writeDeploymentManifest(manifest, dir);
+    console.log("HamsterSwap configured, whitelisted:", whitelist);
+  } else if (
+    !ethers.BigNumber.from(maxAllowedItems).eq(config.maxAllowedItems) ||
+    !ethers.BigNumber.from(maxAllowedOptions).eq(config.maxAllowedOptions) ||
+    etherman !== manifest.etherman.address
+  ) {
+    const { executeTransactionHash } = await applyConfiguration(Swap, {
+      maxAllowedItems: config.maxAllowedItems,
+      maxAllowedOptions: config.maxAllowedOptions,
+      etherman: manifest.etherman.address,
+    });
+
+    if (executeTransactionHash) {
+      manifest.configuration = await recordTransaction(
+        await ethers.provider.getTransaction(executeTransactionHash)
+      );
+      writeDeploymentManifest(manifest, dir);
+    }
+  }
+  await syncWhitelist(Swap, config.whitelist);
+
+  return manifest;
+};
+
+/**
+ * @dev Upgrade the HamsterSwap proxy of the network when the build changed since the recorded implementation
+ * @param dir: the deployments directory
+ */
+export const upgradeSwap = async (
+  dir: string = DEPLOYMENTS_DIR
+): Promise<DeploymentManifest> => {
+  const chainId = await getChainId();
+  const manifest = readDeploymentManifest(chainId, dir);
+
+  if (!manifest.proxy || !manifest.implementation) {
+    throw new Error(`HamsterSwap is not deployed on chain ${chainId}`);
+  }
+  await requireCode("HamsterSwap proxy", manifest.proxy);
+
+  if (manifest.implementation.buildHash === (await getBuildHash())) {
+    console.log("HamsterSwap is up to date at:", manifest.proxy.address);
+    return manifest;
+  }
+
+  const implementation = await deployImplementation();
+  const SwapContract = await getLinkedFactory(implementation.libraries);
+
+  /**
+   * @dev Proxies deployed from another machine are unknown to the upgrades plugin
+   */
+  try {
+    await upgrades.forceImport(manifest.proxy.address, SwapContract);
+  } catch {
+    console.log("HamsterSwap proxy already imported");
+  }
+
+  const Swap = await upgrades.upgradeProxy(
+    manifest.proxy.address,
+    SwapContract,
+    { unsafeAllow: UNSAFE_ALLOW }
+  );
+
+  manifest.upgrades.push({
+    ...(await recordTransaction(Swap.deployTransaction)),
+    previousImplementation: manifest.implementation,
+  });
+  manifest.implementation = implementation;
+  writeDeploymentManifest(manifest, dir);
+  console.log("HamsterSwap upgraded at:", manifest.proxy.address);
+
+  /**
+   * @dev Proxies upgraded from versions without roles hold none, the owner grants them
+   */
+  const [deployer] = await ethers.getSigners();
+  const config = readDeploymentConfig(chainId, dir);
+  await migrateRoles(
+    Swap.connect(deployer) as unknown as HamsterSwap,
+    getRoleHolders(config, deployer.address),
+    config.timelockDelay
+  );
+
+  /**
+   * @dev Proposals recorded before the storage redesign are moved to the bytes32 keyed records
+   */
+  await migrateProposals(Swap.connect(deployer) as unknown as HamsterSwap, {
+    fromBlock: manifest.proxy.blockNumber,
+  });
+
+  return manifest;
+};
+
+/**
+ * @dev Verify a contract on the block explorer of the network, `ETHERSCAN_KEY` must be set
+ * @param contract: the contract address, constructor arguments and linked libraries
+ */
+export const verifyOnExplorer: Verifier = async (contract) => {
+  try {
+    await run("verify:verify", contract);
+  } catch (error) {
+    if (!`${error}`.toLowerCase().includes("already verified")) {
+      throw error;
+    }
+  }
+};
+
+/**
+ * @dev Verify Etherman, the libraries and the implementation that are not verified yet,
+ * adopted contracts were deployed outside of the manifest and are skipped
+ * @param dir: the deployments directory
+ * @param verify: the verifier, block explorer by default
+ */
+export const verifySwap = async (
+  dir: string = DEPLOYMENTS_DIR,
+  verify: Verifier = verifyOnExplorer
+): Promise<DeploymentManifest> => {
+  const chainId = await getChainId();
+  const config = readDeploymentConfig(chainId, dir);
+  const manifest = readDeploymentManifest(chainId, dir);
+
+  if (!manifest.etherman || !manifest.implementation) {
+    throw new Error(`HamsterSwap is not deployed on chain ${chainId}`);
+  }
+
+  const { implementation } = manifest;
+  const contracts: [DeployedContract, unknown[], Record<string, string>][] = [
+    [manifest.etherman, [config.weth], {}],
+    ...Object.values(implementation.libraries).map(
+      (library): [DeployedContract, unknown[], Record<string, string>] => [
+        library,
+        [],
+        {},
+      ]
+    ),
+    [
+      implementation,
+      [],
+      Object.fromEntries(
+        Object.entries(implementation.libraries).map(([name, { address }]) => [
+          name,
+          address,
+        ])
+      ),
+    ],
+  ];
+
+  for (const [contract, constructorArguments, libraries] of contracts) {
+    if (contract.verified || !contract.transactionHash) continue;
+
+    await verify({
+      address: contract.address,
+      constructorArguments,
+      libraries,
+    });
+    contract.verified = true;
+    writeDeploymentManifest(manifest, dir);
+  }
+
+  return manifest;
+};
@@ -0,0 +1,41 @@
+import { ethers } from "hardhat";
+
+/**
+ * @dev External libraries linked into HamsterSwap to keep it under the contract size limit
+ */
+export const SWAP_LIBRARIES = [
+  "Transfers",
+  "Proposals",
+  "SignedProposal",
+  "ProposalIndexes",
+  "Permits",
+  "Registry",
+  "Administration",
+  "Migrations",
+  "Batches",
+] as const;
+
+/**
+ * @dev Deploy the linked libraries and get the HamsterSwap factory,
+ * proxies must be deployed with `unsafeAllow: ["external-library-linking"]`
+ * @param libraries: addresses of already deployed libraries, the missing ones are deployed
+ */
+export async function getSwapContractFactory(
+  libraries: Record<string, string> = {}
+) {
+  const linkedLibraries: Record<string, string> = { ...libraries };
+
+  for (const name of SWAP_LIBRARIES) {
+    if (linkedLibraries[name]) continue;
+
+    const LibraryFactory = await ethers.getContractFactory(name);
+    const library = await LibraryFactory.deploy();
+    await library.deployed();
+
+    linkedLibraries[name] = library.address;
+  }
+
+  return ethers.getContractFactory("HamsterSwap", {
+    libraries: linkedLibraries,
+  });
+}
@@ -0,0 +1,897 @@
+import { BigNumber, Contract, Signer } from "ethers";
+import { ethers } from "hardhat";
+import { takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import type { HamsterSwap } from "../../typechain-types";
+import {
+  HamsterSwapClient,
+  Proposal,
+  ProposalStatus,
+  SwapItemInput,
+  SwapItemStatus,
+  SwapItemType,
+} from "../../src/sdk";
+
+/**
+ * @dev Amount unit of the currency items and wraps, small amounts keep the actors funded along a sequence
+ */
+export const FUZZ_UNIT = ethers.utils.parseEther("0.1");
+
+/**
+ * @dev Deployed swap and mocked collections the sequences run against, the chain is restored after each run
+ */
+export interface FuzzEnvironment {
+  swap: HamsterSwap;
+  /** @dev Holds every role of the swap */
+  admin: Signer;
+  actors: Signer[];
+  erc20: string;
+  weth: string;
+  /** @dev ERC721 collections with the token ids minted to the actors */
+  collections: { address: string; tokenIds: number[] }[];
+}
+
+/**
+ * @dev A step of a generated sequence, actors, collections, tokens and proposals are indexes
+ * resolved modulo what exists when the step runs, so that any subsequence stays runnable
+ */
+export type FuzzStep =
+  | {
+      kind: "createProposal";
+      actor: number;
+      nfts: { collection: number; token: number }[];
+      /** @dev Offered currencies, in `FUZZ_UNIT` */
+      erc20: number;
+      weth: number;
+      /** @dev Pay the offered WETH in native coin */
+      native: boolean;
+      /** @dev Amount asked by each option, in `FUZZ_UNIT`, paid in WETH when flagged */
+      options: { amount: number; weth: boolean }[];
+      expiresIn: number;
+    }
+  | {
+      kind: "fulfillProposal";
+      actor: number;
+      proposal: number;
+      option: number;
+      native: boolean;
+    }
+  | {
+      kind: "cancelProposal";
+      proposal: number;
+      /** @dev Sent by another actor than the proposal owner */
+      stranger: boolean;
+    }
+  | { kind: "wrapETH"; actor: number; amount: number }
+  | { kind: "unwrapETH"; actor: number }
+  | { kind: "increaseTime"; seconds: number }
+  | { kind: "configureProtocolFee"; basisPoints: number }
+  | { kind: "configureLimits"; maxAllowedItems: number }
+  | { kind: "pause" }
+  | { kind: "unpause" };
+
+/**
+ * @dev What the swap holds and records after a step
+ */
+export interface FuzzObservation {
+  proposals: Proposal[];
+  /** @dev Balances of the swap by currency address */
+  balances: Record<string, BigNumber>;
+  /** @dev Owners of the tokens recorded in deposited items, keyed by `<collection>:<token id>` */
+  tokenOwners: Record<string, string>;
+  /** @dev Tokens held by the swap by collection address */
+  tokenCounts: Record<string, number>;
+  nativeBalance: BigNumber;
+  /** @dev Cumulative amounts moved in and out of the swap, keyed by currency address or `<collection>:<token id>` */
+  received: Record<string, BigNumber>;
+  paidOut: Record<string, BigNumber>;
+}
+
+/**
+ * @dev Check the swap after a step, returns the violation message if any
+ */
+export interface Invariant {
+  name: string;
+  check: (
+    observation: FuzzObservation,
+    previous: FuzzObservation | undefined,
+    environment: FuzzEnvironment
+  ) => string | undefined;
+}
+
+/**
+ * @dev Outcome of a step, steps are allowed to revert
+ */
+export interface FuzzOutcome {
+  step: FuzzStep;
+  result: string;
+}
+
+/**
+ * @dev A sequence breaking an invariant, shrunk to a minimal one
+ */
+export interface FuzzFailure {
+  seed: number;
+  invariant: string;
+  message: string;
+  /** @dev Index of the step after which the invariant broke */
+  stepIndex: number;
+  steps: FuzzStep[];
+  outcomes: FuzzOutcome[];
+  /** @dev Length of the sequence before it was shrunk */
+  originalLength: number;
+}
+
+/**
+ * @dev Thrown by `checkInvariants` with the shrunk failing sequence
+ */
+export class InvariantViolation extends Error {
+  constructor(public readonly failure: FuzzFailure) {
+    super(formatFailure(failure));
+    this.name = "InvariantViolation";
+  }
+}
+
+export interface FuzzOptions {
+  seed: number;
+  runs: number;
+  /** @dev Length of the generated sequences */
+  length: number;
+  /** @dev Checked along the default invariants */
+  invariants?: Invariant[];
+}
+
+/**
+ * @dev Seeded pseudo random numbers, mulberry32
+ */
+export interface Random {
+  next: () => number;
+  /** @dev Integer between min and max included */
+  integer: (min: number, max: number) => number;
+  boolean: (probability?: number) => boolean;
+}
+
+/**
+ * @dev Create a seeded random generator
+ * @param seed: the seed
+ */
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    integer: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    boolean: (probability = 0.5) => next() < probability,
+  };
+};
+
+/**
+ * @dev Relative frequency of each step kind in generated sequences
+ */
+const STEP_WEIGHTS: [FuzzStep["kind"], number][] = [
+  ["createProposal", 30],
+  ["fulfillProposal", 20],
+  ["cancelProposal", 12],
+  ["wrapETH", 8],
+  ["unwrapETH", 5],
+  ["increaseTime", 10],
+  ["configureProtocolFee", 5],
+  ["configureLimits", 4],
+  ["pause", 2],
+  ["unpause", 4],
+];
+
+/**
+ * @dev Generate a random step
+ * @param random: the random generator
+ */
+export const generateStep = (random: Random): FuzzStep => {
+  const total = STEP_WEIGHTS.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = random.next() * total;
+  const [kind] =
+    STEP_WEIGHTS.find(([, weight]) => (roll -= weight) < 0) ||
+    STEP_WEIGHTS[STEP_WEIGHTS.length - 1];
+
+  const actor = random.integer(0, 7);
+  const proposal = random.integer(0, 7);
+
+  switch (kind) {
+    case "createProposal":
+      return {
+        kind,
+        actor,
+        nfts: Array.from({ length: random.integer(0, 2) }, () => ({
+          collection: random.integer(0, 3),
+          token: random.integer(0, 15),
+        })),
+        erc20: random.boolean(0.4) ? random.integer(1, 5) : 0,
+        weth: random.boolean(0.3) ? random.integer(1, 3) : 0,
+        native: random.boolean(),
+        options: Array.from({ length: random.integer(1, 2) }, () => ({
+          amount: random.integer(1, 5),
+          weth: random.boolean(0.3),
+        })),
+        expiresIn: random.integer(30, 600),
+      };
+    case "fulfillProposal":
+      return {
+        kind,
+        actor,
+        proposal,
+        option: random.integer(0, 1),
+        native: random.boolean(),
+      };
+    case "cancelProposal":
+      return { kind, proposal, stranger: random.boolean(0.2) };
+    case "wrapETH":
+      return { kind, actor, amount: random.integer(1, 5) };
+    case "unwrapETH":
+      return { kind, actor };
+    case "increaseTime":
+      return { kind, seconds: random.integer(10, 300) };
+    case "configureProtocolFee":
+      return { kind, basisPoints: random.integer(0, 10) * 100 };
+    case "configureLimits":
+      return { kind, maxAllowedItems: random.integer(1, 4) };
+    default:
+      return { kind } as FuzzStep;
+  }
+};
+
+/**
+ * @dev Generate a random sequence
+ * @param seed: the seed
+ * @param length: the amount of steps
+ */
+export const generateSteps = (seed: number, length: number): FuzzStep[] => {
+  const random = createRandom(seed);
+  return Array.from({ length }, () => generateStep(random));
+};
+
+/**
+ * @dev Simpler variants of a step, tried in order while shrinking
+ * @param step: the step
+ */
+export const simplifyStep = (step: FuzzStep): FuzzStep[] => {
+  const candidates: FuzzStep[] = [];
+
+  if ("actor" in step && step.actor !== 0) {
+    candidates.push({ ...step, actor: 0 });
+  }
+  if ("proposal" in step && step.proposal !== 0) {
+    candidates.push({ ...step, proposal: 0 });
+  }
+
+  switch (step.kind) {
+    case "createProposal":
+      for (let index = 0; index < step.nfts.length; index++) {
+        candidates.push({
+          ...step,
+          nfts: step.nfts.filter((_, nftIndex) => nftIndex !== index),
+        });
+      }
+      if (step.nfts.some(({ collection, token }) => collection || token)) {
+        candidates.push({
+          ...step,
+          nfts: step.nfts.map(() => ({ collection: 0, token: 0 })),
+        });
+      }
+      if (step.erc20 > 1) candidates.push({ ...step, erc20: 1 });
+      if (step.erc20) candidates.push({ ...step, erc20: 0 });
+      if (step.weth) candidates.push({ ...step, weth: 0 });
+      if (step.native) candidates.push({ ...step, native: false });
+      if (step.options.length > 1) {
+        candidates.push({ ...step, options: step.options.slice(0, 1) });
+      }
+      if (step.options.some(({ amount, weth }) => amount > 1 || weth)) {
+        candidates.push({
+          ...step,
+          options: step.options.map(() => ({ amount: 1, weth: false })),
+        });
+      }
+      if (step.expiresIn !== 600) candidates.push({ ...step, expiresIn: 600 });
+      break;
+    case "fulfillProposal":
+      if (step.option) candidates.push({ ...step, option: 0 });
+      if (step.native) candidates.push({ ...step, native: false });
+      break;
+    case "cancelProposal":
+      if (step.stranger) candidates.push({ ...step, stranger: false });
+      break;
+    case "wrapETH":
+      if (step.amount > 1) candidates.push({ ...step, amount: 1 });
+      break;
+    case "increaseTime":
+      if (step.seconds > 10) {
+        candidates.push({ ...step, seconds: Math.floor(step.seconds / 2) });
+      }
+      break;
+    case "configureProtocolFee":
+      if (step.basisPoints) candidates.push({ ...step, basisPoints: 0 });
+      break;
+    case "configureLimits":
+      if (step.maxAllowedItems !== 4) {
+        candidates.push({ ...step, maxAllowedItems: 4 });
+      }
+      break;
+  }
+
+  return candidates;
+};
+
+/**
+ * @dev Escrowed balances match the deposited offered items of deposited proposals, and nothing else is held
+ */
+export const ESCROW_MATCHES_DEPOSITS: Invariant = {
+  name: "escrow matches deposits",
+  check: (observation, _previous, environment) => {
+    const expectedBalances: Record<string, BigNumber> = {
+      [environment.erc20]: BigNumber.from(0),
+      [environment.weth]: BigNumber.from(0),
+    };
+    const expectedCounts: Record<string, number> = {};
+
+    for (const proposal of observation.proposals) {
+      if (proposal.status !== ProposalStatus.Deposited) continue;
+
+      for (const item of proposal.offeredItems) {
+        if (item.status !== SwapItemStatus.Deposited) continue;
+
+        if (item.itemType === SwapItemType.Currency) {
+          expectedBalances[item.contractAddress] = (
+            expectedBalances[item.contractAddress] || BigNumber.from(0)
+          ).add(item.amount);
+          continue;
+        }
+
+        const key = `${item.contractAddress}:${item.tokenId}`;
+        if (
+          observation.tokenOwners[key] !== (environment.swap.address as string)
+        ) {
+          return `${key} of ${proposal.id} is held by ${observation.tokenOwners[key]}`;
+        }
+        expectedCounts[item.contractAddress] =
+          (expectedCounts[item.contractAddress] || 0) + 1;
+      }
+    }
+
+    for (const [address, expected] of Object.entries(expectedBalances)) {
+      const balance = observation.balances[address] || BigNumber.from(0);
+      if (!balance.eq(expected)) {
+        return `swap holds ${balance} of ${address}, deposited items sum up to ${expected}`;
+      }
+    }
+    for (const { address } of environment.collections) {
+      const count = observation.tokenCounts[address] || 0;
+      if (count !== (expectedCounts[address] || 0)) {
+        return `swap holds ${count} tokens of ${address}, ${
+          expectedCounts[address] || 0
+        } are deposited`;
+      }
+    }
+    if (!observation.nativeBalance.isZero()) {
+      return `swap holds ${observation.nativeBalance} of native coin`;
+    }
+
+    return undefined;
+  },
+};
+
+/**
+ * @dev Proposals and their items never go back to a previous status, settled ones never change
+ */
+export const STATUSES_MOVE_FORWARD: Invariant = {
+  name: "statuses move forward",
+  check: (observation, previous) => {
+    const previousProposals = new Map(
+      (previous?.proposals || []).map((proposal) => [proposal.id, proposal])
+    );
+
+    for (const proposal of observation.proposals) {
+      const before = previousProposals.get(proposal.id);
+      if (!before) continue;
+
+      if (!canMove(before.status, proposal.status, ProposalStatus.Deposited)) {
+        return `${proposal.id} moved from ${ProposalStatus[before.status]} to ${
+          ProposalStatus[proposal.status]
+        }`;
+      }
+
+      const items = [
+        ...proposal.offeredItems,
+        ...proposal.swapOptions.flatMap(({ askingItems }) => askingItems),
+      ];
+      const itemsBefore = new Map(
+        [
+          ...before.offeredItems,
+          ...before.swapOptions.flatMap(({ askingItems }) => askingItems),
+        ].map((item) => [item.id, item.status])
+      );
+      for (const item of items) {
+        const status = itemsBefore.get(item.id);
+        if (status === undefined) continue;
+
+        if (!canMove(status, item.status, SwapItemStatus.Deposited)) {
+          return `item ${item.id} of ${proposal.id} moved from ${
+            SwapItemStatus[status]
+          } to ${SwapItemStatus[item.status]}`;
+        }
+      }
+    }
+
+    return undefined;
+  },
+};
+
+/**
+ * @dev Nothing leaves the swap more often or in larger amounts than it came in
+ */
+export const NO_DOUBLE_PAYOUT: Invariant = {
+  name: "no double payout",
+  check: (observation) => {
+    for (const [key, paidOut] of Object.entries(observation.paidOut)) {
+      const received = observation.received[key] || BigNumber.from(0);
+      if (paidOut.gt(received)) {
+        return `${paidOut} of ${key} left the swap, only ${received} came in`;
+      }
+    }
+
+    return undefined;
+  },
+};
+
+export const DEFAULT_INVARIANTS = [
+  ESCROW_MATCHES_DEPOSITS,
+  STATUSES_MOVE_FORWARD,
+  NO_DOUBLE_PAYOUT,
+];
+
+/**
+ * @dev Whether a status can follow another one, statuses after the open one are final
+ * @param from: the previous status
+ * @param to: the next status
+ * @param open: the last status that can still change
+ */
+const canMove = (from: number, to: number, open: number): boolean =>
+  from === to || (from <= open && to > from);
+
+const ERC20_ABI = ["function balanceOf(address) view returns (uint256)"];
+const ERC721_ABI = [
+  "function balanceOf(address) view returns (uint256)",
+  "function ownerOf(uint256) view returns (address)",
+];
+const TRANSFER_TOPIC = ethers.utils.id("Transfer(address,address,uint256)");
+
+/**
+ * @dev State of a run carried from a step to the next
+ */
+interface FuzzRun {
+  environment: FuzzEnvironment;
+  clients: HamsterSwapClient[];
+  admin: HamsterSwap;
+  proposalIds: string[];
+  attempts: number;
+  received: Record<string, BigNumber>;
+  paidOut: Record<string, BigNumber>;
+}
+
+/**
+ * @dev Tokens of a collection owned by an actor
+ * @param collection: the collection
+ * @param actor: the actor address
+ */
+const getOwnedTokens = async (
+  collection: FuzzEnvironment["collections"][number],
+  actor: string
+): Promise<number[]> => {
+  const contract = new Contract(
+    collection.address,
+    ERC721_ABI,
+    ethers.provider
+  );
+  const owners: string[] = await Promise.all(
+    collection.tokenIds.map((tokenId) => contract.ownerOf(tokenId))
+  );
+
+  return collection.tokenIds.filter((_, index) => owners[index] === actor);
+};
+
+/**
+ * @dev Send a step, resolving its indexes against the current state, returns a short outcome
+ * @param run: the run state
+ * @param step: the step
+ */
+const sendStep = async (run: FuzzRun, step: FuzzStep): Promise<string> => {
+  const { environment } = run;
+  const actorIndex = "actor" in step ? step.actor % run.clients.length : 0;
+  const client = run.clients[actorIndex];
+  const actor = await environment.actors[actorIndex].getAddress();
+  const proposalId =
+    "proposal" in step && run.proposalIds.length
+      ? run.proposalIds[step.proposal % run.proposalIds.length]
+      : undefined;
+
+  switch (step.kind) {
+    case "createProposal": {
+      const offeredItems: SwapItemInput[] = [];
+      for (const { collection, token } of step.nfts) {
+        const target =
+          environment.collections[collection % environment.collections.length];
+        const owned = (await getOwnedTokens(target, actor)).filter(
+          (tokenId) =>
+            !offeredItems.some(
+              (item) =>
+                item.contractAddress === target.address &&
+                BigNumber.from(item.tokenId).eq(tokenId)
+            )
+        );
+        if (!owned.length) continue;
+
+        offeredItems.push({
+          contractAddress: target.address,
+          itemType: SwapItemType.Nft,
+          tokenId: owned[token % owned.length],
+        });
+      }
+      if (step.erc20) {
+        offeredItems.push({
+          contractAddress: environment.erc20,
+          itemType: SwapItemType.Currency,
+          amount: FUZZ_UNIT.mul(step.erc20),
+        });
+      }
+      if (step.weth) {
+        offeredItems.push({
+          contractAddress: environment.weth,
+          itemType: SwapItemType.Currency,
+          amount: FUZZ_UNIT.mul(step.weth),
+        });
+      }
+
+      const id = `proposal_${run.attempts++}`;
+      await client.createProposal(
+        {
+          id,
+          expiredAt: (await time.latest()) + step.expiresIn,
+          offeredItems,
+          swapOptions: step.options.map(({ amount, weth }, index) => ({
+            id: `${id}_option_${index}`,
+            askingItems: [
+              {
+                contractAddress: weth ? environment.weth : environment.erc20,
+                itemType: SwapItemType.Currency,
+                amount: FUZZ_UNIT.mul(amount),
+              },
+            ],
+          })),
+        },
+        step.native && step.weth ? { value: FUZZ_UNIT.mul(step.weth) } : {}
+      );
+      run.proposalIds.push(id);
+      return `created ${id}`;
+    }
+    case "fulfillProposal": {
+      if (!proposalId) return "skipped";
+
+      const { swapOptions } = await client.getProposal(proposalId);
+      const option = swapOptions[step.option % swapOptions.length];
+      const value = option.askingItems
+        .filter(({ contractAddress }) => contractAddress === environment.weth)
+        .reduce((total, { amount }) => total.add(amount), BigNumber.from(0));
+
+      await client.fulfillProposal(
+        proposalId,
+        option.id,
+        step.native && !value.isZero() ? { value } : {}
+      );
+      return `fulfilled ${proposalId} with ${option.id}`;
+    }
+    case "cancelProposal": {
+      if (!proposalId) return "skipped";
+
+      const { owner } = await client.getProposal(proposalId);
+      const actors = await Promise.all(
+        environment.actors.map((actor) => actor.getAddress())
+      );
+      const sender = step.stranger
+        ? (actors.indexOf(owner) + 1) % actors.length
+        : actors.indexOf(owner);
+
+      await run.clients[sender].cancelProposal(proposalId);
+      return `cancelled ${proposalId}`;
+    }
+    case "wrapETH":
+      await client.wrapETH(FUZZ_UNIT.mul(step.amount));
+      return "wrapped";
+    case "unwrapETH":
+      await client.unwrapETH();
+      return "unwrapped";
+    case "increaseTime":
+      await time.increase(step.seconds);
+      return `${step.seconds}s later`;
+    case "configureProtocolFee":
+      await run.admin.configureProtocolFee(
+        step.basisPoints,
+        await environment.admin.getAddress()
+      );
+      return `protocol fee ${step.basisPoints}`;
+    case "configureLimits": {
+      const args = [
+        step.maxAllowedItems,
+        await run.admin.maxAllowedOptions(),
+        await run.admin.etherman(),
+      ] as const;
+      await run.admin.queueConfiguration(...args);
+      await run.admin.executeConfiguration(...args);
+      return `max items ${step.maxAllowedItems}`;
+    }
+    case "pause":
+      await run.admin.pause();
+      return "paused";
+    case "unpause":
+      await run.admin.unpause();
+      return "unpaused";
+  }
+};
+
+/**
+ * @dev Short revert reason of a failed step
+ * @param error: the thrown error
+ */
+const getRevertReason = (error: unknown): string => {
+  const message = error instanceof Error ? error.message : String(error);
+  const customError = message.match(/custom error '([^']+)'/);
+  const reason = message.match(/reason string '([^']+)'/);
+
+  return `reverted ${
+    customError?.[1] || reason?.[1] || message.split("\n")[0]
+  }`;
+};
+
+/**
+ * @dev Add the transfers of the swap mined since a block to the run totals
+ * @param run: the run state
+ * @param fromBlock: the first block of the step
+ */
+const recordTransfers = async (run: FuzzRun, fromBlock: number) => {
+  const swap = (run.environment.swap.address as string).toLowerCase();
+  const logs = await ethers.provider.getLogs({
+    fromBlock,
+    toBlock: "latest",
+    topics: [TRANSFER_TOPIC],
+  });
+
+  for (const log of logs) {
+    const from = ethers.utils.hexDataSlice(log.topics[1], 12).toLowerCase();
+    const to = ethers.utils.hexDataSlice(log.topics[2], 12).toLowerCase();
+    if (from !== swap && to !== swap) continue;
+
+    /** @dev ERC721 transfers index the token id, ERC20 ones log the amount */
+    const isToken = log.topics.length === 4;
+    const address = ethers.utils.getAddress(log.address);
+    const key = isToken
+      ? `${address}:${BigNumber.from(log.topics[3])}`
+      : address;
+    const amount = isToken ? BigNumber.from(1) : BigNumber.from(log.data);
+    const totals = to === swap ? run.received : run.paidOut;
+
+    totals[key] = (totals[key] || BigNumber.from(0)).add(amount);
+  }
+};
+
+/**
+ * @dev Read what the swap holds and records
+ * @param run: the run state
+ */
+const observe = async (run: FuzzRun): Promise<FuzzObservation> => {
+  const { environment } = run;
+  const swap = environment.swap.address as string;
+  const proposals = await Promise.all(
+    run.proposalIds.map((id) => run.clients[0].getProposal(id))
+  );
+
+  const balances: Record<string, BigNumber> = {};
+  for (const address of [environment.erc20, environment.weth]) {
+    balances[address] = await new Contract(
+      address,
+      ERC20_ABI,
+      ethers.provider
+    ).balanceOf(swap);
+  }
+
+  const tokenOwners: Record<string, string> = {};
+  const tokenCounts: Record<string, number> = {};
+  for (const { address } of environment.collections) {
+    const collection = new Contract(address, ERC721_ABI, ethers.provider);
+    tokenCounts[address] = (await collection.balanceOf(swap)).toNumber();
+
+    for (const proposal of proposals) {
+      for (const item of proposal.offeredItems) {
+        if (item.contractAddress !== address) continue;
+        tokenOwners[`${address}:${item.tokenId}`] = await collection.ownerOf(
+          item.tokenId
+        );
+      }
+    }
+  }
+
+  return {
+    proposals,
+    balances,
+    tokenOwners,
+    tokenCounts,
+    nativeBalance: await ethers.provider.getBalance(swap),
+    received: { ...run.received },
+    paidOut: { ...run.paidOut },
+  };
+};
+
+/**
+ * @dev Run a sequence and check the invariants after every step, the chain is restored afterwards
+ * @param environment: the deployed swap and collections
+ * @param steps: the sequence
+ * @param invariants: the invariants
+ */
+export const runSteps = async (
+  environment: FuzzEnvironment,
+  steps: FuzzStep[],
+  invariants: Invariant[] = DEFAULT_INVARIANTS
+): Promise<Omit<FuzzFailure, "seed" | "originalLength"> | undefined> => {
+  const snapshot = await takeSnapshot();
+  const run: FuzzRun = {
+    environment,
+    clients: environment.actors.map(
+      (actor) => new HamsterSwapClient(environment.swap, actor)
+    ),
+    admin: environment.swap.connect(
+      environment.admin
+    ) as unknown as HamsterSwap,
+    proposalIds: [],
+    attempts: 0,
+    received: {},
+    paidOut: {},
+  };
+  const outcomes: FuzzOutcome[] = [];
+
+  try {
+    let previous: FuzzObservation | undefined;
+
+    for (const [stepIndex, step] of steps.entries()) {
+      const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+      let result: string;
+      try {
+        result = await sendStep(run, step);
+      } catch (error) {
+        result = getRevertReason(error);
+      }
+      outcomes.push({ step, result });
+
+      await recordTransfers(run, fromBlock);
+      const observation = await observe(run);
+
+      for (const invariant of invariants) {
+        const message = invariant.check(observation, previous, environment);
+        if (message) {
+          return {
+            invariant: invariant.name,
+            message,
+            stepIndex,
+            steps: steps.slice(0, stepIndex + 1),
+            outcomes,
+          };
+        }
+      }
+      previous = observation;
+    }
+
+    return undefined;
+  } finally {
+    await snapshot.restore();
+  }
+};
+
+/**
+ * @dev Shrink a failing sequence, dropping chunks of steps then simplifying the remaining ones
+ * as long as the sequence still fails
+ * @param steps: the failing sequence
+ * @param fails: whether a sequence still fails
+ */
+export const shrinkSteps = async (
+  steps: FuzzStep[],
+  fails: (steps: FuzzStep[]) => Promise<boolean>
+): Promise<FuzzStep[]> => {
+  let current = steps;
+  let shrunk = true;
+
+  while (shrunk) {
+    shrunk = false;
+
+    for (
+      let size = Math.max(1, Math.floor(current.length / 2));
+      size >= 1;
+      size = Math.floor(size / 2)
+    ) {
+      for (let start = 0; start + size <= current.length; ) {
+        const candidate = [
+          ...current.slice(0, start),
+          ...current.slice(start + size),
+        ];
+        if (candidate.length && (await fails(candidate))) {
+          current = candidate;
+          shrunk = true;
+        } else {
+          start += size;
+        }
+      }
+    }
+
+    for (let index = 0; index < current.length; index++) {
+      for (const simpler of simplifyStep(current[index])) {
+        const candidate = [...current];
+        candidate[index] = simpler;
+        if (await fails(candidate)) {
+          current = candidate;
+          shrunk = true;
+          break;
+        }
+      }
+    }
+  }
+
+  return current;
+};
+
+/**
+ * @dev Run random sequences, throw an `InvariantViolation` with the shrunk sequence on the first failure
+ * @param environment: the deployed swap and collections
+ * @param options: the seed, the amount of runs and the sequence length
+ */
+export const checkInvariants = async (
+  environment: FuzzEnvironment,
+  options: FuzzOptions
+): Promise<void> => {
+  const invariants = [...DEFAULT_INVARIANTS, ...(options.invariants || [])];
+
+  for (let run = 0; run < options.runs; run++) {
+    const seed = options.seed + run;
+    const steps = generateSteps(seed, options.length);
+    const failure = await runSteps(environment, steps, invariants);
+    if (!failure) continue;
+
+    const shrunk = await shrinkSteps(
+      failure.steps,
+      async (candidate) =>
+        !!(await runSteps(environment, candidate, invariants))
+    );
+    const minimal = await runSteps(environment, shrunk, invariants);
+
+    throw new InvariantViolation({
+      ...(minimal || failure),
+      seed,
+      originalLength: steps.length,
+    });
+  }
+};
+
+/**
+ * @dev Describe a failure with the sequence to replay it through `runSteps`
+ * @param failure: the failure
+ */
+export const formatFailure = (failure: FuzzFailure): string =>
+  [
+    `Invariant "${failure.invariant}" broken after step ${failure.stepIndex}: ${failure.message}`,
+    `Seed ${failure.seed}, shrunk from ${failure.originalLength} to ${failure.steps.length} steps:`,
+    ...failure.outcomes.map(
+      ({ step, result }, index) =>
+        `  ${index}. ${JSON.stringify(step)} => ${result}`
+    ),
+    `Replay with FUZZ_STEPS='${JSON.stringify(failure.steps)}'`,
+  ].join("\n");
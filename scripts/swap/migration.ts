@@ -0,0 +1,86 @@
+import { ContractTransaction, ethers } from "ethers";
+
+import type { HamsterSwap } from "../../typechain-types";
+
+/**
+ * @dev Proposals migrated per transaction by default, each of them copies its options, items and counter-offers
+ */
+export const MIGRATION_BATCH_SIZE = 20;
+
+/**
+ * @dev Result of a proposal migration, no transaction is sent on dry runs or when nothing is pending
+ */
+export interface ProposalMigrationResult {
+  /** @dev Proposals recorded before the storage redesign that were not migrated yet */
+  pending: string[];
+  transactionHashes: string[];
+}
+
+/**
+ * @dev Get the ids of the proposals created through the swap, signed proposals included, oldest first
+ * @param swap: the swap contract
+ * @param fromBlock: the block the swap proxy was deployed at
+ */
+export const getCreatedProposalIds = async (
+  swap: HamsterSwap,
+  fromBlock = 0
+): Promise<string[]> => {
+  const contract = swap as unknown as ethers.Contract;
+  const events = await contract.queryFilter(
+    contract.filters.ProposalCreated(),
+    fromBlock
+  );
+
+  return [...new Set(events.map(({ args }) => args?.id as string))];
+};
+
+/**
+ * @dev Get the proposals that are not migrated yet, they read as empty until then
+ * @param swap: the swap contract
+ * @param ids: ids of the proposals to check
+ */
+export const getPendingProposalIds = async (
+  swap: HamsterSwap,
+  ids: string[]
+): Promise<string[]> => {
+  const pending: string[] = [];
+
+  for (const id of ids) {
+    const [recordedId] = await swap.proposals(id);
+    if (recordedId === "") pending.push(id);
+  }
+
+  return pending;
+};
+
+/**
+ * @dev Move the proposals recorded under their string id to the records keyed by bytes32 in batches,
+ * running it again only sends what is still pending
+ * @param swap: the swap contract, connected to its owner
+ * @param options: the block the proxy was deployed at, the batch size and whether to only print the pending proposals
+ */
+export const migrateProposals = async (
+  swap: HamsterSwap,
+  options: { fromBlock?: number; batchSize?: number; dryRun?: boolean } = {}
+): Promise<ProposalMigrationResult> => {
+  const batchSize = options.batchSize || MIGRATION_BATCH_SIZE;
+  const result: ProposalMigrationResult = {
+    pending: await getPendingProposalIds(
+      swap,
+      await getCreatedProposalIds(swap, options.fromBlock)
+    ),
+    transactionHashes: [],
+  };
+
+  console.log(`${result.pending.length} proposals to migrate`);
+  if (options.dryRun) return result;
+
+  for (let i = 0; i < result.pending.length; i += batchSize) {
+    const tx = (await swap.migrateProposals(
+      result.pending.slice(i, i + batchSize)
+    )) as unknown as ContractTransaction;
+    result.transactionHashes.push((await tx.wait()).transactionHash);
+  }
+
+  return result;
+};
@@ -0,0 +1,23 @@
+import { config } from "hardhat";
+import { upgradeSwap, verifySwap } from "./deployment";
+
+async function main() {
+  /**
+   * @dev The proxy is read from deployments/<chainId>.json, run deploy.ts first for proxies deployed before manifests
+   */
+  const manifest = await upgradeSwap();
+  console.log("HamsterSwap implementation:", manifest.implementation?.address);
+
+  if (!config.etherscan?.apiKey) {
+    console.log("ETHERSCAN_KEY is not set, skipped verification");
+    return;
+  }
+  await verifySwap();
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,238 @@
+import fs from "fs";
+import { ContractTransaction, ethers } from "ethers";
+
+import type { HamsterSwap } from "../../typechain-types";
+import { SwapItemType } from "../../src/sdk/types";
+import type { WhitelistEntry } from "./deployment";
+
+/**
+ * @dev Item types an address can be whitelisted as, by their name in whitelist files
+ */
+export const WHITELIST_ITEM_TYPES = {
+  Nft: SwapItemType.Nft,
+  SemiFungible: SwapItemType.SemiFungible,
+  Currency: SwapItemType.Currency,
+};
+
+export type WhitelistItemTypeName = keyof typeof WHITELIST_ITEM_TYPES;
+
+/**
+ * @dev EIP-165 interface ids, see `Registry.detectItemType`
+ */
+const INTERFACE_IDS = {
+  erc165: "0x01ffc9a7",
+  invalid: "0xffffffff",
+  erc721: "0x80ac58cd",
+  erc1155: "0xd9b67a26",
+};
+
+/**
+ * @dev Changes that bring the on-chain whitelist in line with a whitelist file
+ */
+export interface WhitelistSyncPlan {
+  /** @dev Addresses to be whitelisted, or whose item type changed */
+  added: { address: string; itemType: SwapItemType; name?: string }[];
+  /** @dev Whitelisted addresses missing from the file, only removed when pruning */
+  removed: string[];
+}
+
+/**
+ * @dev Result of a whitelist sync, no transaction is sent on dry runs
+ */
+export interface WhitelistSyncResult extends WhitelistSyncPlan {
+  transactionHashes: string[];
+}
+
+/**
+ * @dev Read a whitelist file, either a list of entries or a deployment config holding them
+ * @param file: the json file
+ */
+export const readWhitelistFile = (file: string): WhitelistEntry[] => {
+  if (!fs.existsSync(file)) {
+    throw new Error(`No whitelist file at ${file}`);
+  }
+
+  const content = JSON.parse(fs.readFileSync(file, "utf8"));
+  const entries: WhitelistEntry[] = Array.isArray(content)
+    ? content
+    : content.whitelist;
+
+  if (!Array.isArray(entries)) {
+    throw new Error(`No whitelist in ${file}`);
+  }
+  for (const entry of entries) {
+    requireWhitelistEntry(entry, file);
+  }
+
+  return entries;
+};
+
+/**
+ * @dev Throw if the address or the item type of an entry is invalid
+ * @param entry: the whitelist entry
+ * @param file: the file it is read from
+ */
+export const requireWhitelistEntry = (entry: WhitelistEntry, file: string) => {
+  if (!ethers.utils.isAddress(entry.address)) {
+    throw new Error(`Invalid address ${entry.address} in ${file}`);
+  }
+  if (entry.itemType && !(entry.itemType in WHITELIST_ITEM_TYPES)) {
+    throw new Error(`Invalid item type ${entry.itemType} in ${file}`);
+  }
+};
+
+/**
+ * @dev Detect the item type of an address like the swap does when it is whitelisted through `configure`
+ * @param provider: the provider
+ * @param address: the item address
+ */
+export const detectItemType = async (
+  provider: ethers.providers.Provider,
+  address: string
+): Promise<SwapItemType> => {
+  const contract = new ethers.Contract(
+    address,
+    ["function supportsInterface(bytes4) view returns (bool)"],
+    provider
+  );
+  const supportsInterface = async (interfaceId: string) => {
+    try {
+      return (await contract.supportsInterface(interfaceId)) === true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (
+    !(await supportsInterface(INTERFACE_IDS.erc165)) ||
+    (await supportsInterface(INTERFACE_IDS.invalid))
+  ) {
+    return SwapItemType.Currency;
+  }
+
+  if (await supportsInterface(INTERFACE_IDS.erc721)) return SwapItemType.Nft;
+  if (await supportsInterface(INTERFACE_IDS.erc1155)) {
+    return SwapItemType.SemiFungible;
+  }
+
+  return SwapItemType.Currency;
+};
+
+/**
+ * @dev Read the whole on-chain whitelist
+ * @param swap: the swap contract
+ * @param pageSize: the amount of entries read per call
+ */
+export const getOnChainWhitelist = async (
+  swap: HamsterSwap,
+  pageSize = 100
+): Promise<Map<string, SwapItemType>> => {
+  const whitelist = new Map<string, SwapItemType>();
+  let total = 0;
+
+  do {
+    const [addresses, itemTypes, count] = await swap.getWhitelist(
+      whitelist.size,
+      pageSize
+    );
+    if (addresses.length === 0) break;
+
+    addresses.forEach((address, index) =>
+      whitelist.set(
+        ethers.utils.getAddress(address),
+        Number(itemTypes[index]) as SwapItemType
+      )
+    );
+    total = Number(count);
+  } while (whitelist.size < total);
+
+  return whitelist;
+};
+
+/**
+ * @dev Compare the on-chain whitelist with the entries of a whitelist file,
+ * entries without item type are detected the same way `configure` does
+ * @param swap: the swap contract
+ * @param provider: the provider
+ * @param entries: the whitelist entries
+ */
+export const planWhitelistSync = async (
+  swap: HamsterSwap,
+  provider: ethers.providers.Provider,
+  entries: WhitelistEntry[]
+): Promise<WhitelistSyncPlan> => {
+  const onChain = await getOnChainWhitelist(swap);
+  const plan: WhitelistSyncPlan = { added: [], removed: [] };
+  const listed = new Set<string>();
+
+  for (const entry of entries) {
+    const address = ethers.utils.getAddress(entry.address);
+    if (listed.has(address)) continue;
+    listed.add(address);
+
+    const itemType = entry.itemType
+      ? WHITELIST_ITEM_TYPES[entry.itemType]
+      : onChain.get(address) ?? (await detectItemType(provider, address));
+
+    if (onChain.get(address) !== itemType) {
+      plan.added.push({ address, itemType, name: entry.name });
+    }
+  }
+
+  plan.removed = [...onChain.keys()].filter((address) => !listed.has(address));
+
+  return plan;
+};
+
+/**
+ * @dev Reconcile the on-chain whitelist with the entries of a whitelist file,
+ * a single `addToWhitelist` call adds the missing entries and updates the changed item types
+ * @param swap: the swap contract, connected to its owner
+ * @param entries: the whitelist entries
+ * @param options: whether to remove the addresses missing from the file, and to only print the plan
+ */
+export const syncWhitelist = async (
+  swap: HamsterSwap,
+  entries: WhitelistEntry[],
+  options: { prune?: boolean; dryRun?: boolean } = {}
+): Promise<WhitelistSyncResult> => {
+  const signer = (swap as unknown as ethers.Contract).signer;
+  const plan = await planWhitelistSync(
+    swap,
+    signer.provider as ethers.providers.Provider,
+    entries
+  );
+  const result: WhitelistSyncResult = {
+    added: plan.added,
+    removed: options.prune ? plan.removed : [],
+    transactionHashes: [],
+  };
+
+  for (const { address, itemType, name } of result.added) {
+    console.log(`+ ${address} ${SwapItemType[itemType]} ${name || ""}`);
+  }
+  for (const address of result.removed) {
+    console.log(`- ${address}`);
+  }
+  if (!options.prune && plan.removed.length > 0) {
+    console.log(`${plan.removed.length} addresses not in the file are kept`);
+  }
+  if (options.dryRun) return result;
+
+  if (result.added.length > 0) {
+    const tx = (await swap.addToWhitelist(
+      result.added.map(({ address }) => address),
+      result.added.map(({ itemType }) => itemType)
+    )) as unknown as ContractTransaction;
+    result.transactionHashes.push((await tx.wait()).transactionHash);
+  }
+
+  if (result.removed.length > 0) {
+    const tx = (await swap.removeFromWhitelist(
+      result.removed
+    )) as unknown as ContractTransaction;
+    result.transactionHashes.push((await tx.wait()).transactionHash);
+  }
+
+  return result;
+};
@@ -0,0 +1,802 @@
+import path from "path";
+import { BigNumber, ethers } from "ethers";
+import { task, types } from "hardhat/config";
+import { CLIArgumentType, HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { HamsterSwap } from "../../typechain-types";
+import {
+  getOperationId,
+  migrateRoles,
+  readAdministrationFile,
+  RoleMigrationResult,
+  SWAP_ROLES,
+  SwapConfiguration,
+  SwapRoleName,
+} from "../swap/administration";
+import {
+  MIGRATION_BATCH_SIZE,
+  migrateProposals,
+  ProposalMigrationResult,
+} from "../swap/migration";
+import {
+  detectItemType,
+  readWhitelistFile,
+  syncWhitelist,
+  WHITELIST_ITEM_TYPES,
+  WhitelistItemTypeName,
+  WhitelistSyncResult,
+} from "../swap/whitelist";
+
+/**
+ * @dev Checksummed address argument
+ */
+export const addressType: CLIArgumentType<string> = {
+  name: "address",
+  parse: (argName, value) => {
+    if (!ethers.utils.isAddress(value)) {
+      throw new Error(`Invalid address for ${argName}: ${value}`);
+    }
+
+    return ethers.utils.getAddress(value);
+  },
+  validate: (argName, value) => {
+    if (typeof value !== "string" || !ethers.utils.isAddress(value)) {
+      throw new Error(`Invalid address for ${argName}: ${value}`);
+    }
+  },
+};
+
+/**
+ * @dev Comma separated addresses argument
+ */
+export const addressListType: CLIArgumentType<string[]> = {
+  name: "addressList",
+  parse: (argName, value) =>
+    value
+      .split(",")
+      .map((address) => address.trim())
+      .filter((address) => !!address)
+      .map((address) => addressType.parse(argName, address)),
+  validate: (argName, value) => {
+    if (!Array.isArray(value)) {
+      throw new Error(`Invalid address list for ${argName}: ${value}`);
+    }
+    value.forEach((address) => addressType.validate(argName, address));
+  },
+};
+
+/**
+ * @dev Comma separated item types a whitelisted address can be swapped as, e.g. `Nft,Currency`
+ */
+export const whitelistItemTypesType: CLIArgumentType<WhitelistItemTypeName[]> =
+  {
+    name: "whitelistItemTypes",
+    parse: (argName, value) =>
+      value
+        .split(",")
+        .map((itemType) => itemType.trim())
+        .filter((itemType) => !!itemType)
+        .map((itemType) => {
+          if (!(itemType in WHITELIST_ITEM_TYPES)) {
+            throw new Error(
+              `Invalid item type for ${argName}: ${itemType}, expected one of ${Object.keys(
+                WHITELIST_ITEM_TYPES
+              )}`
+            );
+          }
+
+          return itemType as WhitelistItemTypeName;
+        }),
+    validate: (argName, value) => {
+      if (
+        !Array.isArray(value) ||
+        value.some((itemType) => !(itemType in WHITELIST_ITEM_TYPES))
+      ) {
+        throw new Error(`Invalid item types for ${argName}: ${value}`);
+      }
+    },
+  };
+
+/**
+ * @dev Role name argument, e.g. `pauser`
+ */
+export const roleType: CLIArgumentType<SwapRoleName> = {
+  name: "role",
+  parse: (argName, value) => {
+    if (!(value in SWAP_ROLES)) {
+      throw new Error(
+        `Invalid role for ${argName}: ${value}, expected one of ${Object.keys(
+          SWAP_ROLES
+        )}`
+      );
+    }
+
+    return value as SwapRoleName;
+  },
+  validate: (argName, value) => {
+    if (!(value in SWAP_ROLES)) {
+      throw new Error(`Invalid role for ${argName}: ${value}`);
+    }
+  },
+};
+
+/**
+ * @dev Result of a task that sends a swap call, the transaction hash is missing on dry runs
+ */
+export interface SwapCallResult {
+  to: string;
+  functionName: string;
+  data: string;
+  transactionHash?: string;
+}
+
+/**
+ * @dev Decoded swap event, as listed by `swap:events`
+ */
+export interface SwapEventLog {
+  name: string;
+  blockNumber: number;
+  transactionHash: string;
+  args: Record<string, string | string[]>;
+}
+
+/**
+ * @dev Attach the swap deployment, read only calls do not need the linked libraries
+ * @param hre: the hardhat runtime
+ * @param address: the swap proxy address, SWAP_ADDRESS by default
+ */
+const getSwap = async (
+  hre: HardhatRuntimeEnvironment,
+  address: string | undefined = process.env.SWAP_ADDRESS
+): Promise<HamsterSwap> => {
+  if (!address) {
+    throw new Error("Missing --swap address, or set SWAP_ADDRESS");
+  }
+
+  const [signer] = await hre.ethers.getSigners();
+
+  return (await hre.ethers.getContractAt(
+    "HamsterSwap",
+    address,
+    signer
+  )) as unknown as HamsterSwap;
+};
+
+/**
+ * @dev The ethers v5 interface of the swap, typechain types target ethers v6
+ * @param swap: the swap contract
+ */
+const getSwapInterface = (swap: HamsterSwap): ethers.utils.Interface =>
+  swap.interface as unknown as ethers.utils.Interface;
+
+/**
+ * @dev Send a swap call with the first account, or only print its calldata on dry runs
+ * @param hre: the hardhat runtime
+ * @param swap: the swap contract
+ * @param functionName: the swap function
+ * @param args: the function arguments
+ * @param dryRun: whether to print the calldata instead of sending it
+ */
+const sendOrPrint = async (
+  hre: HardhatRuntimeEnvironment,
+  swap: HamsterSwap,
+  functionName: string,
+  args: unknown[],
+  dryRun: boolean
+): Promise<SwapCallResult> => {
+  const result: SwapCallResult = {
+    to: swap.address as string,
+    functionName,
+    data: getSwapInterface(swap).encodeFunctionData(functionName, args),
+  };
+
+  if (dryRun) {
+    console.log(`[dry-run] ${functionName} on ${result.to}`);
+    console.log(result.data);
+    return result;
+  }
+
+  const [signer] = await hre.ethers.getSigners();
+  const tx = await signer.sendTransaction({ to: result.to, data: result.data });
+  const receipt = await tx.wait();
+
+  console.log(`${functionName} sent in ${receipt.transactionHash}`);
+  return { ...result, transactionHash: receipt.transactionHash };
+};
+
+/**
+ * @dev Get a configuration change, current values are kept for the omitted ones
+ * @param swap: the swap contract
+ * @param config: the changed values
+ */
+const getConfiguration = async (
+  swap: HamsterSwap,
+  config: {
+    maxItems?: number;
+    maxOptions?: number;
+    etherman?: string;
+  }
+): Promise<SwapConfiguration> => {
+  const [maxAllowedItems, maxAllowedOptions, etherman] = await Promise.all([
+    swap.maxAllowedItems(),
+    swap.maxAllowedOptions(),
+    swap.etherman(),
+  ]);
+
+  return {
+    maxAllowedItems:
+      config.maxItems ?? BigNumber.from(maxAllowedItems).toNumber(),
+    maxAllowedOptions:
+      config.maxOptions ?? BigNumber.from(maxAllowedOptions).toNumber(),
+    etherman: config.etherman || etherman,
+  };
+};
+
+/**
+ * @dev Print BigNumbers of task outputs as decimal strings
+ */
+const toJSON = (value: unknown): string =>
+  JSON.stringify(
+    value,
+    (key, elm) =>
+      elm && elm.type === "BigNumber" ? BigNumber.from(elm).toString() : elm,
+    2
+  );
+
+task(
+  "swap:configuration:queue",
+  "Queue a change of the item limits and etherman, executed once the timelock delay elapsed"
+)
+  .addOptionalParam(
+    "swap",
+    "The swap proxy address, SWAP_ADDRESS by default",
+    undefined,
+    addressType
+  )
+  .addOptionalParam(
+    "maxItems",
+    "Maximum amount of items, unchanged if omitted",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "maxOptions",
+    "Maximum amount of options, unchanged if omitted",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "etherman",
+    "The etherman address, unchanged if omitted",
+    undefined,
+    addressType
+  )
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) => {
+    const swap = await getSwap(hre, args.swap);
+    const configuration = await getConfiguration(swap, args);
+
+    return sendOrPrint(
+      hre,
+      swap,
+      "queueConfiguration",
+      [
+        configuration.maxAllowedItems,
+        configuration.maxAllowedOptions,
+        configuration.etherman,
+      ],
+      args.dryRun
+    );
+  });
+
+task(
+  "swap:configuration:execute",
+  "Execute a queued change of the item limits and etherman"
+)
+  .addOptionalParam(
+    "swap",
+    "The swap proxy address, SWAP_ADDRESS by default",
+    undefined,
+    addressType
+  )
+  .addOptionalParam(
+    "maxItems",
+    "Maximum amount of items, unchanged if omitted",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "maxOptions",
+    "Maximum amount of options, unchanged if omitted",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "etherman",
+    "The etherman address, unchanged if omitted",
+    undefined,
+    addressType
+  )
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) => {
+    const swap = await getSwap(hre, args.swap);
+    const configuration = await getConfiguration(swap, args);
+
+    return sendOrPrint(
+      hre,
+      swap,
+      "executeConfiguration",
+      [
+        configuration.maxAllowedItems,
+        configuration.maxAllowedOptions,
+        configuration.etherman,
+      ],
+      args.dryRun
+    );
+  });
+
+task(
+  "swap:configuration:cancel",
+  "Cancel a queued change of the item limits and etherman"
+)
+  .addOptionalParam(
+    "swap",
+    "The swap proxy address, SWAP_ADDRESS by default",
+    undefined,
+    addressType
+  )
+  .addOptionalParam(
+    "maxItems",
+    "Maximum amount of items, unchanged if omitted",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "maxOptions",
+    "Maximum amount of options, unchanged if omitted",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "etherman",
+    "The etherman address, unchanged if omitted",
+    undefined,
+    addressType
+  )
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) => {
+    const swap = await getSwap(hre, args.swap);
+    const configuration = await getConfiguration(swap, args);
+
+    return sendOrPrint(
+      hre,
+      swap,
+      "cancelConfiguration",
+      [getOperationId(configuration)],
+      args.dryRun
+    );
+  });
+
+task("swap:roles:grant", "Grant a role to an account")
+  .addOptionalParam(
+    "swap",
+    "The swap proxy address, SWAP_ADDRESS by default",
+    undefined,
+    addressType
+  )
+  .addParam(
+    "role",
+    "The role, pauser, collectionManager or configAdmin",
+    undefined,
+    roleType
+  )
+  .addParam("account", "The account", undefined, addressType)
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) =>
+    sendOrPrint(
+      hre,
+      await getSwap(hre, args.swap),
+      "grantRole",
+      [SWAP_ROLES[args.role as SwapRoleName], args.account],
+      args.dryRun
+    )
+  );
+
+task("swap:roles:revoke", "Revoke a role of an account")
+  .addOptionalParam(
+    "swap",
+    "The swap proxy address, SWAP_ADDRESS by default",
+    undefined,
+    addressType
+  )
+  .addParam(
+    "role",
+    "The role, pauser, collectionManager or configAdmin",
+    undefined,
+    roleType
+  )
+  .addParam("account", "The account", undefined, addressType)
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) =>
+    sendOrPrint(
+      hre,
+      await getSwap(hre, args.swap),
+      "revokeRole",
+      [SWAP_ROLES[args.role as SwapRoleName], args.account],
+      args.dryRun
+    )
+  );
+
+task(
+  "swap:roles:migrate",
+  "Grant the roles and set the timelock delay of the deployment config, in a single call of the owner"
+)
+  .addOptionalParam(
+    "swap",
+    "The swap proxy address, SWAP_ADDRESS by default",
+    undefined,
+    addressType
+  )
+  .addOptionalParam(
+    "file",
+    "A deployment config with the role holders and timelock delay, the one of the network by default"
+  )
+  .addOptionalParam(
+    "account",
+    "Grant every role to this account instead of the holders of the file",
+    undefined,
+    addressType
+  )
+  .addOptionalParam(
+    "timelockDelay",
+    "The timelock delay in seconds, the one of the file by default",
+    undefined,
+    types.int
+  )
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre): Promise<RoleMigrationResult> => {
+    const swap = await getSwap(hre, args.swap);
+    const chainId = (await hre.ethers.provider.getNetwork()).chainId;
+    const file: string =
+      args.file ||
+      path.join(hre.config.paths.root, "deployments/config", `${chainId}.json`);
+    const { roles, timelockDelay } = args.account
+      ? { roles: undefined, timelockDelay: undefined }
+      : readAdministrationFile(file);
+
+    /**
+     * @dev The first account holds every role unless the file names the holders
+     */
+    const [signer] = await hre.ethers.getSigners();
+    const account: string = args.account || signer.address;
+
+    const result = await migrateRoles(
+      swap,
+      roles ||
+        Object.fromEntries(
+          Object.keys(SWAP_ROLES).map((role) => [role, [account]])
+        ),
+      args.timelockDelay ?? timelockDelay,
+      { dryRun: args.dryRun }
+    );
+    if (args.dryRun && result.data) {
+      console.log(`[dry-run] multicall on ${swap.address}`);
+      console.log(result.data);
+    }
+
+    return result;
+  });
+
+task(
+  "swap:proposals:migrate",
+  "Move the proposals recorded before the storage redesign to the bytes32 keyed records, as the owner"
+)
+  .addOptionalParam(
+    "swap",
+    "The swap proxy address, SWAP_ADDRESS by default",
+    undefined,
+    addressType
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "The block the swap proxy was deployed at, proposals are read from its events",
+    0,
+    types.int
+  )
+  .addOptionalParam(
+    "batchSize",
+    "The amount of proposals migrated per transaction",
+    MIGRATION_BATCH_SIZE,
+    types.int
+  )
+  .addFlag("dryRun", "Print the pending proposals instead of migrating them")
+  .setAction(async (args, hre): Promise<ProposalMigrationResult> => {
+    const swap = await getSwap(hre, args.swap);
+
+    const result = await migrateProposals(swap, {
+      fromBlock: args.fromBlock,
+      batchSize: args.batchSize,
+      dryRun: args.dryRun,
+    });
+    if (args.dryRun) {
+      for (const id of result.pending) console.log(`[dry-run] ${id}`);
+    }
+
+    return result;
+  });
+
+task(
+  "swap:whitelist:add",
+  "Whitelist item addresses, or change their item type"
+)
+  .addOptionalParam(
+    "swap",
+    "The swap proxy address, SWAP_ADDRESS by default",
+    undefined,
+    addressType
+  )
+  .addParam(
+    "addresses",
+    "Comma separated addresses",
+    undefined,
+    addressListType
+  )
+  .addOptionalParam(
+    "itemTypes",
+    "Comma separated item types of the addresses, Nft, SemiFungible or Currency, detected through EIP-165 if omitted",
+    [],
+    whitelistItemTypesType
+  )
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) => {
+    if (
+      args.itemTypes.length > 0 &&
+      args.itemTypes.length !== args.addresses.length
+    ) {
+      throw new Error(
+        `Expected ${args.addresses.length} item types, got ${args.itemTypes.length}`
+      );
+    }
+
+    const itemTypes = await Promise.all(
+      args.addresses.map((address: string, index: number) =>
+        args.itemTypes.length > 0
+          ? WHITELIST_ITEM_TYPES[args.itemTypes[index] as WhitelistItemTypeName]
+          : detectItemType(hre.ethers.provider, address)
+      )
+    );
+
+    return sendOrPrint(
+      hre,
+      await getSwap(hre, args.swap),
+      "addToWhitelist",
+      [args.addresses, itemTypes],
+      args.dryRun
+    );
+  });
+
+task("swap:whitelist:remove", "Remove item addresses from the whitelist")
+  .addOptionalParam(
+    "swap",
+    "The swap proxy address, SWAP_ADDRESS by default",
+    undefined,
+    addressType
+  )
+  .addParam(
+    "addresses",
+    "Comma separated addresses",
+    undefined,
+    addressListType
+  )
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) =>
+    sendOrPrint(
+      hre,
+      await getSwap(hre, args.swap),
+      "removeFromWhitelist",
+      [args.addresses],
+      args.dryRun
+    )
+  );
+
+task(
+  "swap:whitelist:sync",
+  "Reconcile the whitelist with a json file, the deployment config of the network by default"
+)
+  .addOptionalParam(
+    "swap",
+    "The swap proxy address, SWAP_ADDRESS by default",
+    undefined,
+    addressType
+  )
+  .addOptionalParam(
+    "file",
+    "A json list of { address, name?, itemType? } entries, or a deployment config"
+  )
+  .addFlag("prune", "Remove the whitelisted addresses missing from the file")
+  .addFlag("dryRun", "Print the changes instead of sending them")
+  .setAction(async (args, hre): Promise<WhitelistSyncResult> => {
+    const chainId = (await hre.ethers.provider.getNetwork()).chainId;
+    const file: string =
+      args.file ||
+      path.join(hre.config.paths.root, "deployments/config", `${chainId}.json`);
+
+    return syncWhitelist(
+      await getSwap(hre, args.swap),
+      readWhitelistFile(file),
+      { prune: args.prune, dryRun: args.dryRun }
+    );
+  });
+
+task("swap:pause", "Pause the swap")
+  .addOptionalParam(
+    "swap",
+    "The swap proxy address, SWAP_ADDRESS by default",
+    undefined,
+    addressType
+  )
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) =>
+    sendOrPrint(hre, await getSwap(hre, args.swap), "pause", [], args.dryRun)
+  );
+
+task("swap:unpause", "Unpause the swap")
+  .addOptionalParam(
+    "swap",
+    "The swap proxy address, SWAP_ADDRESS by default",
+    undefined,
+    addressType
+  )
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) =>
+    sendOrPrint(hre, await getSwap(hre, args.swap), "unpause", [], args.dryRun)
+  );
+
+task(
+  "swap:force-return",
+  "Return the offered items of deposited proposals to their owners while the swap is paused"
+)
+  .addOptionalParam(
+    "swap",
+    "The swap proxy address, SWAP_ADDRESS by default",
+    undefined,
+    addressType
+  )
+  .addParam("proposals", "Comma separated proposal ids")
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) => {
+    const swap = await getSwap(hre, args.swap);
+    const proposalIds = (args.proposals as string)
+      .split(",")
+      .map((proposalId) => proposalId.trim())
+      .filter((proposalId) => !!proposalId);
+
+    return sendOrPrint(
+      hre,
+      swap,
+      "multicall",
+      [
+        proposalIds.map((proposalId) =>
+          getSwapInterface(swap).encodeFunctionData("cancelProposal", [
+            proposalId,
+          ])
+        ),
+      ],
+      args.dryRun
+    );
+  });
+
+task("swap:transfer-ownership", "Transfer the swap ownership")
+  .addOptionalParam(
+    "swap",
+    "The swap proxy address, SWAP_ADDRESS by default",
+    undefined,
+    addressType
+  )
+  .addParam("newOwner", "The new owner", undefined, addressType)
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) =>
+    sendOrPrint(
+      hre,
+      await getSwap(hre, args.swap),
+      "transferOwnership",
+      [args.newOwner],
+      args.dryRun
+    )
+  );
+
+task("swap:inspect", "Print a proposal with its items and options")
+  .addOptionalParam(
+    "swap",
+    "The swap proxy address, SWAP_ADDRESS by default",
+    undefined,
+    addressType
+  )
+  .addParam("proposal", "The proposal id")
+  .setAction(async (args, hre) => {
+    /**
+     * @dev The sdk needs the generated typechain factories, load it once the config is resolved
+     */
+    const { HamsterSwapClient } = await import("../../src/sdk");
+    const [signer] = await hre.ethers.getSigners();
+    const client = new HamsterSwapClient(await getSwap(hre, args.swap), signer);
+
+    const proposal = await client.getProposal(args.proposal);
+    console.log(toJSON(proposal));
+
+    return proposal;
+  });
+
+task("swap:events", "List the recent swap events")
+  .addOptionalParam(
+    "swap",
+    "The swap proxy address, SWAP_ADDRESS by default",
+    undefined,
+    addressType
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First block, 5000 blocks back by default",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "toBlock",
+    "Last block, the latest by default",
+    undefined,
+    types.int
+  )
+  .addOptionalParam("event", "Only list the events of this name")
+  .addOptionalParam("limit", "Maximum amount of events", 20, types.int)
+  .setAction(async (args, hre): Promise<SwapEventLog[]> => {
+    const swap = await getSwap(hre, args.swap);
+    const toBlock: number =
+      args.toBlock ?? (await hre.ethers.provider.getBlockNumber());
+    const fromBlock: number = args.fromBlock ?? Math.max(toBlock - 5000, 0);
+
+    const logs = await hre.ethers.provider.getLogs({
+      address: swap.address as string,
+      fromBlock,
+      toBlock,
+    });
+
+    const events: SwapEventLog[] = [];
+    for (const log of logs) {
+      let parsed: ethers.utils.LogDescription;
+
+      try {
+        parsed = getSwapInterface(swap).parseLog(log);
+      } catch {
+        continue;
+      }
+      if (args.event && parsed.name !== args.event) continue;
+
+      const eventArgs: SwapEventLog["args"] = {};
+      parsed.eventFragment.inputs.forEach((input, index) => {
+        const value = parsed.args[index];
+        eventArgs[input.name] = Array.isArray(value)
+          ? value.map((elm) => elm.toString())
+          : value.toString();
+      });
+
+      events.push({
+        name: parsed.name,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        args: eventArgs,
+      });
+    }
+
+    /**
+     * @dev Keep the most recent ones
+     */
+    const recent = events.slice(-args.limit);
+    for (const event of recent) {
+      console.log(
+        `#${event.blockNumber} ${event.transactionHash} ${event.name}`,
+        toJSON(event.args)
+      );
+    }
+
+    return recent;
+  });
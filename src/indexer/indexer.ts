@@ -0,0 +1,503 @@
+import { BigNumber, ethers } from "ethers";
+
+import { HamsterSwap, HamsterSwap__factory } from "../../typechain-types";
+import {
+  decodeProposal,
+  ProposalStatus,
+  RawProposal,
+  RawSwapItem,
+  RawSwapOption,
+  SwapItem,
+  SwapItemStatus,
+  SwapItemType,
+} from "../sdk";
+import { createEmptyState, IndexerStore } from "./store";
+import {
+  Checkpoint,
+  INDEXED_EVENTS,
+  IndexedConfiguration,
+  IndexedEvent,
+  IndexedEventName,
+  IndexedProposal,
+  IndexedSwapItem,
+  IndexerState,
+  ProposalSnapshot,
+} from "./types";
+
+/**
+ * @dev Indexer options
+ */
+export interface IndexerOptions {
+  /**
+   * @dev Block to start from when there is no checkpoint yet
+   */
+  fromBlock: number;
+  /**
+   * @dev Amount of blocks fetched per `getLogs` call
+   */
+  batchSize?: number;
+  /**
+   * @dev Amount of recent block hashes kept to detect reorgs
+   */
+  maxReorgDepth?: number;
+}
+
+/**
+ * @dev Proposal filters
+ */
+export interface ProposalFilter {
+  owner?: string;
+  status?: ProposalStatus;
+}
+
+const swapInterface = new ethers.utils.Interface(HamsterSwap__factory.abi);
+
+const PROPOSAL_EVENTS: IndexedEventName[] = [
+  "ProposalCreated",
+  "ProposalRedeemed",
+  "ProposalWithdrawn",
+  "ProposalFulfillersUpdated",
+  "ProposalFilled",
+  "ExpiredProposalReclaimed",
+  "ProposalUpdated",
+];
+
+/**
+ * @notice Rebuild proposal state of HamsterSwap from its logs into a local store.
+ */
+export class HamsterSwapIndexer {
+  private readonly batchSize: number;
+  private readonly maxReorgDepth: number;
+
+  /**
+   * @param swap: the HamsterSwap contract instance
+   * @param store: the store that persists the state
+   * @param options: indexer options
+   */
+  constructor(
+    public readonly swap: HamsterSwap,
+    public readonly store: IndexerStore,
+    public readonly options: IndexerOptions
+  ) {
+    this.batchSize = options.batchSize || 1000;
+    this.maxReorgDepth = options.maxReorgDepth || 64;
+  }
+
+  private get provider(): ethers.providers.Provider {
+    return this.swap.provider as ethers.providers.Provider;
+  }
+
+  /**
+   * @dev Index logs from the checkpoint up to the target block
+   * @param toBlock: target block, default to the latest block
+   */
+  public async sync(toBlock?: number): Promise<Checkpoint | undefined> {
+    const state = await this.store.load();
+
+    /**
+     * @dev Drop blocks that are no longer canonical before moving forward
+     */
+    if (await this.rollbackIfReorged(state)) {
+      await this.store.save(state);
+    }
+
+    const head = toBlock ?? (await this.provider.getBlockNumber());
+    let fromBlock = state.checkpoint
+      ? state.checkpoint.blockNumber + 1
+      : this.options.fromBlock;
+
+    while (fromBlock <= head) {
+      const endBlock = Math.min(fromBlock + this.batchSize - 1, head);
+
+      const logs = await this.provider.getLogs({
+        address: this.swap.address as string,
+        fromBlock,
+        toBlock: endBlock,
+      });
+
+      for (const log of logs) {
+        const event = await this.decodeLog(log);
+
+        if (event) {
+          this.applyEvent(state, event);
+          state.events.push(event);
+          state.blockHashes[event.blockNumber] = event.blockHash;
+        }
+      }
+
+      const block = await this.provider.getBlock(endBlock);
+      state.blockHashes[endBlock] = block.hash;
+      state.checkpoint = { blockNumber: endBlock, blockHash: block.hash };
+      this.pruneBlockHashes(state);
+
+      await this.store.save(state);
+
+      fromBlock = endBlock + 1;
+    }
+
+    return state.checkpoint;
+  }
+
+  /**
+   * @dev Get an indexed proposal
+   * @param id: the proposal id
+   */
+  public async getProposal(id: string): Promise<IndexedProposal | undefined> {
+    return (await this.store.load()).proposals[id];
+  }
+
+  /**
+   * @dev List indexed proposals
+   * @param filter: optional owner and status filters
+   */
+  public async listProposals(
+    filter: ProposalFilter = {}
+  ): Promise<IndexedProposal[]> {
+    const { proposals } = await this.store.load();
+
+    return Object.values(proposals)
+      .filter(
+        (proposal) =>
+          (filter.owner === undefined ||
+            proposal.owner.toLowerCase() === filter.owner.toLowerCase()) &&
+          (filter.status === undefined || proposal.status === filter.status)
+      )
+      .sort((a, b) => a.createdAtBlock - b.createdAtBlock);
+  }
+
+  /**
+   * @dev Find the latest common block and roll back anything after it
+   * @param state: the loaded state
+   * @return whether a rollback happened
+   */
+  private async rollbackIfReorged(state: IndexerState): Promise<boolean> {
+    if (!state.checkpoint) return false;
+
+    const blockNumbers = Object.keys(state.blockHashes)
+      .map(Number)
+      .sort((a, b) => b - a);
+
+    for (const blockNumber of blockNumbers) {
+      const block = await this.provider.getBlock(blockNumber);
+
+      if (block && block.hash === state.blockHashes[blockNumber]) {
+        if (blockNumber === state.checkpoint.blockNumber) return false;
+
+        this.rollback(state, { blockNumber, blockHash: block.hash });
+        return true;
+      }
+    }
+
+    throw new Error(
+      `Cannot find a canonical block within the last ${this.maxReorgDepth} indexed blocks`
+    );
+  }
+
+  /**
+   * @dev Remove events after the checkpoint and replay the remaining ones
+   * @param state: the loaded state
+   * @param checkpoint: the latest canonical block
+   */
+  private rollback(state: IndexerState, checkpoint: Checkpoint) {
+    const events = state.events.filter(
+      ({ blockNumber }) => blockNumber <= checkpoint.blockNumber
+    );
+    const blockHashes = Object.fromEntries(
+      Object.entries(state.blockHashes).filter(
+        ([blockNumber]) => Number(blockNumber) <= checkpoint.blockNumber
+      )
+    );
+
+    Object.assign(state, createEmptyState(), { blockHashes, checkpoint });
+    delete state.configuration;
+    delete state.queuedConfigurations;
+
+    for (const event of events) {
+      this.applyEvent(state, event);
+      state.events.push(event);
+    }
+  }
+
+  /**
+   * @dev Only keep hashes of the recent blocks
+   */
+  private pruneBlockHashes(state: IndexerState) {
+    const blockNumbers = Object.keys(state.blockHashes)
+      .map(Number)
+      .sort((a, b) => b - a);
+
+    for (const blockNumber of blockNumbers.slice(this.maxReorgDepth)) {
+      delete state.blockHashes[blockNumber];
+    }
+  }
+
+  /**
+   * @dev Decode a raw log into an indexed event
+   * @param log: raw log
+   */
+  private async decodeLog(
+    log: ethers.providers.Log
+  ): Promise<IndexedEvent | undefined> {
+    let parsed: ethers.utils.LogDescription;
+
+    try {
+      parsed = swapInterface.parseLog(log);
+    } catch {
+      return undefined;
+    }
+
+    const name = parsed.name as IndexedEventName;
+    if (!INDEXED_EVENTS.includes(name)) return undefined;
+
+    const args: IndexedEvent["args"] = {};
+    parsed.eventFragment.inputs.forEach((input, index) => {
+      const value = parsed.args[index];
+      args[input.name] = Array.isArray(value)
+        ? value.map((elm) => elm.toString())
+        : value.toString();
+    });
+
+    const event: IndexedEvent = {
+      name,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex,
+      args,
+    };
+
+    /**
+     * @dev Options are not part of the logs, snapshot the proposal at this block
+     */
+    if (PROPOSAL_EVENTS.includes(name)) {
+      event.snapshot = await this.snapshotProposal(
+        args.id as string,
+        log.blockNumber
+      );
+    }
+
+    return event;
+  }
+
+  /**
+   * @dev Read the proposal at a given block
+   * @param id: the proposal id
+   * @param blockTag: the block to read from
+   */
+  private async snapshotProposal(
+    id: string,
+    blockTag: number
+  ): Promise<ProposalSnapshot> {
+    const [proposal, [items, options], allowedFulfillers, remainingAmounts] =
+      await Promise.all([
+        this.swap.proposals(id, { blockTag }),
+        this.swap.getProposalItemsAndOptions(id, { blockTag }),
+        this.swap.getProposalAllowedFulfillers(id, { blockTag }),
+        this.swap.getProposalRemainingAmounts(id, { blockTag }),
+      ]);
+
+    const decoded = decodeProposal(
+      proposal as unknown as RawProposal,
+      items as unknown as RawSwapItem[],
+      options as unknown as RawSwapOption[],
+      allowedFulfillers,
+      remainingAmounts
+    );
+
+    return {
+      ...decoded,
+      remainingAmounts: decoded.remainingAmounts.map((amount) =>
+        amount.toString()
+      ),
+      offeredItems: decoded.offeredItems.map(toIndexedSwapItem),
+      swapOptions: decoded.swapOptions.map((option) => ({
+        id: option.id,
+        askingItems: option.askingItems.map(toIndexedSwapItem),
+      })),
+    };
+  }
+
+  /**
+   * @dev Apply an event onto the state
+   * @param state: the loaded state
+   * @param event: the decoded event
+   */
+  private applyEvent(state: IndexerState, event: IndexedEvent) {
+    const { args } = event;
+
+    switch (event.name) {
+      case "ProposalCreated":
+      case "ProposalRedeemed":
+      case "ProposalWithdrawn":
+      case "ProposalFulfillersUpdated":
+      case "ProposalFilled":
+      case "ExpiredProposalReclaimed":
+      case "ProposalUpdated": {
+        const snapshot = event.snapshot as ProposalSnapshot;
+        const existing = state.proposals[snapshot.id];
+
+        state.proposals[snapshot.id] = {
+          ...snapshot,
+          createdAtBlock: existing?.createdAtBlock ?? event.blockNumber,
+          updatedAtBlock: event.blockNumber,
+        };
+        break;
+      }
+
+      case "ItemRedeemed":
+      case "ItemWithdrawn": {
+        for (const proposal of Object.values(state.proposals)) {
+          const item = findItem(proposal, args.id as string);
+          if (!item) continue;
+
+          if (event.name === "ItemWithdrawn") {
+            item.status = SwapItemStatus.Withdrawn;
+          } else {
+            item.status = SwapItemStatus.Redeemed;
+
+            /**
+             * @dev Asking items are recorded with the buyer as owner
+             */
+            if (!proposal.offeredItems.includes(item)) {
+              item.owner = args.fromAddress as string;
+            }
+          }
+
+          proposal.updatedAtBlock = event.blockNumber;
+        }
+        break;
+      }
+
+      case "ItemDeposited":
+        /**
+         * @dev Deposits happen before `ProposalCreated`, which snapshots them
+         */
+        break;
+
+      case "ConfigurationChanged": {
+        const configuration = getConfiguration(state);
+        const whitelisted = new Set(configuration.whitelistedAddresses);
+        const itemTypes = { ...configuration.itemTypes };
+
+        (args.whitelistedAddresses as string[]).forEach((address) =>
+          whitelisted.add(address)
+        );
+        (args.blacklistedAddresses as string[]).forEach((address) => {
+          whitelisted.delete(address);
+          delete itemTypes[address];
+        });
+
+        state.configuration = {
+          ...configuration,
+          maxAllowedItems: args.maxAllowedItems as string,
+          maxAllowedOptions: args.maxAllowedOptions as string,
+          whitelistedAddresses: Array.from(whitelisted),
+          itemTypes,
+          ethermanAddress: args.ethermanAddress as string,
+          updatedAtBlock: event.blockNumber,
+        };
+        break;
+      }
+
+      case "WhitelistAdded":
+      case "WhitelistRemoved": {
+        /**
+         * @dev `configure` whitelists before `ConfigurationChanged`, the limits are recorded then
+         */
+        const configuration = getConfiguration(state);
+        const address = args.contractAddress as string;
+        const whitelisted = new Set(configuration.whitelistedAddresses);
+        const itemTypes = { ...configuration.itemTypes };
+
+        if (event.name === "WhitelistAdded") {
+          whitelisted.add(address);
+          itemTypes[address] = Number(args.itemType) as SwapItemType;
+        } else {
+          whitelisted.delete(address);
+          delete itemTypes[address];
+        }
+
+        state.configuration = {
+          ...configuration,
+          whitelistedAddresses: Array.from(whitelisted),
+          itemTypes,
+          updatedAtBlock: event.blockNumber,
+        };
+        break;
+      }
+
+      case "ConfigurationQueued":
+        state.queuedConfigurations = {
+          ...state.queuedConfigurations,
+          [args.operationId as string]: {
+            operationId: args.operationId as string,
+            maxAllowedItems: args.maxAllowedItems as string,
+            maxAllowedOptions: args.maxAllowedOptions as string,
+            ethermanAddress: args.ethermanAddress as string,
+            readyAt: Number(args.readyAt),
+            queuedAtBlock: event.blockNumber,
+          },
+        };
+        break;
+
+      case "ConfigurationExecuted": {
+        /**
+         * @dev The values come from the queued change, unknown if it was queued before `fromBlock`
+         */
+        const operationId = args.operationId as string;
+        const queued = state.queuedConfigurations?.[operationId];
+
+        state.configuration = {
+          ...getConfiguration(state),
+          ...(queued && {
+            maxAllowedItems: queued.maxAllowedItems,
+            maxAllowedOptions: queued.maxAllowedOptions,
+            ethermanAddress: queued.ethermanAddress,
+          }),
+          executedOperationId: operationId,
+          updatedAtBlock: event.blockNumber,
+        };
+        delete state.queuedConfigurations?.[operationId];
+        break;
+      }
+
+      case "ConfigurationCancelled":
+        delete state.queuedConfigurations?.[args.operationId as string];
+        break;
+    }
+  }
+}
+
+/**
+ * @dev Convert a decoded item into its json friendly form
+ */
+const toIndexedSwapItem = (item: SwapItem): IndexedSwapItem => ({
+  ...item,
+  amount: BigNumber.from(item.amount).toString(),
+  tokenId: BigNumber.from(item.tokenId).toString(),
+});
+
+/**
+ * @dev Get the latest known configuration, an empty one before the swap is configured
+ */
+const getConfiguration = (state: IndexerState): IndexedConfiguration =>
+  state.configuration || {
+    maxAllowedItems: "0",
+    maxAllowedOptions: "0",
+    whitelistedAddresses: [],
+    itemTypes: {},
+    ethermanAddress: ethers.constants.AddressZero,
+    updatedAtBlock: 0,
+  };
+
+/**
+ * @dev Find an offered or asking item of a proposal
+ */
+const findItem = (
+  proposal: IndexedProposal,
+  itemId: string
+): IndexedSwapItem | undefined =>
+  proposal.offeredItems.find(({ id }) => id === itemId) ||
+  proposal.swapOptions
+    .flatMap(({ askingItems }) => askingItems)
+    .find(({ id }) => id === itemId);
@@ -0,0 +1,52 @@
+import fs from "fs";
+import path from "path";
+
+import { IndexerState } from "./types";
+
+/**
+ * @dev Create an empty indexer state
+ */
+export const createEmptyState = (): IndexerState => ({
+  blockHashes: {},
+  events: [],
+  proposals: {},
+});
+
+/**
+ * @dev Persistence layer of the indexer
+ */
+export interface IndexerStore {
+  load(): Promise<IndexerState>;
+  save(state: IndexerState): Promise<void>;
+}
+
+/**
+ * @notice Store the indexer state inside a local json file.
+ */
+export class JsonFileStore implements IndexerStore {
+  /**
+   * @param filePath: path of the json file
+   */
+  constructor(public readonly filePath: string) {}
+
+  public async load(): Promise<IndexerState> {
+    if (!fs.existsSync(this.filePath)) {
+      return createEmptyState();
+    }
+
+    return JSON.parse(
+      await fs.promises.readFile(this.filePath, "utf8")
+    ) as IndexerState;
+  }
+
+  public async save(state: IndexerState): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    /**
+     * @dev Write to a temporary file first so that a crash never leaves a half written state
+     */
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(state, null, 2));
+    await fs.promises.rename(tmpPath, this.filePath);
+  }
+}
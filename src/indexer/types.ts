@@ -0,0 +1,146 @@
+import { ProposalStatus, SwapItemStatus, SwapItemType } from "../sdk";
+
+/**
+ * @dev Events that are read by the indexer
+ */
+export const INDEXED_EVENTS = [
+  "ProposalCreated",
+  "ProposalRedeemed",
+  "ProposalWithdrawn",
+  "ProposalFulfillersUpdated",
+  "ProposalFilled",
+  "ExpiredProposalReclaimed",
+  "ProposalUpdated",
+  "ItemDeposited",
+  "ItemRedeemed",
+  "ItemWithdrawn",
+  "ConfigurationChanged",
+  "WhitelistAdded",
+  "WhitelistRemoved",
+  "ConfigurationQueued",
+  "ConfigurationExecuted",
+  "ConfigurationCancelled",
+] as const;
+
+export type IndexedEventName = typeof INDEXED_EVENTS[number];
+
+/**
+ * @dev Json friendly `Entity.SwapItem`, numbers are stored as decimal strings
+ */
+export interface IndexedSwapItem {
+  id: string;
+  contractAddress: string;
+  amount: string;
+  owner: string;
+  tokenId: string;
+  status: SwapItemStatus;
+  itemType: SwapItemType;
+}
+
+/**
+ * @dev Json friendly `Entity.SwapOption`
+ */
+export interface IndexedSwapOption {
+  id: string;
+  askingItems: IndexedSwapItem[];
+}
+
+/**
+ * @dev Proposal state rebuilt from the logs
+ */
+export interface IndexedProposal {
+  id: string;
+  expiredAt: number;
+  owner: string;
+  fulfilledBy: string;
+  fulfilledByOptionId: string;
+  status: ProposalStatus;
+  offeredItems: IndexedSwapItem[];
+  swapOptions: IndexedSwapOption[];
+  allowedFulfillers: string[];
+  fillable: boolean;
+  /**
+   * @dev Remaining amounts of the offered items of a fillable proposal, as decimal strings
+   */
+  remainingAmounts: string[];
+  createdAtBlock: number;
+  updatedAtBlock: number;
+}
+
+/**
+ * @dev Snapshot of the proposal taken at the block of a proposal level event
+ */
+export type ProposalSnapshot = Omit<
+  IndexedProposal,
+  "createdAtBlock" | "updatedAtBlock"
+>;
+
+/**
+ * @dev Decoded log, kept so that the state can be replayed after a rollback
+ */
+export interface IndexedEvent {
+  name: IndexedEventName;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, string | string[]>;
+  snapshot?: ProposalSnapshot;
+}
+
+/**
+ * @dev Latest known configuration of the swap
+ */
+export interface IndexedConfiguration {
+  maxAllowedItems: string;
+  maxAllowedOptions: string;
+  whitelistedAddresses: string[];
+  /**
+   * @dev Item type of each whitelisted address, unknown for the addresses whitelisted before `WhitelistAdded` existed
+   */
+  itemTypes: Record<string, SwapItemType>;
+  ethermanAddress: string;
+  /**
+   * @dev Last configuration change applied through the timelock
+   */
+  executedOperationId?: string;
+  updatedAtBlock: number;
+}
+
+/**
+ * @dev Configuration change waiting for its timelock delay
+ */
+export interface QueuedConfiguration {
+  operationId: string;
+  maxAllowedItems: string;
+  maxAllowedOptions: string;
+  ethermanAddress: string;
+  readyAt: number;
+  queuedAtBlock: number;
+}
+
+/**
+ * @dev Last processed block
+ */
+export interface Checkpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+/**
+ * @dev Whole indexer state persisted by a store
+ */
+export interface IndexerState {
+  checkpoint?: Checkpoint;
+  /**
+   * @dev Recent processed block hashes, used to detect reorgs
+   */
+  blockHashes: Record<number, string>;
+  events: IndexedEvent[];
+  proposals: Record<string, IndexedProposal>;
+  configuration?: IndexedConfiguration;
+  /**
+   * @dev Queued configuration changes, keyed by operation id
+   */
+  queuedConfigurations?: Record<string, QueuedConfiguration>;
+}
@@ -0,0 +1,110 @@
+import { ContractReceipt } from "ethers";
+
+import { HamsterSwapClient, ProposalStatus } from "../sdk";
+import { HamsterSwapIndexer } from "../indexer";
+
+/**
+ * @dev Keeper options
+ */
+export interface KeeperOptions {
+  /**
+   * @dev Amount of proposals reclaimed per transaction
+   */
+  batchSize?: number;
+}
+
+/**
+ * @dev Outcome of a sweep
+ */
+export interface SweepResult {
+  reclaimedIds: string[];
+  /**
+   * @dev Listed proposals that were no longer deposited when their batch was sent
+   */
+  skippedIds: string[];
+  receipts: ContractReceipt[];
+}
+
+/**
+ * @notice Find expired deposited proposals through the indexer and return their items to the owners.
+ */
+export class HamsterSwapKeeper {
+  private readonly batchSize: number;
+
+  /**
+   * @param client: the client that sends the reclaim transactions
+   * @param indexer: the indexer used to find the proposals
+   * @param options: keeper options
+   */
+  constructor(
+    public readonly client: HamsterSwapClient,
+    public readonly indexer: HamsterSwapIndexer,
+    public readonly options: KeeperOptions = {}
+  ) {
+    this.batchSize = options.batchSize || 20;
+  }
+
+  /**
+   * @dev Sync the indexer and list the ids of the deposited proposals that are expired at the latest block
+   */
+  public async findExpiredProposals(): Promise<string[]> {
+    await this.indexer.sync();
+
+    const { timestamp } = await this.client.swap.provider.getBlock("latest");
+    const candidates = (
+      await this.indexer.listProposals({ status: ProposalStatus.Deposited })
+    ).filter(({ expiredAt }) => expiredAt <= timestamp);
+
+    /**
+     * @dev The index may lag behind, only keep what is still deposited on-chain
+     */
+    return this.filterDeposited(candidates.map(({ id }) => id));
+  }
+
+  /**
+   * @dev Reclaim every expired deposited proposal in batches
+   */
+  public async sweep(): Promise<SweepResult> {
+    return this.reclaim(await this.findExpiredProposals());
+  }
+
+  /**
+   * @dev Reclaim listed expired proposals in batches, the status of each batch is read again right before it is sent
+   * so that a proposal reclaimed, withdrawn or fulfilled in the meantime does not revert the whole batch
+   * @param proposalIds: the expired proposal ids, see `findExpiredProposals`
+   */
+  public async reclaim(proposalIds: string[]): Promise<SweepResult> {
+    const result: SweepResult = {
+      reclaimedIds: [],
+      skippedIds: [],
+      receipts: [],
+    };
+
+    for (let i = 0; i < proposalIds.length; i += this.batchSize) {
+      const listedIds = proposalIds.slice(i, i + this.batchSize);
+      const batch = await this.filterDeposited(listedIds);
+
+      result.skippedIds.push(...listedIds.filter((id) => !batch.includes(id)));
+      if (!batch.length) continue;
+
+      result.receipts.push(await this.client.reclaimExpiredProposals(batch));
+      result.reclaimedIds.push(...batch);
+    }
+
+    return result;
+  }
+
+  /**
+   * @dev Only keep the proposals that are deposited on-chain
+   * @param proposalIds: the proposal ids
+   */
+  private async filterDeposited(proposalIds: string[]): Promise<string[]> {
+    const proposals = await Promise.all(
+      proposalIds.map((id) => this.client.getProposal(id))
+    );
+
+    return proposals
+      .filter(({ status }) => status === ProposalStatus.Deposited)
+      .map(({ id }) => id);
+  }
+}
@@ -0,0 +1,1138 @@
+import {
+  BigNumber,
+  BigNumberish,
+  ContractReceipt,
+  ContractTransaction,
+  ethers,
+  Overrides,
+  PayableOverrides,
+  Signer,
+} from "ethers";
+
+import {
+  Etherman__factory,
+  HamsterSwap,
+  IERC1155__factory,
+  IERC20__factory,
+  IERC721__factory,
+} from "../../typechain-types";
+import {
+  generateNonce,
+  getSignedProposalDomain,
+  signSignedProposal,
+  TypedDataDomain,
+} from "./signing";
+import {
+  PERMIT2_ADDRESS,
+  signERC20Permit,
+  signPermit2BatchTransfer,
+} from "./permit";
+import {
+  AskingTokenInput,
+  AskingTokenParams,
+  CounterOffer,
+  CounterOfferInput,
+  CounterOfferParams,
+  FulfillmentParams,
+  PermitMethod,
+  Proposal,
+  ProposalIdsPage,
+  ProposalIdsQuery,
+  ProposalInput,
+  ProposalParams,
+  ProposalUpdateInput,
+  SignedProposalInput,
+  SignedProposalParams,
+  ProposalStatus,
+  SwapItemParams,
+  SwapItemType,
+  WhitelistEntry,
+} from "./types";
+import {
+  decodeCounterOffer,
+  decodeProposal,
+  generateId,
+  getFillAmounts,
+  getNativeAmount,
+  isCollectionItemType,
+  isNativeItem,
+  RawCounterOffer,
+  RawProposal,
+  RawSwapItem,
+  RawSwapOption,
+  toSwapItemParams,
+  toSwapOptionParams,
+} from "./utils";
+
+/**
+ * @dev Default amount of proposal ids read per call
+ */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * @notice Typed client on top of the generated `HamsterSwap` contract.
+ */
+export class HamsterSwapClient {
+  /**
+   * @param swap: the HamsterSwap contract instance
+   * @param signer: the signer that sends transactions and approvals
+   */
+  constructor(
+    public readonly swap: HamsterSwap,
+    public readonly signer: Signer
+  ) {}
+
+  /**
+   * @dev Contract connected with the signer
+   */
+  private get contract(): HamsterSwap {
+    return this.swap.connect(this.signer) as unknown as HamsterSwap;
+  }
+
+  /**
+   * @dev Build the contract params of a proposal, generating missing ids
+   * @param input: the proposal input
+   */
+  public async buildProposal(input: ProposalInput): Promise<ProposalParams> {
+    return {
+      id: input.id || generateId("proposal"),
+      owner: input.owner || (await this.signer.getAddress()),
+      expiredAt: BigNumber.from(input.expiredAt),
+      offeredItems: input.offeredItems.map(toSwapItemParams),
+      swapOptions: input.swapOptions.map(toSwapOptionParams),
+      allowedFulfillers: (input.allowedFulfillers || []).map((address) =>
+        ethers.utils.getAddress(address)
+      ),
+      fillable: !!input.fillable,
+    };
+  }
+
+  /**
+   * @dev Encode the `createProposal` call, useful for multicall bundles
+   * @param params: the proposal params
+   */
+  public encodeCreateProposal(params: ProposalParams): string {
+    return this.swap.interface.encodeFunctionData("createProposal", [
+      params.id,
+      params.owner,
+      params.offeredItems,
+      params.swapOptions,
+      params.expiredAt,
+      params.allowedFulfillers,
+      params.fillable,
+    ]);
+  }
+
+  /**
+   * @dev Send the missing ERC-20/ERC-721/ERC-1155 approvals so that the swap can move the items
+   * @param items: the items that will be pulled from the signer
+   */
+  public async ensureApprovals(items: SwapItemParams[]): Promise<void> {
+    const signerAddress = await this.signer.getAddress();
+    const spender = this.swap.address as string;
+
+    /**
+     * @dev Sum up currency amounts per contract first
+     */
+    const requiredAllowances = new Map<string, BigNumber>();
+
+    for (const item of items) {
+      if (item.itemType === SwapItemType.Currency) {
+        requiredAllowances.set(
+          item.contractAddress,
+          (
+            requiredAllowances.get(item.contractAddress) || BigNumber.from(0)
+          ).add(item.amount)
+        );
+        continue;
+      }
+
+      /**
+       * @dev ERC1155 can only be approved for all
+       */
+      if (item.itemType === SwapItemType.SemiFungible) {
+        const erc1155 = IERC1155__factory.connect(
+          item.contractAddress,
+          this.signer
+        );
+
+        if (!(await erc1155.isApprovedForAll(signerAddress, spender))) {
+          await this.waitFor(erc1155.setApprovalForAll(spender, true));
+        }
+        continue;
+      }
+
+      const erc721 = IERC721__factory.connect(
+        item.contractAddress,
+        this.signer
+      );
+      const [approvedForAll, approved] = await Promise.all([
+        erc721.isApprovedForAll(signerAddress, spender),
+        erc721.getApproved(item.tokenId),
+      ]);
+
+      if (!approvedForAll && approved !== spender) {
+        await this.waitFor(erc721.approve(spender, item.tokenId));
+      }
+    }
+
+    for (const [contractAddress, amount] of requiredAllowances) {
+      const erc20 = IERC20__factory.connect(contractAddress, this.signer);
+      const allowance = BigNumber.from(
+        await erc20.allowance(signerAddress, spender)
+      );
+
+      if (allowance.lt(amount)) {
+        await this.waitFor(erc20.approve(spender, amount));
+      }
+    }
+  }
+
+  /**
+   * @dev Approve offered items, then create the proposal
+   * @param input: the proposal input
+   * @param overrides: transaction overrides, WETH items are paid in native coin when a value is sent
+   */
+  public async createProposal(
+    input: ProposalInput,
+    overrides: PayableOverrides = {}
+  ): Promise<{ proposal: ProposalParams; receipt: ContractReceipt }> {
+    const proposal = await this.buildProposal(input);
+
+    await this.ensureApprovals(
+      await this.withoutNativeItems(proposal.offeredItems, overrides)
+    );
+
+    const receipt = await this.waitFor(
+      this.contract.createProposal(
+        proposal.id,
+        proposal.owner,
+        proposal.offeredItems,
+        proposal.swapOptions,
+        proposal.expiredAt,
+        proposal.allowedFulfillers,
+        proposal.fillable,
+        overrides
+      )
+    );
+
+    return { proposal, receipt };
+  }
+
+  /**
+   * @dev Approve asking items of the chosen option, then fulfill the proposal
+   * @param proposalId: the proposal id
+   * @param optionId: the option id that will be used
+   * @param overrides: transaction overrides, WETH items are paid in native coin when a value is sent
+   */
+  public async fulfillProposal(
+    proposalId: string,
+    optionId: string,
+    overrides: PayableOverrides = {}
+  ): Promise<ContractReceipt> {
+    const proposal = await this.getProposal(proposalId);
+    const option = proposal.swapOptions.find(({ id }) => id === optionId);
+
+    if (!option) {
+      throw new Error(
+        `Option ${optionId} does not exist in proposal ${proposalId}`
+      );
+    }
+    if (
+      option.askingItems.some(({ itemType }) => isCollectionItemType(itemType))
+    ) {
+      throw new Error(
+        `Option ${optionId} asks for collection-wide items, use fulfillProposalWithTokens`
+      );
+    }
+
+    await this.ensureApprovals(
+      await this.withoutNativeItems(option.askingItems, overrides)
+    );
+
+    return this.waitFor(
+      this.contract.fulfillProposal(
+        proposalId,
+        optionId,
+        await this.signer.getAddress(),
+        overrides
+      )
+    );
+  }
+
+  /**
+   * @dev Approve the chosen tokens and the other asking items, then fulfill the proposal
+   * @param proposalId: the proposal id
+   * @param optionId: the option id that will be used
+   * @param askingTokens: the tokens chosen for the collection-wide asking items, keyed by item id
+   * @param overrides: transaction overrides, WETH items are paid in native coin when a value is sent
+   */
+  public async fulfillProposalWithTokens(
+    proposalId: string,
+    optionId: string,
+    askingTokens: Record<string, AskingTokenInput>,
+    overrides: PayableOverrides = {}
+  ): Promise<ContractReceipt> {
+    const proposal = await this.getProposal(proposalId);
+    const option = proposal.swapOptions.find(({ id }) => id === optionId);
+
+    if (!option) {
+      throw new Error(
+        `Option ${optionId} does not exist in proposal ${proposalId}`
+      );
+    }
+
+    /**
+     * @dev Tokens are matched by index with the asking items, exact items get an empty entry
+     */
+    const tokens: AskingTokenParams[] = option.askingItems.map((item) => {
+      if (!isCollectionItemType(item.itemType)) {
+        return { tokenId: BigNumber.from(0), proof: [] };
+      }
+      if (!askingTokens[item.id]) {
+        throw new Error(`Asking item ${item.id} needs a chosen token`);
+      }
+
+      return {
+        tokenId: BigNumber.from(askingTokens[item.id].tokenId),
+        proof: askingTokens[item.id].proof || [],
+      };
+    });
+
+    await this.ensureApprovals(
+      await this.withoutNativeItems(
+        option.askingItems.map((item, index) =>
+          isCollectionItemType(item.itemType)
+            ? {
+                ...item,
+                itemType: SwapItemType.Nft,
+                tokenId: tokens[index].tokenId,
+              }
+            : item
+        ),
+        overrides
+      )
+    );
+
+    return this.waitFor(
+      this.contract.fulfillProposalWithTokens(
+        proposalId,
+        optionId,
+        await this.signer.getAddress(),
+        tokens,
+        overrides
+      )
+    );
+  }
+
+  /**
+   * @dev Approve the asking amounts of the chosen option for this fill, then fill a part of the proposal
+   * @param proposalId: the fillable proposal id
+   * @param optionId: the option id that will be used
+   * @param fillAmount: the amount of the first offered item to be taken
+   * @param overrides: transaction overrides, WETH items are paid in native coin when a value is sent
+   */
+  public async fillProposal(
+    proposalId: string,
+    optionId: string,
+    fillAmount: BigNumberish,
+    overrides: PayableOverrides = {}
+  ): Promise<ContractReceipt> {
+    const proposal = await this.getProposal(proposalId);
+    const { askingAmounts } = getFillAmounts(proposal, optionId, fillAmount);
+    const option = proposal.swapOptions.find(({ id }) => id === optionId);
+
+    await this.ensureApprovals(
+      await this.withoutNativeItems(
+        (option?.askingItems || []).map((item, index) => ({
+          ...item,
+          amount: askingAmounts[index],
+        })),
+        overrides
+      )
+    );
+
+    return this.waitFor(
+      this.contract.fillProposal(
+        proposalId,
+        optionId,
+        await this.signer.getAddress(),
+        fillAmount,
+        overrides
+      )
+    );
+  }
+
+  /**
+   * @dev Approve the asking items of the chosen options at once, currencies summed up per contract, then fulfill the proposals
+   * in one transaction, see `HamsterSwap.fulfillProposals`
+   * @param fulfillments: the proposals and the options they are fulfilled with
+   * @param skipFailed: whether failed fulfillments are skipped and their currencies refunded instead of reverting the batch
+   * @param overrides: transaction overrides, WETH items of all options are paid in native coin when a value is sent
+   */
+  public async fulfillProposals(
+    fulfillments: FulfillmentParams[],
+    skipFailed = false,
+    overrides: PayableOverrides = {}
+  ): Promise<ContractReceipt> {
+    const askingItems: SwapItemParams[] = [];
+
+    for (const { proposalId, optionId } of fulfillments) {
+      const proposal = await this.getProposal(proposalId);
+      const option = proposal.swapOptions.find(({ id }) => id === optionId);
+
+      /**
+       * @dev Skipped fulfillments may target unknown options, the swap leaves them out of the payment
+       */
+      if (!option) {
+        if (skipFailed) continue;
+        throw new Error(
+          `Option ${optionId} does not exist in proposal ${proposalId}`
+        );
+      }
+      if (
+        option.askingItems.some(({ itemType }) =>
+          isCollectionItemType(itemType)
+        )
+      ) {
+        throw new Error(
+          `Option ${optionId} asks for collection-wide items, use fulfillProposalWithTokens`
+        );
+      }
+
+      askingItems.push(...option.askingItems);
+    }
+
+    await this.ensureApprovals(
+      await this.withoutNativeItems(askingItems, overrides)
+    );
+
+    return this.waitFor(
+      this.contract.fulfillProposals(
+        fulfillments,
+        await this.signer.getAddress(),
+        skipFailed,
+        overrides
+      )
+    );
+  }
+
+  /**
+   * @dev Create the proposal, the offered currencies are authorized by signature instead of a prior approval to the swap
+   * @param input: the proposal input
+   * @param method: EIP-2612 permits or a Permit2 signature transfer
+   * @param deadline: the signature deadline, one hour from the latest block by default
+   * @param overrides: transaction overrides
+   */
+  public async createProposalWithPermit(
+    input: ProposalInput,
+    method: PermitMethod,
+    deadline?: BigNumberish,
+    overrides: Overrides = {}
+  ): Promise<{ proposal: ProposalParams; receipt: ContractReceipt }> {
+    const proposal = await this.buildProposal(input);
+
+    const receipt = await this.callWithPermit(
+      proposal.offeredItems,
+      this.encodeCreateProposal(proposal),
+      method,
+      deadline,
+      overrides
+    );
+
+    return { proposal, receipt };
+  }
+
+  /**
+   * @dev Fulfill the proposal, the asking currencies are authorized by signature instead of a prior approval to the swap
+   * @param proposalId: the proposal id
+   * @param optionId: the option id that will be used
+   * @param method: EIP-2612 permits or a Permit2 signature transfer
+   * @param deadline: the signature deadline, one hour from the latest block by default
+   * @param overrides: transaction overrides
+   */
+  public async fulfillProposalWithPermit(
+    proposalId: string,
+    optionId: string,
+    method: PermitMethod,
+    deadline?: BigNumberish,
+    overrides: Overrides = {}
+  ): Promise<ContractReceipt> {
+    const proposal = await this.getProposal(proposalId);
+    const option = proposal.swapOptions.find(({ id }) => id === optionId);
+
+    if (!option) {
+      throw new Error(
+        `Option ${optionId} does not exist in proposal ${proposalId}`
+      );
+    }
+    if (
+      option.askingItems.some(({ itemType }) => isCollectionItemType(itemType))
+    ) {
+      throw new Error(
+        `Option ${optionId} asks for collection-wide items, use fulfillProposalWithTokens`
+      );
+    }
+
+    /**
+     * @dev Fillable proposals are filled with what remains
+     */
+    const askingAmounts = proposal.fillable
+      ? getFillAmounts(proposal, optionId, proposal.remainingAmounts[0])
+          .askingAmounts
+      : option.askingItems.map(({ amount }) => amount);
+
+    return this.callWithPermit(
+      option.askingItems.map((item, index) => ({
+        ...item,
+        amount: askingAmounts[index],
+      })),
+      this.swap.interface.encodeFunctionData("fulfillProposal", [
+        proposalId,
+        optionId,
+        await this.signer.getAddress(),
+      ]),
+      method,
+      deadline,
+      overrides
+    );
+  }
+
+  /**
+   * @dev Approve the non-currency items, sign the currency items, then send the swap call along with the signatures
+   * @param items: the items that will be pulled from the signer
+   * @param data: the encoded swap call
+   * @param method: EIP-2612 permits or a Permit2 signature transfer
+   * @param deadline: the signature deadline, one hour from the latest block by default
+   * @param overrides: transaction overrides
+   */
+  private async callWithPermit(
+    items: SwapItemParams[],
+    data: string,
+    method: PermitMethod,
+    deadline: BigNumberish | undefined,
+    overrides: Overrides
+  ): Promise<ContractReceipt> {
+    const spender = this.swap.address as string;
+
+    await this.ensureApprovals(
+      items.filter(({ itemType }) => itemType !== SwapItemType.Currency)
+    );
+
+    /**
+     * @dev Sum up currency amounts per contract, each of them is signed once
+     */
+    const amounts = new Map<string, BigNumber>();
+    for (const item of items) {
+      if (item.itemType !== SwapItemType.Currency) continue;
+
+      amounts.set(
+        item.contractAddress,
+        (amounts.get(item.contractAddress) || BigNumber.from(0)).add(
+          item.amount
+        )
+      );
+    }
+
+    const permitDeadline =
+      deadline ??
+      (await this.swap.provider.getBlock("latest")).timestamp + 60 * 60;
+
+    if (method === PermitMethod.EIP2612) {
+      const calls: string[] = [];
+
+      for (const [token, amount] of amounts) {
+        const { value, v, r, s } = await signERC20Permit(
+          this.signer,
+          token,
+          spender,
+          amount,
+          permitDeadline
+        );
+
+        calls.push(
+          this.swap.interface.encodeFunctionData("selfPermit", [
+            token,
+            value,
+            permitDeadline,
+            v,
+            r,
+            s,
+          ])
+        );
+      }
+
+      return this.waitFor(this.contract.multicall([...calls, data], overrides));
+    }
+
+    /**
+     * @dev Permit2 is not deployed on every chain, and needs a one-time approval of each token
+     */
+    if ((await this.swap.provider.getCode(PERMIT2_ADDRESS)) === "0x") {
+      throw new Error(`Permit2 is not deployed at ${PERMIT2_ADDRESS}`);
+    }
+
+    const signerAddress = await this.signer.getAddress();
+    for (const [token, amount] of amounts) {
+      const erc20 = IERC20__factory.connect(token, this.signer);
+      const allowance = BigNumber.from(
+        await erc20.allowance(signerAddress, PERMIT2_ADDRESS)
+      );
+
+      if (allowance.lt(amount)) {
+        await this.waitFor(
+          erc20.approve(PERMIT2_ADDRESS, ethers.constants.MaxUint256)
+        );
+      }
+    }
+
+    const permit = await signPermit2BatchTransfer(
+      this.signer,
+      spender,
+      [...amounts.keys()],
+      [...amounts.values()],
+      permitDeadline
+    );
+
+    return this.waitFor(
+      this.contract.permit2Call(
+        permit.tokens,
+        permit.amounts,
+        permit.nonce,
+        permit.deadline,
+        permit.signature,
+        data,
+        overrides
+      )
+    );
+  }
+
+  /**
+   * @dev Get the EIP-712 domain of the swap
+   */
+  public async getSignedProposalDomain(): Promise<TypedDataDomain> {
+    const chainId = await this.signer.getChainId();
+
+    return getSignedProposalDomain(chainId, this.swap.address as string);
+  }
+
+  /**
+   * @dev Approve offered items, then sign the proposal off-chain, items stay in the signer wallet
+   * @param input: the signed proposal input
+   */
+  public async signProposal(
+    input: SignedProposalInput
+  ): Promise<{ proposal: SignedProposalParams; signature: string }> {
+    const { fillable, ...params } = await this.buildProposal(input);
+
+    if (fillable) {
+      throw new Error("Signed proposals cannot be filled in parts");
+    }
+
+    const proposal: SignedProposalParams = {
+      ...params,
+      nonce: BigNumber.from(input.nonce ?? generateNonce()),
+    };
+
+    await this.ensureApprovals(proposal.offeredItems);
+
+    const signature = await signSignedProposal(
+      this.signer,
+      await this.getSignedProposalDomain(),
+      proposal
+    );
+
+    return { proposal, signature };
+  }
+
+  /**
+   * @dev Approve asking items of the chosen option, then fulfill the signed proposal
+   * @param proposal: the signed proposal params
+   * @param signature: the owner signature
+   * @param optionId: the option id that will be used
+   * @param overrides: transaction overrides
+   */
+  public async fulfillSignedProposal(
+    proposal: SignedProposalParams,
+    signature: string,
+    optionId: string,
+    overrides: Overrides = {}
+  ): Promise<ContractReceipt> {
+    const option = proposal.swapOptions.find(({ id }) => id === optionId);
+
+    if (!option) {
+      throw new Error(
+        `Option ${optionId} does not exist in proposal ${proposal.id}`
+      );
+    }
+
+    await this.ensureApprovals(option.askingItems);
+
+    return this.waitFor(
+      this.contract.fulfillSignedProposal(
+        proposal,
+        signature,
+        optionId,
+        await this.signer.getAddress(),
+        overrides
+      )
+    );
+  }
+
+  /**
+   * @dev Cancel nonces of signed proposals that have not been fulfilled yet
+   * @param nonces: the nonces to be cancelled
+   * @param overrides: transaction overrides
+   */
+  public async cancelNonces(
+    nonces: BigNumberish[],
+    overrides: Overrides = {}
+  ): Promise<ContractReceipt> {
+    return this.waitFor(this.contract.cancelNonces(nonces, overrides));
+  }
+
+  /**
+   * @dev Check whether a nonce has been fulfilled or cancelled
+   * @param nonce: the nonce
+   * @param owner: the proposal owner, defaults to the signer
+   */
+  public async isNonceUsed(
+    nonce: BigNumberish,
+    owner?: string
+  ): Promise<boolean> {
+    return this.swap.usedNonces(
+      owner || (await this.signer.getAddress()),
+      nonce
+    );
+  }
+
+  /**
+   * @dev Replace the addresses that can fulfill the proposal, an empty list makes it public
+   * @param proposalId: the proposal id
+   * @param allowedFulfillers: the new allowed fulfillers
+   * @param overrides: transaction overrides
+   */
+  public async updateAllowedFulfillers(
+    proposalId: string,
+    allowedFulfillers: string[],
+    overrides: Overrides = {}
+  ): Promise<ContractReceipt> {
+    return this.waitFor(
+      this.contract.updateAllowedFulfillers(
+        proposalId,
+        allowedFulfillers,
+        overrides
+      )
+    );
+  }
+
+  /**
+   * @dev Extend the expiry and add or remove options of a deposited proposal of the signer
+   * @param proposalId: the proposal id
+   * @param input: the update, ids of the added options and items are generated if omitted
+   * @param overrides: transaction overrides
+   */
+  public async updateProposal(
+    proposalId: string,
+    input: ProposalUpdateInput,
+    overrides: Overrides = {}
+  ): Promise<ContractReceipt> {
+    const expiredAt =
+      input.expiredAt ?? (await this.getProposal(proposalId)).expiredAt;
+
+    return this.waitFor(
+      this.contract.updateProposal(
+        proposalId,
+        expiredAt,
+        (input.addedSwapOptions || []).map(toSwapOptionParams),
+        input.removedOptionIds || [],
+        overrides
+      )
+    );
+  }
+
+  /**
+   * @dev Check whether an address can fulfill the proposal
+   * @param proposalId: the proposal id
+   * @param buyer: the address that wants to fulfill, defaults to the signer
+   */
+  public async isAllowedFulfiller(
+    proposalId: string,
+    buyer?: string
+  ): Promise<boolean> {
+    return this.swap.isAllowedFulfiller(
+      proposalId,
+      buyer || (await this.signer.getAddress())
+    );
+  }
+
+  /**
+   * @dev Cancel the proposal and withdraw offered items
+   * @param proposalId: the proposal id
+   * @param overrides: transaction overrides
+   */
+  public async cancelProposal(
+    proposalId: string,
+    overrides: Overrides = {}
+  ): Promise<ContractReceipt> {
+    return this.waitFor(this.contract.cancelProposal(proposalId, overrides));
+  }
+
+  /**
+   * @dev Return the offered items of expired proposals to their owners, anyone can send it
+   * @param proposalIds: the expired proposal ids, reclaimed in one multicall
+   * @param overrides: transaction overrides
+   */
+  public async reclaimExpiredProposals(
+    proposalIds: string[],
+    overrides: Overrides = {}
+  ): Promise<ContractReceipt> {
+    return this.waitFor(
+      this.contract.multicall(
+        proposalIds.map((proposalId) =>
+          this.swap.interface.encodeFunctionData("reclaimExpiredProposal", [
+            proposalId,
+          ])
+        ),
+        overrides
+      )
+    );
+  }
+
+  /**
+   * @dev Return the offered items of deposited proposals to their owners while the swap is paused,
+   * the signer must hold the pauser role
+   * @param proposalIds: the proposal ids, returned in one multicall
+   * @param overrides: transaction overrides
+   */
+  public async forceReturnProposals(
+    proposalIds: string[],
+    overrides: Overrides = {}
+  ): Promise<ContractReceipt> {
+    return this.waitFor(
+      this.contract.multicall(
+        proposalIds.map((proposalId) =>
+          this.swap.interface.encodeFunctionData("cancelProposal", [proposalId])
+        ),
+        overrides
+      )
+    );
+  }
+
+  /**
+   * @dev Approve offered items, then make a counter-offer against a proposal
+   * @param input: the counter-offer input
+   * @param overrides: transaction overrides
+   */
+  public async createCounterOffer(
+    input: CounterOfferInput,
+    overrides: Overrides = {}
+  ): Promise<{ counterOffer: CounterOfferParams; receipt: ContractReceipt }> {
+    const counterOffer: CounterOfferParams = {
+      id: input.id || generateId("counterOffer"),
+      proposalId: input.proposalId,
+      owner: input.owner || (await this.signer.getAddress()),
+      expiredAt: BigNumber.from(input.expiredAt),
+      offeredItems: input.offeredItems.map(toSwapItemParams),
+    };
+
+    await this.ensureApprovals(counterOffer.offeredItems);
+
+    const receipt = await this.waitFor(
+      this.contract.createCounterOffer(
+        counterOffer.id,
+        counterOffer.proposalId,
+        counterOffer.owner,
+        counterOffer.offeredItems,
+        counterOffer.expiredAt,
+        overrides
+      )
+    );
+
+    return { counterOffer, receipt };
+  }
+
+  /**
+   * @dev Accept a counter-offer made against a proposal of the signer
+   * @param counterOfferId: the counter-offer id
+   * @param overrides: transaction overrides
+   */
+  public async acceptCounterOffer(
+    counterOfferId: string,
+    overrides: Overrides = {}
+  ): Promise<ContractReceipt> {
+    return this.waitFor(
+      this.contract.acceptCounterOffer(counterOfferId, overrides)
+    );
+  }
+
+  /**
+   * @dev Withdraw a counter-offer of the signer and its items
+   * @param counterOfferId: the counter-offer id
+   * @param overrides: transaction overrides
+   */
+  public async withdrawCounterOffer(
+    counterOfferId: string,
+    overrides: Overrides = {}
+  ): Promise<ContractReceipt> {
+    return this.waitFor(
+      this.contract.withdrawCounterOffer(counterOfferId, overrides)
+    );
+  }
+
+  /**
+   * @dev Wrap native coin into WETH for the signer
+   * @param amount: the amount to be wrapped
+   * @param overrides: transaction overrides
+   */
+  public async wrapETH(
+    amount: BigNumberish,
+    overrides: PayableOverrides = {}
+  ): Promise<ContractReceipt> {
+    return this.waitFor(
+      this.contract.wrapETH(await this.signer.getAddress(), amount, {
+        ...overrides,
+        value: amount,
+      })
+    );
+  }
+
+  /**
+   * @dev Unwrap the whole WETH balance of the signer
+   * @param overrides: transaction overrides
+   */
+  public async unwrapETH(overrides: Overrides = {}): Promise<ContractReceipt> {
+    const signerAddress = await this.signer.getAddress();
+    const weth = IERC20__factory.connect(
+      await this.getWETHAddress(),
+      this.signer
+    );
+
+    await this.ensureApprovals([
+      toSwapItemParams({
+        contractAddress: weth.address as string,
+        itemType: SwapItemType.Currency,
+        amount: BigNumber.from(await weth.balanceOf(signerAddress)),
+      }),
+    ]);
+
+    return this.waitFor(this.contract.unwrapETH(signerAddress, overrides));
+  }
+
+  /**
+   * @dev Get the native coin to send along to pay the WETH items, see `getNativeAmount`
+   * @param items: the items to be paid
+   */
+  public async getNativeAmount(items: SwapItemParams[]): Promise<BigNumber> {
+    return getNativeAmount(items, await this.getWETHAddress());
+  }
+
+  /**
+   * @dev Leave out the WETH items that are paid in native coin, they need no approval
+   * @param items: the items to be paid
+   * @param overrides: the transaction overrides
+   */
+  private async withoutNativeItems(
+    items: SwapItemParams[],
+    overrides: PayableOverrides
+  ): Promise<SwapItemParams[]> {
+    if (!overrides.value) return items;
+
+    const wethAddress = await this.getWETHAddress();
+
+    return items.filter((item) => !isNativeItem(item, wethAddress));
+  }
+
+  /**
+   * @dev Get the WETH address that the swap is wrapping into
+   */
+  public async getWETHAddress(): Promise<string> {
+    const etherman = Etherman__factory.connect(
+      await this.swap.etherman(),
+      this.signer
+    );
+
+    return etherman.WETH();
+  }
+
+  /**
+   * @dev Get the protocol fee configuration
+   */
+  public async getProtocolFee(): Promise<{
+    basisPoints: BigNumber;
+    recipient: string;
+  }> {
+    const [basisPoints, recipient] = await Promise.all([
+      this.swap.protocolFeeBasisPoints(),
+      this.swap.protocolFeeRecipient(),
+    ]);
+
+    return { basisPoints: BigNumber.from(basisPoints), recipient };
+  }
+
+  /**
+   * @dev Get the royalty that would be paid for an NFT sold at the given price
+   * @param collectionAddress: the NFT collection address
+   * @param tokenId: the NFT token id
+   * @param salePrice: the currency amount the NFT is traded against
+   */
+  public async getRoyalty(
+    collectionAddress: string,
+    tokenId: BigNumberish,
+    salePrice: BigNumberish
+  ): Promise<{ receiver: string; amount: BigNumber }> {
+    const [receiver, amount] = await this.swap.getRoyalty(
+      collectionAddress,
+      tokenId,
+      salePrice
+    );
+
+    return { receiver, amount: BigNumber.from(amount) };
+  }
+
+  /**
+   * @dev Get all the whitelisted item addresses with their item types, read page by page
+   * @param pageSize: the amount of entries read per call
+   */
+  public async getWhitelist(
+    pageSize = DEFAULT_PAGE_SIZE
+  ): Promise<WhitelistEntry[]> {
+    const entries: WhitelistEntry[] = [];
+    let total = 0;
+
+    do {
+      const [addresses, itemTypes, count] = await this.swap.getWhitelist(
+        entries.length,
+        pageSize
+      );
+      if (addresses.length === 0) break;
+
+      addresses.forEach((contractAddress, index) =>
+        entries.push({
+          contractAddress,
+          itemType: Number(itemTypes[index]) as SwapItemType,
+        })
+      );
+      total = Number(count);
+    } while (entries.length < total);
+
+    return entries;
+  }
+
+  /**
+   * @dev Get the decoded proposal with its items and options
+   * @param proposalId: the proposal id
+   */
+  public async getProposal(proposalId: string): Promise<Proposal> {
+    const [proposal, [items, options], allowedFulfillers, remainingAmounts] =
+      await Promise.all([
+        this.swap.proposals(proposalId),
+        this.swap.getProposalItemsAndOptions(proposalId),
+        this.swap.getProposalAllowedFulfillers(proposalId),
+        this.swap.getProposalRemainingAmounts(proposalId),
+      ]);
+
+    return decodeProposal(
+      proposal as unknown as RawProposal,
+      items as unknown as RawSwapItem[],
+      options as unknown as RawSwapOption[],
+      allowedFulfillers,
+      remainingAmounts
+    );
+  }
+
+  /**
+   * @dev Get the decoded counter-offer with its items
+   * @param counterOfferId: the counter-offer id
+   */
+  public async getCounterOffer(counterOfferId: string): Promise<CounterOffer> {
+    const [counterOffer, items] = await Promise.all([
+      this.swap.counterOffers(counterOfferId),
+      this.swap.getCounterOfferItems(counterOfferId),
+    ]);
+
+    return decodeCounterOffer(
+      counterOffer as unknown as RawCounterOffer,
+      items as unknown as RawSwapItem[]
+    );
+  }
+
+  /**
+   * @dev Get the decoded counter-offers made against a proposal
+   * @param proposalId: the proposal id
+   */
+  public async getCounterOffers(proposalId: string): Promise<CounterOffer[]> {
+    const counterOfferIds = await this.swap.getProposalCounterOfferIds(
+      proposalId
+    );
+
+    return Promise.all(
+      counterOfferIds.map((counterOfferId) =>
+        this.getCounterOffer(counterOfferId)
+      )
+    );
+  }
+
+  /**
+   * @dev Get a page of proposal ids out of the on-chain indexes
+   * @param query: the index to read with its key, status and page
+   */
+  public async getProposalIds(
+    query: ProposalIdsQuery
+  ): Promise<ProposalIdsPage> {
+    const [ids, total] = await this.swap.getProposalIds(
+      query.indexType,
+      query.key || ethers.constants.AddressZero,
+      query.status ?? ProposalStatus.Created,
+      query.offset || 0,
+      query.limit || DEFAULT_PAGE_SIZE
+    );
+
+    return { ids, total: Number(total) };
+  }
+
+  /**
+   * @dev Get all the proposal ids of an index, read page by page
+   * @param query: the index to read with its key and status, the limit is used as page size
+   */
+  public async getAllProposalIds(
+    query: Omit<ProposalIdsQuery, "offset">
+  ): Promise<string[]> {
+    const ids: string[] = [];
+    let total = 0;
+
+    do {
+      const page = await this.getProposalIds({ ...query, offset: ids.length });
+      if (page.ids.length === 0) break;
+
+      ids.push(...page.ids);
+      total = page.total;
+    } while (ids.length < total);
+
+    return ids;
+  }
+
+  /**
+   * @dev Get the decoded proposals of a page of an index
+   * @param query: the index to read with its key, status and page
+   */
+  public async getProposals(
+    query: ProposalIdsQuery
+  ): Promise<{ proposals: Proposal[]; total: number }> {
+    const { ids, total } = await this.getProposalIds(query);
+
+    return {
+      proposals: await Promise.all(ids.map((id) => this.getProposal(id))),
+      total,
+    };
+  }
+
+  /**
+   * @dev Wait for the transaction to be mined
+   */
+  private async waitFor(
+    tx: Promise<unknown> | unknown
+  ): Promise<ContractReceipt> {
+    return ((await tx) as ContractTransaction).wait();
+  }
+}
@@ -0,0 +1,191 @@
+import { BigNumber, ethers } from "ethers";
+
+import { Etherman__factory, HamsterSwap__factory } from "../../typechain-types";
+
+/**
+ * @dev Errors thrown by HamsterSwap and Etherman, see `contracts/Errors.sol`
+ */
+export type SwapErrorName =
+  | "UnauthorizedActor"
+  | "MissingRole"
+  | "AlreadyConfigured"
+  | "ConfigurationAlreadyQueued"
+  | "ConfigurationNotQueued"
+  | "ConfigurationNotReady"
+  | "DuplicateId"
+  | "EmptyId"
+  | "TooManyItems"
+  | "TooManyOptions"
+  | "InvalidExpiredAt"
+  | "NotWhitelisted"
+  | "ItemTypeNotWhitelisted"
+  | "InvalidWhitelistItemType"
+  | "ProposalNotFound"
+  | "ProposalExpired"
+  | "ProposalNotExpired"
+  | "InvalidProposalStatus"
+  | "NotProposalOwner"
+  | "OptionNotFound"
+  | "NotAllowedFulfiller"
+  | "NotFillable"
+  | "InvalidFillAmount"
+  | "CounterOfferNotFound"
+  | "CounterOfferExpired"
+  | "InvalidCounterOfferStatus"
+  | "NotCounterOfferOwner"
+  | "InvalidItemType"
+  | "AskingTokenRequired"
+  | "InvalidTokenProof"
+  | "InvalidSignature"
+  | "NonceAlreadyUsed"
+  | "ProtocolFeeTooHigh"
+  | "InvalidProtocolFeeRecipient"
+  | "RoyaltyTooHigh"
+  | "ZeroAmount"
+  | "AmountMismatch"
+  | "TransferFailed"
+  | "NativeTransferFailed"
+  | "PermitFailed"
+  | "UnusedPermit2Amount"
+  | "Permit2Unavailable"
+  | "BatchInProgress";
+
+/**
+ * @dev Solidity builtin errors
+ */
+export type BuiltinErrorName = "Error" | "Panic";
+
+/**
+ * @dev Selectors of `Error(string)` and `Panic(uint256)`
+ */
+const builtinErrors: Record<string, [BuiltinErrorName, string, string]> = {
+  "0x08c379a0": ["Error", "message", "string"],
+  "0x4e487b71": ["Panic", "code", "uint256"],
+};
+
+const swapInterfaces = [
+  new ethers.utils.Interface(HamsterSwap__factory.abi),
+  new ethers.utils.Interface(Etherman__factory.abi),
+];
+
+/**
+ * @notice Decoded revert of a HamsterSwap call.
+ */
+export class HamsterSwapError extends Error {
+  /**
+   * @param errorName: the solidity error name
+   * @param args: named error arguments, numbers are decoded as BigNumber
+   * @param data: raw revert data
+   */
+  constructor(
+    public readonly errorName: SwapErrorName | BuiltinErrorName,
+    public readonly args: Record<string, string | BigNumber | number>,
+    public readonly data: string
+  ) {
+    super(
+      `${errorName}(${Object.values(args)
+        .map((arg) => arg.toString())
+        .join(", ")})`
+    );
+    this.name = "HamsterSwapError";
+  }
+
+  /**
+   * @dev Check the error name
+   */
+  public is(errorName: SwapErrorName | BuiltinErrorName): boolean {
+    return this.errorName === errorName;
+  }
+}
+
+/**
+ * @dev Find the revert data inside the nested errors thrown by ethers and hardhat
+ * @param error: the thrown error
+ */
+export const extractRevertData = (error: unknown): string | undefined => {
+  const visited = new Set<unknown>();
+  const queue: unknown[] = [error];
+
+  while (queue.length > 0) {
+    const current = queue.shift();
+    if (!current || typeof current !== "object" || visited.has(current)) {
+      continue;
+    }
+    visited.add(current);
+
+    const { data, error: nested, body } = current as Record<string, unknown>;
+
+    if (typeof data === "string" && ethers.utils.isHexString(data)) {
+      return data;
+    }
+
+    /**
+     * @dev Json rpc responses are sometimes kept as a raw string body
+     */
+    if (typeof body === "string") {
+      try {
+        queue.push(JSON.parse(body));
+      } catch {
+        // not a json body
+      }
+    }
+
+    queue.push(data, nested);
+  }
+
+  return undefined;
+};
+
+/**
+ * @dev Decode revert data into a typed error
+ * @param data: raw revert data
+ */
+export const decodeRevertData = (
+  data: string
+): HamsterSwapError | undefined => {
+  const builtin = builtinErrors[data.slice(0, 10)];
+
+  if (builtin) {
+    const [errorName, argName, argType] = builtin;
+    const [value] = ethers.utils.defaultAbiCoder.decode(
+      [argType],
+      ethers.utils.hexDataSlice(data, 4)
+    );
+
+    return new HamsterSwapError(errorName, { [argName]: value }, data);
+  }
+
+  for (const iface of swapInterfaces) {
+    try {
+      const { name, args, errorFragment } = iface.parseError(data);
+      const namedArgs: HamsterSwapError["args"] = {};
+
+      errorFragment.inputs.forEach((input, index) => {
+        namedArgs[input.name] = args[index];
+      });
+
+      return new HamsterSwapError(
+        name as SwapErrorName | BuiltinErrorName,
+        namedArgs,
+        data
+      );
+    } catch {
+      // not part of this interface
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * @dev Decode any error thrown by a HamsterSwap call
+ * @param error: the thrown error
+ */
+export const decodeSwapError = (
+  error: unknown
+): HamsterSwapError | undefined => {
+  if (error instanceof HamsterSwapError) return error;
+
+  const data = extractRevertData(error);
+  return data ? decodeRevertData(data) : undefined;
+};
@@ -0,0 +1,7 @@
+export * from "./types";
+export * from "./utils";
+export * from "./client";
+export * from "./errors";
+export * from "./signing";
+export * from "./merkle";
+export * from "./permit";
@@ -0,0 +1,157 @@
+import { BigNumber, BigNumberish, ethers } from "ethers";
+
+/**
+ * @dev OpenSea-like token metadata, only the attributes are used
+ */
+export interface TokenMetadata {
+  tokenId: BigNumberish;
+  attributes: { trait_type: string; value: string | number }[];
+}
+
+/**
+ * @dev Accepted values per trait type, a token must match all of them
+ */
+export type TraitFilter = Record<string, string | number | (string | number)[]>;
+
+/**
+ * @dev Leaf of a token id, mirrors `Proposals.resolveAskingItems`
+ * @param tokenId: the token id
+ */
+export const hashTokenLeaf = (tokenId: BigNumberish): string =>
+  ethers.utils.keccak256(
+    ethers.utils.keccak256(
+      ethers.utils.defaultAbiCoder.encode(["uint256"], [tokenId])
+    )
+  );
+
+/**
+ * @dev Hash a pair of nodes in sorted order, mirrors OpenZeppelin `MerkleProof`
+ */
+const hashPair = (a: string, b: string): string =>
+  ethers.utils.keccak256(
+    ethers.utils.concat(BigNumber.from(a).lt(b) ? [a, b] : [b, a])
+  );
+
+/**
+ * @notice Merkle tree of the token ids accepted by a `NftTraitSet` asking item.
+ */
+export class TokenSetTree {
+  private readonly layers: string[][];
+
+  /**
+   * @param tokenIds: the accepted token ids, duplicates are ignored
+   */
+  constructor(tokenIds: BigNumberish[]) {
+    if (tokenIds.length === 0) {
+      throw new Error("A token set needs at least one token id");
+    }
+
+    /**
+     * @dev Leaves are sorted so that the root does not depend on the input order
+     */
+    const leaves = [...new Set(tokenIds.map(hashTokenLeaf))].sort((a, b) =>
+      BigNumber.from(a).lt(b) ? -1 : 1
+    );
+
+    this.layers = [leaves];
+    while (this.layers[this.layers.length - 1].length > 1) {
+      const layer = this.layers[this.layers.length - 1];
+      const parents: string[] = [];
+
+      /**
+       * @dev The last node of an odd layer is carried up as is
+       */
+      for (let i = 0; i < layer.length; i += 2) {
+        parents.push(
+          i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]
+        );
+      }
+
+      this.layers.push(parents);
+    }
+  }
+
+  /**
+   * @dev The root to be recorded as the token id of the asking item
+   */
+  public get root(): string {
+    return this.layers[this.layers.length - 1][0];
+  }
+
+  /**
+   * @dev Whether the token id belongs to the set
+   * @param tokenId: the token id
+   */
+  public has(tokenId: BigNumberish): boolean {
+    return this.layers[0].includes(hashTokenLeaf(tokenId));
+  }
+
+  /**
+   * @dev Get the proof that the buyer sends along with the chosen token id
+   * @param tokenId: the token id, must belong to the set
+   */
+  public getProof(tokenId: BigNumberish): string[] {
+    let index = this.layers[0].indexOf(hashTokenLeaf(tokenId));
+
+    if (index < 0) {
+      throw new Error(`Token ${tokenId.toString()} is not part of the set`);
+    }
+
+    const proof: string[] = [];
+    for (const layer of this.layers.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < layer.length) proof.push(layer[sibling]);
+
+      index = Math.floor(index / 2);
+    }
+
+    return proof;
+  }
+}
+
+/**
+ * @dev Check a proof the way the contract does
+ * @param root: the trait set root
+ * @param tokenId: the chosen token id
+ * @param proof: the proof of the token id
+ */
+export const verifyTokenProof = (
+  root: string,
+  tokenId: BigNumberish,
+  proof: string[]
+): boolean =>
+  proof.reduce(hashPair, hashTokenLeaf(tokenId)) ===
+  ethers.utils.hexZeroPad(root, 32);
+
+/**
+ * @dev Select the token ids whose attributes match the trait filter
+ * @param tokens: the collection metadata
+ * @param traits: the accepted values per trait type
+ */
+export const selectTokensByTraits = (
+  tokens: TokenMetadata[],
+  traits: TraitFilter
+): BigNumberish[] =>
+  tokens
+    .filter(({ attributes }) =>
+      Object.entries(traits).every(([traitType, accepted]) => {
+        const values = Array.isArray(accepted) ? accepted : [accepted];
+
+        return attributes.some(
+          (attribute) =>
+            attribute.trait_type === traitType &&
+            values.some((value) => String(value) === String(attribute.value))
+        );
+      })
+    )
+    .map(({ tokenId }) => tokenId);
+
+/**
+ * @dev Build the tree of the tokens of a collection that match the trait filter
+ * @param tokens: the collection metadata
+ * @param traits: the accepted values per trait type
+ */
+export const buildTraitSetTree = (
+  tokens: TokenMetadata[],
+  traits: TraitFilter
+): TokenSetTree => new TokenSetTree(selectTokensByTraits(tokens, traits));
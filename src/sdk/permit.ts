@@ -0,0 +1,169 @@
+import { BigNumber, BigNumberish, ethers, Signer } from "ethers";
+
+import { TypedDataDomain, TypedDataField, TypedDataSigner } from "./signing";
+
+/**
+ * @dev Canonical Permit2 deployment, mirrors `Permits.PERMIT2`
+ */
+export const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+
+/**
+ * @dev EIP-712 types of an EIP-2612 permit
+ */
+export const ERC20_PERMIT_TYPES: Record<string, TypedDataField[]> = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * @dev EIP-712 types of a Permit2 batch signature transfer
+ */
+export const PERMIT2_BATCH_TRANSFER_TYPES: Record<string, TypedDataField[]> = {
+  PermitBatchTransferFrom: [
+    { name: "permitted", type: "TokenPermissions[]" },
+    { name: "spender", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  TokenPermissions: [
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint256" },
+  ],
+};
+
+/**
+ * @dev EIP-2612 permit, as expected by `HamsterSwap.selfPermit`
+ */
+export interface ERC20PermitSignature {
+  token: string;
+  value: BigNumber;
+  deadline: BigNumber;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * @dev Permit2 batch signature transfer, as expected by `HamsterSwap.permit2Call`
+ */
+export interface Permit2BatchTransferSignature {
+  tokens: string[];
+  amounts: BigNumber[];
+  nonce: BigNumber;
+  deadline: BigNumber;
+  signature: string;
+}
+
+/**
+ * @dev Get the EIP-712 domain of Permit2
+ * @param chainId: the chain id
+ * @param permit2Address: the Permit2 deployment
+ */
+export const getPermit2Domain = (
+  chainId: number,
+  permit2Address: string = PERMIT2_ADDRESS
+): TypedDataDomain => ({
+  name: "Permit2",
+  chainId,
+  verifyingContract: permit2Address,
+});
+
+/**
+ * @dev Generate a random Permit2 nonce, Permit2 nonces are unordered
+ */
+export const generatePermit2Nonce = (): BigNumber =>
+  BigNumber.from(ethers.utils.randomBytes(32));
+
+/**
+ * @dev Sign an EIP-2612 permit, the token must use version "1" of its domain like OpenZeppelin `ERC20Permit`
+ * @param signer: the token owner
+ * @param token: the token address
+ * @param spender: the spender, usually the swap
+ * @param value: the allowance
+ * @param deadline: the permit deadline
+ */
+export const signERC20Permit = async (
+  signer: Signer,
+  token: string,
+  spender: string,
+  value: BigNumberish,
+  deadline: BigNumberish
+): Promise<ERC20PermitSignature> => {
+  const erc20 = new ethers.Contract(
+    token,
+    [
+      "function name() view returns (string)",
+      "function nonces(address) view returns (uint256)",
+    ],
+    signer
+  );
+  const owner = await signer.getAddress();
+  const [name, nonce, chainId] = await Promise.all([
+    erc20.name() as Promise<string>,
+    erc20.nonces(owner) as Promise<BigNumber>,
+    signer.getChainId(),
+  ]);
+
+  const signature = await (signer as TypedDataSigner)._signTypedData(
+    { name, version: "1", chainId, verifyingContract: token },
+    ERC20_PERMIT_TYPES,
+    { owner, spender, value, nonce, deadline }
+  );
+  const { v, r, s } = ethers.utils.splitSignature(signature);
+
+  return {
+    token,
+    value: BigNumber.from(value),
+    deadline: BigNumber.from(deadline),
+    v,
+    r,
+    s,
+  };
+};
+
+/**
+ * @dev Sign a Permit2 batch signature transfer of the tokens to the swap
+ * @param signer: the token owner
+ * @param spender: the spender, usually the swap
+ * @param tokens: the permitted tokens
+ * @param amounts: the permitted amount of each token
+ * @param deadline: the permit deadline
+ * @param nonce: the Permit2 nonce, random by default
+ * @param permit2Address: the Permit2 deployment
+ */
+export const signPermit2BatchTransfer = async (
+  signer: Signer,
+  spender: string,
+  tokens: string[],
+  amounts: BigNumberish[],
+  deadline: BigNumberish,
+  nonce: BigNumberish = generatePermit2Nonce(),
+  permit2Address: string = PERMIT2_ADDRESS
+): Promise<Permit2BatchTransferSignature> => {
+  const signature = await (signer as TypedDataSigner)._signTypedData(
+    getPermit2Domain(await signer.getChainId(), permit2Address),
+    PERMIT2_BATCH_TRANSFER_TYPES,
+    {
+      permitted: tokens.map((token, index) => ({
+        token,
+        amount: amounts[index],
+      })),
+      spender,
+      nonce,
+      deadline,
+    }
+  );
+
+  return {
+    tokens,
+    amounts: amounts.map((amount) => BigNumber.from(amount)),
+    nonce: BigNumber.from(nonce),
+    deadline: BigNumber.from(deadline),
+    signature,
+  };
+};
@@ -0,0 +1,124 @@
+import { BigNumber, ethers, Signer } from "ethers";
+
+import { SignedProposalParams } from "./types";
+
+/**
+ * @dev EIP-712 domain and field types, not re-exported by ethers v5
+ */
+export type TypedDataDomain = Parameters<
+  typeof ethers.utils._TypedDataEncoder.hash
+>[0];
+export type TypedDataField = Parameters<
+  typeof ethers.utils._TypedDataEncoder.hash
+>[1][string][number];
+
+/**
+ * @dev Signers of ethers v5 expose EIP-712 signing as `_signTypedData`
+ */
+export type TypedDataSigner = Signer & {
+  _signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string>;
+};
+
+/**
+ * @dev EIP-712 types of a signed proposal, mirrors `SignedProposal.sol`
+ */
+export const SIGNED_PROPOSAL_TYPES: Record<string, TypedDataField[]> = {
+  Proposal: [
+    { name: "id", type: "string" },
+    { name: "owner", type: "address" },
+    { name: "expiredAt", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "offeredItems", type: "SwapItem[]" },
+    { name: "swapOptions", type: "SwapOption[]" },
+    { name: "allowedFulfillers", type: "address[]" },
+  ],
+  SwapOption: [
+    { name: "id", type: "string" },
+    { name: "askingItems", type: "SwapItem[]" },
+  ],
+  SwapItem: [
+    { name: "id", type: "string" },
+    { name: "contractAddress", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "tokenId", type: "uint256" },
+    { name: "itemType", type: "uint8" },
+  ],
+};
+
+/**
+ * @dev Get the EIP-712 domain of a swap deployment
+ * @param chainId: the chain id
+ * @param verifyingContract: the swap proxy address
+ */
+export const getSignedProposalDomain = (
+  chainId: number,
+  verifyingContract: string
+): TypedDataDomain => ({
+  name: "HamsterSwap",
+  version: "1",
+  chainId,
+  verifyingContract,
+});
+
+/**
+ * @dev Generate a random nonce, nonces are only consumed per owner so collisions are unlikely
+ */
+export const generateNonce = (): BigNumber =>
+  BigNumber.from(ethers.utils.randomBytes(32));
+
+/**
+ * @dev Hash a signed proposal, equals `HamsterSwap.hashSignedProposal`
+ * @param domain: the EIP-712 domain
+ * @param proposal: the signed proposal params
+ */
+export const hashSignedProposal = (
+  domain: TypedDataDomain,
+  proposal: SignedProposalParams
+): string =>
+  ethers.utils._TypedDataEncoder.hash(domain, SIGNED_PROPOSAL_TYPES, proposal);
+
+/**
+ * @dev Sign a proposal with the owner wallet
+ * @param signer: the proposal owner
+ * @param domain: the EIP-712 domain
+ * @param proposal: the signed proposal params
+ */
+export const signSignedProposal = (
+  signer: Signer,
+  domain: TypedDataDomain,
+  proposal: SignedProposalParams
+): Promise<string> =>
+  (signer as TypedDataSigner)._signTypedData(
+    domain,
+    SIGNED_PROPOSAL_TYPES,
+    proposal as unknown as Record<string, unknown>
+  );
+
+/**
+ * @dev Check that the signature has been produced by the proposal owner, contract wallets are not supported off-chain
+ * @param domain: the EIP-712 domain
+ * @param proposal: the signed proposal params
+ * @param signature: the owner signature
+ */
+export const verifySignedProposal = (
+  domain: TypedDataDomain,
+  proposal: SignedProposalParams,
+  signature: string
+): boolean => {
+  try {
+    return (
+      ethers.utils.verifyTypedData(
+        domain,
+        SIGNED_PROPOSAL_TYPES,
+        proposal,
+        signature
+      ) === ethers.utils.getAddress(proposal.owner)
+    );
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,288 @@
+import { BigNumber, BigNumberish } from "ethers";
+
+/**
+ * @dev Define the item type, mirrors `Entity.SwapItemType`.
+ * Collection-wide types can only be asked for and are resolved to `Nft` once fulfilled
+ */
+export enum SwapItemType {
+  Nft,
+  Currency,
+  SemiFungible,
+  NftCollection,
+  NftTraitSet,
+}
+
+/**
+ * @dev Define status enum, mirrors `Entity.SwapItemStatus`
+ */
+export enum SwapItemStatus {
+  Created,
+  Deposited,
+  Redeemed,
+  Withdrawn,
+}
+
+/**
+ * @dev Define proposal status, mirrors `Entity.ProposalStatus`
+ */
+export enum ProposalStatus {
+  Created,
+  Deposited,
+  Fulfilled,
+  Canceled,
+  Redeemed,
+  Withdrawn,
+  Expired,
+}
+
+/**
+ * @dev Define counter-offer status, mirrors `Entity.CounterOfferStatus`
+ */
+export enum CounterOfferStatus {
+  Created,
+  Deposited,
+  Accepted,
+  Withdrawn,
+}
+
+/**
+ * @dev Define the proposal index to list, mirrors `Entity.ProposalIndexType`
+ */
+export enum ProposalIndexType {
+  All,
+  Owner,
+  Fulfiller,
+  Status,
+  Collection,
+}
+
+/**
+ * @dev How currency deposits are authorized without a prior approval to the swap
+ */
+export enum PermitMethod {
+  /** @dev EIP-2612 `permit` of the token, batched with the call through `multicall` */
+  EIP2612,
+  /** @dev Permit2 batch signature transfer, the token must be approved to Permit2 once */
+  Permit2,
+}
+
+/**
+ * @dev Item input accepted by the sdk, the id will be generated if omitted
+ */
+export interface SwapItemInput {
+  id?: string;
+  contractAddress: string;
+  itemType: SwapItemType;
+  amount?: BigNumberish;
+  tokenId?: BigNumberish;
+  /** @dev Root of the accepted token ids of a trait set, recorded in place of the token id */
+  merkleRoot?: string;
+}
+
+/**
+ * @dev Token chosen by the buyer for a collection-wide asking item, the proof is only needed for trait sets
+ */
+export interface AskingTokenInput {
+  tokenId: BigNumberish;
+  proof?: string[];
+}
+
+/**
+ * @dev Option input accepted by the sdk, the id will be generated if omitted
+ */
+export interface SwapOptionInput {
+  id?: string;
+  askingItems: SwapItemInput[];
+}
+
+/**
+ * @dev Proposal input accepted by the sdk, the id will be generated if omitted
+ */
+export interface ProposalInput {
+  id?: string;
+  owner?: string;
+  expiredAt: BigNumberish;
+  offeredItems: SwapItemInput[];
+  swapOptions: SwapOptionInput[];
+  /**
+   * @dev Addresses that can fulfill the proposal, the proposal is public when omitted
+   */
+  allowedFulfillers?: string[];
+  /**
+   * @dev Whether the proposal can be filled in parts, only currency items are allowed
+   */
+  fillable?: boolean;
+}
+
+/**
+ * @dev Signed proposal input, the nonce will be generated if omitted, signed proposals are not fillable
+ */
+export interface SignedProposalInput extends Omit<ProposalInput, "fillable"> {
+  nonce?: BigNumberish;
+}
+
+/**
+ * @dev Update of a deposited proposal, the expiry is kept if omitted
+ */
+export interface ProposalUpdateInput {
+  expiredAt?: BigNumberish;
+  addedSwapOptions?: SwapOptionInput[];
+  removedOptionIds?: string[];
+}
+
+/**
+ * @dev Counter-offer input, the id and owner default to a generated id and the signer
+ */
+export interface CounterOfferInput {
+  id?: string;
+  proposalId: string;
+  owner?: string;
+  expiredAt: BigNumberish;
+  offeredItems: SwapItemInput[];
+}
+
+/**
+ * @dev Matches `Params.SwapItemParams`
+ */
+export interface SwapItemParams {
+  id: string;
+  contractAddress: string;
+  amount: BigNumber;
+  tokenId: BigNumber;
+  itemType: SwapItemType;
+}
+
+/**
+ * @dev Matches `Params.SwapOptionParams`
+ */
+export interface SwapOptionParams {
+  id: string;
+  askingItems: SwapItemParams[];
+}
+
+/**
+ * @dev Matches `Params.ProposalParams`
+ */
+export interface ProposalParams {
+  id: string;
+  owner: string;
+  expiredAt: BigNumber;
+  offeredItems: SwapItemParams[];
+  swapOptions: SwapOptionParams[];
+  allowedFulfillers: string[];
+  fillable: boolean;
+}
+
+/**
+ * @dev Decoded `Entity.SwapItem`
+ */
+export interface SwapItem {
+  id: string;
+  contractAddress: string;
+  amount: BigNumber;
+  owner: string;
+  tokenId: BigNumber;
+  status: SwapItemStatus;
+  itemType: SwapItemType;
+}
+
+/**
+ * @dev Decoded `Entity.SwapOption`
+ */
+export interface SwapOption {
+  id: string;
+  askingItems: SwapItem[];
+}
+
+/**
+ * @dev Decoded `Entity.Proposal`
+ */
+export interface Proposal {
+  id: string;
+  expiredAt: number;
+  owner: string;
+  fulfilledBy: string;
+  fulfilledByOptionId: string;
+  status: ProposalStatus;
+  offeredItems: SwapItem[];
+  swapOptions: SwapOption[];
+  allowedFulfillers: string[];
+  fillable: boolean;
+  /**
+   * @dev Remaining amounts of the offered items, empty unless fillable
+   */
+  remainingAmounts: BigNumber[];
+}
+
+/**
+ * @dev Matches `Params.SignedProposalParams`
+ */
+export interface SignedProposalParams extends Omit<ProposalParams, "fillable"> {
+  nonce: BigNumber;
+}
+
+/**
+ * @dev Matches `Params.FulfillmentParams`, a proposal of a batch and the option it is fulfilled with
+ */
+export interface FulfillmentParams {
+  proposalId: string;
+  optionId: string;
+}
+
+/**
+ * @dev Matches `Params.CounterOfferParams`, with the owner that deposits the items
+ */
+export interface CounterOfferParams {
+  id: string;
+  proposalId: string;
+  owner: string;
+  expiredAt: BigNumber;
+  offeredItems: SwapItemParams[];
+}
+
+/**
+ * @dev Decoded `Entity.CounterOffer`
+ */
+export interface CounterOffer {
+  id: string;
+  proposalId: string;
+  expiredAt: number;
+  owner: string;
+  status: CounterOfferStatus;
+  offeredItems: SwapItem[];
+}
+
+/**
+ * @dev Query of a page of proposal ids, the key is the owner, fulfiller or collection address
+ */
+export interface ProposalIdsQuery {
+  indexType: ProposalIndexType;
+  key?: string;
+  status?: ProposalStatus;
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * @dev A page of proposal ids along with the size of the whole index
+ */
+export interface ProposalIdsPage {
+  ids: string[];
+  total: number;
+}
+
+/**
+ * @dev A whitelisted item address with the item type it is allowed as, collection-wide and trait set items use Nft addresses
+ */
+export interface WhitelistEntry {
+  contractAddress: string;
+  itemType: SwapItemType;
+}
+
+/**
+ * @dev Matches `Params.AskingTokenParams`
+ */
+export interface AskingTokenParams {
+  tokenId: BigNumber;
+  proof: string[];
+}
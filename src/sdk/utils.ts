@@ -0,0 +1,264 @@
+import { BigNumber, BigNumberish, ethers } from "ethers";
+
+import {
+  CounterOffer,
+  CounterOfferStatus,
+  Proposal,
+  ProposalStatus,
+  SwapItem,
+  SwapItemInput,
+  SwapItemParams,
+  SwapItemStatus,
+  SwapItemType,
+  SwapOption,
+  SwapOptionInput,
+  SwapOptionParams,
+} from "./types";
+
+/**
+ * @dev Raw `Entity.SwapItem` as returned by the contract
+ */
+export interface RawSwapItem {
+  id: string;
+  contractAddress: string;
+  amount: BigNumberish;
+  owner: string;
+  tokenId: BigNumberish;
+  status: BigNumberish;
+  itemType: BigNumberish;
+}
+
+/**
+ * @dev Raw `Entity.SwapOption` as returned by the contract
+ */
+export interface RawSwapOption {
+  id: string;
+  askingItems: RawSwapItem[];
+}
+
+/**
+ * @dev Raw `proposals(id)` getter output
+ */
+export interface RawProposal {
+  id: string;
+  expiredAt: BigNumberish;
+  owner: string;
+  fulfilledBy: string;
+  fulfilledByOptionId: string;
+  status: BigNumberish;
+  fillable?: boolean;
+}
+
+/**
+ * @dev Raw `counterOffers(id)` getter output
+ */
+export interface RawCounterOffer {
+  id: string;
+  proposalId: string;
+  expiredAt: BigNumberish;
+  owner: string;
+  status: BigNumberish;
+}
+
+/**
+ * @dev Generate a random id, proposals, options and items share the same registry on-chain
+ * @param prefix: human readable prefix of the id
+ */
+export const generateId = (prefix: string): string =>
+  `${prefix}_${ethers.utils.hexlify(ethers.utils.randomBytes(16)).slice(2)}`;
+
+/**
+ * @dev Convert an item input into `Params.SwapItemParams`
+ * @param item: the item input
+ */
+export const toSwapItemParams = (item: SwapItemInput): SwapItemParams => ({
+  id: item.id || generateId("item"),
+  contractAddress: ethers.utils.getAddress(item.contractAddress),
+  itemType: item.itemType,
+  amount: BigNumber.from(item.amount ?? (isNftItemType(item.itemType) ? 1 : 0)),
+  tokenId: BigNumber.from(item.merkleRoot ?? item.tokenId ?? 0),
+});
+
+/**
+ * @dev Whether items of the type are single ERC-721 tokens, exact or chosen by the buyer
+ * @param itemType: the item type
+ */
+export const isNftItemType = (itemType: SwapItemType): boolean =>
+  itemType === SwapItemType.Nft ||
+  itemType === SwapItemType.NftCollection ||
+  itemType === SwapItemType.NftTraitSet;
+
+/**
+ * @dev Whether the buyer has to choose the token of the item at fulfilment
+ * @param itemType: the item type
+ */
+export const isCollectionItemType = (itemType: SwapItemType): boolean =>
+  itemType === SwapItemType.NftCollection ||
+  itemType === SwapItemType.NftTraitSet;
+
+/**
+ * @dev Convert an option input into `Params.SwapOptionParams`
+ * @param option: the option input
+ */
+export const toSwapOptionParams = (
+  option: SwapOptionInput
+): SwapOptionParams => ({
+  id: option.id || generateId("option"),
+  askingItems: option.askingItems.map(toSwapItemParams),
+});
+
+/**
+ * @dev Basis points denominator, mirrors `HamsterSwap.BASIS_POINTS`
+ */
+export const BASIS_POINTS = 10000;
+
+/**
+ * @dev Split a currency amount into protocol fee and payout, rounding the fee down like the contract does
+ * @param amount: the currency item amount
+ * @param protocolFeeBasisPoints: the configured protocol fee
+ */
+export const splitProtocolFee = (
+  amount: BigNumberish,
+  protocolFeeBasisPoints: BigNumberish
+): { fee: BigNumber; payout: BigNumber } => {
+  const fee = BigNumber.from(amount)
+    .mul(protocolFeeBasisPoints)
+    .div(BASIS_POINTS);
+
+  return { fee, payout: BigNumber.from(amount).sub(fee) };
+};
+
+/**
+ * @dev Decode a raw `Entity.SwapItem`
+ * @param raw: raw contract output
+ */
+export const decodeSwapItem = (raw: RawSwapItem): SwapItem => ({
+  id: raw.id,
+  contractAddress: raw.contractAddress,
+  amount: BigNumber.from(raw.amount),
+  owner: raw.owner,
+  tokenId: BigNumber.from(raw.tokenId),
+  status: BigNumber.from(raw.status).toNumber() as SwapItemStatus,
+  itemType: BigNumber.from(raw.itemType).toNumber() as SwapItemType,
+});
+
+/**
+ * @dev Decode a raw `Entity.SwapOption`
+ * @param raw: raw contract output
+ */
+export const decodeSwapOption = (raw: RawSwapOption): SwapOption => ({
+  id: raw.id,
+  askingItems: raw.askingItems.map(decodeSwapItem),
+});
+
+/**
+ * @dev Decode `proposals(id)` together with `getProposalItemsAndOptions(id)`
+ * @param raw: raw proposal getter output
+ * @param items: raw offered items
+ * @param options: raw swap options
+ * @param allowedFulfillers: `getProposalAllowedFulfillers(id)` output
+ * @param remainingAmounts: `getProposalRemainingAmounts(id)` output
+ */
+export const decodeProposal = (
+  raw: RawProposal,
+  items: RawSwapItem[],
+  options: RawSwapOption[],
+  allowedFulfillers: string[] = [],
+  remainingAmounts: BigNumberish[] = []
+): Proposal => ({
+  id: raw.id,
+  expiredAt: BigNumber.from(raw.expiredAt).toNumber(),
+  owner: raw.owner,
+  fulfilledBy: raw.fulfilledBy,
+  fulfilledByOptionId: raw.fulfilledByOptionId,
+  status: BigNumber.from(raw.status).toNumber() as ProposalStatus,
+  offeredItems: items.map(decodeSwapItem),
+  swapOptions: options.map(decodeSwapOption),
+  allowedFulfillers: [...allowedFulfillers],
+  fillable: !!raw.fillable,
+  remainingAmounts: remainingAmounts.map((amount) => BigNumber.from(amount)),
+});
+
+/**
+ * @dev Decode `counterOffers(id)` together with `getCounterOfferItems(id)`
+ * @param raw: raw counter-offer getter output
+ * @param items: raw offered items
+ */
+export const decodeCounterOffer = (
+  raw: RawCounterOffer,
+  items: RawSwapItem[]
+): CounterOffer => ({
+  id: raw.id,
+  proposalId: raw.proposalId,
+  expiredAt: BigNumber.from(raw.expiredAt).toNumber(),
+  owner: raw.owner,
+  status: BigNumber.from(raw.status).toNumber() as CounterOfferStatus,
+  offeredItems: items.map(decodeSwapItem),
+});
+
+/**
+ * @dev Sum the WETH items to be paid, the native coin to send along instead, mirrors `Transfers.wrapNative`
+ * @param items: the items to be paid
+ * @param wethAddress: the WETH address of the swap etherman
+ */
+export const getNativeAmount = (
+  items: SwapItemParams[],
+  wethAddress: string
+): BigNumber =>
+  items
+    .filter(({ itemType, contractAddress }) =>
+      isNativeItem({ itemType, contractAddress }, wethAddress)
+    )
+    .reduce((total, { amount }) => total.add(amount), BigNumber.from(0));
+
+/**
+ * @dev Whether an item is a WETH currency item, those can be paid in native coin
+ * @param item: the item
+ * @param wethAddress: the WETH address of the swap etherman
+ */
+export const isNativeItem = (
+  item: Pick<SwapItemParams, "itemType" | "contractAddress">,
+  wethAddress: string
+): boolean =>
+  item.itemType === SwapItemType.Currency &&
+  item.contractAddress.toLowerCase() === wethAddress.toLowerCase();
+
+/**
+ * @dev Compute the amounts exchanged by a fill of a fillable proposal, mirrors `Proposals.fill`
+ * @param proposal: the decoded fillable proposal
+ * @param optionId: the option the proposal is filled with
+ * @param fillAmount: the amount of the first offered item to be taken
+ */
+export const getFillAmounts = (
+  proposal: Proposal,
+  optionId: string,
+  fillAmount: BigNumberish
+): { offeredAmounts: BigNumber[]; askingAmounts: BigNumber[] } => {
+  const option = proposal.swapOptions.find(({ id }) => id === optionId);
+
+  if (!option) {
+    throw new Error(
+      `Option ${optionId} does not exist in proposal ${proposal.id}`
+    );
+  }
+
+  const totalAmount = proposal.offeredItems[0].amount;
+  const isFullyFilled = !!proposal.remainingAmounts[0]?.eq(fillAmount);
+
+  return {
+    /**
+     * @dev Rounded down, the last fill takes what remains
+     */
+    offeredAmounts: proposal.offeredItems.map(({ amount }, index) =>
+      isFullyFilled
+        ? proposal.remainingAmounts[index]
+        : amount.mul(fillAmount).div(totalAmount)
+    ),
+    /**
+     * @dev Rounded up
+     */
+    askingAmounts: option.askingItems.map(({ amount }) =>
+      amount.mul(fillAmount).add(totalAmount).sub(1).div(totalAmount)
+    ),
+  };
+};
@@ -0,0 +1,266 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers, upgrades } from "hardhat";
+
+import { HamsterSwap } from "../typechain-types";
+import {
+  DeploymentConfig,
+  deploySwap,
+  readDeploymentManifest,
+  upgradeSwap,
+  Verifier,
+  verifySwap,
+} from "../scripts/swap/deployment";
+import { SWAP_LIBRARIES } from "../scripts/swap/factory";
+
+describe("HamsterSwap deployment manifest", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [deployer] = await ethers.getSigners();
+
+    /**
+     * @dev Initializes mocked erc contracts
+     */
+    const MockedERC20Contract = await ethers.getContractFactory("MockedERC20");
+    const MockedERC20 = await MockedERC20Contract.deploy();
+
+    const MockedWETH9Contract = await ethers.getContractFactory("MockedWETH9");
+    const MockedWETH9 = await MockedWETH9Contract.deploy();
+
+    const MockedERC721Contract = await ethers.getContractFactory(
+      "MockedERC721"
+    );
+    const MockedERC721 = await MockedERC721Contract.deploy();
+
+    /**
+     * @dev Deployments of the local chain are written to a temporary directory
+     */
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hamsterswap-deploy-"));
+    const chainId = (await ethers.provider.getNetwork()).chainId;
+
+    return {
+      deployer,
+      dir,
+      chainId,
+      MockedERC20,
+      MockedWETH9,
+      MockedERC721,
+    };
+  }
+
+  const writeConfig = (config: DeploymentConfig) => {
+    const { dir, chainId } = fixtures;
+
+    fs.mkdirSync(path.join(dir, "config"), { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, "config", `${chainId}.json`),
+      JSON.stringify(config)
+    );
+  };
+
+  const readManifestFile = () =>
+    fs.readFileSync(
+      path.join(fixtures.dir, `${fixtures.chainId}.json`),
+      "utf8"
+    );
+
+  const getSwap = async () =>
+    (await ethers.getContractAt(
+      "HamsterSwap",
+      readDeploymentManifest(fixtures.chainId, fixtures.dir).proxy
+        ?.address as string
+    )) as unknown as HamsterSwap;
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: deploy records every contract and configures the swap", async () => {
+    const { dir, MockedWETH9, MockedERC721 } = fixtures;
+
+    writeConfig({
+      weth: MockedWETH9.address,
+      maxAllowedItems: 3,
+      maxAllowedOptions: 4,
+      whitelist: [{ address: MockedERC721.address, name: "mocked-erc721" }],
+    });
+
+    const manifest = await deploySwap(dir);
+
+    for (const contract of [
+      manifest.etherman,
+      manifest.implementation,
+      manifest.proxy,
+      ...Object.values(manifest.implementation?.libraries || {}),
+    ]) {
+      expect(ethers.utils.isAddress(contract?.address as string)).eq(true);
+      expect(contract?.blockNumber).gt(0);
+      expect(contract?.transactionHash).to.match(/^0x[0-9a-f]{64}$/);
+    }
+    expect(Object.keys(manifest.implementation?.libraries || {})).deep.eq([
+      ...SWAP_LIBRARIES,
+    ]);
+    expect(manifest.proxy?.admin).eq(
+      await upgrades.erc1967.getAdminAddress(manifest.proxy?.address as string)
+    );
+    expect(JSON.parse(readManifestFile())).deep.eq(manifest);
+
+    /**
+     * @dev The proxy is configured and owns its etherman
+     */
+    const Swap = await getSwap();
+    const Etherman = await ethers.getContractAt(
+      "Etherman",
+      manifest.etherman?.address as string
+    );
+    expect(await Swap.maxAllowedItems()).eq(3);
+    expect(await Swap.maxAllowedOptions()).eq(4);
+    expect(await Swap.whitelistedAddresses(MockedERC721.address)).eq(true);
+    expect(await Swap.etherman()).eq(manifest.etherman?.address);
+    expect(await Etherman.owner()).eq(Swap.address);
+    expect(await Etherman.WETH()).eq(MockedWETH9.address);
+  });
+
+  it("Should: deploy twice sends nothing, config changes are applied", async () => {
+    const { dir, deployer, MockedWETH9, MockedERC20, MockedERC721 } = fixtures;
+
+    const manifestFile = readManifestFile();
+    const nonce = await deployer.getTransactionCount();
+
+    await deploySwap(dir);
+
+    expect(await deployer.getTransactionCount()).eq(nonce);
+    expect(readManifestFile()).eq(manifestFile);
+
+    /**
+     * @dev The missing entries are whitelisted, the limits are queued and executed at once without timelock delay
+     */
+    writeConfig({
+      weth: MockedWETH9.address,
+      maxAllowedItems: 5,
+      maxAllowedOptions: 4,
+      whitelist: [
+        { address: MockedERC721.address },
+        { address: MockedERC20.address },
+      ],
+    });
+    const manifest = await deploySwap(dir);
+
+    expect(await deployer.getTransactionCount()).eq(nonce + 3);
+    const Swap = await getSwap();
+    expect(await Swap.maxAllowedItems()).eq(5);
+    expect(await Swap.whitelistedAddresses(MockedERC20.address)).eq(true);
+    expect(manifest.proxy).deep.eq(JSON.parse(manifestFile).proxy);
+  });
+
+  it("Should: upgrade only when the build changed and keep the proxy state", async () => {
+    const { dir, chainId, deployer, MockedERC20 } = fixtures;
+
+    const nonce = await deployer.getTransactionCount();
+    await upgradeSwap(dir);
+    expect(await deployer.getTransactionCount()).eq(nonce);
+
+    /**
+     * @dev Pretend the recorded implementation is an older build
+     */
+    const deployed = readDeploymentManifest(chainId, dir);
+    fs.writeFileSync(
+      path.join(dir, `${chainId}.json`),
+      JSON.stringify({
+        ...deployed,
+        implementation: { ...deployed.implementation, buildHash: "0x" },
+      })
+    );
+
+    const manifest = await upgradeSwap(dir);
+    const proxyAddress = manifest.proxy?.address as string;
+
+    expect(proxyAddress).eq(deployed.proxy?.address);
+    expect(manifest.implementation?.address).not.eq(
+      deployed.implementation?.address
+    );
+    expect(await upgrades.erc1967.getImplementationAddress(proxyAddress)).eq(
+      manifest.implementation?.address
+    );
+    expect(manifest.upgrades.length).eq(1);
+    expect(manifest.upgrades[0].previousImplementation.address).eq(
+      deployed.implementation?.address
+    );
+    expect(manifest.upgrades[0].transactionHash).to.match(/^0x[0-9a-f]{64}$/);
+
+    const Swap = await getSwap();
+    expect(await Swap.maxAllowedItems()).eq(5);
+    expect(await Swap.whitelistedAddresses(MockedERC20.address)).eq(true);
+  });
+
+  it("Should: verify each recorded contract once", async () => {
+    const { dir, MockedWETH9 } = fixtures;
+
+    const verified: Parameters<Verifier>[0][] = [];
+    const verifier: Verifier = async (contract) => {
+      verified.push(contract);
+    };
+
+    const manifest = await verifySwap(dir, verifier);
+    const implementation = manifest.implementation;
+
+    expect(verified.length).eq(SWAP_LIBRARIES.length + 2);
+    expect(verified[0]).deep.eq({
+      address: manifest.etherman?.address,
+      constructorArguments: [MockedWETH9.address],
+      libraries: {},
+    });
+    expect(verified[verified.length - 1]).deep.eq({
+      address: implementation?.address,
+      constructorArguments: [],
+      libraries: Object.fromEntries(
+        SWAP_LIBRARIES.map((name) => [
+          name,
+          implementation?.libraries[name].address,
+        ])
+      ),
+    });
+    expect(
+      readDeploymentManifest(fixtures.chainId, dir).implementation?.verified
+    ).eq(true);
+
+    await verifySwap(dir, verifier);
+    expect(verified.length).eq(SWAP_LIBRARIES.length + 2);
+  });
+
+  it("Should: missing configs and stale manifests are rejected", async () => {
+    const { dir, chainId } = fixtures;
+
+    const emptyDir = fs.mkdtempSync(path.join(os.tmpdir(), "hamsterswap-"));
+    await expect(deploySwap(emptyDir)).to.be.rejectedWith(
+      `No deployment config for chain ${chainId}`
+    );
+    await expect(upgradeSwap(emptyDir)).to.be.rejectedWith(
+      `HamsterSwap is not deployed on chain ${chainId}`
+    );
+
+    /**
+     * @dev e.g. a manifest left over by a restarted local node
+     */
+    const manifest = readDeploymentManifest(chainId, dir);
+    fs.mkdirSync(path.join(emptyDir, "config"));
+    fs.copyFileSync(
+      path.join(dir, "config", `${chainId}.json`),
+      path.join(emptyDir, "config", `${chainId}.json`)
+    );
+    fs.writeFileSync(
+      path.join(emptyDir, `${chainId}.json`),
+      JSON.stringify({
+        ...manifest,
+        etherman: { address: ethers.Wallet.createRandom().address },
+      })
+    );
+    await expect(deploySwap(emptyDir)).to.be.rejectedWith(
+      "Stale deployment manifest: no Etherman code"
+    );
+  });
+});
@@ -0,0 +1,275 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import os from "os";
+import path from "path";
+import { ethers, network } from "hardhat";
+
+import {
+  HamsterSwapClient,
+  ProposalStatus,
+  SwapItemStatus,
+  SwapItemType,
+} from "../src/sdk";
+import { HamsterSwapIndexer, JsonFileStore } from "../src/indexer";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwapIndexer", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, seller, buyer] = await ethers.getSigners();
+
+    const {
+      Swap,
+      EthermanContract,
+      MockedERC20,
+      MockedERC721,
+      MockedERC1155,
+      deployedAt,
+      owner,
+    } = await deploySwap({
+      nfts: { [seller.address]: [1, 2, 3, 4, 5] },
+      currencies: { [buyer.address]: ethers.utils.parseEther("100") },
+    });
+
+    /**
+     * @dev Store the state in a temporary json file
+     */
+    const storePath = path.join(
+      os.tmpdir(),
+      `hamsterswap-indexer-${Date.now()}.json`
+    );
+
+    return {
+      Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      Indexer: new HamsterSwapIndexer(Swap, new JsonFileStore(storePath), {
+        fromBlock: deployedAt,
+        batchSize: 5,
+      }),
+      storePath,
+      deployedAt,
+      MockedERC20,
+      MockedERC721,
+      MockedERC1155,
+      EthermanContract,
+      owner,
+      seller,
+      buyer,
+    };
+  }
+
+  /**
+   * @dev Create a proposal offering one nft for 10 erc20
+   */
+  const createProposal = async (id: string, tokenId: number) => {
+    const { SellerClient, MockedERC20, MockedERC721 } = fixtures;
+
+    await SellerClient.createProposal({
+      id,
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          id: `${id}_offeredItem`,
+          contractAddress: MockedERC721.address,
+          itemType: SwapItemType.Nft,
+          tokenId,
+        },
+      ],
+      swapOptions: [
+        {
+          id: `${id}_option`,
+          askingItems: [
+            {
+              id: `${id}_askingItem`,
+              contractAddress: MockedERC20.address,
+              itemType: SwapItemType.Currency,
+              amount: ethers.utils.parseEther("10"),
+            },
+          ],
+        },
+      ],
+    });
+  };
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: index created, redeemed and withdrawn proposals", async () => {
+    const { Indexer, BuyerClient, SellerClient, MockedERC20, MockedERC721 } =
+      fixtures;
+
+    await createProposal("proposal_1", 1);
+    await createProposal("proposal_2", 2);
+    await BuyerClient.fulfillProposal("proposal_1", "proposal_1_option");
+    await SellerClient.cancelProposal("proposal_2");
+
+    const checkpoint = await Indexer.sync();
+    expect(checkpoint?.blockNumber).eq(await ethers.provider.getBlockNumber());
+
+    /**
+     * @dev Expect proposals have been rebuilt properly
+     */
+    const proposal1 = await Indexer.getProposal("proposal_1");
+    expect(proposal1?.status).eq(ProposalStatus.Redeemed);
+    expect(proposal1?.fulfilledBy).eq(fixtures.buyer.address);
+    expect(proposal1?.fulfilledByOptionId).eq("proposal_1_option");
+    expect(proposal1?.offeredItems[0].status).eq(SwapItemStatus.Redeemed);
+    expect(proposal1?.swapOptions[0].askingItems[0].owner).eq(
+      fixtures.buyer.address
+    );
+    expect(proposal1?.swapOptions[0].askingItems[0].amount).eq(
+      ethers.utils.parseEther("10").toString()
+    );
+
+    const proposal2 = await Indexer.getProposal("proposal_2");
+    expect(proposal2?.status).eq(ProposalStatus.Withdrawn);
+    expect(proposal2?.offeredItems[0].status).eq(SwapItemStatus.Withdrawn);
+
+    /**
+     * @dev Expect proposals can be listed and filtered
+     */
+    const proposals = await Indexer.listProposals({
+      owner: fixtures.seller.address,
+    });
+    expect(proposals.map(({ id }) => id)).deep.eq(["proposal_1", "proposal_2"]);
+    expect(
+      await Indexer.listProposals({ status: ProposalStatus.Deposited })
+    ).length(0);
+
+    /**
+     * @dev Expect configuration has been recorded
+     */
+    const { configuration } = await Indexer.store.load();
+    expect(configuration?.maxAllowedItems).eq("3");
+    expect(configuration?.whitelistedAddresses).deep.eq([
+      MockedERC721.address,
+      MockedERC20.address,
+    ]);
+  });
+
+  it("Should: resume from the checkpoint", async () => {
+    const { Swap, storePath, deployedAt } = fixtures;
+
+    const { checkpoint, events } = await new JsonFileStore(storePath).load();
+
+    await createProposal("proposal_3", 3);
+
+    /**
+     * @dev A new indexer instance picks up from the stored checkpoint
+     */
+    const indexer = new HamsterSwapIndexer(Swap, new JsonFileStore(storePath), {
+      fromBlock: deployedAt,
+    });
+    const nextCheckpoint = await indexer.sync();
+
+    expect(nextCheckpoint?.blockNumber).gt(checkpoint?.blockNumber as number);
+
+    const state = await indexer.store.load();
+    expect(state.events.slice(0, events.length)).deep.eq(events);
+    expect(state.events.length).gt(events.length);
+    expect(state.proposals["proposal_3"].status).eq(ProposalStatus.Deposited);
+  });
+
+  it("Should: roll back blocks that are no longer canonical", async () => {
+    const { Indexer } = fixtures;
+
+    const snapshotId = await network.provider.send("evm_snapshot");
+
+    /**
+     * @dev Index a proposal that will be reorged out
+     */
+    await createProposal("proposal_4", 4);
+    await Indexer.sync();
+    expect(await Indexer.getProposal("proposal_4")).not.eq(undefined);
+
+    /**
+     * @dev Reorg: go back and build a different chain
+     */
+    await network.provider.send("evm_revert", [snapshotId]);
+    await network.provider.send("hardhat_mine", ["0x2"]);
+    await createProposal("proposal_5", 5);
+
+    const checkpoint = await Indexer.sync();
+    const block = await ethers.provider.getBlock("latest");
+
+    expect(checkpoint?.blockNumber).eq(block.number);
+    expect(checkpoint?.blockHash).eq(block.hash);
+    expect(await Indexer.getProposal("proposal_4")).eq(undefined);
+    expect((await Indexer.getProposal("proposal_5"))?.status).eq(
+      ProposalStatus.Deposited
+    );
+
+    const { events } = await Indexer.store.load();
+    expect(
+      events.filter(({ args }) => String(args.id).startsWith("proposal_4"))
+    ).length(0);
+  });
+
+  it("Should: index whitelist changes with their item types", async () => {
+    const { Swap, Indexer, MockedERC20, MockedERC721, MockedERC1155, owner } =
+      fixtures;
+
+    await Swap.connect(owner).addToWhitelist(
+      [MockedERC1155.address],
+      [SwapItemType.SemiFungible]
+    );
+    await Swap.connect(owner).removeFromWhitelist([MockedERC20.address]);
+    await Indexer.sync();
+
+    const { configuration } = await Indexer.store.load();
+    expect(configuration?.whitelistedAddresses).deep.eq([
+      MockedERC721.address,
+      MockedERC1155.address,
+    ]);
+    expect(configuration?.itemTypes).deep.eq({
+      [MockedERC721.address]: SwapItemType.Nft,
+      [MockedERC1155.address]: SwapItemType.SemiFungible,
+    });
+    expect(configuration?.maxAllowedItems).eq("3");
+  });
+
+  it("Should: apply the configuration changes executed through the timelock", async () => {
+    const { Swap, Indexer, EthermanContract, owner } = fixtures;
+
+    await Swap.connect(owner).setTimelockDelay(60);
+    await Swap.connect(owner).queueConfiguration(
+      5,
+      2,
+      EthermanContract.address
+    );
+    await Swap.connect(owner).queueConfiguration(
+      6,
+      2,
+      EthermanContract.address
+    );
+    await Indexer.sync();
+
+    /**
+     * @dev Queued changes are pending until executed
+     */
+    let state = await Indexer.store.load();
+    const [operationId, cancelledOperationId] = Object.keys(
+      state.queuedConfigurations || {}
+    );
+    expect(state.queuedConfigurations?.[operationId].maxAllowedItems).eq("5");
+    expect(state.configuration?.maxAllowedItems).eq("3");
+
+    await time.increase(60);
+    await Swap.connect(owner).executeConfiguration(
+      5,
+      2,
+      EthermanContract.address
+    );
+    await Swap.connect(owner).cancelConfiguration(cancelledOperationId);
+    await Indexer.sync();
+
+    state = await Indexer.store.load();
+    expect(state.configuration?.maxAllowedItems).eq("5");
+    expect(state.configuration?.maxAllowedOptions).eq("2");
+    expect(state.configuration?.executedOperationId).eq(operationId);
+    expect(state.queuedConfigurations).deep.eq({});
+  });
+});
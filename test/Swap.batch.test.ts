@@ -0,0 +1,396 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import {
+  HamsterSwapClient,
+  ProposalStatus,
+  SwapItemInput,
+  SwapItemType,
+} from "../src/sdk";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap batch fulfillment", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, seller, buyer, anotherBuyer] = await ethers.getSigners();
+
+    const { Swap, MockedERC20, MockedWETH9, MockedERC721 } = await deploySwap({
+      nfts: {
+        [seller.address]: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13],
+      },
+      currencies: { [buyer.address]: ethers.utils.parseEther("100") },
+      whitelist: (mocks) => [
+        mocks.MockedERC721.address,
+        mocks.MockedERC20.address,
+        mocks.MockedWETH9.address,
+      ],
+    });
+
+    const MockedReentrantBuyerContract = await ethers.getContractFactory(
+      "MockedReentrantBuyer"
+    );
+    const MockedReentrantBuyer = await MockedReentrantBuyerContract.deploy(
+      Swap.address
+    );
+
+    return {
+      Swap,
+      MockedReentrantBuyer,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      MockedERC20,
+      MockedWETH9,
+      MockedERC721,
+      seller,
+      buyer,
+      anotherBuyer,
+    };
+  }
+
+  /**
+   * @dev Offer an nft for an amount of the currency
+   */
+  const createProposal = async (
+    id: string,
+    tokenId: number,
+    currency: string,
+    amount: string,
+    allowedFulfillers: string[] = []
+  ) => {
+    const askingItems: SwapItemInput[] = [
+      {
+        contractAddress: currency,
+        itemType: SwapItemType.Currency,
+        amount: ethers.utils.parseEther(amount),
+      },
+    ];
+
+    await fixtures.SellerClient.createProposal({
+      id,
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: fixtures.MockedERC721.address,
+          itemType: SwapItemType.Nft,
+          tokenId,
+        },
+      ],
+      swapOptions: [{ id: `${id}_option`, askingItems }],
+      allowedFulfillers,
+    });
+  };
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: buyer fulfills several proposals with one approval of the total", async () => {
+    const { Swap, BuyerClient, MockedERC20, MockedERC721, seller, buyer } =
+      fixtures;
+
+    await createProposal("proposal_1", 1, MockedERC20.address, "2");
+    await createProposal("proposal_2", 2, MockedERC20.address, "3");
+
+    const receipt = await BuyerClient.fulfillProposals([
+      { proposalId: "proposal_1", optionId: "proposal_1_option" },
+      { proposalId: "proposal_2", optionId: "proposal_2_option" },
+    ]);
+
+    /**
+     * @dev The currencies of both options are approved at once
+     */
+    const approvals = await MockedERC20.queryFilter(
+      MockedERC20.filters.Approval(buyer.address, Swap.address),
+      0,
+      receipt.blockNumber - 1
+    );
+    expect(approvals.map(({ args }) => args?.value)).deep.eq([
+      ethers.utils.parseEther("5"),
+    ]);
+
+    await expect(receipt.transactionHash)
+      .to.emit(Swap, "ProposalsFulfilled")
+      .withArgs(
+        ["proposal_1", "proposal_2"],
+        [true, true],
+        buyer.address,
+        (timestamp: unknown) => !!timestamp
+      );
+    expect(await MockedERC20.balanceOf(seller.address)).eq(
+      ethers.utils.parseEther("5")
+    );
+    expect(await MockedERC20.balanceOf(Swap.address)).eq(0);
+    expect(await MockedERC721.ownerOf(1)).eq(buyer.address);
+    expect(await MockedERC721.ownerOf(2)).eq(buyer.address);
+  });
+
+  it("Should: a failed fulfillment reverts the whole batch", async () => {
+    const { Swap, BuyerClient, MockedERC20, buyer } = fixtures;
+
+    await createProposal("proposal_3", 3, MockedERC20.address, "1");
+    await MockedERC20.connect(buyer).approve(
+      Swap.address,
+      ethers.utils.parseEther("1")
+    );
+
+    /**
+     * @dev The first proposal is already redeemed
+     */
+    await expect(
+      Swap.connect(buyer).fulfillProposals(
+        [
+          { proposalId: "proposal_3", optionId: "proposal_3_option" },
+          { proposalId: "proposal_1", optionId: "proposal_1_option" },
+        ],
+        buyer.address,
+        false
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "InvalidProposalStatus")
+      .withArgs("proposal_1", ProposalStatus.Redeemed);
+
+    expect((await BuyerClient.getProposal("proposal_3")).status).eq(
+      ProposalStatus.Deposited
+    );
+    expect(await MockedERC20.balanceOf(Swap.address)).eq(0);
+  });
+
+  it("Should: failed fulfillments are skipped and their currencies refunded", async () => {
+    const {
+      Swap,
+      BuyerClient,
+      MockedERC20,
+      MockedERC721,
+      seller,
+      buyer,
+      anotherBuyer,
+    } = fixtures;
+
+    /**
+     * @dev The private proposal is paid for before its fulfillment fails
+     */
+    await createProposal("proposal_4", 4, MockedERC20.address, "4", [
+      anotherBuyer.address,
+    ]);
+
+    const fulfillments = [
+      { proposalId: "proposal_3", optionId: "proposal_3_option" },
+      { proposalId: "proposal_4", optionId: "proposal_4_option" },
+      { proposalId: "proposal_1", optionId: "proposal_1_option" },
+      { proposalId: "proposal_3", optionId: "unknown_option" },
+    ];
+    await MockedERC20.connect(buyer).approve(
+      Swap.address,
+      ethers.utils.parseEther("5")
+    );
+
+    const tx = await Swap.connect(buyer).fulfillProposals(
+      fulfillments,
+      buyer.address,
+      true
+    );
+
+    await expect(tx)
+      .to.emit(Swap, "ProposalsFulfilled")
+      .withArgs(
+        fulfillments.map(({ proposalId }) => proposalId),
+        [true, false, false, false],
+        buyer.address,
+        (timestamp: unknown) => !!timestamp
+      );
+    await expect(tx).to.changeTokenBalances(
+      MockedERC20,
+      [buyer, seller, Swap],
+      [ethers.utils.parseEther("-1"), ethers.utils.parseEther("1"), 0]
+    );
+
+    expect(await MockedERC721.ownerOf(3)).eq(buyer.address);
+    expect((await BuyerClient.getProposal("proposal_4")).status).eq(
+      ProposalStatus.Deposited
+    );
+  });
+
+  it("Should: one native payment covers the weth options and the excess is refunded", async () => {
+    const { Swap, BuyerClient, MockedERC20, MockedWETH9, MockedERC721 } =
+      fixtures;
+    const { seller, buyer, anotherBuyer } = fixtures;
+
+    await createProposal("proposal_5", 5, MockedWETH9.address, "2");
+    await createProposal("proposal_6", 6, MockedWETH9.address, "3");
+    await createProposal("proposal_7", 7, MockedERC20.address, "1");
+
+    const fulfillments = ["proposal_5", "proposal_6", "proposal_7"].map(
+      (proposalId) => ({ proposalId, optionId: `${proposalId}_option` })
+    );
+    const askingItems = (
+      await Promise.all(
+        fulfillments.map(({ proposalId }) =>
+          BuyerClient.getProposal(proposalId)
+        )
+      )
+    ).flatMap(({ swapOptions }) => swapOptions[0].askingItems);
+    const value = await BuyerClient.getNativeAmount(askingItems);
+    expect(value).eq(ethers.utils.parseEther("5"));
+
+    /**
+     * @dev No weth approval is needed, the seller receives the unwrapped coin
+     */
+    await MockedERC20.connect(buyer).approve(
+      Swap.address,
+      ethers.utils.parseEther("1")
+    );
+    await expect(
+      Swap.connect(buyer).fulfillProposals(fulfillments, buyer.address, false, {
+        value: value.add(ethers.utils.parseEther("1")),
+      })
+    ).to.changeEtherBalances([buyer, seller, Swap], [value.mul(-1), value, 0]);
+
+    expect(await MockedWETH9.allowance(buyer.address, Swap.address)).eq(0);
+    expect(await MockedWETH9.balanceOf(Swap.address)).eq(0);
+    for (const tokenId of [5, 6, 7]) {
+      expect(await MockedERC721.ownerOf(tokenId)).eq(buyer.address);
+    }
+
+    /**
+     * @dev The weth of a skipped fulfillment is refunded in native coin as well
+     */
+    await createProposal("proposal_8", 8, MockedWETH9.address, "2");
+    await createProposal("proposal_9", 9, MockedWETH9.address, "2", [
+      anotherBuyer.address,
+    ]);
+
+    await expect(
+      Swap.connect(buyer).fulfillProposals(
+        ["proposal_8", "proposal_9"].map((proposalId) => ({
+          proposalId,
+          optionId: `${proposalId}_option`,
+        })),
+        buyer.address,
+        true,
+        { value: ethers.utils.parseEther("4") }
+      )
+    ).to.changeEtherBalances(
+      [buyer, seller, Swap],
+      [ethers.utils.parseEther("-2"), ethers.utils.parseEther("2"), 0]
+    );
+
+    expect(await MockedERC721.ownerOf(8)).eq(buyer.address);
+    expect((await BuyerClient.getProposal("proposal_9")).status).eq(
+      ProposalStatus.Deposited
+    );
+    expect(await MockedWETH9.balanceOf(Swap.address)).eq(0);
+  });
+
+  it("Should: only the buyer or the transaction origin pays for a batch", async () => {
+    const { Swap, MockedERC20, buyer, anotherBuyer } = fixtures;
+
+    await MockedERC20.connect(buyer).approve(
+      Swap.address,
+      ethers.utils.parseEther("1")
+    );
+
+    await expect(
+      Swap.connect(anotherBuyer).fulfillProposals(
+        [{ proposalId: "proposal_3", optionId: "proposal_3_option" }],
+        buyer.address,
+        true
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "UnauthorizedActor")
+      .withArgs(buyer.address);
+  });
+
+  it("Should: outside callers cannot fulfill a batched proposal directly", async () => {
+    const { Swap, BuyerClient, MockedERC20, buyer } = fixtures;
+
+    await createProposal("proposal_13", 13, MockedERC20.address, "1");
+    await MockedERC20.connect(buyer).approve(
+      Swap.address,
+      ethers.utils.parseEther("1")
+    );
+
+    /**
+     * @dev The buyer approved the payment, yet a batched proposal is only fulfilled from the batch
+     */
+    await expect(
+      Swap.connect(buyer).fulfillBatchedProposal(
+        "proposal_13",
+        "proposal_13_option",
+        buyer.address
+      )
+    ).to.be.revertedWithCustomError(Swap, "BatchInProgress");
+    expect((await BuyerClient.getProposal("proposal_13")).status).eq(
+      ProposalStatus.Deposited
+    );
+  });
+
+  it("Should: a batch cannot be re-entered from its fulfillments nor its refunds", async () => {
+    const { Swap, MockedReentrantBuyer, MockedWETH9, MockedERC721, seller } =
+      fixtures;
+    const buyer = MockedReentrantBuyer.address;
+
+    await createProposal("proposal_10", 10, MockedWETH9.address, "1");
+    await createProposal("proposal_11", 11, MockedWETH9.address, "1");
+    await createProposal("proposal_12", 12, MockedWETH9.address, "1");
+
+    const batchOf = (proposalIds: string[]) =>
+      Swap.interface.encodeFunctionData("fulfillProposals", [
+        proposalIds.map((proposalId) => ({
+          proposalId,
+          optionId: `${proposalId}_option`,
+        })),
+        buyer,
+        false,
+      ]);
+
+    /**
+     * @dev The buyer tries to fulfill another proposal when receiving the nfts and the refund of the excess,
+     * it is sent the payment along and keeps the excess
+     */
+    await MockedReentrantBuyer.setReentry(
+      Swap.interface.encodeFunctionData("fulfillBatchedProposal", [
+        "proposal_12",
+        "proposal_12_option",
+        buyer,
+      ])
+    );
+    await expect(
+      MockedReentrantBuyer.execute(batchOf(["proposal_10", "proposal_11"]), {
+        value: ethers.utils.parseEther("3"),
+      })
+    ).to.changeEtherBalances(
+      [MockedReentrantBuyer, seller, Swap],
+      [ethers.utils.parseEther("1"), ethers.utils.parseEther("2"), 0]
+    );
+
+    const batchInProgress = ethers.utils.id("BatchInProgress()").slice(0, 10);
+    expect(await MockedReentrantBuyer.getReentryErrors()).deep.eq([
+      batchInProgress,
+      batchInProgress,
+      batchInProgress,
+    ]);
+    expect(await MockedERC721.ownerOf(10)).eq(buyer);
+    expect(await MockedERC721.ownerOf(11)).eq(buyer);
+    expect(await MockedWETH9.balanceOf(Swap.address)).eq(0);
+
+    /**
+     * @dev Nor can it start a new batch
+     */
+    await MockedReentrantBuyer.setReentry(batchOf(["proposal_12"]));
+    await MockedReentrantBuyer.execute(batchOf(["proposal_12"]), {
+      value: ethers.utils.parseEther("2"),
+    });
+
+    const reentrantCall = new ethers.utils.Interface([
+      "function Error(string)",
+    ]).encodeFunctionData("Error", ["ReentrancyGuard: reentrant call"]);
+    expect(await MockedReentrantBuyer.getReentryErrors()).deep.eq([
+      reentrantCall,
+      reentrantCall,
+    ]);
+    expect(await MockedERC721.ownerOf(12)).eq(buyer);
+    expect(await ethers.provider.getBalance(Swap.address)).eq(0);
+  });
+});
@@ -0,0 +1,242 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import {
+  buildTraitSetTree,
+  HamsterSwapClient,
+  ProposalStatus,
+  SwapItemInput,
+  SwapItemType,
+  TokenMetadata,
+  TokenSetTree,
+  verifyTokenProof,
+} from "../src/sdk";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap collection-wide asking items", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  /**
+   * @dev Tokens 2 and 5 have a gold background
+   */
+  const metadata: TokenMetadata[] = [1, 2, 3, 4, 5, 6].map((tokenId) => ({
+    tokenId,
+    attributes: [
+      {
+        trait_type: "Background",
+        value: tokenId === 2 || tokenId === 5 ? "Gold" : "Blue",
+      },
+      { trait_type: "Level", value: tokenId },
+    ],
+  }));
+
+  async function deployFixtures() {
+    const [, seller, buyer] = await ethers.getSigners();
+
+    /**
+     * @dev The buyer holds the collection, the seller pays in erc20
+     */
+    const { Swap, MockedERC20, MockedERC721 } = await deploySwap({
+      nfts: { [buyer.address]: metadata.map(({ tokenId }) => tokenId) },
+      currencies: { [seller.address]: ethers.utils.parseEther("100") },
+    });
+
+    return {
+      Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      MockedERC20,
+      MockedERC721,
+      seller,
+      buyer,
+    };
+  }
+
+  /**
+   * @dev Offer 10 erc20 for the asking item
+   */
+  const createProposal = async (id: string, askingItem: SwapItemInput) =>
+    fixtures.SellerClient.createProposal({
+      id,
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: fixtures.MockedERC20.address,
+          itemType: SwapItemType.Currency,
+          amount: ethers.utils.parseEther("10"),
+        },
+      ],
+      swapOptions: [
+        {
+          id: `${id}_option`,
+          askingItems: [{ id: `${id}_asking_item`, ...askingItem }],
+        },
+      ],
+    });
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: buyer fulfills a collection-wide item with any token", async () => {
+    const { Swap, SellerClient, BuyerClient, MockedERC20, MockedERC721 } =
+      fixtures;
+    const { seller, buyer } = fixtures;
+
+    await createProposal("proposal_1", {
+      contractAddress: MockedERC721.address,
+      itemType: SwapItemType.NftCollection,
+    });
+
+    /**
+     * @dev The token must be chosen
+     */
+    await expect(
+      Swap.connect(buyer).fulfillProposal(
+        "proposal_1",
+        "proposal_1_option",
+        buyer.address
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "AskingTokenRequired")
+      .withArgs("proposal_1_asking_item");
+
+    await BuyerClient.fulfillProposalWithTokens(
+      "proposal_1",
+      "proposal_1_option",
+      { proposal_1_asking_item: { tokenId: 3 } }
+    );
+
+    expect(await MockedERC721.ownerOf(3)).eq(seller.address);
+    expect(await MockedERC20.balanceOf(buyer.address)).eq(
+      ethers.utils.parseEther("10")
+    );
+
+    /**
+     * @dev The asking item is recorded as the token that was swapped
+     */
+    const { status, swapOptions } = await SellerClient.getProposal(
+      "proposal_1"
+    );
+    expect(status).eq(ProposalStatus.Redeemed);
+    expect(swapOptions[0].askingItems[0].itemType).eq(SwapItemType.Nft);
+    expect(swapOptions[0].askingItems[0].tokenId).eq(3);
+  });
+
+  it("Should: buyer fulfills a trait set item with a token of the set only", async () => {
+    const { Swap, SellerClient, BuyerClient, MockedERC721, seller, buyer } =
+      fixtures;
+
+    const tree = buildTraitSetTree(metadata, { Background: "Gold" });
+    expect(tree.has(2)).eq(true);
+    expect(tree.has(4)).eq(false);
+
+    await createProposal("proposal_2", {
+      contractAddress: MockedERC721.address,
+      itemType: SwapItemType.NftTraitSet,
+      merkleRoot: tree.root,
+    });
+
+    /**
+     * @dev A token out of the set cannot be sneaked in with the proof of another one
+     */
+    await MockedERC721.connect(buyer).setApprovalForAll(Swap.address, true);
+    await expect(
+      Swap.connect(buyer).fulfillProposalWithTokens(
+        "proposal_2",
+        "proposal_2_option",
+        buyer.address,
+        [{ tokenId: 4, proof: tree.getProof(5) }]
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "InvalidTokenProof")
+      .withArgs("proposal_2_asking_item", 4);
+    await expect(
+      Swap.connect(buyer).fulfillProposalWithTokens(
+        "proposal_2",
+        "proposal_2_option",
+        buyer.address,
+        [{ tokenId: 2, proof: tree.getProof(5) }]
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "InvalidTokenProof")
+      .withArgs("proposal_2_asking_item", 2);
+
+    await BuyerClient.fulfillProposalWithTokens(
+      "proposal_2",
+      "proposal_2_option",
+      { proposal_2_asking_item: { tokenId: 5, proof: tree.getProof(5) } }
+    );
+
+    expect(await MockedERC721.ownerOf(5)).eq(seller.address);
+    expect((await SellerClient.getProposal("proposal_2")).status).eq(
+      ProposalStatus.Redeemed
+    );
+  });
+
+  it("Should: collection-wide items can only be asked for", async () => {
+    const { Swap, SellerClient, MockedERC721, seller } = fixtures;
+
+    /**
+     * @dev Go through the contract directly, the client would look up the approval of token 0
+     */
+    const proposal = await SellerClient.buildProposal({
+      id: "proposal_3",
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          id: "proposal_3_offered_item",
+          contractAddress: MockedERC721.address,
+          itemType: SwapItemType.NftCollection,
+        },
+      ],
+      swapOptions: [],
+    });
+    await expect(
+      Swap.connect(seller).createProposal(
+        proposal.id,
+        proposal.owner,
+        proposal.offeredItems,
+        proposal.swapOptions,
+        proposal.expiredAt,
+        proposal.allowedFulfillers,
+        proposal.fillable
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "InvalidItemType")
+      .withArgs("proposal_3_offered_item", SwapItemType.NftCollection);
+
+    /**
+     * @dev Trait sets must commit to a root
+     */
+    await expect(
+      createProposal("proposal_4", {
+        contractAddress: MockedERC721.address,
+        itemType: SwapItemType.NftTraitSet,
+      })
+    )
+      .to.be.revertedWithCustomError(Swap, "InvalidItemType")
+      .withArgs("proposal_4_asking_item", SwapItemType.NftTraitSet);
+  });
+
+  it("Should: token set trees do not depend on the token order", async () => {
+    const tree = new TokenSetTree([5, 1, 3, 3, 7, 9]);
+
+    expect(new TokenSetTree([9, 7, 5, 3, 1]).root).eq(tree.root);
+    for (const tokenId of [1, 3, 5, 7, 9]) {
+      expect(verifyTokenProof(tree.root, tokenId, tree.getProof(tokenId))).eq(
+        true
+      );
+    }
+    expect(verifyTokenProof(tree.root, 2, tree.getProof(1))).eq(false);
+    expect(() => tree.getProof(2)).to.throw("Token 2 is not part of the set");
+
+    /**
+     * @dev A single token set is its own leaf
+     */
+    const single = new TokenSetTree([42]);
+    expect(single.getProof(42)).deep.eq([]);
+    expect(verifyTokenProof(single.root, 42, [])).eq(true);
+  });
+});
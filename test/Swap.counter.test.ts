@@ -0,0 +1,310 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import {
+  CounterOfferStatus,
+  HamsterSwapClient,
+  ProposalInput,
+  ProposalStatus,
+  SwapItemType,
+} from "../src/sdk";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap counter-offers", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, seller, buyer, anotherBuyer, stranger] = await ethers.getSigners();
+
+    /**
+     * @dev The seller offers nfts 1-4, buyers counter with erc20 or nfts 10-11
+     */
+    const { Swap, MockedERC20, MockedERC721 } = await deploySwap({
+      nfts: {
+        [seller.address]: [1, 2, 3, 4],
+        [anotherBuyer.address]: [10, 11],
+      },
+      currencies: Object.fromEntries(
+        [buyer, anotherBuyer, stranger].map(({ address }) => [
+          address,
+          ethers.utils.parseEther("10"),
+        ])
+      ),
+    });
+
+    return {
+      Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      AnotherBuyerClient: new HamsterSwapClient(Swap, anotherBuyer),
+      StrangerClient: new HamsterSwapClient(Swap, stranger),
+      MockedERC20,
+      MockedERC721,
+      seller,
+      buyer,
+      anotherBuyer,
+      stranger,
+    };
+  }
+
+  /**
+   * @dev Offer an nft for 10 erc20
+   */
+  const buildInput = async (
+    id: string,
+    tokenId: number,
+    allowedFulfillers?: string[]
+  ): Promise<ProposalInput> => ({
+    id,
+    expiredAt: (await time.latest()) + 60 * 60,
+    offeredItems: [
+      {
+        contractAddress: fixtures.MockedERC721.address,
+        itemType: SwapItemType.Nft,
+        tokenId,
+      },
+    ],
+    swapOptions: [
+      {
+        id: `${id}_option`,
+        askingItems: [
+          {
+            contractAddress: fixtures.MockedERC20.address,
+            itemType: SwapItemType.Currency,
+            amount: ethers.utils.parseEther("10"),
+          },
+        ],
+      },
+    ],
+    allowedFulfillers,
+  });
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: proposal owner accepts a counter-offer, other counter-offers stay withdrawable", async () => {
+    const {
+      Swap,
+      SellerClient,
+      BuyerClient,
+      AnotherBuyerClient,
+      StrangerClient,
+      MockedERC20,
+      MockedERC721,
+    } = fixtures;
+    const { seller, buyer, anotherBuyer, stranger } = fixtures;
+
+    await SellerClient.createProposal(await buildInput("proposal_1", 1));
+
+    /**
+     * @dev Buyers escrow their counter-offers
+     */
+    const { receipt } = await BuyerClient.createCounterOffer({
+      id: "counter_1",
+      proposalId: "proposal_1",
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: MockedERC20.address,
+          itemType: SwapItemType.Currency,
+          amount: ethers.utils.parseEther("5"),
+        },
+      ],
+    });
+    await expect(receipt.transactionHash)
+      .to.emit(Swap, "CounterOfferCreated")
+      .withArgs(
+        "counter_1",
+        "proposal_1",
+        buyer.address,
+        (timestamp: unknown) => !!timestamp
+      );
+
+    await AnotherBuyerClient.createCounterOffer({
+      id: "counter_2",
+      proposalId: "proposal_1",
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: MockedERC721.address,
+          itemType: SwapItemType.Nft,
+          tokenId: 10,
+        },
+      ],
+    });
+
+    expect(await MockedERC20.balanceOf(Swap.address)).eq(
+      ethers.utils.parseEther("5")
+    );
+    expect(await MockedERC721.ownerOf(10)).eq(Swap.address);
+    expect(
+      (await SellerClient.getCounterOffers("proposal_1")).map(
+        ({ id, owner, status }) => [id, owner, status]
+      )
+    ).to.deep.eq([
+      ["counter_1", buyer.address, CounterOfferStatus.Deposited],
+      ["counter_2", anotherBuyer.address, CounterOfferStatus.Deposited],
+    ]);
+
+    /**
+     * @dev Only the proposal owner can accept
+     */
+    await expect(StrangerClient.acceptCounterOffer("counter_1"))
+      .to.be.revertedWithCustomError(Swap, "NotProposalOwner")
+      .withArgs("proposal_1", stranger.address);
+
+    const { transactionHash } = await SellerClient.acceptCounterOffer(
+      "counter_1"
+    );
+    await expect(transactionHash)
+      .to.emit(Swap, "CounterOfferAccepted")
+      .withArgs(
+        "counter_1",
+        "proposal_1",
+        seller.address,
+        (timestamp: unknown) => !!timestamp
+      );
+
+    expect(await MockedERC721.ownerOf(1)).eq(buyer.address);
+    expect(await MockedERC20.balanceOf(seller.address)).eq(
+      ethers.utils.parseEther("5")
+    );
+
+    const { status, fulfilledBy, fulfilledByOptionId } =
+      await SellerClient.getProposal("proposal_1");
+    expect(status).eq(ProposalStatus.Redeemed);
+    expect(fulfilledBy).eq(buyer.address);
+    expect(fulfilledByOptionId).eq("counter_1");
+    expect((await SellerClient.getCounterOffer("counter_1")).status).eq(
+      CounterOfferStatus.Accepted
+    );
+
+    /**
+     * @dev The proposal is gone, the other counter-offer can only be withdrawn
+     */
+    await expect(SellerClient.acceptCounterOffer("counter_2"))
+      .to.be.revertedWithCustomError(Swap, "InvalidProposalStatus")
+      .withArgs("proposal_1", ProposalStatus.Redeemed);
+
+    await expect(
+      (
+        await AnotherBuyerClient.withdrawCounterOffer("counter_2")
+      ).transactionHash
+    )
+      .to.emit(Swap, "CounterOfferWithdrawn")
+      .withArgs(
+        "counter_2",
+        "proposal_1",
+        anotherBuyer.address,
+        (timestamp: unknown) => !!timestamp
+      );
+    expect(await MockedERC721.ownerOf(10)).eq(anotherBuyer.address);
+    expect(await MockedERC20.balanceOf(Swap.address)).eq(0);
+  });
+
+  it("Should: only the buyer can withdraw a counter-offer", async () => {
+    const { Swap, SellerClient, BuyerClient, MockedERC20, buyer } = fixtures;
+    const { seller } = fixtures;
+
+    await SellerClient.createProposal(await buildInput("proposal_2", 2));
+    await BuyerClient.createCounterOffer({
+      id: "counter_3",
+      proposalId: "proposal_2",
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: MockedERC20.address,
+          itemType: SwapItemType.Currency,
+          amount: ethers.utils.parseEther("1"),
+        },
+      ],
+    });
+
+    await expect(SellerClient.withdrawCounterOffer("counter_3"))
+      .to.be.revertedWithCustomError(Swap, "NotCounterOfferOwner")
+      .withArgs("counter_3", seller.address);
+
+    const balance = await MockedERC20.balanceOf(buyer.address);
+    await BuyerClient.withdrawCounterOffer("counter_3");
+    expect(await MockedERC20.balanceOf(buyer.address)).eq(
+      balance.add(ethers.utils.parseEther("1"))
+    );
+
+    /**
+     * @dev A withdrawn counter-offer cannot be accepted
+     */
+    await expect(SellerClient.acceptCounterOffer("counter_3"))
+      .to.be.revertedWithCustomError(Swap, "InvalidCounterOfferStatus")
+      .withArgs("counter_3", CounterOfferStatus.Withdrawn);
+
+    /**
+     * @dev The proposal is untouched
+     */
+    expect((await SellerClient.getProposal("proposal_2")).status).eq(
+      ProposalStatus.Deposited
+    );
+  });
+
+  it("Should: only allowed fulfillers can make counter-offers on a private proposal", async () => {
+    const { Swap, SellerClient, StrangerClient, MockedERC20, buyer, stranger } =
+      fixtures;
+
+    await SellerClient.createProposal(
+      await buildInput("proposal_3", 3, [buyer.address])
+    );
+
+    await expect(
+      StrangerClient.createCounterOffer({
+        id: "counter_4",
+        proposalId: "proposal_3",
+        expiredAt: (await time.latest()) + 60 * 60,
+        offeredItems: [
+          {
+            contractAddress: MockedERC20.address,
+            itemType: SwapItemType.Currency,
+            amount: ethers.utils.parseEther("1"),
+          },
+        ],
+      })
+    )
+      .to.be.revertedWithCustomError(Swap, "NotAllowedFulfiller")
+      .withArgs("proposal_3", stranger.address);
+  });
+
+  it("Should: expired counter-offer cannot be accepted but can be withdrawn", async () => {
+    const { Swap, SellerClient, AnotherBuyerClient, MockedERC721 } = fixtures;
+    const { anotherBuyer } = fixtures;
+
+    await SellerClient.createProposal(await buildInput("proposal_4", 4));
+
+    /**
+     * @dev Keep the expiry short, later suites derive expiries from the wall clock
+     */
+    const { counterOffer } = await AnotherBuyerClient.createCounterOffer({
+      id: "counter_5",
+      proposalId: "proposal_4",
+      expiredAt: (await time.latest()) + 10,
+      offeredItems: [
+        {
+          contractAddress: MockedERC721.address,
+          itemType: SwapItemType.Nft,
+          tokenId: 11,
+        },
+      ],
+    });
+
+    await time.increaseTo(counterOffer.expiredAt);
+
+    await expect(SellerClient.acceptCounterOffer("counter_5"))
+      .to.be.revertedWithCustomError(Swap, "CounterOfferExpired")
+      .withArgs("counter_5", counterOffer.expiredAt);
+
+    await AnotherBuyerClient.withdrawCounterOffer("counter_5");
+    expect(await MockedERC721.ownerOf(11)).eq(anotherBuyer.address);
+    expect((await SellerClient.getProposal("proposal_4")).status).eq(
+      ProposalStatus.Deposited
+    );
+  });
+});
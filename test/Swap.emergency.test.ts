@@ -0,0 +1,201 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import {
+  HamsterSwapClient,
+  ProposalInput,
+  ProposalStatus,
+  SwapItemStatus,
+  SwapItemType,
+} from "../src/sdk";
+import { SWAP_ROLES } from "../scripts/swap/administration";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap emergency withdrawals", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, seller, buyer, pauser] = await ethers.getSigners();
+
+    const { Swap, MockedERC20, MockedERC721, owner } = await deploySwap({
+      nfts: { [seller.address]: [1, 2, 3, 4, 5] },
+      currencies: { [buyer.address]: ethers.utils.parseEther("100") },
+    });
+    await Swap.connect(owner).grantRole(SWAP_ROLES.pauser, pauser.address);
+
+    return {
+      Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      PauserClient: new HamsterSwapClient(Swap, pauser),
+      MockedERC20,
+      MockedERC721,
+      seller,
+      buyer,
+      pauser,
+    };
+  }
+
+  /**
+   * @dev Offer an nft for 1 erc20
+   */
+  const buildInput = async (
+    id: string,
+    tokenId: number
+  ): Promise<ProposalInput> => ({
+    id,
+    expiredAt: (await time.latest()) + 60 * 60,
+    offeredItems: [
+      {
+        contractAddress: fixtures.MockedERC721.address,
+        itemType: SwapItemType.Nft,
+        tokenId,
+      },
+    ],
+    swapOptions: [
+      {
+        id: `${id}_option`,
+        askingItems: [
+          {
+            contractAddress: fixtures.MockedERC20.address,
+            itemType: SwapItemType.Currency,
+            amount: ethers.utils.parseEther("1"),
+          },
+        ],
+      },
+    ],
+  });
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: buyers recover their counter-offers while the swap is paused", async () => {
+    const { Swap, SellerClient, BuyerClient, MockedERC20 } = fixtures;
+    const { buyer, pauser } = fixtures;
+
+    await SellerClient.createProposal(await buildInput("proposal_1", 1));
+    await BuyerClient.createCounterOffer({
+      id: "counter_offer_1",
+      proposalId: "proposal_1",
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: MockedERC20.address,
+          itemType: SwapItemType.Currency,
+          amount: ethers.utils.parseEther("2"),
+        },
+      ],
+    });
+
+    await Swap.connect(pauser).pause();
+
+    /**
+     * @dev Nothing new enters the escrow
+     */
+    await expect(
+      SellerClient.createProposal(await buildInput("proposal_0", 5))
+    ).to.be.revertedWith("Pausable: paused");
+    await expect(
+      BuyerClient.fulfillProposal("proposal_1", "proposal_1_option")
+    ).to.be.revertedWith("Pausable: paused");
+
+    /**
+     * @dev What is deposited goes back out
+     */
+    await BuyerClient.withdrawCounterOffer("counter_offer_1");
+    expect(await MockedERC20.balanceOf(buyer.address)).eq(
+      ethers.utils.parseEther("100")
+    );
+
+    await Swap.connect(pauser).unpause();
+  });
+
+  it("Should: owners cancel their deposited proposals while the swap is paused", async () => {
+    const { Swap, SellerClient, MockedERC721, seller, pauser } = fixtures;
+
+    await Swap.connect(pauser).pause();
+
+    /**
+     * @dev `cancelProposal` is deliberately not paused, the owner is not forced
+     */
+    const cancelled = Swap.connect(seller).cancelProposal("proposal_1");
+    await expect(cancelled)
+      .to.emit(Swap, "ProposalWithdrawn")
+      .withArgs(
+        "proposal_1",
+        seller.address,
+        (timestamp: unknown) => !!timestamp
+      );
+    await expect(cancelled).not.to.emit(Swap, "ProposalEmergencyWithdrawn");
+    expect(await MockedERC721.ownerOf(1)).eq(seller.address);
+    expect((await SellerClient.getProposal("proposal_1")).status).eq(
+      ProposalStatus.Withdrawn
+    );
+
+    await Swap.connect(pauser).unpause();
+  });
+
+  it("Should: pausers force-return deposited proposals to their owners only while the swap is paused", async () => {
+    const { Swap, SellerClient, PauserClient, MockedERC721 } = fixtures;
+    const { seller, buyer, pauser } = fixtures;
+
+    for (let tokenId = 2; tokenId <= 4; tokenId++) {
+      await SellerClient.createProposal(
+        await buildInput(`proposal_${tokenId}`, tokenId)
+      );
+    }
+
+    await expect(Swap.connect(pauser).cancelProposal("proposal_2"))
+      .to.be.revertedWithCustomError(Swap, "NotProposalOwner")
+      .withArgs("proposal_2", pauser.address);
+
+    await Swap.connect(pauser).pause();
+
+    await expect(Swap.connect(buyer).cancelProposal("proposal_2"))
+      .to.be.revertedWithCustomError(Swap, "NotProposalOwner")
+      .withArgs("proposal_2", buyer.address);
+
+    await expect(Swap.connect(pauser).cancelProposal("proposal_2"))
+      .to.emit(Swap, "ProposalWithdrawn")
+      .withArgs(
+        "proposal_2",
+        pauser.address,
+        (timestamp: unknown) => !!timestamp
+      )
+      .and.to.emit(Swap, "ProposalEmergencyWithdrawn")
+      .withArgs(
+        "proposal_2",
+        pauser.address,
+        seller.address,
+        (timestamp: unknown) => !!timestamp
+      );
+
+    /**
+     * @dev Items go to the recorded owner, never to the pauser
+     */
+    expect(await MockedERC721.ownerOf(2)).eq(seller.address);
+    expect(await MockedERC721.balanceOf(pauser.address)).eq(0);
+
+    const { status, offeredItems } = await SellerClient.getProposal(
+      "proposal_2"
+    );
+    expect(status).eq(ProposalStatus.Withdrawn);
+    expect(offeredItems[0].status).eq(SwapItemStatus.Withdrawn);
+
+    await expect(Swap.connect(pauser).cancelProposal("proposal_2"))
+      .to.be.revertedWithCustomError(Swap, "InvalidProposalStatus")
+      .withArgs("proposal_2", ProposalStatus.Withdrawn);
+
+    /**
+     * @dev Several proposals are returned in one multicall
+     */
+    await PauserClient.forceReturnProposals(["proposal_3", "proposal_4"]);
+    expect(await MockedERC721.ownerOf(3)).eq(seller.address);
+    expect(await MockedERC721.ownerOf(4)).eq(seller.address);
+    expect(await MockedERC721.balanceOf(Swap.address)).eq(0);
+
+    await Swap.connect(pauser).unpause();
+  });
+});
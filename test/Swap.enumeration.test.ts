@@ -0,0 +1,251 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import {
+  HamsterSwapClient,
+  ProposalIndexType,
+  ProposalStatus,
+  SwapItemType,
+  SwapOptionInput,
+} from "../src/sdk";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap proposal enumeration", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, seller, buyer] = await ethers.getSigners();
+
+    const MockedERC20Contract = await ethers.getContractFactory("MockedERC20");
+    const AnotherERC20 = await MockedERC20Contract.deploy();
+
+    const { Swap, MockedERC20, MockedERC721 } = await deploySwap({
+      nfts: { [seller.address]: [1, 2, 3] },
+      currencies: {
+        [seller.address]: ethers.utils.parseEther("100"),
+        [buyer.address]: ethers.utils.parseEther("100"),
+      },
+      whitelist: (mocks) => [
+        mocks.MockedERC721.address,
+        mocks.MockedERC20.address,
+        AnotherERC20.address,
+      ],
+    });
+
+    return {
+      Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      MockedERC20,
+      AnotherERC20,
+      MockedERC721,
+      seller,
+      buyer,
+    };
+  }
+
+  /**
+   * @dev Ask for an amount of erc20
+   */
+  const askForERC20 = (
+    id: string,
+    amount: string,
+    contractAddress = fixtures.MockedERC20.address
+  ): SwapOptionInput => ({
+    id,
+    askingItems: [
+      {
+        contractAddress,
+        itemType: SwapItemType.Currency,
+        amount: ethers.utils.parseEther(amount),
+      },
+    ],
+  });
+
+  /**
+   * @dev Offer an nft for 5 erc20
+   */
+  const createProposal = async (id: string, tokenId: number) =>
+    fixtures.SellerClient.createProposal({
+      id,
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: fixtures.MockedERC721.address,
+          itemType: SwapItemType.Nft,
+          tokenId,
+        },
+      ],
+      swapOptions: [askForERC20(`${id}_option`, "5")],
+    });
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: list proposals by owner, status and collection", async () => {
+    const { SellerClient, BuyerClient, MockedERC20, MockedERC721 } = fixtures;
+    const { seller, buyer } = fixtures;
+
+    for (let tokenId = 1; tokenId <= 3; tokenId++) {
+      await createProposal(`proposal_${tokenId}`, tokenId);
+    }
+
+    expect(
+      await SellerClient.getProposalIds({ indexType: ProposalIndexType.All })
+    ).deep.eq({
+      ids: ["proposal_1", "proposal_2", "proposal_3"],
+      total: 3,
+    });
+    expect(
+      await SellerClient.getProposalIds({
+        indexType: ProposalIndexType.Owner,
+        key: seller.address,
+        offset: 1,
+        limit: 5,
+      })
+    ).deep.eq({ ids: ["proposal_2", "proposal_3"], total: 3 });
+    expect(
+      await SellerClient.getProposalIds({
+        indexType: ProposalIndexType.Owner,
+        key: buyer.address,
+      })
+    ).deep.eq({ ids: [], total: 0 });
+
+    /**
+     * @dev Offered and asked collections are both indexed
+     */
+    for (const key of [MockedERC721.address, MockedERC20.address]) {
+      expect(
+        (
+          await SellerClient.getProposalIds({
+            indexType: ProposalIndexType.Collection,
+            key,
+          })
+        ).ids
+      ).deep.eq(["proposal_1", "proposal_2", "proposal_3"]);
+    }
+
+    /**
+     * @dev Redeemed and withdrawn proposals move to their status and leave the collections
+     */
+    await BuyerClient.fulfillProposal("proposal_1", "proposal_1_option");
+    await SellerClient.cancelProposal("proposal_2");
+
+    const listByStatus = async (status: ProposalStatus) =>
+      (
+        await SellerClient.getProposalIds({
+          indexType: ProposalIndexType.Status,
+          status,
+        })
+      ).ids;
+
+    expect(await listByStatus(ProposalStatus.Deposited)).deep.eq([
+      "proposal_3",
+    ]);
+    expect(await listByStatus(ProposalStatus.Redeemed)).deep.eq(["proposal_1"]);
+    expect(await listByStatus(ProposalStatus.Withdrawn)).deep.eq([
+      "proposal_2",
+    ]);
+    expect(
+      (
+        await SellerClient.getProposalIds({
+          indexType: ProposalIndexType.Collection,
+          key: MockedERC721.address,
+        })
+      ).ids
+    ).deep.eq(["proposal_3"]);
+    expect(
+      await SellerClient.getAllProposalIds({
+        indexType: ProposalIndexType.Fulfiller,
+        key: buyer.address,
+      })
+    ).deep.eq(["proposal_1"]);
+  });
+
+  it("Should: list a fillable proposal once per fulfiller", async () => {
+    const { SellerClient, BuyerClient, MockedERC20, buyer } = fixtures;
+
+    await SellerClient.createProposal({
+      id: "proposal_4",
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: MockedERC20.address,
+          itemType: SwapItemType.Currency,
+          amount: ethers.utils.parseEther("10"),
+        },
+      ],
+      swapOptions: [askForERC20("proposal_4_option", "20")],
+      fillable: true,
+    });
+
+    for (const amount of ["4", "6"]) {
+      await BuyerClient.fillProposal(
+        "proposal_4",
+        "proposal_4_option",
+        ethers.utils.parseEther(amount)
+      );
+    }
+
+    expect(
+      await SellerClient.getAllProposalIds({
+        indexType: ProposalIndexType.Fulfiller,
+        key: buyer.address,
+      })
+    ).deep.eq(["proposal_1", "proposal_4"]);
+    expect(
+      (
+        await SellerClient.getProposalIds({
+          indexType: ProposalIndexType.Status,
+          status: ProposalStatus.Redeemed,
+        })
+      ).ids
+    ).deep.eq(["proposal_1", "proposal_4"]);
+  });
+
+  it("Should: follow the collections of updated options", async () => {
+    const { SellerClient, AnotherERC20 } = fixtures;
+
+    const listByCollection = async () =>
+      (
+        await SellerClient.getProposalIds({
+          indexType: ProposalIndexType.Collection,
+          key: AnotherERC20.address,
+        })
+      ).ids;
+
+    await SellerClient.updateProposal("proposal_3", {
+      addedSwapOptions: [
+        askForERC20("proposal_3_option_2", "5", AnotherERC20.address),
+      ],
+    });
+    expect(await listByCollection()).deep.eq(["proposal_3"]);
+
+    await SellerClient.updateProposal("proposal_3", {
+      removedOptionIds: ["proposal_3_option_2"],
+    });
+    expect(await listByCollection()).deep.eq([]);
+  });
+
+  it("Should: read whole indexes page by page", async () => {
+    const { SellerClient } = fixtures;
+
+    expect(
+      await SellerClient.getAllProposalIds({
+        indexType: ProposalIndexType.All,
+        limit: 3,
+      })
+    ).deep.eq(["proposal_1", "proposal_2", "proposal_3", "proposal_4"]);
+
+    const { proposals, total } = await SellerClient.getProposals({
+      indexType: ProposalIndexType.Status,
+      status: ProposalStatus.Deposited,
+    });
+    expect(total).eq(1);
+    expect(proposals.map(({ id, status }) => [id, status])).deep.eq([
+      ["proposal_3", ProposalStatus.Deposited],
+    ]);
+  });
+});
@@ -0,0 +1,211 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import {
+  HamsterSwapClient,
+  ProposalStatus,
+  SwapItemStatus,
+  SwapItemType,
+} from "../src/sdk";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap with ERC1155 items", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, seller, buyer] = await ethers.getSigners();
+
+    const { Swap, MockedERC20, MockedERC721, MockedERC1155, owner } =
+      await deploySwap({
+        nfts: { [seller.address]: [1, 2] },
+        currencies: {
+          [seller.address]: ethers.utils.parseEther("10"),
+          [buyer.address]: ethers.utils.parseEther("10"),
+        },
+        whitelist: (mocks) => [
+          mocks.MockedERC721.address,
+          mocks.MockedERC1155.address,
+          mocks.MockedERC20.address,
+        ],
+      });
+
+    /**
+     * @dev Mint erc1155
+     */
+    await MockedERC1155.connect(owner).mint(seller.address, "1", "10");
+    await MockedERC1155.connect(owner).mint(buyer.address, "2", "10");
+
+    return {
+      Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      MockedERC20,
+      MockedERC721,
+      MockedERC1155,
+      seller,
+      buyer,
+    };
+  }
+
+  /**
+   * @dev Offer 721 + 1155 + 20, ask for 1155 + 20
+   */
+  const createMixedProposal = async (id: string, tokenId: number) => {
+    const { SellerClient, MockedERC20, MockedERC721, MockedERC1155 } = fixtures;
+
+    await SellerClient.createProposal({
+      id,
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          id: `${id}_offeredItem_1`,
+          contractAddress: MockedERC721.address,
+          itemType: SwapItemType.Nft,
+          tokenId,
+        },
+        {
+          id: `${id}_offeredItem_2`,
+          contractAddress: MockedERC1155.address,
+          itemType: SwapItemType.SemiFungible,
+          tokenId: 1,
+          amount: 4,
+        },
+        {
+          id: `${id}_offeredItem_3`,
+          contractAddress: MockedERC20.address,
+          itemType: SwapItemType.Currency,
+          amount: ethers.utils.parseEther("5"),
+        },
+      ],
+      swapOptions: [
+        {
+          id: `${id}_option_1`,
+          askingItems: [
+            {
+              id: `${id}_askingItem_1`,
+              contractAddress: MockedERC1155.address,
+              itemType: SwapItemType.SemiFungible,
+              tokenId: 2,
+              amount: 3,
+            },
+            {
+              id: `${id}_askingItem_2`,
+              contractAddress: MockedERC20.address,
+              itemType: SwapItemType.Currency,
+              amount: ethers.utils.parseEther("2"),
+            },
+          ],
+        },
+      ],
+    });
+  };
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: swap supports the erc1155 receiver interface", async () => {
+    const { Swap } = fixtures;
+
+    expect(await Swap.supportsInterface("0x4e2312e0")).to.be.true; // IERC1155Receiver
+    expect(await Swap.supportsInterface("0x01ffc9a7")).to.be.true; // IERC165
+    expect(await Swap.supportsInterface("0xffffffff")).to.be.false;
+  });
+
+  it("Should: anyone can create a mixed 721/1155/20 proposal", async () => {
+    const { Swap, SellerClient, MockedERC721, MockedERC1155, seller } =
+      fixtures;
+
+    await createMixedProposal("proposal_1", 1);
+
+    const { status, offeredItems } = await SellerClient.getProposal(
+      "proposal_1"
+    );
+
+    expect(status).eq(ProposalStatus.Deposited);
+    expect(offeredItems[1].itemType).eq(SwapItemType.SemiFungible);
+    expect(offeredItems[1].tokenId).eq(1);
+    expect(offeredItems[1].amount).eq(4);
+    expect(offeredItems[1].status).eq(SwapItemStatus.Deposited);
+
+    /**
+     * @dev Items are escrowed
+     */
+    expect(await MockedERC721.ownerOf(1)).eq(Swap.address);
+    expect(await MockedERC1155.balanceOf(Swap.address, 1)).eq(4);
+    expect(await MockedERC1155.balanceOf(seller.address, 1)).eq(6);
+  });
+
+  it("Should: anyone can fulfill a mixed proposal with erc1155 items", async () => {
+    const {
+      Swap,
+      BuyerClient,
+      MockedERC20,
+      MockedERC721,
+      MockedERC1155,
+      seller,
+      buyer,
+    } = fixtures;
+
+    await BuyerClient.fulfillProposal("proposal_1", "proposal_1_option_1");
+
+    const { status, offeredItems, swapOptions } = await BuyerClient.getProposal(
+      "proposal_1"
+    );
+
+    expect(status).eq(ProposalStatus.Redeemed);
+    offeredItems.map((item) => expect(item.status).eq(SwapItemStatus.Redeemed));
+    swapOptions[0].askingItems.map((item) => {
+      expect(item.status).eq(SwapItemStatus.Redeemed);
+      expect(item.owner).eq(buyer.address);
+    });
+
+    /**
+     * @dev Buyer receives the offered items
+     */
+    expect(await MockedERC721.ownerOf(1)).eq(buyer.address);
+    expect(await MockedERC1155.balanceOf(buyer.address, 1)).eq(4);
+    expect(await MockedERC20.balanceOf(buyer.address)).eq(
+      ethers.utils.parseEther("13")
+    );
+
+    /**
+     * @dev Seller receives the asking items
+     */
+    expect(await MockedERC1155.balanceOf(seller.address, 2)).eq(3);
+    expect(await MockedERC1155.balanceOf(buyer.address, 2)).eq(7);
+    expect(await MockedERC20.balanceOf(seller.address)).eq(
+      ethers.utils.parseEther("7")
+    );
+
+    /**
+     * @dev Nothing is left in the vault
+     */
+    expect(await MockedERC1155.balanceOf(Swap.address, 1)).eq(0);
+    expect(await MockedERC1155.balanceOf(Swap.address, 2)).eq(0);
+    expect(await MockedERC20.balanceOf(Swap.address)).eq(0);
+  });
+
+  it("Should: proposal owner can withdraw erc1155 items", async () => {
+    const { Swap, SellerClient, MockedERC721, MockedERC1155, seller } =
+      fixtures;
+
+    await createMixedProposal("proposal_2", 2);
+    expect(await MockedERC1155.balanceOf(seller.address, 1)).eq(2);
+
+    await SellerClient.cancelProposal("proposal_2");
+
+    const { status, offeredItems } = await SellerClient.getProposal(
+      "proposal_2"
+    );
+
+    expect(status).eq(ProposalStatus.Withdrawn);
+    offeredItems.map((item) =>
+      expect(item.status).eq(SwapItemStatus.Withdrawn)
+    );
+    expect(await MockedERC721.ownerOf(2)).eq(seller.address);
+    expect(await MockedERC1155.balanceOf(seller.address, 1)).eq(6);
+    expect(await MockedERC1155.balanceOf(Swap.address, 1)).eq(0);
+  });
+});
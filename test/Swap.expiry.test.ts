@@ -0,0 +1,277 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import os from "os";
+import path from "path";
+import { ethers } from "hardhat";
+
+import {
+  HamsterSwapClient,
+  ProposalInput,
+  ProposalStatus,
+  SwapItemStatus,
+  SwapItemType,
+} from "../src/sdk";
+import { HamsterSwapIndexer, JsonFileStore } from "../src/indexer";
+import { HamsterSwapKeeper } from "../src/keeper";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap expired proposals", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, seller, buyer, keeper] = await ethers.getSigners();
+
+    const { Swap, MockedERC20, MockedERC721, deployedAt } = await deploySwap({
+      nfts: { [seller.address]: [1, 2, 3, 4, 5, 6, 7, 8] },
+      currencies: {
+        [seller.address]: ethers.utils.parseEther("100"),
+        [buyer.address]: ethers.utils.parseEther("100"),
+      },
+    });
+
+    const KeeperClient = new HamsterSwapClient(Swap, keeper);
+
+    return {
+      Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      KeeperClient,
+      Keeper: new HamsterSwapKeeper(
+        KeeperClient,
+        new HamsterSwapIndexer(
+          Swap,
+          new JsonFileStore(
+            path.join(os.tmpdir(), `hamsterswap-keeper-${Date.now()}.json`)
+          ),
+          { fromBlock: deployedAt }
+        ),
+        { batchSize: 2 }
+      ),
+      MockedERC20,
+      MockedERC721,
+      seller,
+      buyer,
+      keeper,
+    };
+  }
+
+  /**
+   * @dev Offer an nft for 1 erc20, expiring shortly so that the suite only moves the clock a little
+   */
+  const buildInput = async (
+    id: string,
+    tokenId: number,
+    expiresIn = 30
+  ): Promise<ProposalInput> => ({
+    id,
+    expiredAt: (await time.latest()) + expiresIn,
+    offeredItems: [
+      {
+        contractAddress: fixtures.MockedERC721.address,
+        itemType: SwapItemType.Nft,
+        tokenId,
+      },
+    ],
+    swapOptions: [
+      {
+        id: `${id}_option`,
+        askingItems: [
+          {
+            contractAddress: fixtures.MockedERC20.address,
+            itemType: SwapItemType.Currency,
+            amount: ethers.utils.parseEther("1"),
+          },
+        ],
+      },
+    ],
+  });
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: anyone can reclaim an expired proposal to its owner", async () => {
+    const { Swap, SellerClient, BuyerClient, KeeperClient, MockedERC721 } =
+      fixtures;
+    const { seller, keeper } = fixtures;
+
+    await SellerClient.createProposal(await buildInput("proposal_1", 1));
+
+    await expect(KeeperClient.reclaimExpiredProposals(["proposal_0"]))
+      .to.be.revertedWithCustomError(Swap, "ProposalNotFound")
+      .withArgs("proposal_0");
+
+    const { expiredAt } = await SellerClient.getProposal("proposal_1");
+    await expect(KeeperClient.reclaimExpiredProposals(["proposal_1"]))
+      .to.be.revertedWithCustomError(Swap, "ProposalNotExpired")
+      .withArgs("proposal_1", expiredAt);
+
+    await time.increase(60);
+
+    await expect(Swap.connect(keeper).reclaimExpiredProposal("proposal_1"))
+      .to.emit(Swap, "ExpiredProposalReclaimed")
+      .withArgs(
+        "proposal_1",
+        keeper.address,
+        (timestamp: unknown) => !!timestamp
+      );
+
+    /**
+     * @dev Items are back to the owner, not to the caller
+     */
+    expect(await MockedERC721.ownerOf(1)).eq(seller.address);
+
+    const { status, offeredItems } = await SellerClient.getProposal(
+      "proposal_1"
+    );
+    expect(status).eq(ProposalStatus.Expired);
+    expect(offeredItems[0].status).eq(SwapItemStatus.Withdrawn);
+
+    /**
+     * @dev The proposal is closed for good
+     */
+    await expect(BuyerClient.fulfillProposal("proposal_1", "proposal_1_option"))
+      .to.be.revertedWithCustomError(Swap, "InvalidProposalStatus")
+      .withArgs("proposal_1", ProposalStatus.Expired);
+    await expect(SellerClient.cancelProposal("proposal_1"))
+      .to.be.revertedWithCustomError(Swap, "InvalidProposalStatus")
+      .withArgs("proposal_1", ProposalStatus.Expired);
+    await expect(KeeperClient.reclaimExpiredProposals(["proposal_1"]))
+      .to.be.revertedWithCustomError(Swap, "InvalidProposalStatus")
+      .withArgs("proposal_1", ProposalStatus.Expired);
+  });
+
+  it("Should: reclaim what remains of an expired fillable proposal", async () => {
+    const { SellerClient, BuyerClient, KeeperClient, MockedERC20 } = fixtures;
+    const { seller, buyer } = fixtures;
+
+    await SellerClient.createProposal({
+      id: "proposal_2",
+      expiredAt: (await time.latest()) + 30,
+      offeredItems: [
+        {
+          contractAddress: MockedERC20.address,
+          itemType: SwapItemType.Currency,
+          amount: ethers.utils.parseEther("10"),
+        },
+      ],
+      swapOptions: [
+        {
+          id: "proposal_2_option",
+          askingItems: [
+            {
+              contractAddress: MockedERC20.address,
+              itemType: SwapItemType.Currency,
+              amount: ethers.utils.parseEther("20"),
+            },
+          ],
+        },
+      ],
+      fillable: true,
+    });
+    await BuyerClient.fillProposal(
+      "proposal_2",
+      "proposal_2_option",
+      ethers.utils.parseEther("4")
+    );
+
+    await time.increase(60);
+
+    const sellerBalance = await MockedERC20.balanceOf(seller.address);
+    await KeeperClient.reclaimExpiredProposals(["proposal_2"]);
+
+    expect(await MockedERC20.balanceOf(seller.address)).eq(
+      sellerBalance.add(ethers.utils.parseEther("6"))
+    );
+    expect(await MockedERC20.balanceOf(buyer.address)).eq(
+      ethers.utils.parseEther("96")
+    );
+    expect((await SellerClient.getProposal("proposal_2")).status).eq(
+      ProposalStatus.Expired
+    );
+  });
+
+  it("Should: keeper sweeps expired proposals in batches", async () => {
+    const { Swap, SellerClient, Keeper, MockedERC721, seller } = fixtures;
+
+    for (let tokenId = 3; tokenId <= 5; tokenId++) {
+      await SellerClient.createProposal(
+        await buildInput(`proposal_${tokenId}`, tokenId)
+      );
+    }
+    await SellerClient.createProposal(
+      await buildInput("proposal_6", 6, 60 * 60)
+    );
+
+    expect(await Keeper.findExpiredProposals()).deep.eq([]);
+
+    await time.increase(60);
+
+    /**
+     * @dev Three expired proposals are swept in two transactions, the live one is left untouched
+     */
+    const { reclaimedIds, receipts } = await Keeper.sweep();
+    expect(reclaimedIds).deep.eq(["proposal_3", "proposal_4", "proposal_5"]);
+    expect(receipts).length(2);
+    await expect(receipts[1].transactionHash)
+      .to.emit(Swap, "ExpiredProposalReclaimed")
+      .withArgs(
+        "proposal_5",
+        fixtures.keeper.address,
+        (timestamp: unknown) => !!timestamp
+      );
+
+    for (let tokenId = 3; tokenId <= 5; tokenId++) {
+      expect(await MockedERC721.ownerOf(tokenId)).eq(seller.address);
+    }
+    expect(await MockedERC721.ownerOf(6)).eq(Swap.address);
+    expect((await SellerClient.getProposal("proposal_6")).status).eq(
+      ProposalStatus.Deposited
+    );
+
+    /**
+     * @dev The indexed state catches up, nothing is left to sweep
+     */
+    expect((await Keeper.sweep()).reclaimedIds).deep.eq([]);
+    expect((await Keeper.indexer.getProposal("proposal_3"))?.status).eq(
+      ProposalStatus.Expired
+    );
+  });
+
+  it("Should: keeper skips a listed proposal that is no longer deposited", async () => {
+    const { Swap, SellerClient, Keeper, MockedERC721, seller } = fixtures;
+
+    for (let tokenId = 7; tokenId <= 8; tokenId++) {
+      await SellerClient.createProposal(
+        await buildInput(`proposal_${tokenId}`, tokenId)
+      );
+    }
+    await time.increase(60);
+
+    /**
+     * @dev The owner withdraws a proposal after it was listed
+     */
+    const listedIds = await Keeper.findExpiredProposals();
+    expect(listedIds).deep.eq(["proposal_7", "proposal_8"]);
+    await SellerClient.cancelProposal("proposal_7");
+
+    const { reclaimedIds, skippedIds, receipts } = await Keeper.reclaim(
+      listedIds
+    );
+    expect(reclaimedIds).deep.eq(["proposal_8"]);
+    expect(skippedIds).deep.eq(["proposal_7"]);
+    expect(receipts).length(1);
+    await expect(receipts[0].transactionHash)
+      .to.emit(Swap, "ExpiredProposalReclaimed")
+      .withArgs(
+        "proposal_8",
+        fixtures.keeper.address,
+        (timestamp: unknown) => !!timestamp
+      );
+
+    expect((await SellerClient.getProposal("proposal_7")).status).eq(
+      ProposalStatus.Withdrawn
+    );
+    expect(await MockedERC721.ownerOf(8)).eq(seller.address);
+  });
+});
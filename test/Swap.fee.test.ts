@@ -0,0 +1,321 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { HamsterSwapClient, SwapItemType, splitProtocolFee } from "../src/sdk";
+import { SWAP_ROLES } from "../scripts/swap/administration";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap protocol fee", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, seller, buyer, feeRecipient] = await ethers.getSigners();
+
+    const { Swap, MockedERC20, MockedWETH9, MockedERC721, owner } =
+      await deploySwap({
+        nfts: {
+          [seller.address]: [1, 2, 3, 4],
+          [buyer.address]: [5],
+        },
+        currencies: {
+          [buyer.address]: ethers.utils.parseEther("100"),
+          [seller.address]: ethers.utils.parseEther("100"),
+        },
+        whitelist: (mocks) => [
+          mocks.MockedERC721.address,
+          mocks.MockedERC20.address,
+          mocks.MockedWETH9.address,
+        ],
+      });
+
+    return {
+      Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      MockedERC20,
+      MockedWETH9,
+      MockedERC721,
+      owner,
+      seller,
+      buyer,
+      feeRecipient,
+    };
+  }
+
+  const expiredAt = async () => (await time.latest()) + 60 * 60;
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: only config admins can configure protocol fee within the cap", async () => {
+    const { Swap, owner, buyer, feeRecipient } = fixtures;
+
+    expect(await Swap.protocolFeeBasisPoints()).eq(0);
+
+    await expect(
+      Swap.connect(buyer).configureProtocolFee(100, feeRecipient.address)
+    )
+      .to.be.revertedWithCustomError(Swap, "MissingRole")
+      .withArgs(SWAP_ROLES.configAdmin, buyer.address);
+
+    await expect(
+      Swap.connect(owner).configureProtocolFee(1001, feeRecipient.address)
+    )
+      .to.be.revertedWithCustomError(Swap, "ProtocolFeeTooHigh")
+      .withArgs(1001, 1000);
+
+    await expect(
+      Swap.connect(owner).configureProtocolFee(
+        100,
+        ethers.constants.AddressZero
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "InvalidProtocolFeeRecipient")
+      .withArgs(ethers.constants.AddressZero);
+
+    await expect(
+      Swap.connect(owner).configureProtocolFee(250, feeRecipient.address)
+    )
+      .to.emit(Swap, "ProtocolFeeConfigurationChanged")
+      .withArgs(
+        owner.address,
+        (timestamp: unknown) => !!timestamp,
+        250,
+        feeRecipient.address
+      );
+
+    expect(await Swap.protocolFeeBasisPoints()).eq(250);
+    expect(await Swap.protocolFeeRecipient()).eq(feeRecipient.address);
+  });
+
+  it("Should: fee math rounds down in favor of users", async () => {
+    expect(splitProtocolFee(399, 250).fee).eq(9);
+    expect(splitProtocolFee(399, 250).payout).eq(390);
+    expect(splitProtocolFee(39, 250).fee).eq(0);
+    expect(splitProtocolFee(ethers.utils.parseEther("10"), 250).payout).eq(
+      ethers.utils.parseEther("9.75")
+    );
+  });
+
+  it("Should: charge fee on erc20 legs of both sides", async () => {
+    const {
+      Swap,
+      SellerClient,
+      BuyerClient,
+      MockedERC20,
+      MockedERC721,
+      seller,
+      buyer,
+      feeRecipient,
+    } = fixtures;
+
+    /**
+     * @dev Offer 1 nft + 4 erc20, ask for 10 erc20
+     */
+    await SellerClient.createProposal({
+      id: "proposal_1",
+      expiredAt: await expiredAt(),
+      offeredItems: [
+        {
+          contractAddress: MockedERC721.address,
+          itemType: SwapItemType.Nft,
+          tokenId: 1,
+        },
+        {
+          contractAddress: MockedERC20.address,
+          itemType: SwapItemType.Currency,
+          amount: ethers.utils.parseEther("4"),
+        },
+      ],
+      swapOptions: [
+        {
+          id: "option_1",
+          askingItems: [
+            {
+              contractAddress: MockedERC20.address,
+              itemType: SwapItemType.Currency,
+              amount: ethers.utils.parseEther("10"),
+            },
+          ],
+        },
+      ],
+    });
+
+    const { transactionHash } = await BuyerClient.fulfillProposal(
+      "proposal_1",
+      "option_1"
+    );
+
+    await expect(transactionHash)
+      .to.emit(Swap, "ProtocolFeeCollected")
+      .withArgs(
+        (id: string) => !!id,
+        buyer.address,
+        feeRecipient.address,
+        (timestamp: unknown) => !!timestamp,
+        MockedERC20.address,
+        ethers.utils.parseEther("0.25")
+      );
+
+    /**
+     * @dev 2.5% of 10 and 2.5% of 4
+     */
+    expect(await MockedERC20.balanceOf(feeRecipient.address)).eq(
+      ethers.utils.parseEther("0.35")
+    );
+    expect(await MockedERC20.balanceOf(seller.address)).eq(
+      ethers.utils.parseEther("105.75")
+    );
+    expect(await MockedERC20.balanceOf(buyer.address)).eq(
+      ethers.utils.parseEther("93.9")
+    );
+    expect(await MockedERC20.balanceOf(Swap.address)).eq(0);
+    expect(await MockedERC721.ownerOf(1)).eq(buyer.address);
+  });
+
+  it("Should: charge fee on weth asked by the seller and unwrap the payout", async () => {
+    const {
+      Swap,
+      SellerClient,
+      BuyerClient,
+      MockedWETH9,
+      MockedERC721,
+      seller,
+      buyer,
+      feeRecipient,
+    } = fixtures;
+
+    await SellerClient.createProposal({
+      id: "proposal_2",
+      expiredAt: await expiredAt(),
+      offeredItems: [
+        {
+          contractAddress: MockedERC721.address,
+          itemType: SwapItemType.Nft,
+          tokenId: 2,
+        },
+      ],
+      swapOptions: [
+        {
+          id: "option_2",
+          askingItems: [
+            {
+              contractAddress: MockedWETH9.address,
+              itemType: SwapItemType.Currency,
+              amount: ethers.utils.parseEther("1"),
+            },
+          ],
+        },
+      ],
+    });
+
+    await BuyerClient.wrapETH(ethers.utils.parseEther("1"));
+
+    const sellerBalance = await seller.getBalance();
+    await BuyerClient.fulfillProposal("proposal_2", "option_2");
+
+    /**
+     * @dev Seller receives the unwrapped payout, recipient receives weth
+     */
+    expect((await seller.getBalance()).sub(sellerBalance)).eq(
+      ethers.utils.parseEther("0.975")
+    );
+    expect(await MockedWETH9.balanceOf(feeRecipient.address)).eq(
+      ethers.utils.parseEther("0.025")
+    );
+    expect(await MockedWETH9.balanceOf(buyer.address)).eq(0);
+    expect(await MockedWETH9.balanceOf(Swap.address)).eq(0);
+    expect(await MockedERC721.ownerOf(2)).eq(buyer.address);
+  });
+
+  it("Should: charge fee on escrowed weth and unwrap the payout to the buyer", async () => {
+    const {
+      Swap,
+      SellerClient,
+      BuyerClient,
+      MockedWETH9,
+      MockedERC721,
+      buyer,
+      feeRecipient,
+    } = fixtures;
+
+    await SellerClient.wrapETH(ethers.utils.parseEther("2"));
+    await SellerClient.createProposal({
+      id: "proposal_3",
+      expiredAt: await expiredAt(),
+      offeredItems: [
+        {
+          contractAddress: MockedWETH9.address,
+          itemType: SwapItemType.Currency,
+          amount: ethers.utils.parseEther("2"),
+        },
+      ],
+      swapOptions: [
+        {
+          id: "option_3",
+          askingItems: [
+            {
+              contractAddress: MockedERC721.address,
+              itemType: SwapItemType.Nft,
+              tokenId: 5,
+            },
+          ],
+        },
+      ],
+    });
+    expect(await MockedWETH9.balanceOf(Swap.address)).eq(
+      ethers.utils.parseEther("2")
+    );
+
+    const buyerBalance = await buyer.getBalance();
+    const receipt = await BuyerClient.fulfillProposal("proposal_3", "option_3");
+
+    /**
+     * @dev Approval transaction is sent by the client too, take the gas into account
+     */
+    const approvalGas = await ethers.provider
+      .getTransactionReceipt(
+        (
+          await ethers.provider.getBlockWithTransactions(
+            receipt.blockNumber - 1
+          )
+        ).transactions[0].hash
+      )
+      .then(({ gasUsed, effectiveGasPrice }) => gasUsed.mul(effectiveGasPrice));
+    const gas = receipt.gasUsed.mul(receipt.effectiveGasPrice).add(approvalGas);
+
+    expect((await buyer.getBalance()).sub(buyerBalance).add(gas)).eq(
+      ethers.utils.parseEther("1.95")
+    );
+    expect(await MockedWETH9.balanceOf(feeRecipient.address)).eq(
+      ethers.utils.parseEther("0.075")
+    );
+    expect(await MockedWETH9.balanceOf(Swap.address)).eq(0);
+  });
+
+  it("Should: no fee is charged when the proposal is withdrawn", async () => {
+    const { SellerClient, MockedERC20, seller, feeRecipient } = fixtures;
+
+    const sellerBalance = await MockedERC20.balanceOf(seller.address);
+    const feeBalance = await MockedERC20.balanceOf(feeRecipient.address);
+
+    await SellerClient.createProposal({
+      id: "proposal_4",
+      expiredAt: await expiredAt(),
+      offeredItems: [
+        {
+          contractAddress: MockedERC20.address,
+          itemType: SwapItemType.Currency,
+          amount: ethers.utils.parseEther("10"),
+        },
+      ],
+      swapOptions: [],
+    });
+    await SellerClient.cancelProposal("proposal_4");
+
+    expect(await MockedERC20.balanceOf(seller.address)).eq(sellerBalance);
+    expect(await MockedERC20.balanceOf(feeRecipient.address)).eq(feeBalance);
+  });
+});
@@ -0,0 +1,404 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { BigNumberish } from "ethers";
+import { ethers } from "hardhat";
+
+import {
+  getFillAmounts,
+  HamsterSwapClient,
+  ProposalInput,
+  ProposalStatus,
+  SwapItemStatus,
+  SwapItemType,
+} from "../src/sdk";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap partial fills", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [owner, seller, buyer, anotherBuyer, lastBuyer] =
+      await ethers.getSigners();
+
+    /**
+     * @dev Initializes the traded erc20 contracts
+     */
+    const MockedERC20Contract = await ethers.getContractFactory("MockedERC20");
+    const OfferedERC20 = await MockedERC20Contract.deploy();
+    const DustERC20 = await MockedERC20Contract.deploy();
+    const AskingERC20 = await MockedERC20Contract.deploy();
+
+    /**
+     * @dev Fund the seller with offered tokens and the buyers with asking tokens
+     */
+    await OfferedERC20.connect(owner).transfer(
+      seller.address,
+      ethers.utils.parseEther("100")
+    );
+    await DustERC20.connect(owner).transfer(seller.address, 100);
+    for (const signer of [buyer, anotherBuyer, lastBuyer]) {
+      await AskingERC20.connect(owner).transfer(
+        signer.address,
+        ethers.utils.parseEther("100")
+      );
+    }
+
+    const { Swap, MockedERC721 } = await deploySwap({
+      nfts: { [seller.address]: [1] },
+      whitelist: (mocks) => [
+        mocks.MockedERC721.address,
+        OfferedERC20.address,
+        DustERC20.address,
+        AskingERC20.address,
+      ],
+    });
+
+    return {
+      Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      AnotherBuyerClient: new HamsterSwapClient(Swap, anotherBuyer),
+      LastBuyerClient: new HamsterSwapClient(Swap, lastBuyer),
+      OfferedERC20,
+      DustERC20,
+      AskingERC20,
+      MockedERC721,
+      seller,
+      buyer,
+      anotherBuyer,
+      lastBuyer,
+    };
+  }
+
+  /**
+   * @dev Offer erc20 items for an erc20 amount
+   */
+  const buildInput = async (
+    id: string,
+    offeredItems: ProposalInput["offeredItems"],
+    askingAmount: BigNumberish
+  ): Promise<ProposalInput> => ({
+    id,
+    expiredAt: (await time.latest()) + 60 * 60,
+    offeredItems,
+    swapOptions: [
+      {
+        id: `${id}_option`,
+        askingItems: [
+          {
+            contractAddress: fixtures.AskingERC20.address,
+            itemType: SwapItemType.Currency,
+            amount: askingAmount,
+          },
+        ],
+      },
+    ],
+    fillable: true,
+  });
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: only currency proposals can be fillable", async () => {
+    const { Swap, SellerClient, BuyerClient, MockedERC721, OfferedERC20 } =
+      fixtures;
+
+    await expect(
+      SellerClient.createProposal(
+        await buildInput(
+          "proposal_0",
+          [
+            {
+              contractAddress: MockedERC721.address,
+              itemType: SwapItemType.Nft,
+              tokenId: 1,
+            },
+          ],
+          ethers.utils.parseEther("1")
+        )
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "NotFillable")
+      .withArgs("proposal_0");
+
+    /**
+     * @dev Proposals are not fillable by default
+     */
+    await SellerClient.createProposal({
+      ...(await buildInput(
+        "proposal_1",
+        [
+          {
+            contractAddress: OfferedERC20.address,
+            itemType: SwapItemType.Currency,
+            amount: ethers.utils.parseEther("1"),
+          },
+        ],
+        ethers.utils.parseEther("1")
+      )),
+      fillable: false,
+    });
+
+    expect((await SellerClient.getProposal("proposal_1")).fillable).to.be.false;
+    await expect(BuyerClient.fillProposal("proposal_1", "proposal_1_option", 1))
+      .to.be.revertedWithCustomError(Swap, "NotFillable")
+      .withArgs("proposal_1");
+
+    await SellerClient.cancelProposal("proposal_1");
+  });
+
+  it("Should: multiple buyers can drain a fillable proposal", async () => {
+    const {
+      Swap,
+      SellerClient,
+      BuyerClient,
+      AnotherBuyerClient,
+      LastBuyerClient,
+      OfferedERC20,
+      DustERC20,
+      AskingERC20,
+    } = fixtures;
+    const { seller, buyer, anotherBuyer, lastBuyer } = fixtures;
+
+    /**
+     * @dev Offer 20 tokens and 7 wei of dust for 1 asking token per offered token
+     */
+    await SellerClient.createProposal(
+      await buildInput(
+        "proposal_2",
+        [
+          {
+            contractAddress: OfferedERC20.address,
+            itemType: SwapItemType.Currency,
+            amount: ethers.utils.parseEther("20"),
+          },
+          {
+            contractAddress: DustERC20.address,
+            itemType: SwapItemType.Currency,
+            amount: 7,
+          },
+        ],
+        ethers.utils.parseEther("20")
+      )
+    );
+
+    const proposal = await SellerClient.getProposal("proposal_2");
+    expect(proposal.fillable).to.be.true;
+    expect(proposal.remainingAmounts).to.deep.eq([
+      ethers.utils.parseEther("20"),
+      ethers.BigNumber.from(7),
+    ]);
+
+    /**
+     * @dev First buyer takes 5 tokens and 1 wei of dust
+     */
+    const receipt = await BuyerClient.fillProposal(
+      "proposal_2",
+      "proposal_2_option",
+      ethers.utils.parseEther("5")
+    );
+    await expect(receipt.transactionHash)
+      .to.emit(Swap, "ProposalFilled")
+      .withArgs(
+        "proposal_2",
+        buyer.address,
+        (timestamp: unknown) => !!timestamp,
+        "proposal_2_option",
+        ethers.utils.parseEther("5"),
+        ethers.utils.parseEther("15")
+      );
+    expect(await OfferedERC20.balanceOf(buyer.address)).eq(
+      ethers.utils.parseEther("5")
+    );
+    expect(await DustERC20.balanceOf(buyer.address)).eq(1);
+
+    /**
+     * @dev Second buyer takes 10 tokens and 3 wei of dust
+     */
+    await AnotherBuyerClient.fillProposal(
+      "proposal_2",
+      "proposal_2_option",
+      ethers.utils.parseEther("10")
+    );
+    expect(await DustERC20.balanceOf(anotherBuyer.address)).eq(3);
+
+    const { status, remainingAmounts } = await SellerClient.getProposal(
+      "proposal_2"
+    );
+    expect(status).eq(ProposalStatus.Deposited);
+    expect(remainingAmounts).to.deep.eq([
+      ethers.utils.parseEther("5"),
+      ethers.BigNumber.from(3),
+    ]);
+
+    /**
+     * @dev Cannot take more than what remains
+     */
+    await expect(
+      LastBuyerClient.fillProposal(
+        "proposal_2",
+        "proposal_2_option",
+        ethers.utils.parseEther("6")
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "InvalidFillAmount")
+      .withArgs(
+        "proposal_2",
+        ethers.utils.parseEther("6"),
+        ethers.utils.parseEther("5")
+      );
+    await expect(
+      LastBuyerClient.fillProposal("proposal_2", "proposal_2_option", 0)
+    )
+      .to.be.revertedWithCustomError(Swap, "InvalidFillAmount")
+      .withArgs("proposal_2", 0, ethers.utils.parseEther("5"));
+
+    /**
+     * @dev Fulfilling a fillable proposal takes what remains, dust included
+     */
+    const lastReceipt = await LastBuyerClient.fulfillProposal(
+      "proposal_2",
+      "proposal_2_option"
+    );
+    await expect(lastReceipt.transactionHash)
+      .to.emit(Swap, "ProposalRedeemed")
+      .withArgs(
+        "proposal_2",
+        lastBuyer.address,
+        (timestamp: unknown) => !!timestamp,
+        "proposal_2_option"
+      );
+    expect(await OfferedERC20.balanceOf(lastBuyer.address)).eq(
+      ethers.utils.parseEther("5")
+    );
+    expect(await DustERC20.balanceOf(lastBuyer.address)).eq(3);
+
+    const redeemed = await SellerClient.getProposal("proposal_2");
+    expect(redeemed.status).eq(ProposalStatus.Redeemed);
+    expect(redeemed.fulfilledBy).eq(lastBuyer.address);
+    expect(redeemed.remainingAmounts).to.deep.eq([
+      ethers.BigNumber.from(0),
+      ethers.BigNumber.from(0),
+    ]);
+    redeemed.offeredItems.forEach(({ status }) =>
+      expect(status).eq(SwapItemStatus.Redeemed)
+    );
+
+    /**
+     * @dev The vault is drained and the seller is paid in full
+     */
+    expect(await OfferedERC20.balanceOf(Swap.address)).eq(0);
+    expect(await DustERC20.balanceOf(Swap.address)).eq(0);
+    expect(await AskingERC20.balanceOf(seller.address)).eq(
+      ethers.utils.parseEther("20")
+    );
+
+    await expect(
+      BuyerClient.fillProposal("proposal_2", "proposal_2_option", 1)
+    ).to.be.revertedWithCustomError(Swap, "InvalidProposalStatus");
+  });
+
+  it("Should: rounding never over-pays the buyers", async () => {
+    const { Swap, SellerClient, BuyerClient, OfferedERC20, AskingERC20 } =
+      fixtures;
+    const { seller, buyer } = fixtures;
+
+    /**
+     * @dev Offer 10 wei for 3 wei
+     */
+    await SellerClient.createProposal(
+      await buildInput(
+        "proposal_3",
+        [
+          {
+            contractAddress: OfferedERC20.address,
+            itemType: SwapItemType.Currency,
+            amount: 10,
+          },
+        ],
+        3
+      )
+    );
+
+    const sellerBalance = await AskingERC20.balanceOf(seller.address);
+    const buyerBalance = await OfferedERC20.balanceOf(buyer.address);
+
+    /**
+     * @dev Asking amounts are rounded up: 1, 1 then 2
+     */
+    let paid = ethers.BigNumber.from(0);
+    for (const fillAmount of [3, 3, 4]) {
+      const { askingAmounts } = getFillAmounts(
+        await BuyerClient.getProposal("proposal_3"),
+        "proposal_3_option",
+        fillAmount
+      );
+      paid = paid.add(askingAmounts[0]);
+
+      await BuyerClient.fillProposal(
+        "proposal_3",
+        "proposal_3_option",
+        fillAmount
+      );
+    }
+
+    expect(paid).eq(4);
+    expect((await AskingERC20.balanceOf(seller.address)).sub(sellerBalance)).eq(
+      paid
+    );
+    expect((await OfferedERC20.balanceOf(buyer.address)).sub(buyerBalance)).eq(
+      10
+    );
+    expect(await OfferedERC20.balanceOf(Swap.address)).eq(0);
+  });
+
+  it("Should: owner withdraws what remains of a partially filled proposal", async () => {
+    const { Swap, SellerClient, BuyerClient, OfferedERC20, seller } = fixtures;
+
+    await SellerClient.createProposal(
+      await buildInput(
+        "proposal_4",
+        [
+          {
+            id: "proposal_4_item",
+            contractAddress: OfferedERC20.address,
+            itemType: SwapItemType.Currency,
+            amount: ethers.utils.parseEther("20"),
+          },
+        ],
+        ethers.utils.parseEther("20")
+      )
+    );
+    await BuyerClient.fillProposal(
+      "proposal_4",
+      "proposal_4_option",
+      ethers.utils.parseEther("5")
+    );
+
+    const sellerBalance = await OfferedERC20.balanceOf(seller.address);
+    const receipt = await SellerClient.cancelProposal("proposal_4");
+
+    await expect(receipt.transactionHash)
+      .to.emit(Swap, "ItemWithdrawn")
+      .withArgs(
+        "proposal_4_item",
+        seller.address,
+        Swap.address,
+        seller.address,
+        (timestamp: unknown) => !!timestamp,
+        OfferedERC20.address,
+        ethers.utils.parseEther("15"),
+        0
+      );
+    expect(
+      (await OfferedERC20.balanceOf(seller.address)).sub(sellerBalance)
+    ).eq(ethers.utils.parseEther("15"));
+
+    const { status, offeredItems, remainingAmounts } =
+      await SellerClient.getProposal("proposal_4");
+    expect(status).eq(ProposalStatus.Withdrawn);
+    expect(offeredItems[0].status).eq(SwapItemStatus.Withdrawn);
+    expect(remainingAmounts).to.deep.eq([]);
+  });
+});
@@ -0,0 +1,135 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { HamsterSwap } from "../typechain-types";
+import {
+  HamsterSwapClient,
+  ProposalInput,
+  ProposalStatus,
+  SwapItemType,
+} from "../src/sdk";
+import baselineGas from "./fixtures/gas/string-keyed.json";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap storage gas", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, seller, buyer] = await ethers.getSigners();
+
+    /**
+     * @dev Mint erc721 and fund erc20, the seller keeps some tokens as when the baseline was measured
+     */
+    const { Swap, MockedERC20, MockedERC721 } = await deploySwap({
+      maxAllowedItems: "5",
+      maxAllowedOptions: "5",
+      nfts: { [seller.address]: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12] },
+      currencies: { [buyer.address]: ethers.utils.parseEther("100") },
+    });
+
+    return { Swap, MockedERC20, MockedERC721, seller, buyer };
+  }
+
+  /**
+   * @dev Offer nfts against the maximum amount of options, each asking for two erc20 amounts
+   */
+  const buildInput = async (
+    id: string,
+    tokenIds: number[]
+  ): Promise<ProposalInput> => ({
+    id,
+    expiredAt: (await time.latest()) + 60 * 60,
+    offeredItems: tokenIds.map((tokenId) => ({
+      contractAddress: fixtures.MockedERC721.address,
+      itemType: SwapItemType.Nft,
+      tokenId,
+    })),
+    swapOptions: [1, 2, 3, 4, 5].map((option) => ({
+      id: `${id}_option_${option}`,
+      askingItems: [1, 2].map((amount) => ({
+        contractAddress: fixtures.MockedERC20.address,
+        itemType: SwapItemType.Currency,
+        amount: ethers.utils.parseEther(`${option * amount}`),
+      })),
+    })),
+  });
+
+  /**
+   * @dev Create a proposal, fulfill it with its last option, then create another one and cancel it
+   */
+  const measure = async (swap: HamsterSwap, tokenIds: number[]) => {
+    const SellerClient = new HamsterSwapClient(swap, fixtures.seller);
+    const BuyerClient = new HamsterSwapClient(swap, fixtures.buyer);
+
+    const { receipt: created } = await SellerClient.createProposal(
+      await buildInput("proposal_fulfilled", tokenIds.slice(0, 3))
+    );
+    const fulfilled = await BuyerClient.fulfillProposal(
+      "proposal_fulfilled",
+      "proposal_fulfilled_option_5"
+    );
+
+    await SellerClient.createProposal(
+      await buildInput("proposal_cancelled", tokenIds.slice(3))
+    );
+    const cancelled = await SellerClient.cancelProposal("proposal_cancelled");
+
+    expect((await SellerClient.getProposal("proposal_fulfilled")).status).eq(
+      ProposalStatus.Redeemed
+    );
+    expect((await SellerClient.getProposal("proposal_cancelled")).status).eq(
+      ProposalStatus.Withdrawn
+    );
+
+    return {
+      create: created.gasUsed,
+      fulfill: fulfilled.gasUsed,
+      cancel: cancelled.gasUsed,
+    };
+  };
+
+  /**
+   * @dev Gas of the instrumented build is not comparable, `yarn test` leaves this suite out, run `yarn test:gas`
+   */
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  /**
+   * @dev The gas used before is recorded in `fixtures/gas`, as measured the same way on the last implementation
+   * keyed by string ids, `STRING_KEYED_BASELINE_REF` of the upgrade helpers. It is the reference rather than the initial
+   * implementation because it already has the fees, royalties, fills and batches added since, so that only
+   * the storage redesign is measured.
+   */
+  it("Should: creating, fulfilling and cancelling a proposal costs less gas than with string keys", async () => {
+    const { Swap } = fixtures;
+
+    const before = baselineGas.gasUsed;
+    const after = await measure(Swap, [1, 2, 3, 4, 5, 6]);
+
+    const report = Object.fromEntries(
+      (Object.keys(before) as (keyof typeof before)[]).map((operation) => [
+        operation,
+        {
+          before: before[operation],
+          after: after[operation].toNumber(),
+          saved: `${
+            Math.floor(
+              ((before[operation] - after[operation].toNumber()) * 1000) /
+                before[operation]
+            ) / 10
+          }%`,
+        },
+      ])
+    );
+    console.table(report);
+
+    for (const operation of Object.keys(before) as (keyof typeof before)[]) {
+      expect(
+        after[operation].lt(before[operation]),
+        `${operation} costs ${after[operation]} gas, ${before[operation]} before`
+      ).eq(true);
+    }
+  });
+});
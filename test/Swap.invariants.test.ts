@@ -0,0 +1,136 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { ProposalStatus } from "../src/sdk";
+import {
+  checkInvariants,
+  FuzzEnvironment,
+  FuzzStep,
+  Invariant,
+  InvariantViolation,
+  runSteps,
+} from "../scripts/swap/fuzzing";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap invariants", async function () {
+  /**
+   * @dev Each run sends a whole sequence and shrinking replays it many times
+   */
+  this.timeout(0);
+
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, ...actors] = (await ethers.getSigners()).slice(0, 4);
+
+    const MockedERC721Contract = await ethers.getContractFactory(
+      "MockedERC721"
+    );
+    const AnotherERC721 = await MockedERC721Contract.deploy();
+
+    const { Swap, MockedERC20, MockedWETH9, MockedERC721, owner } =
+      await deploySwap({
+        maxAllowedOptions: "2",
+        currencies: Object.fromEntries(
+          actors.map(({ address }) => [address, ethers.utils.parseEther("100")])
+        ),
+        whitelist: (mocks) => [
+          mocks.MockedERC721.address,
+          AnotherERC721.address,
+          mocks.MockedERC20.address,
+          mocks.MockedWETH9.address,
+        ],
+      });
+
+    /**
+     * @dev Mint erc721 to the actors in turn
+     */
+    const collections = [MockedERC721, AnotherERC721];
+    const tokenIds = [1, 2, 3, 4, 5, 6];
+    for (const collection of collections) {
+      for (const tokenId of tokenIds) {
+        await collection
+          .connect(owner)
+          .safeMint(actors[tokenId % actors.length].address, tokenId);
+      }
+    }
+
+    const environment: FuzzEnvironment = {
+      swap: Swap,
+      admin: owner,
+      actors,
+      erc20: MockedERC20.address,
+      weth: MockedWETH9.address,
+      collections: collections.map(({ address }) => ({ address, tokenIds })),
+    };
+
+    return { environment };
+  }
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: random sequences keep the escrow, statuses and payouts consistent", async () => {
+    const { environment } = fixtures;
+
+    /**
+     * @dev Replay a reported sequence, e.g. FUZZ_STEPS='[...]' yarn test:fuzz
+     */
+    if (process.env.FUZZ_STEPS) {
+      const steps: FuzzStep[] = JSON.parse(process.env.FUZZ_STEPS);
+      expect(await runSteps(environment, steps)).eq(undefined);
+      return;
+    }
+
+    await checkInvariants(environment, {
+      seed: Number(process.env.FUZZ_SEED || 1),
+      runs: Number(process.env.FUZZ_RUNS || 3),
+      length: Number(process.env.FUZZ_LENGTH || 25),
+    });
+  });
+
+  it("Should: failing sequences are shrunk to a minimal reproducible case", async () => {
+    const { environment } = fixtures;
+
+    /**
+     * @dev A deliberately wrong invariant, withdrawing a proposal is enough to break it
+     */
+    const neverWithdrawn: Invariant = {
+      name: "proposals are never withdrawn",
+      check: ({ proposals }) =>
+        proposals.find(({ status }) => status === ProposalStatus.Withdrawn)?.id,
+    };
+
+    const violation = await checkInvariants(environment, {
+      seed: 1,
+      runs: 20,
+      length: 25,
+      invariants: [neverWithdrawn],
+    }).then(
+      () => undefined,
+      (error) => error
+    );
+
+    expect(violation).instanceOf(InvariantViolation);
+    const { failure } = violation as InvariantViolation;
+
+    expect(failure.invariant).eq("proposals are never withdrawn");
+    expect(failure.originalLength).eq(25);
+    expect(failure.steps.map(({ kind }) => kind)).deep.eq([
+      "createProposal",
+      "cancelProposal",
+    ]);
+    expect(failure.outcomes[1].result).eq(`cancelled ${failure.message}`);
+    expect(failure.steps[0]).deep.include({ actor: 0, native: false });
+    expect((violation as Error).message).contains("FUZZ_STEPS=");
+
+    /**
+     * @dev The shrunk sequence replays the failure on its own
+     */
+    expect(
+      await runSteps(environment, failure.steps, [neverWithdrawn])
+    ).deep.include({ invariant: "proposals are never withdrawn" });
+  });
+});
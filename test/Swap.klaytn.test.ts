@@ -1,43 +1,15 @@
-import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
 import { expect } from "chai";
-import { ethers, upgrades } from "hardhat";
+import { ethers } from "hardhat";
 
+import { Etherman, IWETH9__factory, Multicall3 } from "../typechain-types";
 import {
-  Etherman,
-  HamsterSwap,
-  IWETH9__factory,
-  Multicall3,
-} from "../typechain-types";
-
-/**
- * @dev Define the item type
- */
-enum SwapItemType {
-  Nft,
-  Currency,
-}
-
-/**
- * @dev Define status enum
- */
-enum SwapItemStatus {
-  Created,
-  Deposited,
-  Redeemed,
-  Withdrawn,
-}
-
-/**
- * @dev Define proposal status
- */
-enum ProposalStatus {
-  Created,
-  Deposited,
-  Fulfilled,
-  Canceled,
-  Redeemed,
-  Withdrawn,
-}
+  HamsterSwapClient,
+  ProposalStatus,
+  SwapItemStatus,
+  SwapItemType,
+} from "../src/sdk";
+import { deploySwapProxy } from "./helpers/fixtures";
 
 describe("HamsterSwap", async function () {
   let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
@@ -81,10 +53,7 @@ describe("HamsterSwap", async function () {
     /**
      * @dev Deploy contract
      */
-    const SwapContract = await ethers.getContractFactory("HamsterSwap");
-    const Swap = (await upgrades.deployProxy(SwapContract.connect(owner), [], {
-      unsafeAllow: ["constructor", "delegatecall"],
-    })) as unknown as HamsterSwap;
+    const Swap = await deploySwapProxy();
 
     /**
      * @dev Transfer ownership
@@ -108,6 +77,8 @@ describe("HamsterSwap", async function () {
     return {
       Multicall3: Multicall3Contract,
       Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
       ERC20_WETH,
       ERC721,
       owner,
@@ -121,16 +92,8 @@ describe("HamsterSwap", async function () {
   });
 
   it("Should: anyone can create proposal and deposit items with multicall", async () => {
-    const { Multicall3, Swap, ERC20_WETH, ERC721, seller } = fixtures;
-
-    /**
-     * @dev Approve first
-     */
-    await ERC20_WETH.connect(seller).approve(
-      Swap.address,
-      ethers.BigNumber.from(ethers.constants.MaxInt256)
-    );
-    await ERC721.connect(seller).setApprovalForAll(Swap.address, true);
+    const { Multicall3, Swap, SellerClient, ERC20_WETH, ERC721, seller } =
+      fixtures;
 
     /**
      * @dev Expect initial values
@@ -197,8 +160,18 @@ describe("HamsterSwap", async function () {
         ],
       },
     ];
-    const expiredAt =
-      parseInt((new Date().getTime() / 1000).toString()) + 60 * 60;
+    const expiredAt = (await time.latest()) + 60 * 60;
+    const params = await SellerClient.buildProposal({
+      id: proposalId,
+      expiredAt,
+      offeredItems,
+      swapOptions: askingItems,
+    });
+
+    /**
+     * @dev Approve first
+     */
+    await SellerClient.ensureApprovals(params.offeredItems);
 
     /**
      * @dev Call contract
@@ -216,13 +189,7 @@ describe("HamsterSwap", async function () {
         },
         {
           target: Swap.address,
-          callData: Swap.interface.encodeFunctionData("createProposal", [
-            proposalId,
-            seller.address,
-            offeredItems,
-            askingItems,
-            expiredAt,
-          ]),
+          callData: SellerClient.encodeCreateProposal(params),
           allowFailure: false,
           value: 0,
         },
@@ -233,7 +200,7 @@ describe("HamsterSwap", async function () {
     /**
      * @dev Expect
      */
-    const proposal = await Swap.proposals(proposalId);
+    const proposal = await SellerClient.getProposal(proposalId);
 
     /**
      * @dev Expect initial values
@@ -248,7 +215,7 @@ describe("HamsterSwap", async function () {
     /**
      * @dev Expect items and options
      */
-    const [items, options] = await Swap.getProposalItemsAndOptions(proposalId);
+    const { offeredItems: items, swapOptions: options } = proposal;
 
     /**
      * @dev Expect offered items have been recoded properly
@@ -259,9 +226,9 @@ describe("HamsterSwap", async function () {
       expect(item.amount).eq(items[index].amount);
       expect(item.contractAddress).eq(items[index].contractAddress);
       expect(items[index].owner).eq(seller.address); // owner is recorded properly
-      expect(items[index].status).eq(ProposalStatus.Deposited); // status changed to deposited
+      expect(items[index].status).eq(SwapItemStatus.Deposited); // status changed to deposited
 
-      if (item.itemType === 1) {
+      if (item.itemType === SwapItemType.Currency) {
         expect(items[index].tokenId).eq(0);
       } else {
         expect(item.tokenId).eq(items[index].tokenId);
@@ -286,7 +253,7 @@ describe("HamsterSwap", async function () {
         expect(item.tokenId).eq(options[index].askingItems[itemIndex].tokenId);
 
         expect(options[index].askingItems[itemIndex].status).eq(
-          ProposalStatus.Created
+          SwapItemStatus.Created
         ); // status has been recoded as created
         expect(options[index].askingItems[itemIndex].owner).eq(
           ethers.constants.AddressZero
@@ -308,7 +275,7 @@ describe("HamsterSwap", async function () {
   });
 
   it("should: anyone can fulfill proposal if he/she owns the required items and exec the pocket, using multicall", async () => {
-    const { Swap, ERC20_WETH, ERC721, seller, buyer } = fixtures;
+    const { Swap, BuyerClient, ERC20_WETH, ERC721, seller, buyer } = fixtures;
 
     /**
      * @dev Before fulfilling the proposal, the balance will be empty
@@ -329,10 +296,9 @@ describe("HamsterSwap", async function () {
     /**
      * @dev Approve first
      */
-    await ERC721.connect(buyer).setApprovalForAll(Swap.address, true);
-    await ERC20_WETH.connect(buyer).approve(
-      Swap.address,
-      ethers.constants.MaxUint256
+    const { swapOptions } = await BuyerClient.getProposal("proposal_1");
+    await BuyerClient.ensureApprovals(
+      swapOptions.find(({ id }) => id === "option_1")?.askingItems || []
     );
 
     const balance = await buyer.getBalance();
@@ -354,10 +320,8 @@ describe("HamsterSwap", async function () {
     /**
      * @dev Expect
      */
-    const proposal = await Swap.proposals("proposal_1");
-    const [items, options] = await Swap.getProposalItemsAndOptions(
-      "proposal_1"
-    );
+    const proposal = await BuyerClient.getProposal("proposal_1");
+    const { offeredItems: items, swapOptions: options } = proposal;
 
     expect(proposal.status).eq(ProposalStatus.Redeemed); // Redeemed
     expect(proposal.fulfilledByOptionId).eq("option_1");
@@ -401,22 +365,16 @@ describe("HamsterSwap", async function () {
   });
 
   it("Should: anyone can fulfill proposal by wrapping eth and redeem items", async () => {
-    const { Multicall3, Swap, ERC20_WETH, ERC721, seller, buyer } = fixtures;
-
-    /**
-     * @dev Approve first
-     */
-    await ERC20_WETH.connect(seller).approve(
-      Swap.address,
-      ethers.BigNumber.from(ethers.constants.MaxInt256)
-    );
-    await ERC721.connect(seller).setApprovalForAll(Swap.address, true);
-
-    await ERC20_WETH.connect(buyer).approve(
-      Swap.address,
-      ethers.BigNumber.from(ethers.constants.MaxInt256)
-    );
-    await ERC721.connect(buyer).setApprovalForAll(Swap.address, true);
+    const {
+      Multicall3,
+      Swap,
+      SellerClient,
+      BuyerClient,
+      ERC20_WETH,
+      ERC721,
+      seller,
+      buyer,
+    } = fixtures;
 
     /**
      * @dev Create and deposit proposal
@@ -471,8 +429,19 @@ describe("HamsterSwap", async function () {
         ],
       },
     ];
-    const expiredAt =
-      parseInt((new Date().getTime() / 1000).toString()) + 60 * 60;
+    const expiredAt = (await time.latest()) + 60 * 60;
+    const params = await SellerClient.buildProposal({
+      id: proposalId,
+      expiredAt,
+      offeredItems,
+      swapOptions: askingItems,
+    });
+
+    /**
+     * @dev Approve first
+     */
+    await SellerClient.ensureApprovals(params.offeredItems);
+    await BuyerClient.ensureApprovals(params.swapOptions[1].askingItems);
 
     /**
      * @dev Call contract
@@ -490,13 +459,7 @@ describe("HamsterSwap", async function () {
         },
         {
           target: Swap.address,
-          callData: Swap.interface.encodeFunctionData("createProposal", [
-            proposalId,
-            seller.address,
-            offeredItems,
-            askingItems,
-            expiredAt,
-          ]),
+          callData: SellerClient.encodeCreateProposal(params),
           allowFailure: false,
           value: 0,
         },
@@ -538,10 +501,8 @@ describe("HamsterSwap", async function () {
     /**
      * @dev Expect
      */
-    const proposal = await Swap.proposals("proposal_2");
-    const [items, options] = await Swap.getProposalItemsAndOptions(
-      "proposal_2"
-    );
+    const proposal = await BuyerClient.getProposal("proposal_2");
+    const { offeredItems: items, swapOptions: options } = proposal;
 
     expect(proposal.status).eq(ProposalStatus.Redeemed); // Redeemed
     expect(proposal.fulfilledByOptionId).eq("option_4");
@@ -575,4 +536,97 @@ describe("HamsterSwap", async function () {
       ethers.utils.parseEther("1")
     );
   });
+
+  it("Should: anyone can fulfill proposal by paying wklay in native coin directly", async () => {
+    const { Swap, SellerClient, ERC20_WETH, ERC721, owner, seller, buyer } =
+      fixtures;
+
+    await ERC721.connect(owner).safeMint(seller.address, "4");
+    await ERC721.connect(owner).safeMint(seller.address, "5");
+
+    /**
+     * @dev Offer an nft for 1 wklay
+     */
+    for (const tokenId of [4, 5]) {
+      await SellerClient.createProposal({
+        id: `proposal_${tokenId - 1}`,
+        expiredAt: (await time.latest()) + 60 * 60,
+        offeredItems: [
+          {
+            contractAddress: ERC721.address,
+            itemType: SwapItemType.Nft,
+            tokenId,
+          },
+        ],
+        swapOptions: [
+          {
+            id: `option_${tokenId + 1}`,
+            askingItems: [
+              {
+                contractAddress: ERC20_WETH.address,
+                itemType: SwapItemType.Currency,
+                amount: ethers.utils.parseEther("1"),
+              },
+            ],
+          },
+        ],
+      });
+    }
+
+    /**
+     * @dev Under-payment reverts
+     */
+    await expect(
+      Swap.connect(buyer).fulfillProposal(
+        "proposal_3",
+        "option_5",
+        buyer.address,
+        {
+          value: ethers.utils.parseEther("0.5"),
+        }
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "AmountMismatch")
+      .withArgs(ethers.utils.parseEther("1"), ethers.utils.parseEther("0.5"));
+
+    /**
+     * @dev Exact payment
+     */
+    await expect(
+      Swap.connect(buyer).fulfillProposal(
+        "proposal_3",
+        "option_5",
+        buyer.address,
+        {
+          value: ethers.utils.parseEther("1"),
+          gasPrice: 0,
+        }
+      )
+    ).to.changeEtherBalances(
+      [buyer, seller],
+      [ethers.utils.parseEther("-1"), ethers.utils.parseEther("1")]
+    );
+
+    /**
+     * @dev Over-payment is refunded
+     */
+    await expect(
+      Swap.connect(buyer).fulfillProposal(
+        "proposal_4",
+        "option_6",
+        buyer.address,
+        {
+          value: ethers.utils.parseEther("3"),
+          gasPrice: 0,
+        }
+      )
+    ).to.changeEtherBalances(
+      [buyer, seller],
+      [ethers.utils.parseEther("-1"), ethers.utils.parseEther("1")]
+    );
+
+    expect(await ERC721.ownerOf(4)).eq(buyer.address);
+    expect(await ERC721.ownerOf(5)).eq(buyer.address);
+    expect(await ERC20_WETH.balanceOf(Swap.address)).eq(0);
+  });
 });
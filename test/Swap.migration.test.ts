@@ -0,0 +1,347 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers } from "hardhat";
+
+import { HamsterSwap } from "../typechain-types";
+import {
+  CounterOfferStatus,
+  HamsterSwapClient,
+  ProposalIndexType,
+  ProposalInput,
+  ProposalStatus,
+  SwapItemType,
+} from "../src/sdk";
+import {
+  deployBaselineSwap,
+  snapshotSwap,
+  STRING_KEYED_BASELINE_REF,
+  SwapSnapshot,
+  upgradeSwapProxy,
+} from "./helpers/upgrade-safety";
+import { deploySwap } from "./helpers/fixtures";
+import { migrateProposals } from "../scripts/swap/migration";
+
+describe("HamsterSwap proposal migration", async function () {
+  /**
+   * @dev The baseline is compiled from git
+   */
+  this.timeout(0);
+
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+  let snapshot: SwapSnapshot;
+  let counterOffers: Record<string, unknown>;
+
+  async function deployFixtures() {
+    const [owner, seller, buyer, anotherBuyer] = await ethers.getSigners();
+
+    /**
+     * @dev Initializes the traded erc20 contracts
+     */
+    const MockedERC20Contract = await ethers.getContractFactory("MockedERC20");
+    const OfferedERC20 = await MockedERC20Contract.deploy();
+    const AskingERC20 = await MockedERC20Contract.deploy();
+
+    /**
+     * @dev Fund the seller with offered tokens and the buyers with asking tokens
+     */
+    await OfferedERC20.connect(owner).transfer(
+      seller.address,
+      ethers.utils.parseEther("10")
+    );
+    for (const signer of [buyer, anotherBuyer]) {
+      await AskingERC20.connect(owner).transfer(
+        signer.address,
+        ethers.utils.parseEther("100")
+      );
+    }
+
+    /**
+     * @dev Deploy the implementation before the redesign
+     */
+    const { Swap, MockedERC721 } = await deploySwap({
+      nfts: { [seller.address]: [1, 2, 3] },
+      whitelist: (mocks) => [
+        mocks.MockedERC721.address,
+        OfferedERC20.address,
+        AskingERC20.address,
+      ],
+      deployProxy: async () =>
+        (
+          await deployBaselineSwap(STRING_KEYED_BASELINE_REF)
+        ).swap as unknown as HamsterSwap,
+    });
+
+    return {
+      Swap,
+      OwnerClient: new HamsterSwapClient(Swap, owner),
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      AnotherBuyerClient: new HamsterSwapClient(Swap, anotherBuyer),
+      OfferedERC20,
+      AskingERC20,
+      MockedERC721,
+      owner,
+      seller,
+      buyer,
+      anotherBuyer,
+    };
+  }
+
+  /**
+   * @dev Ask an erc20 amount per option
+   */
+  const buildInput = async (
+    id: string,
+    offeredItems: ProposalInput["offeredItems"],
+    askingAmounts: number[],
+    input: Partial<ProposalInput> = {}
+  ): Promise<ProposalInput> => ({
+    id,
+    expiredAt: (await time.latest()) + 24 * 60 * 60,
+    offeredItems,
+    swapOptions: askingAmounts.map((amount, index) => ({
+      id: `${id}_option_${index + 1}`,
+      askingItems: [
+        {
+          contractAddress: fixtures.AskingERC20.address,
+          itemType: SwapItemType.Currency,
+          amount: ethers.utils.parseEther(`${amount}`),
+        },
+      ],
+    })),
+    ...input,
+  });
+
+  const proposalIds = [
+    "proposal_countered",
+    "proposal_updated",
+    "proposal_filled",
+    "proposal_private",
+  ];
+
+  const getCounterOffers = async () =>
+    Object.fromEntries(
+      await Promise.all(
+        proposalIds.map(async (id) => [
+          id,
+          await fixtures.SellerClient.getCounterOffers(id),
+        ])
+      )
+    );
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: the baseline records countered, updated, partially filled and private proposals", async () => {
+    const {
+      Swap,
+      SellerClient,
+      BuyerClient,
+      AnotherBuyerClient,
+      OfferedERC20,
+      AskingERC20,
+      MockedERC721,
+      anotherBuyer,
+    } = fixtures;
+    const nft = (tokenId: number) => ({
+      contractAddress: MockedERC721.address,
+      itemType: SwapItemType.Nft,
+      tokenId,
+    });
+
+    /**
+     * @dev A counter-offer is accepted while another one is still deposited
+     */
+    await SellerClient.createProposal(
+      await buildInput("proposal_countered", [nft(1)], [10])
+    );
+    for (const [client, id] of [
+      [BuyerClient, "counter_accepted"],
+      [AnotherBuyerClient, "counter_pending"],
+    ] as const) {
+      await client.createCounterOffer({
+        id,
+        proposalId: "proposal_countered",
+        expiredAt: (await time.latest()) + 24 * 60 * 60,
+        offeredItems: [
+          {
+            contractAddress: AskingERC20.address,
+            itemType: SwapItemType.Currency,
+            amount: ethers.utils.parseEther("5"),
+          },
+        ],
+      });
+    }
+    await SellerClient.acceptCounterOffer("counter_accepted");
+
+    /**
+     * @dev The first option is removed, so the remaining one moves
+     */
+    await SellerClient.createProposal(
+      await buildInput("proposal_updated", [nft(2)], [1, 2, 3])
+    );
+    await SellerClient.updateProposal("proposal_updated", {
+      removedOptionIds: ["proposal_updated_option_1"],
+    });
+
+    await SellerClient.createProposal(
+      await buildInput(
+        "proposal_filled",
+        [
+          {
+            contractAddress: OfferedERC20.address,
+            itemType: SwapItemType.Currency,
+            amount: ethers.utils.parseEther("10"),
+          },
+        ],
+        [20],
+        { fillable: true }
+      )
+    );
+    await BuyerClient.fillProposal(
+      "proposal_filled",
+      "proposal_filled_option_1",
+      ethers.utils.parseEther("4")
+    );
+
+    await SellerClient.createProposal(
+      await buildInput("proposal_private", [nft(3)], [1], {
+        allowedFulfillers: [anotherBuyer.address],
+      })
+    );
+
+    const statuses = await Promise.all(
+      proposalIds.map(async (id) => (await Swap.proposals(id)).status)
+    );
+    expect(statuses).deep.eq([
+      ProposalStatus.Redeemed,
+      ProposalStatus.Deposited,
+      ProposalStatus.Deposited,
+      ProposalStatus.Deposited,
+    ]);
+
+    snapshot = await snapshotSwap(Swap as unknown as Contract, {
+      proposalIds,
+      addresses: [],
+    });
+    counterOffers = await getCounterOffers();
+  });
+
+  it("Should: migrated proposals and counter-offers read as before the upgrade", async () => {
+    const { owner, seller } = fixtures;
+
+    const Swap = (await upgradeSwapProxy(
+      fixtures.Swap.address
+    )) as unknown as HamsterSwap;
+    expect((await Swap.proposals("proposal_countered")).id).eq("");
+
+    /**
+     * @dev Only the owner migrates
+     */
+    await expect(
+      Swap.connect(seller).migrateProposals(proposalIds)
+    ).to.be.revertedWith("Ownable: caller is not the owner");
+
+    const { pending } = await migrateProposals(Swap.connect(owner), {
+      batchSize: 3,
+    });
+    expect(pending).deep.eq(proposalIds);
+
+    /**
+     * @dev Unknown and migrated proposals are skipped
+     */
+    await expect(
+      Swap.connect(owner).migrateProposals(["proposal_countered", "unknown"])
+    ).not.to.emit(Swap, "ProposalMigrated");
+
+    expect(
+      await snapshotSwap(Swap as unknown as Contract, {
+        proposalIds,
+        addresses: [],
+      })
+    ).deep.eq(snapshot);
+    expect(await getCounterOffers()).deep.eq(counterOffers);
+
+    /**
+     * @dev Proposals indexed before the upgrade are not indexed twice
+     */
+    expect(
+      await fixtures.OwnerClient.getAllProposalIds({
+        indexType: ProposalIndexType.All,
+      })
+    ).deep.eq(proposalIds);
+  });
+
+  it("Should: migrated proposals and counter-offers keep going through their lifecycle", async () => {
+    const {
+      Swap,
+      SellerClient,
+      BuyerClient,
+      AnotherBuyerClient,
+      OfferedERC20,
+      MockedERC721,
+      buyer,
+      anotherBuyer,
+    } = fixtures;
+
+    await AnotherBuyerClient.withdrawCounterOffer("counter_pending");
+    expect((await SellerClient.getCounterOffer("counter_pending")).status).eq(
+      CounterOfferStatus.Withdrawn
+    );
+
+    /**
+     * @dev The moved option is found by its id, the removed one is not
+     */
+    await expect(
+      Swap.connect(buyer).fulfillProposal(
+        "proposal_updated",
+        "proposal_updated_option_1",
+        buyer.address
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "OptionNotFound")
+      .withArgs("proposal_updated", "proposal_updated_option_1");
+    await BuyerClient.fulfillProposal(
+      "proposal_updated",
+      "proposal_updated_option_2"
+    );
+    expect(await MockedERC721.ownerOf(2)).eq(buyer.address);
+    expect(
+      (await SellerClient.getProposal("proposal_updated")).fulfilledByOptionId
+    ).eq("proposal_updated_option_2");
+
+    await AnotherBuyerClient.fillProposal(
+      "proposal_filled",
+      "proposal_filled_option_1",
+      ethers.utils.parseEther("6")
+    );
+    expect(await OfferedERC20.balanceOf(anotherBuyer.address)).eq(
+      ethers.utils.parseEther("6")
+    );
+
+    await expect(
+      BuyerClient.fulfillProposal(
+        "proposal_private",
+        "proposal_private_option_1"
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "NotAllowedFulfiller")
+      .withArgs("proposal_private", buyer.address);
+    await AnotherBuyerClient.fulfillProposal(
+      "proposal_private",
+      "proposal_private_option_1"
+    );
+
+    const statuses = await Promise.all(
+      proposalIds.map(async (id) => (await Swap.proposals(id)).status)
+    );
+    expect(statuses).deep.eq([
+      ProposalStatus.Redeemed,
+      ProposalStatus.Redeemed,
+      ProposalStatus.Redeemed,
+      ProposalStatus.Redeemed,
+    ]);
+  });
+});
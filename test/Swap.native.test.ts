@@ -0,0 +1,340 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import {
+  HamsterSwapClient,
+  ProposalStatus,
+  SwapItemInput,
+  SwapItemType,
+} from "../src/sdk";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap native coin payments", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, seller, buyer] = await ethers.getSigners();
+
+    const { Swap, MockedERC20, MockedWETH9, MockedERC721 } = await deploySwap({
+      nfts: { [seller.address]: [1, 2, 3, 6], [buyer.address]: [4] },
+      currencies: { [seller.address]: ethers.utils.parseEther("100") },
+      whitelist: (mocks) => [
+        mocks.MockedERC721.address,
+        mocks.MockedERC20.address,
+        mocks.MockedWETH9.address,
+      ],
+    });
+
+    return {
+      Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      MockedERC20,
+      MockedWETH9,
+      MockedERC721,
+      seller,
+      buyer,
+    };
+  }
+
+  /**
+   * @dev Offer an nft for 2 weth
+   */
+  const createProposal = async (id: string, tokenId: number) =>
+    fixtures.SellerClient.createProposal({
+      id,
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: fixtures.MockedERC721.address,
+          itemType: SwapItemType.Nft,
+          tokenId,
+        },
+      ],
+      swapOptions: [
+        {
+          id: `${id}_option`,
+          askingItems: [
+            {
+              contractAddress: fixtures.MockedWETH9.address,
+              itemType: SwapItemType.Currency,
+              amount: ethers.utils.parseEther("2"),
+            },
+          ],
+        },
+      ],
+    });
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: buyer pays a weth option with the exact native amount", async () => {
+    const { Swap, SellerClient, BuyerClient, MockedWETH9, MockedERC721 } =
+      fixtures;
+    const { seller, buyer } = fixtures;
+
+    await createProposal("proposal_1", 1);
+
+    const { swapOptions } = await BuyerClient.getProposal("proposal_1");
+    const value = await BuyerClient.getNativeAmount(swapOptions[0].askingItems);
+    expect(value).eq(ethers.utils.parseEther("2"));
+
+    /**
+     * @dev No weth approval is needed, the seller receives the unwrapped coin
+     */
+    await expect(
+      Swap.connect(buyer).fulfillProposal(
+        "proposal_1",
+        "proposal_1_option",
+        buyer.address,
+        { value }
+      )
+    ).to.changeEtherBalances([buyer, seller], [value.mul(-1), value]);
+
+    expect(await MockedWETH9.allowance(buyer.address, Swap.address)).eq(0);
+    expect(await MockedWETH9.balanceOf(Swap.address)).eq(0);
+    expect(await ethers.provider.getBalance(Swap.address)).eq(0);
+    expect(await MockedERC721.ownerOf(1)).eq(buyer.address);
+    expect((await SellerClient.getProposal("proposal_1")).status).eq(
+      ProposalStatus.Redeemed
+    );
+  });
+
+  it("Should: excess native amount is refunded in the same transaction", async () => {
+    const { Swap, BuyerClient, MockedWETH9, seller, buyer } = fixtures;
+
+    await createProposal("proposal_2", 2);
+
+    await expect(
+      Swap.connect(buyer).fulfillProposal(
+        "proposal_2",
+        "proposal_2_option",
+        buyer.address,
+        { value: ethers.utils.parseEther("5") }
+      )
+    ).to.changeEtherBalances(
+      [buyer, seller, Swap],
+      [ethers.utils.parseEther("-2"), ethers.utils.parseEther("2"), 0]
+    );
+
+    expect(await MockedWETH9.balanceOf(Swap.address)).eq(0);
+    expect((await BuyerClient.getProposal("proposal_2")).status).eq(
+      ProposalStatus.Redeemed
+    );
+  });
+
+  it("Should: native amount must cover the weth items", async () => {
+    const { Swap, BuyerClient, buyer } = fixtures;
+
+    await createProposal("proposal_3", 3);
+
+    await expect(
+      Swap.connect(buyer).fulfillProposal(
+        "proposal_3",
+        "proposal_3_option",
+        buyer.address,
+        { value: ethers.utils.parseEther("1") }
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "AmountMismatch")
+      .withArgs(ethers.utils.parseEther("2"), ethers.utils.parseEther("1"));
+
+    expect((await BuyerClient.getProposal("proposal_3")).status).eq(
+      ProposalStatus.Deposited
+    );
+  });
+
+  it("Should: each weth item spends its own share of the native amount", async () => {
+    const { Swap, SellerClient, BuyerClient, MockedWETH9, MockedERC721 } =
+      fixtures;
+    const { seller, buyer } = fixtures;
+
+    await SellerClient.createProposal({
+      id: "proposal_6",
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: MockedERC721.address,
+          itemType: SwapItemType.Nft,
+          tokenId: 6,
+        },
+      ],
+      swapOptions: [
+        {
+          id: "proposal_6_option",
+          askingItems: [1, 2].map((amount) => ({
+            contractAddress: MockedWETH9.address,
+            itemType: SwapItemType.Currency,
+            amount: ethers.utils.parseEther(amount.toString()),
+          })),
+        },
+      ],
+    });
+
+    /**
+     * @dev Less than the weth items add up to is rejected
+     */
+    await expect(
+      Swap.connect(buyer).fulfillProposal(
+        "proposal_6",
+        "proposal_6_option",
+        buyer.address,
+        { value: ethers.utils.parseEther("2") }
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "AmountMismatch")
+      .withArgs(ethers.utils.parseEther("3"), ethers.utils.parseEther("2"));
+
+    await expect(
+      Swap.connect(buyer).fulfillProposal(
+        "proposal_6",
+        "proposal_6_option",
+        buyer.address,
+        { value: ethers.utils.parseEther("3") }
+      )
+    ).to.changeEtherBalances(
+      [buyer, seller],
+      [ethers.utils.parseEther("-3"), ethers.utils.parseEther("3")]
+    );
+    expect(await MockedWETH9.balanceOf(Swap.address)).eq(0);
+    expect((await BuyerClient.getProposal("proposal_6")).status).eq(
+      ProposalStatus.Redeemed
+    );
+  });
+
+  it("Should: owner deposits offered weth with native coin", async () => {
+    const { Swap, SellerClient, BuyerClient, MockedWETH9, MockedERC721 } =
+      fixtures;
+    const { seller, buyer } = fixtures;
+
+    const offeredItems: SwapItemInput[] = [
+      {
+        contractAddress: MockedWETH9.address,
+        itemType: SwapItemType.Currency,
+        amount: ethers.utils.parseEther("3"),
+      },
+    ];
+    const { receipt } = await SellerClient.createProposal(
+      {
+        id: "proposal_4",
+        expiredAt: (await time.latest()) + 60 * 60,
+        offeredItems,
+        swapOptions: [
+          {
+            id: "proposal_4_option",
+            askingItems: [
+              {
+                contractAddress: MockedERC721.address,
+                itemType: SwapItemType.Nft,
+                tokenId: 4,
+              },
+            ],
+          },
+        ],
+      },
+      { value: ethers.utils.parseEther("4") }
+    );
+
+    /**
+     * @dev The deposit is wrapped into the vault and the excess refunded
+     */
+    await expect(receipt.transactionHash)
+      .to.emit(Swap, "ItemDeposited")
+      .withArgs(
+        (id: string) => !!id,
+        seller.address,
+        seller.address,
+        (timestamp: unknown) => !!timestamp,
+        MockedWETH9.address,
+        ethers.utils.parseEther("3"),
+        0
+      );
+    expect(await MockedWETH9.allowance(seller.address, Swap.address)).eq(0);
+    expect(await MockedWETH9.balanceOf(Swap.address)).eq(
+      ethers.utils.parseEther("3")
+    );
+    expect(await ethers.provider.getBalance(Swap.address)).eq(0);
+
+    /**
+     * @dev And paid out as native coin
+     */
+    await MockedERC721.connect(buyer).approve(Swap.address, 4);
+    await expect(
+      Swap.connect(buyer).fulfillProposal(
+        "proposal_4",
+        "proposal_4_option",
+        buyer.address
+      )
+    ).to.changeEtherBalance(buyer, ethers.utils.parseEther("3"));
+    expect(await MockedERC721.ownerOf(4)).eq(seller.address);
+    expect((await BuyerClient.getProposal("proposal_4")).status).eq(
+      ProposalStatus.Redeemed
+    );
+  });
+
+  it("Should: buyer fills a part of a proposal with native coin", async () => {
+    const { Swap, SellerClient, BuyerClient, MockedERC20, MockedWETH9 } =
+      fixtures;
+    const { seller, buyer } = fixtures;
+
+    await SellerClient.createProposal({
+      id: "proposal_5",
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: MockedERC20.address,
+          itemType: SwapItemType.Currency,
+          amount: ethers.utils.parseEther("10"),
+        },
+      ],
+      swapOptions: [
+        {
+          id: "proposal_5_option",
+          askingItems: [
+            {
+              contractAddress: MockedWETH9.address,
+              itemType: SwapItemType.Currency,
+              amount: ethers.utils.parseEther("4"),
+            },
+          ],
+        },
+      ],
+      fillable: true,
+    });
+
+    /**
+     * @dev Half of the proposal asks for 2 weth, 1 is refunded
+     */
+    await expect(
+      Swap.connect(buyer).fillProposal(
+        "proposal_5",
+        "proposal_5_option",
+        buyer.address,
+        ethers.utils.parseEther("5"),
+        { value: ethers.utils.parseEther("3") }
+      )
+    ).to.changeEtherBalances(
+      [buyer, seller],
+      [ethers.utils.parseEther("-2"), ethers.utils.parseEther("2")]
+    );
+    expect(await MockedERC20.balanceOf(buyer.address)).eq(
+      ethers.utils.parseEther("5")
+    );
+
+    /**
+     * @dev Fulfilling takes what remains
+     */
+    await BuyerClient.fulfillProposal("proposal_5", "proposal_5_option", {
+      value: ethers.utils.parseEther("2"),
+    });
+    expect(await MockedERC20.balanceOf(buyer.address)).eq(
+      ethers.utils.parseEther("10")
+    );
+    expect((await BuyerClient.getProposal("proposal_5")).status).eq(
+      ProposalStatus.Redeemed
+    );
+    expect(await MockedWETH9.balanceOf(Swap.address)).eq(0);
+  });
+});
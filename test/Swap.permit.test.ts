@@ -0,0 +1,374 @@
+import {
+  loadFixture,
+  setCode,
+  time,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import {
+  HamsterSwapClient,
+  PERMIT2_ADDRESS,
+  PermitMethod,
+  ProposalStatus,
+  signERC20Permit,
+  signPermit2BatchTransfer,
+  SwapItemType,
+} from "../src/sdk";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap permit currency deposits", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, seller, buyer] = await ethers.getSigners();
+
+    /**
+     * @dev Permit2 lives at the same address on every chain it is deployed to, its code is set once the fixtures are loaded
+     */
+    const MockedPermit2Contract = await ethers.getContractFactory(
+      "MockedPermit2"
+    );
+    const MockedPermit2 = await MockedPermit2Contract.deploy();
+    const Permit2 = MockedPermit2.attach(PERMIT2_ADDRESS);
+
+    /**
+     * @dev The mocked erc20 supports EIP-2612
+     */
+    const { Swap, MockedERC20, MockedERC721 } = await deploySwap({
+      nfts: { [seller.address]: [1, 2, 3, 4], [buyer.address]: [5] },
+      currencies: {
+        [seller.address]: ethers.utils.parseEther("100"),
+        [buyer.address]: ethers.utils.parseEther("100"),
+      },
+    });
+
+    return {
+      Swap,
+      MockedPermit2,
+      Permit2,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      MockedERC20,
+      MockedERC721,
+      seller,
+      buyer,
+    };
+  }
+
+  /**
+   * @dev Offer an nft for 5 erc20
+   */
+  const createProposal = async (id: string, tokenId: number) =>
+    fixtures.SellerClient.createProposal({
+      id,
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: fixtures.MockedERC721.address,
+          itemType: SwapItemType.Nft,
+          tokenId,
+        },
+      ],
+      swapOptions: [
+        {
+          id: `${id}_option`,
+          askingItems: [
+            {
+              contractAddress: fixtures.MockedERC20.address,
+              itemType: SwapItemType.Currency,
+              amount: ethers.utils.parseEther("5"),
+            },
+          ],
+        },
+      ],
+    });
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+
+    await setCode(
+      PERMIT2_ADDRESS,
+      await ethers.provider.getCode(fixtures.MockedPermit2.address)
+    );
+  });
+
+  it("Should: EIP-2612 permits deposit currencies without prior approval", async () => {
+    const { Swap, SellerClient, BuyerClient, MockedERC20, MockedERC721 } =
+      fixtures;
+    const { seller, buyer } = fixtures;
+
+    /**
+     * @dev Offer 10 erc20 for the buyer nft
+     */
+    await SellerClient.createProposalWithPermit(
+      {
+        id: "proposal_1",
+        expiredAt: (await time.latest()) + 60 * 60,
+        offeredItems: [
+          {
+            contractAddress: MockedERC20.address,
+            itemType: SwapItemType.Currency,
+            amount: ethers.utils.parseEther("10"),
+          },
+        ],
+        swapOptions: [
+          {
+            id: "proposal_1_option",
+            askingItems: [
+              {
+                contractAddress: MockedERC721.address,
+                itemType: SwapItemType.Nft,
+                tokenId: 5,
+              },
+            ],
+          },
+        ],
+      },
+      PermitMethod.EIP2612
+    );
+
+    expect(await MockedERC20.balanceOf(Swap.address)).eq(
+      ethers.utils.parseEther("10")
+    );
+    expect(await MockedERC20.allowance(seller.address, Swap.address)).eq(0);
+
+    /**
+     * @dev The buyer pays an erc20 option the same way
+     */
+    await createProposal("proposal_2", 1);
+    await BuyerClient.fulfillProposalWithPermit(
+      "proposal_2",
+      "proposal_2_option",
+      PermitMethod.EIP2612
+    );
+
+    expect(await MockedERC721.ownerOf(1)).eq(buyer.address);
+    expect(await MockedERC20.balanceOf(seller.address)).eq(
+      ethers.utils.parseEther("95")
+    );
+    expect(await MockedERC20.allowance(buyer.address, Swap.address)).eq(0);
+    expect((await BuyerClient.getProposal("proposal_2")).status).eq(
+      ProposalStatus.Redeemed
+    );
+  });
+
+  it("Should: Permit2 signature transfers deposit currencies without approval to the swap", async () => {
+    const { Swap, SellerClient, BuyerClient, MockedERC20, MockedERC721 } =
+      fixtures;
+    const { seller, buyer } = fixtures;
+
+    await SellerClient.createProposalWithPermit(
+      {
+        id: "proposal_3",
+        expiredAt: (await time.latest()) + 60 * 60,
+        offeredItems: [
+          {
+            contractAddress: MockedERC20.address,
+            itemType: SwapItemType.Currency,
+            amount: ethers.utils.parseEther("10"),
+          },
+        ],
+        swapOptions: [
+          {
+            id: "proposal_3_option",
+            askingItems: [
+              {
+                contractAddress: MockedERC721.address,
+                itemType: SwapItemType.Nft,
+                tokenId: 5,
+              },
+            ],
+          },
+        ],
+      },
+      PermitMethod.Permit2
+    );
+
+    expect(await MockedERC20.balanceOf(Swap.address)).eq(
+      ethers.utils.parseEther("20")
+    );
+    expect(await MockedERC20.allowance(seller.address, Swap.address)).eq(0);
+
+    await createProposal("proposal_4", 2);
+    await BuyerClient.fulfillProposalWithPermit(
+      "proposal_4",
+      "proposal_4_option",
+      PermitMethod.Permit2
+    );
+
+    expect(await MockedERC721.ownerOf(2)).eq(buyer.address);
+    expect(await MockedERC20.allowance(buyer.address, Swap.address)).eq(0);
+    expect((await BuyerClient.getProposal("proposal_4")).status).eq(
+      ProposalStatus.Redeemed
+    );
+  });
+
+  it("Should: Permit2 transfers must be spent entirely and cannot be replayed", async () => {
+    const { Swap, Permit2, BuyerClient, MockedERC20, buyer } = fixtures;
+
+    await createProposal("proposal_5", 3);
+
+    /**
+     * @dev 6 erc20 are pulled for an option that asks for 5
+     */
+    const data = Swap.interface.encodeFunctionData("fulfillProposal", [
+      "proposal_5",
+      "proposal_5_option",
+      buyer.address,
+    ]);
+    const deadline = (await time.latest()) + 60 * 60;
+    const excessive = await signPermit2BatchTransfer(
+      buyer,
+      Swap.address,
+      [MockedERC20.address],
+      [ethers.utils.parseEther("6")],
+      deadline
+    );
+
+    await expect(
+      Swap.connect(buyer).permit2Call(
+        excessive.tokens,
+        excessive.amounts,
+        excessive.nonce,
+        excessive.deadline,
+        excessive.signature,
+        data
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "UnusedPermit2Amount")
+      .withArgs(MockedERC20.address, ethers.utils.parseEther("1"));
+
+    /**
+     * @dev The exact amount goes through once
+     */
+    const permit = await signPermit2BatchTransfer(
+      buyer,
+      Swap.address,
+      [MockedERC20.address],
+      [ethers.utils.parseEther("5")],
+      deadline
+    );
+    await Swap.connect(buyer).permit2Call(
+      permit.tokens,
+      permit.amounts,
+      permit.nonce,
+      permit.deadline,
+      permit.signature,
+      data
+    );
+    expect((await BuyerClient.getProposal("proposal_5")).status).eq(
+      ProposalStatus.Redeemed
+    );
+
+    await createProposal("proposal_6", 4);
+    await expect(
+      Swap.connect(buyer).permit2Call(
+        permit.tokens,
+        permit.amounts,
+        permit.nonce,
+        permit.deadline,
+        permit.signature,
+        Swap.interface.encodeFunctionData("fulfillProposal", [
+          "proposal_6",
+          "proposal_6_option",
+          buyer.address,
+        ])
+      )
+    ).to.be.revertedWithCustomError(Permit2, "InvalidNonce");
+  });
+
+  it("Should: invalid EIP-2612 permits are rejected", async () => {
+    const { Swap, MockedERC20, seller, buyer } = fixtures;
+
+    /**
+     * @dev Signed by the seller but submitted by the buyer
+     */
+    const { value, deadline, v, r, s } = await signERC20Permit(
+      seller,
+      MockedERC20.address,
+      Swap.address,
+      ethers.utils.parseEther("5"),
+      (await time.latest()) + 60 * 60
+    );
+
+    await expect(
+      Swap.connect(buyer).selfPermit(
+        MockedERC20.address,
+        value,
+        deadline,
+        v,
+        r,
+        s
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "PermitFailed")
+      .withArgs(MockedERC20.address, buyer.address);
+
+    /**
+     * @dev Submitting the permit twice is harmless once the allowance is given
+     */
+    await Swap.connect(seller).selfPermit(
+      MockedERC20.address,
+      value,
+      deadline,
+      v,
+      r,
+      s
+    );
+    await Swap.connect(seller).selfPermit(
+      MockedERC20.address,
+      value,
+      deadline,
+      v,
+      r,
+      s
+    );
+    expect(await MockedERC20.allowance(seller.address, Swap.address)).eq(value);
+  });
+
+  it("Should: Permit2 transfers are rejected where Permit2 is not deployed", async () => {
+    const { Swap, BuyerClient, MockedERC20, buyer } = fixtures;
+
+    /**
+     * @dev Back to the fixtures, before the code of Permit2 was set
+     */
+    await loadFixture(deployFixtures);
+    await createProposal("proposal_6", 4);
+    const permit = await signPermit2BatchTransfer(
+      buyer,
+      Swap.address,
+      [MockedERC20.address],
+      [ethers.utils.parseEther("5")],
+      (await time.latest()) + 60 * 60
+    );
+
+    await expect(
+      Swap.connect(buyer).permit2Call(
+        permit.tokens,
+        permit.amounts,
+        permit.nonce,
+        permit.deadline,
+        permit.signature,
+        Swap.interface.encodeFunctionData("fulfillProposal", [
+          "proposal_6",
+          "proposal_6_option",
+          buyer.address,
+        ])
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "Permit2Unavailable")
+      .withArgs(PERMIT2_ADDRESS);
+
+    /**
+     * @dev The client refuses to sign for it
+     */
+    await expect(
+      BuyerClient.fulfillProposalWithPermit(
+        "proposal_6",
+        "proposal_6_option",
+        PermitMethod.Permit2
+      )
+    ).to.be.rejectedWith(`Permit2 is not deployed at ${PERMIT2_ADDRESS}`);
+  });
+});
@@ -0,0 +1,191 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import {
+  HamsterSwapClient,
+  ProposalInput,
+  ProposalStatus,
+  SwapItemType,
+} from "../src/sdk";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap private proposals", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, seller, buyer, stranger] = await ethers.getSigners();
+
+    const { Swap, MockedERC20, MockedERC721 } = await deploySwap({
+      nfts: { [seller.address]: [1, 2, 3, 4] },
+      currencies: {
+        [buyer.address]: ethers.utils.parseEther("10"),
+        [stranger.address]: ethers.utils.parseEther("10"),
+      },
+    });
+
+    return {
+      Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      StrangerClient: new HamsterSwapClient(Swap, stranger),
+      MockedERC20,
+      MockedERC721,
+      seller,
+      buyer,
+      stranger,
+    };
+  }
+
+  /**
+   * @dev Offer an nft for 1 erc20
+   */
+  const buildInput = async (
+    id: string,
+    tokenId: number,
+    allowedFulfillers?: string[]
+  ): Promise<ProposalInput> => ({
+    id,
+    expiredAt: (await time.latest()) + 60 * 60,
+    offeredItems: [
+      {
+        contractAddress: fixtures.MockedERC721.address,
+        itemType: SwapItemType.Nft,
+        tokenId,
+      },
+    ],
+    swapOptions: [
+      {
+        id: `${id}_option`,
+        askingItems: [
+          {
+            contractAddress: fixtures.MockedERC20.address,
+            itemType: SwapItemType.Currency,
+            amount: ethers.utils.parseEther("1"),
+          },
+        ],
+      },
+    ],
+    allowedFulfillers,
+  });
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: anyone can fulfill a public proposal", async () => {
+    const { SellerClient, StrangerClient, stranger } = fixtures;
+
+    await SellerClient.createProposal(await buildInput("proposal_1", 1));
+
+    expect(
+      (await SellerClient.getProposal("proposal_1")).allowedFulfillers
+    ).to.deep.eq([]);
+    expect(await StrangerClient.isAllowedFulfiller("proposal_1")).to.be.true;
+
+    await StrangerClient.fulfillProposal("proposal_1", "proposal_1_option");
+
+    const { status, fulfilledBy } = await SellerClient.getProposal(
+      "proposal_1"
+    );
+    expect(status).eq(ProposalStatus.Redeemed);
+    expect(fulfilledBy).eq(stranger.address);
+  });
+
+  it("Should: only allowed fulfillers can fulfill a private proposal", async () => {
+    const { Swap, SellerClient, BuyerClient, StrangerClient, seller, buyer } =
+      fixtures;
+    const { stranger } = fixtures;
+
+    const { receipt } = await SellerClient.createProposal(
+      await buildInput("proposal_2", 2, [buyer.address])
+    );
+
+    await expect(receipt.transactionHash)
+      .to.emit(Swap, "ProposalFulfillersUpdated")
+      .withArgs(
+        "proposal_2",
+        seller.address,
+        (timestamp: unknown) => !!timestamp,
+        [buyer.address]
+      );
+
+    expect(
+      (await SellerClient.getProposal("proposal_2")).allowedFulfillers
+    ).to.deep.eq([buyer.address]);
+    expect(await StrangerClient.isAllowedFulfiller("proposal_2")).to.be.false;
+
+    await expect(
+      StrangerClient.fulfillProposal("proposal_2", "proposal_2_option")
+    )
+      .to.be.revertedWithCustomError(Swap, "NotAllowedFulfiller")
+      .withArgs("proposal_2", stranger.address);
+
+    await BuyerClient.fulfillProposal("proposal_2", "proposal_2_option");
+
+    expect((await SellerClient.getProposal("proposal_2")).fulfilledBy).eq(
+      buyer.address
+    );
+  });
+
+  it("Should: only proposal owner can update the allowed fulfillers", async () => {
+    const { Swap, SellerClient, BuyerClient, StrangerClient } = fixtures;
+    const { seller, buyer, stranger } = fixtures;
+
+    await SellerClient.createProposal(
+      await buildInput("proposal_3", 3, [buyer.address])
+    );
+
+    await expect(
+      BuyerClient.updateAllowedFulfillers("proposal_3", [buyer.address])
+    )
+      .to.be.revertedWithCustomError(Swap, "NotProposalOwner")
+      .withArgs("proposal_3", buyer.address);
+
+    await expect(
+      Swap.connect(seller).updateAllowedFulfillers("proposal_3", [
+        stranger.address,
+      ])
+    )
+      .to.emit(Swap, "ProposalFulfillersUpdated")
+      .withArgs(
+        "proposal_3",
+        seller.address,
+        (timestamp: unknown) => !!timestamp,
+        [stranger.address]
+      );
+
+    /**
+     * @dev The previous counterparty is no longer allowed
+     */
+    await expect(BuyerClient.fulfillProposal("proposal_3", "proposal_3_option"))
+      .to.be.revertedWithCustomError(Swap, "NotAllowedFulfiller")
+      .withArgs("proposal_3", buyer.address);
+
+    await StrangerClient.fulfillProposal("proposal_3", "proposal_3_option");
+
+    /**
+     * @dev Cannot update once the proposal is redeemed
+     */
+    await expect(SellerClient.updateAllowedFulfillers("proposal_3", []))
+      .to.be.revertedWithCustomError(Swap, "InvalidProposalStatus")
+      .withArgs("proposal_3", ProposalStatus.Redeemed);
+  });
+
+  it("Should: clearing the allowed fulfillers makes the proposal public", async () => {
+    const { SellerClient, StrangerClient, buyer, stranger } = fixtures;
+
+    await SellerClient.createProposal(
+      await buildInput("proposal_4", 4, [buyer.address])
+    );
+    await SellerClient.updateAllowedFulfillers("proposal_4", []);
+
+    expect(await StrangerClient.isAllowedFulfiller("proposal_4")).to.be.true;
+
+    await StrangerClient.fulfillProposal("proposal_4", "proposal_4_option");
+
+    expect((await SellerClient.getProposal("proposal_4")).fulfilledBy).eq(
+      stranger.address
+    );
+  });
+});
@@ -0,0 +1,398 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { Etherman } from "../typechain-types";
+import { SwapItemType } from "../src/sdk";
+import {
+  getDelayOperationId,
+  getOperationId,
+  SWAP_ROLES,
+} from "../scripts/swap/administration";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap roles and configuration timelock", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, pauser, collectionManager, configAdmin] =
+      await ethers.getSigners();
+
+    const {
+      Swap,
+      EthermanContract,
+      MockedERC20,
+      MockedWETH9,
+      MockedERC721,
+      owner,
+    } = await deploySwap({
+      whitelist: (mocks) => [mocks.MockedERC721.address],
+    });
+
+    const EthermanFactory = await ethers.getContractFactory("Etherman");
+    const NextEthermanContract = (await EthermanFactory.deploy(
+      MockedWETH9.address
+    )) as unknown as Etherman;
+
+    return {
+      Swap,
+      EthermanContract,
+      NextEthermanContract,
+      MockedERC20,
+      MockedWETH9,
+      MockedERC721,
+      owner,
+      pauser,
+      collectionManager,
+      configAdmin,
+    };
+  }
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: the deployer holds every role and the owner grants and revokes them", async () => {
+    const { Swap, owner, pauser, collectionManager, configAdmin } = fixtures;
+
+    for (const role of Object.values(SWAP_ROLES)) {
+      expect(await Swap.hasRole(role, owner.address)).eq(true);
+    }
+
+    await expect(
+      Swap.connect(owner).grantRole(SWAP_ROLES.pauser, pauser.address)
+    )
+      .to.emit(Swap, "RoleGranted")
+      .withArgs(
+        owner.address,
+        (timestamp: unknown) => !!timestamp,
+        SWAP_ROLES.pauser,
+        pauser.address
+      );
+    await Swap.connect(owner).grantRole(
+      SWAP_ROLES.collectionManager,
+      collectionManager.address
+    );
+    await Swap.connect(owner).grantRole(
+      SWAP_ROLES.configAdmin,
+      configAdmin.address
+    );
+
+    /**
+     * @dev Granting a role twice emits nothing
+     */
+    await expect(
+      Swap.connect(owner).grantRole(SWAP_ROLES.pauser, pauser.address)
+    ).not.to.emit(Swap, "RoleGranted");
+
+    await expect(
+      Swap.connect(pauser).grantRole(SWAP_ROLES.pauser, configAdmin.address)
+    ).to.be.revertedWith("Ownable: caller is not the owner");
+    await expect(
+      Swap.connect(pauser).revokeRole(
+        SWAP_ROLES.configAdmin,
+        configAdmin.address
+      )
+    ).to.be.revertedWith("Ownable: caller is not the owner");
+
+    /**
+     * @dev The owner hands its roles over
+     */
+    for (const role of Object.values(SWAP_ROLES)) {
+      await expect(Swap.connect(owner).revokeRole(role, owner.address))
+        .to.emit(Swap, "RoleRevoked")
+        .withArgs(
+          owner.address,
+          (timestamp: unknown) => !!timestamp,
+          role,
+          owner.address
+        );
+      expect(await Swap.hasRole(role, owner.address)).eq(false);
+    }
+  });
+
+  it("Should: each role only grants its own permissions", async () => {
+    const { Swap, MockedERC20, owner, pauser, collectionManager, configAdmin } =
+      fixtures;
+
+    /**
+     * @dev Pauser
+     */
+    await expect(Swap.connect(collectionManager).pause())
+      .to.be.revertedWithCustomError(Swap, "MissingRole")
+      .withArgs(SWAP_ROLES.pauser, collectionManager.address);
+    await expect(Swap.connect(owner).pause())
+      .to.be.revertedWithCustomError(Swap, "MissingRole")
+      .withArgs(SWAP_ROLES.pauser, owner.address);
+    await Swap.connect(pauser).pause();
+    expect(await Swap.paused()).eq(true);
+    await Swap.connect(pauser).unpause();
+    expect(await Swap.paused()).eq(false);
+
+    /**
+     * @dev Collection manager
+     */
+    await expect(
+      Swap.connect(configAdmin).addToWhitelist(
+        [MockedERC20.address],
+        [SwapItemType.Currency]
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "MissingRole")
+      .withArgs(SWAP_ROLES.collectionManager, configAdmin.address);
+    await Swap.connect(collectionManager).addToWhitelist(
+      [MockedERC20.address],
+      [SwapItemType.Currency]
+    );
+    expect(await Swap.whitelistedAddresses(MockedERC20.address)).eq(true);
+    await Swap.connect(collectionManager).removeFromWhitelist([
+      MockedERC20.address,
+    ]);
+    expect(await Swap.whitelistedAddresses(MockedERC20.address)).eq(false);
+
+    /**
+     * @dev Config admin
+     */
+    for (const call of [
+      () => Swap.connect(pauser).configureProtocolFee(100, pauser.address),
+      () => Swap.connect(pauser).configureRoyalty(1000),
+      () => Swap.connect(pauser).queueConfiguration(5, 4, pauser.address),
+      () => Swap.connect(pauser).cancelConfiguration(ethers.constants.HashZero),
+    ]) {
+      await expect(call())
+        .to.be.revertedWithCustomError(Swap, "MissingRole")
+        .withArgs(SWAP_ROLES.configAdmin, pauser.address);
+    }
+    await Swap.connect(configAdmin).configureProtocolFee(100, owner.address);
+    expect(await Swap.protocolFeeBasisPoints()).eq(100);
+
+    /**
+     * @dev Only the owner sets the timelock delay
+     */
+    await expect(
+      Swap.connect(configAdmin).setTimelockDelay(60)
+    ).to.be.revertedWith("Ownable: caller is not the owner");
+  });
+
+  it("Should: configure runs once, limits and etherman then change through the timelock", async () => {
+    const {
+      Swap,
+      EthermanContract,
+      NextEthermanContract,
+      MockedWETH9,
+      owner,
+      configAdmin,
+    } = fixtures;
+
+    await expect(
+      Swap.connect(owner).configure(5, 4, [], [], NextEthermanContract.address)
+    ).to.be.revertedWithCustomError(Swap, "AlreadyConfigured");
+
+    await expect(Swap.connect(owner).setTimelockDelay(60))
+      .to.emit(Swap, "TimelockDelayChanged")
+      .withArgs(owner.address, (timestamp: unknown) => !!timestamp, 60);
+
+    const operationId = getOperationId({
+      maxAllowedItems: 5,
+      maxAllowedOptions: 2,
+      etherman: NextEthermanContract.address,
+    });
+    await expect(
+      Swap.connect(configAdmin).queueConfiguration(
+        5,
+        2,
+        NextEthermanContract.address
+      )
+    )
+      .to.emit(Swap, "ConfigurationQueued")
+      .withArgs(
+        configAdmin.address,
+        (timestamp: unknown) => !!timestamp,
+        operationId,
+        5,
+        2,
+        NextEthermanContract.address,
+        (await time.latest()) + 1 + 60
+      );
+    const { timelockDelay, readyAt } = await Swap.getTimelock(operationId);
+    expect(timelockDelay).eq(60);
+
+    await expect(
+      Swap.connect(configAdmin).queueConfiguration(
+        5,
+        2,
+        NextEthermanContract.address
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "ConfigurationAlreadyQueued")
+      .withArgs(operationId);
+    await expect(
+      Swap.connect(configAdmin).executeConfiguration(
+        5,
+        2,
+        NextEthermanContract.address
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "ConfigurationNotReady")
+      .withArgs(operationId, readyAt);
+
+    await time.increase(60);
+    await expect(
+      Swap.connect(configAdmin).executeConfiguration(
+        5,
+        2,
+        NextEthermanContract.address
+      )
+    )
+      .to.emit(Swap, "ConfigurationExecuted")
+      .withArgs(
+        configAdmin.address,
+        (timestamp: unknown) => !!timestamp,
+        operationId
+      )
+      .and.to.emit(Swap, "ConfigurationChanged");
+
+    expect(await Swap.maxAllowedItems()).eq(5);
+    expect(await Swap.maxAllowedOptions()).eq(2);
+    expect(await Swap.etherman()).eq(NextEthermanContract.address);
+    expect(
+      await MockedWETH9.allowance(Swap.address, NextEthermanContract.address)
+    ).eq(ethers.constants.MaxUint256);
+    expect((await Swap.getTimelock(operationId)).readyAt).eq(0);
+
+    await expect(
+      Swap.connect(configAdmin).executeConfiguration(
+        5,
+        2,
+        NextEthermanContract.address
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "ConfigurationNotQueued")
+      .withArgs(operationId);
+
+    /**
+     * @dev A queued change is cancelled before it is executed
+     */
+    const rollbackId = getOperationId({
+      maxAllowedItems: 3,
+      maxAllowedOptions: 4,
+      etherman: EthermanContract.address,
+    });
+    await Swap.connect(configAdmin).queueConfiguration(
+      3,
+      4,
+      EthermanContract.address
+    );
+    await expect(Swap.connect(configAdmin).cancelConfiguration(rollbackId))
+      .to.emit(Swap, "ConfigurationCancelled")
+      .withArgs(
+        configAdmin.address,
+        (timestamp: unknown) => !!timestamp,
+        rollbackId
+      );
+
+    await time.increase(60);
+    await expect(
+      Swap.connect(configAdmin).executeConfiguration(
+        3,
+        4,
+        EthermanContract.address
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "ConfigurationNotQueued")
+      .withArgs(rollbackId);
+    await expect(Swap.connect(configAdmin).cancelConfiguration(rollbackId))
+      .to.be.revertedWithCustomError(Swap, "ConfigurationNotQueued")
+      .withArgs(rollbackId);
+    expect(await Swap.etherman()).eq(NextEthermanContract.address);
+  });
+
+  it("Should: a lower timelock delay is only recorded once the current delay elapsed", async () => {
+    const { Swap, owner, configAdmin } = fixtures;
+
+    await expect(Swap.connect(owner).setTimelockDelay(120))
+      .to.emit(Swap, "TimelockDelayChanged")
+      .withArgs(owner.address, (timestamp: unknown) => !!timestamp, 120);
+
+    /**
+     * @dev Lowering the delay is queued with the current one
+     */
+    const operationId = getDelayOperationId(0);
+    const tx = await Swap.connect(owner).setTimelockDelay(0);
+    await expect(tx)
+      .to.emit(Swap, "TimelockDelayQueued")
+      .withArgs(
+        owner.address,
+        (timestamp: unknown) => !!timestamp,
+        operationId,
+        0,
+        (await time.latest()) + 120
+      );
+    await expect(tx).not.to.emit(Swap, "TimelockDelayChanged");
+    const { timelockDelay, readyAt } = await Swap.getTimelock(operationId);
+    expect(timelockDelay).eq(120);
+
+    await expect(Swap.connect(owner).setTimelockDelay(0))
+      .to.be.revertedWithCustomError(Swap, "ConfigurationNotReady")
+      .withArgs(operationId, readyAt);
+
+    /**
+     * @dev A configuration queued meanwhile still waits for the current delay
+     */
+    await Swap.connect(configAdmin).queueConfiguration(
+      4,
+      2,
+      await Swap.etherman()
+    );
+    const configurationId = getOperationId({
+      maxAllowedItems: 4,
+      maxAllowedOptions: 2,
+      etherman: await Swap.etherman(),
+    });
+    expect((await Swap.getTimelock(configurationId)).readyAt).eq(
+      await time.latest().then((latest) => latest + 120)
+    );
+    await Swap.connect(configAdmin).cancelConfiguration(configurationId);
+
+    await time.increaseTo(readyAt);
+    await expect(Swap.connect(owner).setTimelockDelay(0))
+      .to.emit(Swap, "TimelockDelayChanged")
+      .withArgs(owner.address, (timestamp: unknown) => !!timestamp, 0);
+    expect(await Swap.getTimelock(operationId)).deep.eq([0, 0]);
+
+    /**
+     * @dev A queued decrease is cancelled like a configuration change
+     */
+    await Swap.connect(owner).setTimelockDelay(60);
+    await Swap.connect(owner).setTimelockDelay(30);
+    await Swap.connect(configAdmin).cancelConfiguration(
+      getDelayOperationId(30)
+    );
+    await time.increase(60);
+    await expect(Swap.connect(owner).setTimelockDelay(30)).to.emit(
+      Swap,
+      "TimelockDelayQueued"
+    );
+    expect(
+      (await Swap.getTimelock(ethers.constants.HashZero)).timelockDelay
+    ).eq(60);
+  });
+
+  it("Should: accounts renounce their own roles", async () => {
+    const { Swap, pauser } = fixtures;
+
+    await expect(Swap.connect(pauser).renounceRole(SWAP_ROLES.pauser))
+      .to.emit(Swap, "RoleRevoked")
+      .withArgs(
+        pauser.address,
+        (timestamp: unknown) => !!timestamp,
+        SWAP_ROLES.pauser,
+        pauser.address
+      );
+    expect(await Swap.hasRole(SWAP_ROLES.pauser, pauser.address)).eq(false);
+
+    await expect(Swap.connect(pauser).pause())
+      .to.be.revertedWithCustomError(Swap, "MissingRole")
+      .withArgs(SWAP_ROLES.pauser, pauser.address);
+  });
+});
@@ -0,0 +1,357 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { HamsterSwapClient, SwapItemType } from "../src/sdk";
+import { SWAP_ROLES } from "../scripts/swap/administration";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap royalties", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [owner, seller, buyer, creator, overrideReceiver] =
+      await ethers.getSigners();
+
+    const MockedERC721RoyaltyContract = await ethers.getContractFactory(
+      "MockedERC721Royalty"
+    );
+    const MockedERC721Royalty = await MockedERC721RoyaltyContract.deploy();
+
+    /**
+     * @dev 5% default royalty, 20% on token 2 which exceeds the cap
+     */
+    await MockedERC721Royalty.connect(owner).setDefaultRoyalty(
+      creator.address,
+      500
+    );
+    await MockedERC721Royalty.connect(owner).setTokenRoyalty(
+      2,
+      creator.address,
+      2000
+    );
+    for (let tokenId = 1; tokenId <= 5; tokenId++) {
+      await MockedERC721Royalty.connect(owner).safeMint(
+        seller.address,
+        tokenId
+      );
+    }
+    await MockedERC721Royalty.connect(owner).safeMint(buyer.address, 6);
+
+    const { Swap, MockedERC20, MockedWETH9, MockedERC721 } = await deploySwap({
+      nfts: { [seller.address]: [1] },
+      currencies: { [buyer.address]: ethers.utils.parseEther("100") },
+      whitelist: (mocks) => [
+        mocks.MockedERC721.address,
+        MockedERC721Royalty.address,
+        mocks.MockedERC20.address,
+        mocks.MockedWETH9.address,
+      ],
+    });
+
+    return {
+      Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      MockedERC20,
+      MockedWETH9,
+      MockedERC721,
+      MockedERC721Royalty,
+      owner,
+      seller,
+      buyer,
+      creator,
+      overrideReceiver,
+    };
+  }
+
+  /**
+   * @dev Offer nfts, ask for erc20 and let the buyer fulfill
+   */
+  const sellForERC20 = async (
+    id: string,
+    collectionAddress: string,
+    tokenIds: number[],
+    amount: string
+  ) => {
+    const { SellerClient, BuyerClient, MockedERC20 } = fixtures;
+
+    await SellerClient.createProposal({
+      id,
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: tokenIds.map((tokenId) => ({
+        contractAddress: collectionAddress,
+        itemType: SwapItemType.Nft,
+        tokenId,
+      })),
+      swapOptions: [
+        {
+          id: `${id}_option`,
+          askingItems: [
+            {
+              contractAddress: MockedERC20.address,
+              itemType: SwapItemType.Currency,
+              amount: ethers.utils.parseEther(amount),
+            },
+          ],
+        },
+      ],
+    });
+
+    return BuyerClient.fulfillProposal(id, `${id}_option`);
+  };
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: only config admins can configure royalties within the cap", async () => {
+    const { Swap, owner, buyer, MockedERC721, overrideReceiver } = fixtures;
+
+    await expect(Swap.connect(buyer).configureRoyalty(1000))
+      .to.be.revertedWithCustomError(Swap, "MissingRole")
+      .withArgs(SWAP_ROLES.configAdmin, buyer.address);
+    await expect(
+      Swap.connect(buyer).configureRoyaltyOverride(
+        MockedERC721.address,
+        true,
+        overrideReceiver.address,
+        300
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "MissingRole")
+      .withArgs(SWAP_ROLES.configAdmin, buyer.address);
+
+    await expect(Swap.connect(owner).configureRoyalty(5001))
+      .to.be.revertedWithCustomError(Swap, "RoyaltyTooHigh")
+      .withArgs(5001, 5000);
+    await expect(
+      Swap.connect(owner).configureRoyaltyOverride(
+        MockedERC721.address,
+        true,
+        overrideReceiver.address,
+        5001
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "RoyaltyTooHigh")
+      .withArgs(5001, 5000);
+
+    await expect(Swap.connect(owner).configureRoyalty(1000))
+      .to.emit(Swap, "RoyaltyConfigurationChanged")
+      .withArgs(owner.address, (timestamp: unknown) => !!timestamp, 1000);
+
+    expect(await Swap.royaltyCapBasisPoints()).eq(1000);
+  });
+
+  it("Should: royalty is resolved from eip-2981 and bounded by the cap", async () => {
+    const { BuyerClient, MockedERC721Royalty, MockedERC721, creator } =
+      fixtures;
+    const price = ethers.utils.parseEther("10");
+
+    const defaultRoyalty = await BuyerClient.getRoyalty(
+      MockedERC721Royalty.address,
+      1,
+      price
+    );
+    expect(defaultRoyalty.receiver).eq(creator.address);
+    expect(defaultRoyalty.amount).eq(ethers.utils.parseEther("0.5"));
+
+    /**
+     * @dev 20% is bounded by the 10% cap
+     */
+    const cappedRoyalty = await BuyerClient.getRoyalty(
+      MockedERC721Royalty.address,
+      2,
+      price
+    );
+    expect(cappedRoyalty.amount).eq(ethers.utils.parseEther("1"));
+
+    /**
+     * @dev Collections without eip-2981 pay nothing
+     */
+    const noRoyalty = await BuyerClient.getRoyalty(
+      MockedERC721.address,
+      1,
+      price
+    );
+    expect(noRoyalty.receiver).eq(ethers.constants.AddressZero);
+    expect(noRoyalty.amount).eq(0);
+  });
+
+  it("Should: pay royalty out of the asking erc20 when an nft is sold", async () => {
+    const { Swap, MockedERC20, MockedERC721Royalty, seller, buyer, creator } =
+      fixtures;
+
+    const { transactionHash } = await sellForERC20(
+      "proposal_1",
+      MockedERC721Royalty.address,
+      [1],
+      "10"
+    );
+
+    await expect(transactionHash)
+      .to.emit(Swap, "RoyaltyPaid")
+      .withArgs(
+        (id: string) => !!id,
+        buyer.address,
+        creator.address,
+        (timestamp: unknown) => !!timestamp,
+        MockedERC20.address,
+        ethers.utils.parseEther("0.5"),
+        MockedERC721Royalty.address,
+        1
+      );
+
+    expect(await MockedERC20.balanceOf(creator.address)).eq(
+      ethers.utils.parseEther("0.5")
+    );
+    expect(await MockedERC20.balanceOf(seller.address)).eq(
+      ethers.utils.parseEther("9.5")
+    );
+    expect(await MockedERC721Royalty.ownerOf(1)).eq(buyer.address);
+  });
+
+  it("Should: cap the royalty and split the price between nfts of the bundle", async () => {
+    const { MockedERC20, MockedERC721Royalty, seller, creator } = fixtures;
+
+    /**
+     * @dev Token 2 pays 10% of 5, token 3 pays 5% of 5
+     */
+    await sellForERC20("proposal_2", MockedERC721Royalty.address, [2, 3], "10");
+
+    expect(await MockedERC20.balanceOf(creator.address)).eq(
+      ethers.utils.parseEther("1.25")
+    );
+    expect(await MockedERC20.balanceOf(seller.address)).eq(
+      ethers.utils.parseEther("18.75")
+    );
+  });
+
+  it("Should: pay royalty out of the offered weth when an nft is bought", async () => {
+    const {
+      Swap,
+      SellerClient,
+      BuyerClient,
+      MockedWETH9,
+      MockedERC721Royalty,
+    } = fixtures;
+    const { buyer, seller, creator } = fixtures;
+
+    await SellerClient.wrapETH(ethers.utils.parseEther("2"));
+    await SellerClient.createProposal({
+      id: "proposal_3",
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: MockedWETH9.address,
+          itemType: SwapItemType.Currency,
+          amount: ethers.utils.parseEther("2"),
+        },
+      ],
+      swapOptions: [
+        {
+          id: "proposal_3_option",
+          askingItems: [
+            {
+              contractAddress: MockedERC721Royalty.address,
+              itemType: SwapItemType.Nft,
+              tokenId: 6,
+            },
+          ],
+        },
+      ],
+    });
+
+    await BuyerClient.ensureApprovals([
+      {
+        id: "",
+        contractAddress: MockedERC721Royalty.address,
+        itemType: SwapItemType.Nft,
+        amount: ethers.BigNumber.from(1),
+        tokenId: ethers.BigNumber.from(6),
+      },
+    ]);
+
+    /**
+     * @dev The buyer sells the nft, the royalty is taken from the escrowed weth
+     */
+    await expect(
+      Swap.connect(buyer).fulfillProposal(
+        "proposal_3",
+        "proposal_3_option",
+        buyer.address
+      )
+    ).to.changeEtherBalance(buyer, ethers.utils.parseEther("1.9"));
+
+    expect(await MockedWETH9.balanceOf(creator.address)).eq(
+      ethers.utils.parseEther("0.1")
+    );
+    expect(await MockedWETH9.balanceOf(Swap.address)).eq(0);
+    expect(await MockedERC721Royalty.ownerOf(6)).eq(seller.address);
+  });
+
+  it("Should: collection override takes precedence over eip-2981", async () => {
+    const {
+      Swap,
+      MockedERC20,
+      MockedERC721,
+      MockedERC721Royalty,
+      owner,
+      creator,
+      overrideReceiver,
+    } = fixtures;
+
+    await expect(
+      Swap.connect(owner).configureRoyaltyOverride(
+        MockedERC721.address,
+        true,
+        overrideReceiver.address,
+        300
+      )
+    )
+      .to.emit(Swap, "RoyaltyOverrideChanged")
+      .withArgs(
+        owner.address,
+        (timestamp: unknown) => !!timestamp,
+        MockedERC721.address,
+        true,
+        overrideReceiver.address,
+        300
+      );
+
+    /**
+     * @dev A zero receiver disables the eip-2981 royalty
+     */
+    await Swap.connect(owner).configureRoyaltyOverride(
+      MockedERC721Royalty.address,
+      true,
+      ethers.constants.AddressZero,
+      0
+    );
+
+    await sellForERC20("proposal_4", MockedERC721.address, [1], "10");
+    expect(await MockedERC20.balanceOf(overrideReceiver.address)).eq(
+      ethers.utils.parseEther("0.3")
+    );
+
+    const creatorBalance = await MockedERC20.balanceOf(creator.address);
+    await sellForERC20("proposal_5", MockedERC721Royalty.address, [4], "10");
+    expect(await MockedERC20.balanceOf(creator.address)).eq(creatorBalance);
+  });
+
+  it("Should: royalties are not paid when the cap is 0", async () => {
+    const { Swap, MockedERC20, MockedERC721Royalty, owner, creator } = fixtures;
+
+    await Swap.connect(owner).configureRoyaltyOverride(
+      MockedERC721Royalty.address,
+      false,
+      ethers.constants.AddressZero,
+      0
+    );
+    await Swap.connect(owner).configureRoyalty(0);
+
+    const creatorBalance = await MockedERC20.balanceOf(creator.address);
+    await sellForERC20("proposal_6", MockedERC721Royalty.address, [5], "10");
+    expect(await MockedERC20.balanceOf(creator.address)).eq(creatorBalance);
+  });
+});
@@ -0,0 +1,351 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import {
+  hashSignedProposal,
+  HamsterSwapClient,
+  ProposalStatus,
+  signSignedProposal,
+  SignedProposalInput,
+  SwapItemType,
+  verifySignedProposal,
+} from "../src/sdk";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap signed proposals", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, seller, buyer, stranger] = await ethers.getSigners();
+
+    const { Swap, MockedERC20, MockedERC721 } = await deploySwap({
+      nfts: { [seller.address]: [1, 2, 3, 4, 5, 6, 7] },
+      currencies: {
+        [buyer.address]: ethers.utils.parseEther("10"),
+        [stranger.address]: ethers.utils.parseEther("10"),
+      },
+    });
+
+    return {
+      Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      StrangerClient: new HamsterSwapClient(Swap, stranger),
+      MockedERC20,
+      MockedERC721,
+      seller,
+      buyer,
+      stranger,
+    };
+  }
+
+  /**
+   * @dev Offer an nft for 1 erc20
+   */
+  const buildInput = async (
+    id: string,
+    tokenId: number,
+    input: Partial<SignedProposalInput> = {}
+  ): Promise<SignedProposalInput> => ({
+    id,
+    expiredAt: (await time.latest()) + 60 * 60,
+    offeredItems: [
+      {
+        id: `${id}_offeredItem`,
+        contractAddress: fixtures.MockedERC721.address,
+        itemType: SwapItemType.Nft,
+        tokenId,
+      },
+    ],
+    swapOptions: [
+      {
+        id: `${id}_option`,
+        askingItems: [
+          {
+            id: `${id}_askingItem`,
+            contractAddress: fixtures.MockedERC20.address,
+            itemType: SwapItemType.Currency,
+            amount: ethers.utils.parseEther("1"),
+          },
+        ],
+      },
+    ],
+    ...input,
+  });
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: off-chain hash and signature match the contract", async () => {
+    const { Swap, SellerClient, stranger } = fixtures;
+
+    const { proposal, signature } = await SellerClient.signProposal(
+      await buildInput("proposal_0", 1, {
+        allowedFulfillers: [stranger.address],
+      })
+    );
+    const domain = await SellerClient.getSignedProposalDomain();
+
+    expect(hashSignedProposal(domain, proposal)).eq(
+      await Swap.hashSignedProposal(proposal)
+    );
+    expect(verifySignedProposal(domain, proposal, signature)).to.be.true;
+
+    /**
+     * @dev Any change invalidates the signature
+     */
+    expect(
+      verifySignedProposal(
+        domain,
+        { ...proposal, expiredAt: proposal.expiredAt.add(1) },
+        signature
+      )
+    ).to.be.false;
+  });
+
+  it("Should: anyone can fulfill a signed proposal while the owner keeps custody", async () => {
+    const { Swap, SellerClient, BuyerClient, MockedERC20, MockedERC721 } =
+      fixtures;
+    const { seller, buyer } = fixtures;
+
+    const { proposal, signature } = await SellerClient.signProposal(
+      await buildInput("proposal_1", 1)
+    );
+
+    /**
+     * @dev Nothing is escrowed
+     */
+    expect(await MockedERC721.ownerOf(1)).eq(seller.address);
+    expect(await SellerClient.isNonceUsed(proposal.nonce)).to.be.false;
+
+    const receipt = await BuyerClient.fulfillSignedProposal(
+      proposal,
+      signature,
+      "proposal_1_option"
+    );
+
+    expect(await MockedERC721.ownerOf(1)).eq(buyer.address);
+    expect(await MockedERC20.balanceOf(seller.address)).eq(
+      ethers.utils.parseEther("1")
+    );
+    expect(await MockedERC20.balanceOf(Swap.address)).eq(0);
+    expect(await SellerClient.isNonceUsed(proposal.nonce)).to.be.true;
+
+    /**
+     * @dev The proposal is recorded under the digest its owner signed, not under its id
+     */
+    await expect(receipt.transactionHash)
+      .to.emit(Swap, "SignedProposalFulfilled")
+      .withArgs(
+        await Swap.hashSignedProposal(proposal),
+        "proposal_1",
+        seller.address,
+        buyer.address,
+        (timestamp: unknown) => !!timestamp,
+        "proposal_1_option"
+      );
+    expect((await Swap.proposals("proposal_1")).id).eq("");
+  });
+
+  it("Should: signed proposal cannot be replayed", async () => {
+    const { Swap, SellerClient, BuyerClient, seller } = fixtures;
+
+    const { proposal, signature } = await SellerClient.signProposal(
+      await buildInput("proposal_2", 2)
+    );
+    await BuyerClient.fulfillSignedProposal(
+      proposal,
+      signature,
+      "proposal_2_option"
+    );
+
+    await expect(
+      BuyerClient.fulfillSignedProposal(
+        proposal,
+        signature,
+        "proposal_2_option"
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "NonceAlreadyUsed")
+      .withArgs(seller.address, proposal.nonce);
+  });
+
+  it("Should: signature of another wallet is rejected", async () => {
+    const { Swap, SellerClient, BuyerClient, StrangerClient, stranger } =
+      fixtures;
+    const { seller } = fixtures;
+
+    const { proposal } = await SellerClient.signProposal(
+      await buildInput("proposal_3", 3)
+    );
+    const forgedSignature = await signSignedProposal(
+      stranger,
+      await StrangerClient.getSignedProposalDomain(),
+      proposal
+    );
+
+    await expect(
+      BuyerClient.fulfillSignedProposal(
+        proposal,
+        forgedSignature,
+        "proposal_3_option"
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "InvalidSignature")
+      .withArgs(seller.address);
+  });
+
+  it("Should: private signed proposal can only be fulfilled by allowed addresses", async () => {
+    const { Swap, SellerClient, BuyerClient, StrangerClient, buyer, stranger } =
+      fixtures;
+
+    const { proposal, signature } = await SellerClient.signProposal(
+      await buildInput("proposal_4", 4, { allowedFulfillers: [buyer.address] })
+    );
+
+    await expect(
+      StrangerClient.fulfillSignedProposal(
+        proposal,
+        signature,
+        "proposal_4_option"
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "NotAllowedFulfiller")
+      .withArgs("proposal_4", stranger.address);
+
+    await expect(
+      (
+        await BuyerClient.fulfillSignedProposal(
+          proposal,
+          signature,
+          "proposal_4_option"
+        )
+      ).transactionHash
+    )
+      .to.emit(Swap, "SignedProposalFulfilled")
+      .withArgs(
+        await Swap.hashSignedProposal(proposal),
+        "proposal_4",
+        proposal.owner,
+        buyer.address,
+        (timestamp: unknown) => !!timestamp,
+        "proposal_4_option"
+      );
+  });
+
+  it("Should: a squatted id does not block a signed fill", async () => {
+    const { Swap, SellerClient, BuyerClient, StrangerClient } = fixtures;
+    const { MockedERC20, MockedERC721, buyer, stranger } = fixtures;
+
+    const { proposal, signature } = await SellerClient.signProposal(
+      await buildInput("proposal_7", 7)
+    );
+
+    /**
+     * @dev A stranger takes the ids of the signed proposal in an escrowed one
+     */
+    await StrangerClient.createProposal({
+      id: "proposal_7",
+      expiredAt: proposal.expiredAt,
+      offeredItems: [
+        {
+          id: "proposal_7_offeredItem",
+          contractAddress: MockedERC20.address,
+          itemType: SwapItemType.Currency,
+          amount: ethers.utils.parseEther("1"),
+        },
+      ],
+      swapOptions: [
+        {
+          id: "proposal_7_option",
+          askingItems: [
+            {
+              id: "proposal_7_askingItem",
+              contractAddress: MockedERC721.address,
+              itemType: SwapItemType.Nft,
+              tokenId: 7,
+            },
+          ],
+        },
+      ],
+    });
+
+    await expect(
+      (
+        await BuyerClient.fulfillSignedProposal(
+          proposal,
+          signature,
+          "proposal_7_option"
+        )
+      ).transactionHash
+    )
+      .to.emit(Swap, "SignedProposalFulfilled")
+      .withArgs(
+        await Swap.hashSignedProposal(proposal),
+        "proposal_7",
+        proposal.owner,
+        buyer.address,
+        (timestamp: unknown) => !!timestamp,
+        "proposal_7_option"
+      );
+    expect(await MockedERC721.ownerOf(7)).eq(buyer.address);
+
+    /**
+     * @dev The escrowed proposal is left untouched
+     */
+    const { owner, status } = await StrangerClient.getProposal("proposal_7");
+    expect(owner).eq(stranger.address);
+    expect(status).eq(ProposalStatus.Deposited);
+  });
+
+  it("Should: owner can cancel nonces of signed proposals", async () => {
+    const { Swap, SellerClient, BuyerClient, seller } = fixtures;
+
+    const { proposal, signature } = await SellerClient.signProposal(
+      await buildInput("proposal_5", 5)
+    );
+
+    await expect(Swap.connect(seller).cancelNonces([proposal.nonce]))
+      .to.emit(Swap, "NoncesCancelled")
+      .withArgs(seller.address, (timestamp: unknown) => !!timestamp, [
+        proposal.nonce,
+      ]);
+
+    await expect(
+      BuyerClient.fulfillSignedProposal(
+        proposal,
+        signature,
+        "proposal_5_option"
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "NonceAlreadyUsed")
+      .withArgs(seller.address, proposal.nonce);
+  });
+
+  it("Should: expired signed proposal cannot be fulfilled", async () => {
+    const { Swap, SellerClient, BuyerClient } = fixtures;
+
+    /**
+     * @dev Keep the expiry short, later suites derive expiries from the wall clock
+     */
+    const { proposal, signature } = await SellerClient.signProposal(
+      await buildInput("proposal_6", 6, {
+        expiredAt: (await time.latest()) + 10,
+      })
+    );
+
+    await time.increaseTo(proposal.expiredAt);
+
+    await expect(
+      BuyerClient.fulfillSignedProposal(
+        proposal,
+        signature,
+        "proposal_6_option"
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "ProposalExpired")
+      .withArgs("proposal_6", proposal.expiredAt);
+  });
+});
@@ -1,38 +1,15 @@
-import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
 import { expect } from "chai";
-import { ethers, upgrades } from "hardhat";
-
-import { Etherman, HamsterSwap, IWETH9__factory } from "../typechain-types";
-
-/**
- * @dev Define the item type
- */
-enum SwapItemType {
-  Nft,
-  Currency,
-}
-
-/**
- * @dev Define status enum
- */
-enum SwapItemStatus {
-  Created,
-  Deposited,
-  Redeemed,
-  Withdrawn,
-}
-
-/**
- * @dev Define proposal status
- */
-enum ProposalStatus {
-  Created,
-  Deposited,
-  Fulfilled,
-  Canceled,
-  Redeemed,
-  Withdrawn,
-}
+import { ethers } from "hardhat";
+
+import {
+  decodeSwapError,
+  HamsterSwapClient,
+  ProposalStatus,
+  SwapItemStatus,
+  SwapItemType,
+} from "../src/sdk";
+import { deploySwap } from "./helpers/fixtures";
 
 describe("HamsterSwap", async function () {
   let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
@@ -41,64 +18,30 @@ describe("HamsterSwap", async function () {
   // We use loadFixture to run this setup once, snapshot that state,
   // and reset Hardhat Network to that snapshopt in every test.
   async function deployFixtures() {
-    const [owner, seller, buyer] = await ethers.getSigners();
-
-    /**
-     * @dev Initializes mocked erc contracts
-     */
-
-    const MockedERC20Contract = await ethers.getContractFactory("MockedERC20");
-    const MockedERC20 = await MockedERC20Contract.deploy();
-
-    const MockedERC721Contract = await ethers.getContractFactory(
-      "MockedERC721"
-    );
-    const MockedERC721 = await MockedERC721Contract.deploy();
-    const MockedERC20Test = await MockedERC20Contract.deploy();
-
-    const ERC20_WETH = IWETH9__factory.connect(MockedERC20Test.address, owner);
-    const EthermanFactory = await ethers.getContractFactory("Etherman");
-    const EthermanContract = (await EthermanFactory.deploy(
-      ERC20_WETH.address
-    )) as unknown as Etherman;
-
-    /**
-     * @dev Mint erc721
-     */
-    await MockedERC721.connect(owner).safeMint(buyer.address, "1");
-    await MockedERC721.connect(owner).safeMint(seller.address, "2");
-
-    /**
-     * @dev Funding erc20
-     */
-    await MockedERC20.connect(owner).transfer(
-      seller.address,
-      ethers.BigNumber.from(ethers.constants.WeiPerEther).mul(20)
-    );
-
-    /**
-     * @dev Deploy contract
-     */
-    const SwapContract = await ethers.getContractFactory("HamsterSwap");
-    const Swap = (await upgrades.deployProxy(SwapContract, [], {
-      unsafeAllow: ["constructor", "delegatecall"],
-    })) as unknown as HamsterSwap;
-
-    /**
-     * @dev Configure registry
-     */
-    await Swap.connect(owner).configure(
-      "3",
-      "4",
-      [MockedERC721.address, MockedERC20.address],
-      [],
-      EthermanContract.address
-    );
+    const [, seller, buyer] = await ethers.getSigners();
+
+    const { Swap, MockedERC20, MockedERC721, owner } = await deploySwap({
+      nfts: { [buyer.address]: [1], [seller.address]: [2] },
+      currencies: {
+        [seller.address]: ethers.BigNumber.from(
+          ethers.constants.WeiPerEther
+        ).mul(20),
+      },
+    });
 
     /**
      * @dev return
      */
-    return { Swap, MockedERC20, MockedERC721, owner, seller, buyer };
+    return {
+      Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      MockedERC20,
+      MockedERC721,
+      owner,
+      seller,
+      buyer,
+    };
   }
 
   before(async () => {
@@ -118,16 +61,7 @@ describe("HamsterSwap", async function () {
   });
 
   it("Should: anyone can create proposal and deposit items", async () => {
-    const { Swap, MockedERC20, MockedERC721, seller } = fixtures;
-
-    /**
-     * @dev Approve first
-     */
-    await MockedERC20.connect(seller).approve(
-      Swap.address,
-      ethers.BigNumber.from(ethers.constants.MaxInt256)
-    );
-    await MockedERC721.connect(seller).setApprovalForAll(Swap.address, true);
+    const { Swap, SellerClient, MockedERC20, MockedERC721, seller } = fixtures;
 
     /**
      * @dev Expect initial values
@@ -194,24 +128,22 @@ describe("HamsterSwap", async function () {
         ],
       },
     ];
-    const expiredAt =
-      parseInt((new Date().getTime() / 1000).toString()) + 60 * 60;
+    const expiredAt = (await time.latest()) + 60 * 60;
 
     /**
-     * @dev Call contract
+     * @dev Approve and call contract
      */
-    await Swap.connect(seller).createProposal(
-      proposalId,
-      seller.address,
+    await SellerClient.createProposal({
+      id: proposalId,
+      expiredAt,
       offeredItems,
-      askingItems,
-      expiredAt
-    );
+      swapOptions: askingItems,
+    });
 
     /**
      * @dev Expect
      */
-    const proposal = await Swap.proposals(proposalId);
+    const proposal = await SellerClient.getProposal(proposalId);
 
     /**
      * @dev Expect initial values
@@ -226,7 +158,7 @@ describe("HamsterSwap", async function () {
     /**
      * @dev Expect items and options
      */
-    const [items, options] = await Swap.getProposalItemsAndOptions(proposalId);
+    const { offeredItems: items, swapOptions: options } = proposal;
 
     /**
      * @dev Expect offered items have been recoded properly
@@ -237,9 +169,9 @@ describe("HamsterSwap", async function () {
       expect(item.amount).eq(items[index].amount);
       expect(item.contractAddress).eq(items[index].contractAddress);
       expect(items[index].owner).eq(seller.address); // owner is recorded properly
-      expect(items[index].status).eq(ProposalStatus.Deposited); // status changed to deposited
+      expect(items[index].status).eq(SwapItemStatus.Deposited); // status changed to deposited
 
-      if (item.itemType === 1) {
+      if (item.itemType === SwapItemType.Currency) {
         expect(items[index].tokenId).eq(0);
       } else {
         expect(item.tokenId).eq(items[index].tokenId);
@@ -264,7 +196,7 @@ describe("HamsterSwap", async function () {
         expect(item.tokenId).eq(options[index].askingItems[itemIndex].tokenId);
 
         expect(options[index].askingItems[itemIndex].status).eq(
-          ProposalStatus.Created
+          SwapItemStatus.Created
         ); // status has been recoded as created
         expect(options[index].askingItems[itemIndex].owner).eq(
           ethers.constants.AddressZero
@@ -286,7 +218,8 @@ describe("HamsterSwap", async function () {
   });
 
   it("should: anyone can fulfill proposal if he/she owns the required items and exec the pocket", async () => {
-    const { Swap, MockedERC20, MockedERC721, seller, buyer } = fixtures;
+    const { Swap, BuyerClient, MockedERC20, MockedERC721, seller, buyer } =
+      fixtures;
 
     /**
      * @dev Before fulfilling the proposal, the balance will be empty
@@ -305,26 +238,15 @@ describe("HamsterSwap", async function () {
     expect(await MockedERC721.ownerOf(2)).eq(Swap.address);
 
     /**
-     * @dev Approve first
-     */
-    await MockedERC721.connect(buyer).setApprovalForAll(Swap.address, true);
-
-    /**
-     * @dev Call contract
+     * @dev Approve and call contract
      */
-    await Swap.connect(buyer).fulfillProposal(
-      "proposal_1",
-      "option_1",
-      buyer.address
-    );
+    await BuyerClient.fulfillProposal("proposal_1", "option_1");
 
     /**
      * @dev Expect
      */
-    const proposal = await Swap.proposals("proposal_1");
-    const [items, options] = await Swap.getProposalItemsAndOptions(
-      "proposal_1"
-    );
+    const proposal = await BuyerClient.getProposal("proposal_1");
+    const { offeredItems: items, swapOptions: options } = proposal;
 
     expect(proposal.status).eq(ProposalStatus.Redeemed); // Redeemed
     expect(proposal.fulfilledByOptionId).eq("option_1");
@@ -369,7 +291,16 @@ describe("HamsterSwap", async function () {
   });
 
   it("should: non-proposal owner cannot cancel proposal", async () => {
-    const { Swap, MockedERC20, MockedERC721, seller, owner, buyer } = fixtures;
+    const {
+      Swap,
+      SellerClient,
+      BuyerClient,
+      MockedERC20,
+      MockedERC721,
+      seller,
+      owner,
+      buyer,
+    } = fixtures;
 
     /**
      * @dev Funding erc20
@@ -387,7 +318,7 @@ describe("HamsterSwap", async function () {
       {
         id: "offeredItem_4",
         contractAddress: MockedERC20.address,
-        itemType: 1,
+        itemType: SwapItemType.Currency,
         amount: ethers.BigNumber.from(ethers.constants.WeiPerEther).mul(10),
         tokenId: 1,
       },
@@ -401,56 +332,46 @@ describe("HamsterSwap", async function () {
             contractAddress: MockedERC721.address,
             amount: 1,
             tokenId: 1,
-            itemType: 0,
+            itemType: SwapItemType.Nft,
           },
         ],
       },
     ];
-    const expiredAt =
-      parseInt((new Date().getTime() / 1000).toString()) + 60 * 60;
+    const expiredAt = (await time.latest()) + 60 * 60;
 
     /**
-     * @dev Call contract
+     * @dev Approve and call contract
      */
-    await Swap.connect(seller).createProposal(
-      proposalId,
-      seller.address,
+    await SellerClient.createProposal({
+      id: proposalId,
+      expiredAt,
       offeredItems,
-      askingItems,
-      expiredAt
-    );
+      swapOptions: askingItems,
+    });
 
     expect(await MockedERC20.balanceOf(seller.address)).eq(0);
 
     /**
      * @dev Cannot cancel the redeemed proposal
      */
-    try {
-      await Swap.connect(buyer).cancelProposal("proposal_2");
-      throw new Error("Should failed");
-    } catch (e: any) {
-      expect(
-        e
-          .toString()
-          .includes(
-            "Error: VM Exception while processing transaction: reverted with panic code 0x1"
-          )
-      ).eq(true);
-    }
+    await expect(BuyerClient.cancelProposal("proposal_2"))
+      .to.be.revertedWithCustomError(Swap, "NotProposalOwner")
+      .withArgs("proposal_2", buyer.address);
   });
 
   it("shoud: proposan owner can cancel proposal", async () => {
-    const { Swap, MockedERC20, seller } = fixtures;
+    const { SellerClient, MockedERC20, seller } = fixtures;
 
     /**
      * @dev Cancel
      */
-    await Swap.connect(seller).cancelProposal("proposal_2");
+    await SellerClient.cancelProposal("proposal_2");
 
-    const proposal = await Swap.proposals("proposal_2");
-    const [items] = await Swap.getProposalItemsAndOptions("proposal_2");
+    const { status, offeredItems: items } = await SellerClient.getProposal(
+      "proposal_2"
+    );
 
-    expect(proposal.status).eq(5); // Canceled
+    expect(status).eq(ProposalStatus.Withdrawn); // Canceled
 
     /**
      * @dev Expect offered items have been recoded properly
@@ -466,42 +387,147 @@ describe("HamsterSwap", async function () {
   });
 
   it("should: proposal owner cannot cancel the completed proposal", async () => {
-    const { Swap, seller } = fixtures;
+    const { Swap, SellerClient } = fixtures;
 
     /**
      * @dev Cannot cancel the redeemed proposal
      */
-    try {
-      await Swap.connect(seller).cancelProposal("proposal_1");
-      throw new Error("Should failed");
-    } catch (e: any) {
-      expect(
-        e
-          .toString()
-          .includes(
-            "Error: VM Exception while processing transaction: reverted with panic code 0x1"
-          )
-      ).eq(true);
-    }
+    await expect(SellerClient.cancelProposal("proposal_1"))
+      .to.be.revertedWithCustomError(Swap, "InvalidProposalStatus")
+      .withArgs("proposal_1", ProposalStatus.Redeemed);
   });
 
   it("should: proposal owner cannot cancel the withdrawn proposal", async () => {
-    const { Swap, seller } = fixtures;
+    const { Swap, SellerClient } = fixtures;
 
     /**
-     * @dev Cannot cancel the redeemed proposal
+     * @dev Cannot cancel the withdrawn proposal
      */
+    await expect(SellerClient.cancelProposal("proposal_2"))
+      .to.be.revertedWithCustomError(Swap, "InvalidProposalStatus")
+      .withArgs("proposal_2", ProposalStatus.Withdrawn);
+  });
+
+  it("should: cannot reuse an existing id", async () => {
+    const { Swap, SellerClient, MockedERC20 } = fixtures;
+
+    await expect(
+      SellerClient.createProposal({
+        id: "proposal_3",
+        expiredAt: (await time.latest()) + 60 * 60,
+        offeredItems: [
+          {
+            id: "offeredItem_1",
+            contractAddress: MockedERC20.address,
+            itemType: SwapItemType.Currency,
+            amount: ethers.constants.WeiPerEther,
+          },
+        ],
+        swapOptions: [],
+      })
+    )
+      .to.be.revertedWithCustomError(Swap, "DuplicateId")
+      .withArgs("offeredItem_1");
+  });
+
+  it("should: cannot ask for a non-whitelisted collection", async () => {
+    const { Swap, SellerClient } = fixtures;
+    const contractAddress = "0x000000000000000000000000000000000000dEaD";
+
+    await expect(
+      SellerClient.createProposal({
+        expiredAt: (await time.latest()) + 60 * 60,
+        offeredItems: [],
+        swapOptions: [
+          {
+            askingItems: [
+              { contractAddress, itemType: SwapItemType.Nft, tokenId: 1 },
+            ],
+          },
+        ],
+      })
+    )
+      .to.be.revertedWithCustomError(Swap, "NotWhitelisted")
+      .withArgs(contractAddress);
+  });
+
+  it("should: cannot fulfill with an unknown option", async () => {
+    const { Swap, SellerClient, MockedERC20, buyer } = fixtures;
+
+    await SellerClient.createProposal({
+      id: "proposal_3",
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          id: "offeredItem_5",
+          contractAddress: MockedERC20.address,
+          itemType: SwapItemType.Currency,
+          amount: ethers.constants.WeiPerEther,
+        },
+      ],
+      swapOptions: [
+        {
+          id: "option_4",
+          askingItems: [
+            {
+              id: "askingItem_6",
+              contractAddress: MockedERC20.address,
+              itemType: SwapItemType.Currency,
+              amount: ethers.constants.WeiPerEther,
+            },
+          ],
+        },
+      ],
+    });
+
+    await expect(
+      Swap.connect(buyer).fulfillProposal(
+        "proposal_3",
+        "option_unknown",
+        buyer.address
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "OptionNotFound")
+      .withArgs("proposal_3", "option_unknown");
+  });
+
+  it("should: revert can be decoded into a typed error", async () => {
+    const { Swap, buyer } = fixtures;
+
     try {
-      await Swap.connect(seller).cancelProposal("proposal_2");
+      await Swap.connect(buyer).fulfillProposal(
+        "proposal_3",
+        "option_unknown",
+        buyer.address
+      );
       throw new Error("Should failed");
-    } catch (e: any) {
-      expect(
-        e
-          .toString()
-          .includes(
-            "Error: VM Exception while processing transaction: reverted with panic code 0x1"
-          )
-      ).eq(true);
+    } catch (e) {
+      const error = decodeSwapError(e);
+
+      expect(error?.errorName).eq("OptionNotFound");
+      expect(error?.args.proposalId).eq("proposal_3");
+      expect(error?.args.optionId).eq("option_unknown");
+    }
+
+    try {
+      await Swap.connect(buyer).cancelProposal("proposal_unknown");
+      throw new Error("Should failed");
+    } catch (e) {
+      const error = decodeSwapError(e);
+
+      expect(error?.errorName).eq("ProposalNotFound");
+      expect(error?.args.id).eq("proposal_unknown");
     }
   });
+
+  it("should: cannot fulfill an expired proposal", async () => {
+    const { Swap, BuyerClient } = fixtures;
+    const { expiredAt } = await BuyerClient.getProposal("proposal_3");
+
+    await time.increaseTo(expiredAt);
+
+    await expect(BuyerClient.fulfillProposal("proposal_3", "option_4"))
+      .to.be.revertedWithCustomError(Swap, "ProposalExpired")
+      .withArgs("proposal_3", expiredAt);
+  });
 });
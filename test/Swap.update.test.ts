@@ -0,0 +1,259 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import {
+  HamsterSwapClient,
+  ProposalStatus,
+  SwapItemType,
+  SwapOptionInput,
+} from "../src/sdk";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap proposal updates", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, seller, buyer] = await ethers.getSigners();
+
+    const MockedERC20Contract = await ethers.getContractFactory("MockedERC20");
+    const NotWhitelistedERC20 = await MockedERC20Contract.deploy();
+
+    const { Swap, MockedERC20, MockedERC721 } = await deploySwap({
+      nfts: { [seller.address]: [1, 2, 3] },
+      currencies: {
+        [seller.address]: ethers.utils.parseEther("10"),
+        [buyer.address]: ethers.utils.parseEther("10"),
+      },
+    });
+
+    return {
+      Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      BuyerClient: new HamsterSwapClient(Swap, buyer),
+      MockedERC20,
+      NotWhitelistedERC20,
+      MockedERC721,
+      seller,
+      buyer,
+    };
+  }
+
+  /**
+   * @dev Ask for an amount of erc20
+   */
+  const askForERC20 = (id: string, amount: string): SwapOptionInput => ({
+    id,
+    askingItems: [
+      {
+        contractAddress: fixtures.MockedERC20.address,
+        itemType: SwapItemType.Currency,
+        amount: ethers.utils.parseEther(amount),
+      },
+    ],
+  });
+
+  /**
+   * @dev Offer an nft for 5 or 6 erc20
+   */
+  const createProposal = async (id: string, tokenId: number) =>
+    fixtures.SellerClient.createProposal({
+      id,
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: fixtures.MockedERC721.address,
+          itemType: SwapItemType.Nft,
+          tokenId,
+        },
+      ],
+      swapOptions: [
+        askForERC20(`${id}_option_1`, "5"),
+        askForERC20(`${id}_option_2`, "6"),
+      ],
+    });
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: owner extends the expiry and adds an option", async () => {
+    const { Swap, SellerClient, BuyerClient, MockedERC20, seller, buyer } =
+      fixtures;
+
+    await createProposal("proposal_1", 1);
+    const { expiredAt } = await SellerClient.getProposal("proposal_1");
+
+    /**
+     * @dev Only the owner can update
+     */
+    await expect(
+      BuyerClient.updateProposal("proposal_1", { expiredAt: expiredAt + 60 })
+    )
+      .to.be.revertedWithCustomError(Swap, "NotProposalOwner")
+      .withArgs("proposal_1", buyer.address);
+
+    const receipt = await SellerClient.updateProposal("proposal_1", {
+      expiredAt: expiredAt + 60,
+      addedSwapOptions: [askForERC20("proposal_1_option_3", "4")],
+    });
+    await expect(receipt.transactionHash)
+      .to.emit(Swap, "ProposalUpdated")
+      .withArgs(
+        "proposal_1",
+        seller.address,
+        (timestamp: unknown) => !!timestamp
+      );
+
+    const proposal = await SellerClient.getProposal("proposal_1");
+    expect(proposal.expiredAt).eq(expiredAt + 60);
+    expect(proposal.swapOptions.map(({ id }) => id)).deep.eq([
+      "proposal_1_option_1",
+      "proposal_1_option_2",
+      "proposal_1_option_3",
+    ]);
+
+    /**
+     * @dev The added option can be fulfilled
+     */
+    await BuyerClient.fulfillProposal("proposal_1", "proposal_1_option_3");
+    expect(await MockedERC20.balanceOf(seller.address)).eq(
+      ethers.utils.parseEther("14")
+    );
+    expect((await SellerClient.getProposal("proposal_1")).status).eq(
+      ProposalStatus.Redeemed
+    );
+
+    /**
+     * @dev Redeemed proposals cannot be updated anymore
+     */
+    await expect(
+      SellerClient.updateProposal("proposal_1", { expiredAt: expiredAt + 120 })
+    )
+      .to.be.revertedWithCustomError(Swap, "InvalidProposalStatus")
+      .withArgs("proposal_1", ProposalStatus.Redeemed);
+  });
+
+  it("Should: removed option cannot be used to fulfill the proposal", async () => {
+    const { Swap, SellerClient, MockedERC20, MockedERC721, seller, buyer } =
+      fixtures;
+
+    await createProposal("proposal_2", 2);
+    await SellerClient.updateProposal("proposal_2", {
+      removedOptionIds: ["proposal_2_option_1"],
+    });
+
+    const { swapOptions } = await SellerClient.getProposal("proposal_2");
+    expect(swapOptions.map(({ id }) => id)).deep.eq(["proposal_2_option_2"]);
+    expect(swapOptions[0].askingItems[0].amount).eq(
+      ethers.utils.parseEther("6")
+    );
+
+    /**
+     * @dev Go through the contract directly, the client would refuse the missing option
+     */
+    await MockedERC20.connect(buyer).approve(
+      Swap.address,
+      ethers.utils.parseEther("6")
+    );
+    await expect(
+      Swap.connect(buyer).fulfillProposal(
+        "proposal_2",
+        "proposal_2_option_1",
+        buyer.address
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "OptionNotFound")
+      .withArgs("proposal_2", "proposal_2_option_1");
+
+    /**
+     * @dev The remaining option is intact
+     */
+    await Swap.connect(buyer).fulfillProposal(
+      "proposal_2",
+      "proposal_2_option_2",
+      buyer.address
+    );
+    expect(await MockedERC721.ownerOf(2)).eq(buyer.address);
+    expect(await MockedERC20.balanceOf(seller.address)).eq(
+      ethers.utils.parseEther("20")
+    );
+  });
+
+  it("Should: updates keep the creation constraints", async () => {
+    const { Swap, SellerClient, NotWhitelistedERC20 } = fixtures;
+
+    await createProposal("proposal_3", 3);
+    const { expiredAt } = await SellerClient.getProposal("proposal_3");
+
+    await expect(
+      SellerClient.updateProposal("proposal_3", { expiredAt: expiredAt - 1 })
+    )
+      .to.be.revertedWithCustomError(Swap, "InvalidExpiredAt")
+      .withArgs(expiredAt - 1);
+
+    await expect(
+      SellerClient.updateProposal("proposal_3", {
+        addedSwapOptions: [
+          {
+            id: "proposal_3_option_3",
+            askingItems: [
+              {
+                contractAddress: NotWhitelistedERC20.address,
+                itemType: SwapItemType.Currency,
+                amount: 1,
+              },
+            ],
+          },
+        ],
+      })
+    )
+      .to.be.revertedWithCustomError(Swap, "NotWhitelisted")
+      .withArgs(NotWhitelistedERC20.address);
+
+    /**
+     * @dev Ids of removed options stay registered
+     */
+    await expect(
+      SellerClient.updateProposal("proposal_3", {
+        addedSwapOptions: [askForERC20("proposal_3_option_1", "1")],
+        removedOptionIds: ["proposal_3_option_1"],
+      })
+    )
+      .to.be.revertedWithCustomError(Swap, "DuplicateId")
+      .withArgs("proposal_3_option_1");
+
+    await expect(
+      SellerClient.updateProposal("proposal_3", {
+        addedSwapOptions: [
+          askForERC20("proposal_3_option_3", "1"),
+          askForERC20("proposal_3_option_4", "1"),
+          askForERC20("proposal_3_option_5", "1"),
+        ],
+      })
+    )
+      .to.be.revertedWithCustomError(Swap, "TooManyOptions")
+      .withArgs(5, 4);
+
+    /**
+     * @dev Removing first leaves room for new options
+     */
+    await SellerClient.updateProposal("proposal_3", {
+      addedSwapOptions: [
+        askForERC20("proposal_3_option_3", "1"),
+        askForERC20("proposal_3_option_4", "1"),
+        askForERC20("proposal_3_option_5", "1"),
+      ],
+      removedOptionIds: ["proposal_3_option_1", "proposal_3_option_2"],
+    });
+    expect(
+      (await SellerClient.getProposal("proposal_3")).swapOptions.map(
+        ({ id }) => id
+      )
+    ).deep.eq([
+      "proposal_3_option_3",
+      "proposal_3_option_4",
+      "proposal_3_option_5",
+    ]);
+  });
+});
@@ -0,0 +1,352 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { HamsterSwapClient, SwapItemType } from "../src/sdk";
+import { SWAP_ROLES } from "../scripts/swap/administration";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap typed whitelist", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, seller] = await ethers.getSigners();
+
+    /**
+     * @dev Item types are detected for the addresses whitelisted through configure
+     */
+    const {
+      Swap,
+      MockedERC20,
+      MockedWETH9,
+      MockedERC721,
+      MockedERC1155,
+      owner,
+    } = await deploySwap({
+      nfts: { [seller.address]: [1] },
+      currencies: { [seller.address]: ethers.utils.parseEther("10") },
+      whitelist: (mocks) => [
+        mocks.MockedERC721.address,
+        mocks.MockedERC1155.address,
+        mocks.MockedERC20.address,
+      ],
+    });
+
+    return {
+      Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      MockedERC20,
+      MockedWETH9,
+      MockedERC721,
+      MockedERC1155,
+      owner,
+      seller,
+    };
+  }
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: configure detects the item types and the whitelist is listed", async () => {
+    const { Swap, SellerClient, MockedERC20, MockedERC721, MockedERC1155 } =
+      fixtures;
+
+    expect(await SellerClient.getWhitelist()).deep.eq([
+      { contractAddress: MockedERC721.address, itemType: SwapItemType.Nft },
+      {
+        contractAddress: MockedERC1155.address,
+        itemType: SwapItemType.SemiFungible,
+      },
+      { contractAddress: MockedERC20.address, itemType: SwapItemType.Currency },
+    ]);
+
+    /**
+     * @dev Read page by page
+     */
+    expect(await SellerClient.getWhitelist(2)).deep.eq(
+      await SellerClient.getWhitelist()
+    );
+    const [addresses, itemTypes, total] = await Swap.getWhitelist(2, 10);
+    expect(addresses).deep.eq([MockedERC20.address]);
+    expect(itemTypes).deep.eq([SwapItemType.Currency]);
+    expect(total).eq(3);
+  });
+
+  it("Should: owner adds and removes entries one event each", async () => {
+    const { Swap, SellerClient, MockedWETH9, MockedERC20, MockedERC721 } =
+      fixtures;
+    const { owner } = fixtures;
+
+    await expect(
+      Swap.connect(owner).addToWhitelist(
+        [MockedWETH9.address, MockedERC20.address],
+        [SwapItemType.Currency, SwapItemType.Nft]
+      )
+    )
+      .to.emit(Swap, "WhitelistAdded")
+      .withArgs(
+        owner.address,
+        (timestamp: unknown) => !!timestamp,
+        MockedWETH9.address,
+        SwapItemType.Currency
+      )
+      .and.to.emit(Swap, "WhitelistAdded")
+      .withArgs(
+        owner.address,
+        (timestamp: unknown) => !!timestamp,
+        MockedERC20.address,
+        SwapItemType.Nft
+      );
+
+    /**
+     * @dev The item type of an address already whitelisted is updated in place
+     */
+    expect((await SellerClient.getWhitelist()).length).eq(4);
+    expect(await Swap.whitelistedAddresses(MockedWETH9.address)).eq(true);
+
+    /**
+     * @dev The last entry takes the place of the removed one
+     */
+    await expect(
+      Swap.connect(owner).removeFromWhitelist([MockedERC721.address])
+    )
+      .to.emit(Swap, "WhitelistRemoved")
+      .withArgs(
+        owner.address,
+        (timestamp: unknown) => !!timestamp,
+        MockedERC721.address
+      );
+    expect(await Swap.whitelistedAddresses(MockedERC721.address)).eq(false);
+    expect(
+      (await SellerClient.getWhitelist()).map(
+        ({ contractAddress }) => contractAddress
+      )
+    ).deep.eq([
+      MockedWETH9.address,
+      fixtures.MockedERC1155.address,
+      MockedERC20.address,
+    ]);
+
+    await expect(
+      Swap.connect(owner).removeFromWhitelist([MockedERC721.address])
+    )
+      .to.be.revertedWithCustomError(Swap, "NotWhitelisted")
+      .withArgs(MockedERC721.address);
+
+    /**
+     * @dev Restore the fixtures
+     */
+    await Swap.connect(owner).addToWhitelist(
+      [MockedERC721.address, MockedERC20.address],
+      [SwapItemType.Nft, SwapItemType.Currency]
+    );
+  });
+
+  it("Should: invalid entries and other accounts are rejected", async () => {
+    const { Swap, MockedERC721, owner, seller } = fixtures;
+
+    await expect(
+      Swap.connect(owner).addToWhitelist(
+        [MockedERC721.address],
+        [SwapItemType.NftCollection]
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "InvalidWhitelistItemType")
+      .withArgs(MockedERC721.address, SwapItemType.NftCollection);
+
+    await expect(Swap.connect(owner).addToWhitelist([MockedERC721.address], []))
+      .to.be.revertedWithCustomError(Swap, "AmountMismatch")
+      .withArgs(1, 0);
+
+    await expect(
+      Swap.connect(seller).addToWhitelist(
+        [MockedERC721.address],
+        [SwapItemType.Nft]
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "MissingRole")
+      .withArgs(SWAP_ROLES.collectionManager, seller.address);
+    await expect(
+      Swap.connect(seller).removeFromWhitelist([MockedERC721.address])
+    )
+      .to.be.revertedWithCustomError(Swap, "MissingRole")
+      .withArgs(SWAP_ROLES.collectionManager, seller.address);
+  });
+
+  it("Should: proposals only use whitelisted addresses as their item type", async () => {
+    const { Swap, SellerClient, MockedERC20, MockedERC721, seller } = fixtures;
+
+    /**
+     * @dev Offer an item for 1 erc20 sent as the asking item type
+     */
+    const buildProposal = async (
+      id: string,
+      offeredAddress: string,
+      offeredType: SwapItemType,
+      askingType: SwapItemType
+    ) =>
+      SellerClient.buildProposal({
+        id,
+        expiredAt: (await time.latest()) + 60 * 60,
+        offeredItems: [
+          {
+            contractAddress: offeredAddress,
+            itemType: offeredType,
+            tokenId: 1,
+            amount: ethers.utils.parseEther("1"),
+          },
+        ],
+        swapOptions: [
+          {
+            id: `${id}_option`,
+            askingItems: [
+              {
+                contractAddress: MockedERC20.address,
+                itemType: askingType,
+                tokenId: 2,
+                amount: ethers.utils.parseEther("1"),
+              },
+            ],
+          },
+        ],
+      });
+    const sendProposal = async (
+      proposal: Awaited<ReturnType<typeof buildProposal>>
+    ) =>
+      Swap.connect(seller).createProposal(
+        proposal.id,
+        proposal.owner,
+        proposal.offeredItems,
+        proposal.swapOptions,
+        proposal.expiredAt,
+        [],
+        false
+      );
+
+    /**
+     * @dev An erc20 can neither be asked for as an NFT, nor be deposited as an erc1155
+     */
+    await expect(
+      sendProposal(
+        await buildProposal(
+          "proposal_1",
+          MockedERC721.address,
+          SwapItemType.Nft,
+          SwapItemType.Nft
+        )
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "ItemTypeNotWhitelisted")
+      .withArgs(MockedERC20.address, SwapItemType.Nft);
+    await expect(
+      sendProposal(
+        await buildProposal(
+          "proposal_2",
+          MockedERC20.address,
+          SwapItemType.SemiFungible,
+          SwapItemType.Currency
+        )
+      )
+    )
+      .to.be.revertedWithCustomError(Swap, "ItemTypeNotWhitelisted")
+      .withArgs(MockedERC20.address, SwapItemType.SemiFungible);
+
+    /**
+     * @dev Collection-wide items are allowed for NFT addresses
+     */
+    await SellerClient.createProposal({
+      id: "proposal_3",
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: MockedERC20.address,
+          itemType: SwapItemType.Currency,
+          amount: ethers.utils.parseEther("1"),
+        },
+      ],
+      swapOptions: [
+        {
+          id: "proposal_3_option",
+          askingItems: [
+            {
+              contractAddress: MockedERC721.address,
+              itemType: SwapItemType.NftCollection,
+            },
+          ],
+        },
+      ],
+    });
+    expect((await SellerClient.getProposal("proposal_3")).owner).eq(
+      seller.address
+    );
+  });
+
+  it("Should: escrowed items of a removed address can still be returned", async () => {
+    const { Swap, SellerClient, MockedERC20, MockedERC721, owner, seller } =
+      fixtures;
+
+    await SellerClient.createProposal({
+      id: "proposal_4",
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: MockedERC721.address,
+          itemType: SwapItemType.Nft,
+          tokenId: 1,
+        },
+      ],
+      swapOptions: [
+        {
+          id: "proposal_4_option",
+          askingItems: [
+            {
+              contractAddress: MockedERC20.address,
+              itemType: SwapItemType.Currency,
+              amount: ethers.utils.parseEther("1"),
+            },
+          ],
+        },
+      ],
+    });
+    await Swap.connect(owner).removeFromWhitelist([
+      MockedERC721.address,
+      MockedERC20.address,
+    ]);
+
+    /**
+     * @dev The owner cancels, and anyone reclaims the expired proposal
+     */
+    await Swap.connect(seller).cancelProposal("proposal_4");
+    expect(await MockedERC721.ownerOf(1)).eq(seller.address);
+
+    await time.increase(60 * 60);
+    await expect(
+      Swap.connect(owner).reclaimExpiredProposal("proposal_3")
+    ).to.changeTokenBalances(
+      MockedERC20,
+      [seller, Swap],
+      [ethers.utils.parseEther("1"), ethers.utils.parseEther("-1")]
+    );
+
+    /**
+     * @dev Removed addresses can no longer be deposited
+     */
+    await expect(
+      SellerClient.createProposal({
+        id: "proposal_5",
+        expiredAt: (await time.latest()) + 60 * 60,
+        offeredItems: [
+          {
+            contractAddress: MockedERC721.address,
+            itemType: SwapItemType.Nft,
+            tokenId: 1,
+          },
+        ],
+        swapOptions: [],
+      })
+    )
+      .to.be.revertedWithCustomError(Swap, "NotWhitelisted")
+      .withArgs(MockedERC721.address);
+  });
+});
@@ -0,0 +1,455 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre, { ethers } from "hardhat";
+
+import {
+  HamsterSwapClient,
+  Proposal,
+  ProposalStatus,
+  SwapItemType,
+} from "../src/sdk";
+import { SwapCallResult, SwapEventLog } from "../scripts/tasks/swap";
+import {
+  getOperationId,
+  RoleMigrationResult,
+  SWAP_ROLES,
+} from "../scripts/swap/administration";
+import { WhitelistSyncResult } from "../scripts/swap/whitelist";
+import { deploySwap } from "./helpers/fixtures";
+
+describe("HamsterSwap hardhat tasks", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+
+  async function deployFixtures() {
+    const [, seller, buyer] = await ethers.getSigners();
+
+    /**
+     * @dev The tasks are sent by the first account
+     */
+    const { Swap, EthermanContract, MockedERC20, MockedERC721, owner } =
+      await deploySwap({
+        nfts: { [seller.address]: [1] },
+        whitelist: (mocks) => [mocks.MockedERC721.address],
+      });
+
+    return {
+      Swap,
+      SellerClient: new HamsterSwapClient(Swap, seller),
+      EthermanContract,
+      MockedERC20,
+      MockedERC721,
+      owner,
+      buyer,
+    };
+  }
+
+  /**
+   * @dev Run a task and capture what it prints instead of writing it to the test output
+   */
+  const runCaptured = async <T>(
+    name: string,
+    args: Record<string, unknown>
+  ): Promise<{ result: T; printed: string[] }> => {
+    const printed: string[] = [];
+    const log = console.log;
+    console.log = (...values: unknown[]) => {
+      printed.push(values.join(" "));
+    };
+
+    try {
+      return { result: await hre.run(name, args), printed };
+    } finally {
+      console.log = log;
+    }
+  };
+
+  beforeEach(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: configuration changes are queued, executed and cancelled, dry runs send nothing", async () => {
+    const { Swap, EthermanContract, owner } = fixtures;
+
+    const dryRun: SwapCallResult = await hre.run("swap:configuration:queue", {
+      swap: Swap.address,
+      maxItems: 5,
+      dryRun: true,
+    });
+
+    expect(dryRun.transactionHash).eq(undefined);
+    expect(dryRun.to).eq(Swap.address);
+    expect(dryRun.data).eq(
+      Swap.interface.encodeFunctionData("queueConfiguration", [
+        5,
+        4,
+        EthermanContract.address,
+      ])
+    );
+
+    /**
+     * @dev Omitted values are kept, the change waits for the timelock delay
+     */
+    await Swap.connect(owner).setTimelockDelay(60);
+    const result: SwapCallResult = await hre.run("swap:configuration:queue", {
+      swap: Swap.address,
+      maxItems: 5,
+    });
+    expect(result.data).eq(dryRun.data);
+    expect(!!result.transactionHash).eq(true);
+
+    await expect(
+      hre.run("swap:configuration:execute", { swap: Swap.address, maxItems: 5 })
+    ).to.be.revertedWithCustomError(Swap, "ConfigurationNotReady");
+    expect(await Swap.maxAllowedItems()).eq(3);
+
+    await time.increase(60);
+    await hre.run("swap:configuration:execute", {
+      swap: Swap.address,
+      maxItems: 5,
+    });
+    expect(await Swap.maxAllowedItems()).eq(5);
+    expect(await Swap.maxAllowedOptions()).eq(4);
+    expect(await Swap.etherman()).eq(EthermanContract.address);
+
+    /**
+     * @dev A queued change is cancelled by its values
+     */
+    await hre.run("swap:configuration:queue", {
+      swap: Swap.address,
+      maxOptions: 2,
+    });
+    const operationId = getOperationId({
+      maxAllowedItems: 5,
+      maxAllowedOptions: 2,
+      etherman: EthermanContract.address,
+    });
+    expect((await Swap.getTimelock(operationId)).readyAt).gt(0);
+
+    await hre.run("swap:configuration:cancel", {
+      swap: Swap.address,
+      maxOptions: 2,
+    });
+    expect((await Swap.getTimelock(operationId)).readyAt).eq(0);
+  });
+
+  it("Should: roles are granted, revoked and migrated", async () => {
+    const { Swap, owner, buyer } = fixtures;
+
+    await hre.run("swap:roles:grant", {
+      swap: Swap.address,
+      role: "pauser",
+      account: buyer.address,
+    });
+    expect(await Swap.hasRole(SWAP_ROLES.pauser, buyer.address)).eq(true);
+
+    await hre.run("swap:roles:revoke", {
+      swap: Swap.address,
+      role: "pauser",
+      account: buyer.address,
+    });
+    expect(await Swap.hasRole(SWAP_ROLES.pauser, buyer.address)).eq(false);
+
+    /**
+     * @dev A single multicall grants the missing roles and sets the delay
+     */
+    const file = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "hamsterswap-roles-")),
+      "config.json"
+    );
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        roles: { pauser: [owner.address, buyer.address] },
+        timelockDelay: 3600,
+      })
+    );
+
+    const plan: RoleMigrationResult = await hre.run("swap:roles:migrate", {
+      swap: Swap.address,
+      file,
+      dryRun: true,
+    });
+    expect(plan.granted).deep.eq([{ role: "pauser", account: buyer.address }]);
+    expect(plan.timelockDelay).eq(3600);
+    expect(plan.transactionHash).eq(undefined);
+
+    const result: RoleMigrationResult = await hre.run("swap:roles:migrate", {
+      swap: Swap.address,
+      file,
+    });
+    expect(result.data).eq(plan.data);
+    expect(await Swap.hasRole(SWAP_ROLES.pauser, buyer.address)).eq(true);
+    expect(
+      (await Swap.getTimelock(ethers.constants.HashZero)).timelockDelay
+    ).eq(3600);
+
+    const again: RoleMigrationResult = await hre.run("swap:roles:migrate", {
+      swap: Swap.address,
+      file,
+    });
+    expect(again.granted).deep.eq([]);
+    expect(again.transactionHash).eq(undefined);
+
+    await expect(
+      hre.run("swap:roles:grant", {
+        swap: Swap.address,
+        role: "minter",
+        account: buyer.address,
+      })
+    ).to.be.rejectedWith("Invalid role for role: minter");
+  });
+
+  it("Should: whitelist addresses are added and removed", async () => {
+    const { Swap, MockedERC20, MockedERC721 } = fixtures;
+
+    await hre.run("swap:whitelist:add", {
+      swap: Swap.address,
+      addresses: [MockedERC20.address],
+    });
+    expect(await Swap.whitelistedAddresses(MockedERC20.address)).eq(true);
+
+    /**
+     * @dev Item types are detected unless given
+     */
+    const { data }: SwapCallResult = await hre.run("swap:whitelist:add", {
+      swap: Swap.address,
+      addresses: [MockedERC20.address],
+      itemTypes: ["Nft"],
+      dryRun: true,
+    });
+    expect(data).eq(
+      Swap.interface.encodeFunctionData("addToWhitelist", [
+        [MockedERC20.address],
+        [SwapItemType.Nft],
+      ])
+    );
+    expect((await Swap.getWhitelist(0, 10))[1]).deep.eq([
+      SwapItemType.Nft,
+      SwapItemType.Currency,
+    ]);
+
+    await hre.run("swap:whitelist:remove", {
+      swap: Swap.address,
+      addresses: [MockedERC20.address, MockedERC721.address],
+    });
+    expect(await Swap.whitelistedAddresses(MockedERC20.address)).eq(false);
+    expect(await Swap.whitelistedAddresses(MockedERC721.address)).eq(false);
+  });
+
+  it("Should: whitelist is synced with a json file", async () => {
+    const { Swap, MockedERC20, MockedERC721 } = fixtures;
+
+    const file = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "hamsterswap-whitelist-")),
+      "whitelist.json"
+    );
+    fs.writeFileSync(
+      file,
+      JSON.stringify([
+        { address: MockedERC721.address, name: "mocked-erc721" },
+        { address: MockedERC20.address, itemType: "Currency" },
+      ])
+    );
+
+    /**
+     * @dev Nothing is sent on dry runs
+     */
+    const plan: WhitelistSyncResult = await hre.run("swap:whitelist:sync", {
+      swap: Swap.address,
+      file,
+      dryRun: true,
+    });
+    expect(
+      plan.added.map(({ address, itemType }) => [address, itemType])
+    ).deep.eq([[MockedERC20.address, SwapItemType.Currency]]);
+    expect(plan.transactionHashes).deep.eq([]);
+    expect(await Swap.whitelistedAddresses(MockedERC20.address)).eq(false);
+
+    await hre.run("swap:whitelist:sync", { swap: Swap.address, file });
+    expect(await Swap.whitelistedAddresses(MockedERC20.address)).eq(true);
+
+    /**
+     * @dev Addresses missing from the file are only removed when pruning
+     */
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ whitelist: [{ address: MockedERC20.address }] })
+    );
+    const kept: WhitelistSyncResult = await hre.run("swap:whitelist:sync", {
+      swap: Swap.address,
+      file,
+    });
+    expect(kept.added.length + kept.removed.length).eq(0);
+    expect(await Swap.whitelistedAddresses(MockedERC721.address)).eq(true);
+
+    const pruned: WhitelistSyncResult = await hre.run("swap:whitelist:sync", {
+      swap: Swap.address,
+      file,
+      prune: true,
+    });
+    expect(pruned.removed).deep.eq([MockedERC721.address]);
+    expect(pruned.transactionHashes.length).eq(1);
+    expect((await Swap.getWhitelist(0, 10))[0]).deep.eq([MockedERC20.address]);
+
+    fs.writeFileSync(
+      file,
+      JSON.stringify([{ address: MockedERC20.address, itemType: "Token" }])
+    );
+    await expect(
+      hre.run("swap:whitelist:sync", { swap: Swap.address, file })
+    ).to.be.rejectedWith(`Invalid item type Token in ${file}`);
+  });
+
+  it("Should: pauser pauses, unpauses and the owner transfers the ownership", async () => {
+    const { Swap, buyer } = fixtures;
+
+    await hre.run("swap:pause", { swap: Swap.address });
+    expect(await Swap.paused()).eq(true);
+
+    await hre.run("swap:unpause", { swap: Swap.address });
+    expect(await Swap.paused()).eq(false);
+
+    const { data }: SwapCallResult = await hre.run("swap:transfer-ownership", {
+      swap: Swap.address,
+      newOwner: buyer.address,
+      dryRun: true,
+    });
+    expect(data).eq(
+      Swap.interface.encodeFunctionData("transferOwnership", [buyer.address])
+    );
+
+    await hre.run("swap:transfer-ownership", {
+      swap: Swap.address,
+      newOwner: buyer.address,
+    });
+    expect(await Swap.owner()).eq(buyer.address);
+
+    /**
+     * @dev The first account is not the owner anymore, the roles it holds are kept
+     */
+    await expect(
+      hre.run("swap:roles:grant", {
+        swap: Swap.address,
+        role: "pauser",
+        account: buyer.address,
+      })
+    ).to.be.revertedWith("Ownable: caller is not the owner");
+    await hre.run("swap:pause", { swap: Swap.address });
+    expect(await Swap.paused()).eq(true);
+  });
+
+  it("Should: proposals are inspected and events listed", async () => {
+    const { Swap, SellerClient, MockedERC20, MockedERC721 } = fixtures;
+
+    await runCaptured("swap:whitelist:add", {
+      swap: Swap.address,
+      addresses: [MockedERC20.address],
+    });
+    await SellerClient.createProposal({
+      id: "proposal_1",
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: MockedERC721.address,
+          itemType: SwapItemType.Nft,
+          tokenId: 1,
+        },
+      ],
+      swapOptions: [
+        {
+          id: "proposal_1_option",
+          askingItems: [
+            {
+              contractAddress: MockedERC20.address,
+              itemType: SwapItemType.Currency,
+              amount: ethers.utils.parseEther("1"),
+            },
+          ],
+        },
+      ],
+    });
+
+    const { result: proposal, printed: inspected } =
+      await runCaptured<Proposal>("swap:inspect", {
+        swap: Swap.address,
+        proposal: "proposal_1",
+      });
+    expect(proposal.status).eq(ProposalStatus.Deposited);
+    expect(proposal.offeredItems[0].tokenId).eq(1);
+    expect(proposal.swapOptions[0].askingItems[0].amount).eq(
+      ethers.utils.parseEther("1")
+    );
+
+    /**
+     * @dev The proposal is printed as JSON, amounts as decimal strings
+     */
+    expect(inspected.length).eq(1);
+    const printedProposal = JSON.parse(inspected[0]);
+    expect(printedProposal.id).eq("proposal_1");
+    expect(printedProposal.status).eq(ProposalStatus.Deposited);
+    expect(printedProposal.swapOptions[0].askingItems[0].amount).eq(
+      ethers.utils.parseEther("1").toString()
+    );
+
+    const { result: events, printed: listed } = await runCaptured<
+      SwapEventLog[]
+    >("swap:events", {
+      swap: Swap.address,
+      fromBlock: 0,
+    });
+    expect(events.map(({ name }) => name)).to.include.members([
+      "ConfigurationChanged",
+      "WhitelistAdded",
+      "ProposalCreated",
+      "ItemDeposited",
+    ]);
+
+    /**
+     * @dev One line per event, with its block, transaction and name
+     */
+    expect(listed).deep.eq(
+      events.map(
+        ({ blockNumber, transactionHash, name, args }) =>
+          `#${blockNumber} ${transactionHash} ${name} ${JSON.stringify(
+            args,
+            null,
+            2
+          )}`
+      )
+    );
+
+    /**
+     * @dev Filtered by name, only the most recent one is kept
+     */
+    const { result: configurations } = await runCaptured<SwapEventLog[]>(
+      "swap:events",
+      {
+        swap: Swap.address,
+        fromBlock: 0,
+        event: "ConfigurationChanged",
+        limit: 1,
+      }
+    );
+    expect(configurations.length).eq(1);
+    expect(configurations[0].args.whitelistedAddresses).deep.eq([
+      MockedERC721.address,
+    ]);
+  });
+
+  it("Should: invalid addresses are rejected", async () => {
+    const { Swap } = fixtures;
+
+    await expect(
+      hre.run("swap:whitelist:add", {
+        swap: Swap.address,
+        addresses: ["0x1234"],
+      })
+    ).to.be.rejectedWith("Invalid address for addresses: 0x1234");
+    await expect(hre.run("swap:pause", {})).to.be.rejectedWith(
+      "Missing --swap address, or set SWAP_ADDRESS"
+    );
+  });
+});
@@ -0,0 +1,410 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers, upgrades } from "hardhat";
+
+import { Etherman, HamsterSwap } from "../typechain-types";
+import {
+  HamsterSwapClient,
+  ProposalIndexType,
+  ProposalStatus,
+  SwapItemType,
+} from "../src/sdk";
+import {
+  assertStatePreserved,
+  deployBaselineSwap,
+  RECORDED_PROPOSAL_STATUSES,
+  snapshotSwap,
+  SwapSnapshot,
+  SwapSnapshotQuery,
+  upgradeSwapProxy,
+} from "./helpers/upgrade-safety";
+import { syncWhitelist } from "../scripts/swap/whitelist";
+import { migrateProposals } from "../scripts/swap/migration";
+import { migrateRoles, SWAP_ROLES } from "../scripts/swap/administration";
+
+describe("HamsterSwap upgrade safety", async function () {
+  let fixtures: Awaited<ReturnType<typeof deployFixtures>>;
+  let snapshot: SwapSnapshot;
+
+  async function deployFixtures() {
+    const [owner, seller, buyer] = await ethers.getSigners();
+
+    /**
+     * @dev Initializes mocked erc contracts
+     */
+    const MockedERC20Contract = await ethers.getContractFactory("MockedERC20");
+    const MockedERC20 = await MockedERC20Contract.deploy();
+    const MockedWETH = await MockedERC20Contract.deploy();
+
+    const MockedERC721Contract = await ethers.getContractFactory(
+      "MockedERC721"
+    );
+    const MockedERC721 = await MockedERC721Contract.deploy();
+
+    const EthermanFactory = await ethers.getContractFactory("Etherman");
+    const EthermanContract = (await EthermanFactory.deploy(
+      MockedWETH.address
+    )) as unknown as Etherman;
+
+    for (let tokenId = 1; tokenId <= 6; tokenId++) {
+      await MockedERC721.connect(owner).safeMint(seller.address, tokenId);
+    }
+    await MockedERC20.connect(owner).transfer(
+      buyer.address,
+      ethers.utils.parseEther("10")
+    );
+
+    /**
+     * @dev Deploy the implementation first deployed behind the live proxies
+     */
+    const baseline = await deployBaselineSwap();
+    await baseline.swap
+      .connect(owner)
+      .configure(
+        "3",
+        "4",
+        [MockedERC721.address, MockedERC20.address],
+        [],
+        EthermanContract.address
+      );
+
+    return {
+      baseline,
+      MockedERC20,
+      MockedERC721,
+      owner,
+      seller,
+      buyer,
+    };
+  }
+
+  /**
+   * @dev Offer a token for 1 erc20 through the baseline ABI
+   */
+  const createBaselineProposal = async (
+    swap: Contract,
+    id: string,
+    tokenId: number,
+    expiredAt: number
+  ) => {
+    const { MockedERC20, MockedERC721, seller } = fixtures;
+
+    await MockedERC721.connect(seller).approve(swap.address, tokenId);
+    await swap.connect(seller).createProposal(
+      id,
+      seller.address,
+      [
+        {
+          id: `${id}_item`,
+          contractAddress: MockedERC721.address,
+          amount: 1,
+          tokenId,
+          itemType: SwapItemType.Nft,
+        },
+      ],
+      [
+        {
+          id: `${id}_option`,
+          askingItems: [
+            {
+              id: `${id}_asking_item`,
+              contractAddress: MockedERC20.address,
+              amount: ethers.utils.parseEther("1"),
+              tokenId: 0,
+              itemType: SwapItemType.Currency,
+            },
+          ],
+        },
+      ],
+      expiredAt,
+      /**
+       * @dev Later baselines also take the allowed fulfillers and whether the proposal is fillable
+       */
+      ...swap.interface
+        .getFunction("createProposal")
+        .inputs.slice(5)
+        .map(({ type }) => (type === "bool" ? false : []))
+    );
+  };
+
+  const getQuery = (): SwapSnapshotQuery => ({
+    proposalIds: [
+      "proposal_redeemed",
+      "proposal_withdrawn",
+      "proposal_fulfillable",
+      "proposal_cancelable",
+      "proposal_expiring",
+    ],
+    addresses: [
+      fixtures.MockedERC721.address,
+      fixtures.MockedERC20.address,
+      fixtures.owner.address,
+    ],
+  });
+
+  before(async () => {
+    fixtures = await loadFixture(deployFixtures);
+  });
+
+  it("Should: the baseline records proposals in every status it reaches", async () => {
+    const { baseline, MockedERC20, seller, buyer } = fixtures;
+    const { swap } = baseline;
+    const expiredAt = (await time.latest()) + 24 * 60 * 60;
+
+    await createBaselineProposal(swap, "proposal_redeemed", 1, expiredAt);
+    await MockedERC20.connect(buyer).approve(
+      swap.address,
+      ethers.constants.MaxUint256
+    );
+    await swap
+      .connect(buyer)
+      .fulfillProposal(
+        "proposal_redeemed",
+        "proposal_redeemed_option",
+        buyer.address
+      );
+
+    await createBaselineProposal(swap, "proposal_withdrawn", 2, expiredAt);
+    await swap.connect(seller).cancelProposal("proposal_withdrawn");
+
+    /**
+     * @dev In-flight proposals, one of them expires before it is reclaimed
+     */
+    await createBaselineProposal(swap, "proposal_fulfillable", 3, expiredAt);
+    await createBaselineProposal(swap, "proposal_cancelable", 4, expiredAt);
+    await createBaselineProposal(
+      swap,
+      "proposal_expiring",
+      5,
+      (await time.latest()) + 60 * 60
+    );
+
+    const statuses = await Promise.all(
+      getQuery().proposalIds.map(
+        async (id) => (await swap.proposals(id)).status
+      )
+    );
+    expect(statuses).deep.eq([
+      ProposalStatus.Redeemed,
+      ProposalStatus.Withdrawn,
+      ProposalStatus.Deposited,
+      ProposalStatus.Deposited,
+      ProposalStatus.Deposited,
+    ]);
+
+    snapshot = await snapshotSwap(swap, getQuery());
+  });
+
+  it("Should: an implementation with a conflicting storage layout is rejected", async () => {
+    const { baseline } = fixtures;
+
+    const ConflictingSwap = await ethers.getContractFactory(
+      "MockedConflictingSwap"
+    );
+    await expect(
+      upgradeSwapProxy(baseline.swap.address, ConflictingSwap)
+    ).to.be.rejectedWith(
+      `Storage layout conflict upgrading ${baseline.swap.address}: New storage layout is incompatible`
+    );
+
+    expect(
+      await upgrades.erc1967.getImplementationAddress(baseline.swap.address)
+    ).eq(baseline.implementation);
+  });
+
+  it("Should: the upgrade keeps the configuration, whitelist and proposals", async () => {
+    const { baseline } = fixtures;
+
+    const upgraded = await upgradeSwapProxy(baseline.swap.address);
+    expect(
+      await upgrades.erc1967.getImplementationAddress(baseline.swap.address)
+    ).not.eq(baseline.implementation);
+
+    /**
+     * @dev Proposals recorded under their string id are read once migrated, sending it again migrates nothing
+     */
+    const Swap = upgraded as unknown as HamsterSwap;
+    expect((await Swap.proposals("proposal_redeemed")).id).eq("");
+
+    const { pending } = await migrateProposals(Swap, { batchSize: 2 });
+    expect(pending).deep.eq(getQuery().proposalIds);
+    expect((await migrateProposals(Swap)).pending).deep.eq([]);
+
+    const after = await snapshotSwap(upgraded, getQuery());
+    assertStatePreserved(snapshot, after);
+
+    /**
+     * @dev Any changed value is reported by its path
+     */
+    expect(() =>
+      assertStatePreserved(snapshot, {
+        ...after,
+        config: { ...after.config, maxAllowedItems: "4" },
+      })
+    ).to.throw('swap.config.maxAllowedItems: "3" became "4"');
+  });
+
+  it("Should: the proposals recorded before the indexes are indexed once migrated", async () => {
+    const { baseline, MockedERC721, seller, buyer } = fixtures;
+    const Swap = (await ethers.getContractAt(
+      "HamsterSwap",
+      baseline.swap.address
+    )) as unknown as HamsterSwap;
+    const SellerClient = new HamsterSwapClient(Swap, seller);
+
+    /**
+     * @dev Listed in the order they were migrated in
+     */
+    const { proposalIds } = getQuery();
+    expect(
+      await SellerClient.getAllProposalIds({ indexType: ProposalIndexType.All })
+    ).deep.eq(proposalIds);
+    expect(
+      await SellerClient.getAllProposalIds({
+        indexType: ProposalIndexType.Owner,
+        key: seller.address,
+      })
+    ).deep.eq(proposalIds);
+    expect(
+      await SellerClient.getAllProposalIds({
+        indexType: ProposalIndexType.Fulfiller,
+        key: buyer.address,
+      })
+    ).deep.eq(["proposal_redeemed"]);
+
+    /**
+     * @dev Closed proposals are not listed per collection
+     */
+    expect(
+      await SellerClient.getAllProposalIds({
+        indexType: ProposalIndexType.Status,
+        status: ProposalStatus.Deposited,
+      })
+    ).deep.eq([
+      "proposal_fulfillable",
+      "proposal_cancelable",
+      "proposal_expiring",
+    ]);
+    expect(
+      await SellerClient.getAllProposalIds({
+        indexType: ProposalIndexType.Collection,
+        key: MockedERC721.address,
+      })
+    ).deep.eq([
+      "proposal_fulfillable",
+      "proposal_cancelable",
+      "proposal_expiring",
+    ]);
+  });
+
+  it("Should: in-flight proposals are fulfilled, cancelled and reclaimed after the upgrade", async () => {
+    const { baseline, MockedERC721, seller, buyer } = fixtures;
+    const Swap = (await ethers.getContractAt(
+      "HamsterSwap",
+      baseline.swap.address
+    )) as unknown as HamsterSwap;
+
+    await expect(
+      Swap.connect(buyer).fulfillProposal(
+        "proposal_fulfillable",
+        "proposal_fulfillable_option",
+        buyer.address
+      )
+    ).to.emit(Swap, "ProposalRedeemed");
+    await expect(
+      Swap.connect(seller).cancelProposal("proposal_cancelable")
+    ).to.emit(Swap, "ProposalWithdrawn");
+
+    await time.increase(2 * 60 * 60);
+    await expect(
+      Swap.connect(seller).reclaimExpiredProposal("proposal_expiring")
+    ).to.emit(Swap, "ExpiredProposalReclaimed");
+
+    expect(await MockedERC721.ownerOf(3)).eq(buyer.address);
+    expect(await MockedERC721.ownerOf(4)).eq(seller.address);
+    expect(await MockedERC721.ownerOf(5)).eq(seller.address);
+
+    const statuses = await Promise.all(
+      getQuery().proposalIds.map(
+        async (id) => (await Swap.proposals(id)).status
+      )
+    );
+    expect(statuses).deep.eq([
+      ProposalStatus.Redeemed,
+      ProposalStatus.Withdrawn,
+      ProposalStatus.Redeemed,
+      ProposalStatus.Withdrawn,
+      ProposalStatus.Expired,
+    ]);
+  });
+
+  it("Should: the roles and whitelist are migrated and new proposals are created", async () => {
+    const { baseline, MockedERC20, MockedERC721, owner, seller } = fixtures;
+    const Swap = (await ethers.getContractAt(
+      "HamsterSwap",
+      baseline.swap.address
+    )) as unknown as HamsterSwap;
+    const SellerClient = new HamsterSwapClient(Swap, seller);
+
+    /**
+     * @dev Nobody holds a role until the owner grants them
+     */
+    expect(await Swap.hasRole(SWAP_ROLES.collectionManager, owner.address)).eq(
+      false
+    );
+    await migrateRoles(Swap.connect(owner), {
+      pauser: [owner.address],
+      collectionManager: [owner.address],
+      configAdmin: [owner.address],
+    });
+    expect(await Swap.hasRole(SWAP_ROLES.collectionManager, owner.address)).eq(
+      true
+    );
+
+    await syncWhitelist(Swap.connect(owner), [
+      { address: MockedERC721.address },
+      { address: MockedERC20.address },
+    ]);
+    expect(await SellerClient.getWhitelist()).deep.eq([
+      { contractAddress: MockedERC721.address, itemType: SwapItemType.Nft },
+      { contractAddress: MockedERC20.address, itemType: SwapItemType.Currency },
+    ]);
+
+    await SellerClient.createProposal({
+      id: "proposal_deposited",
+      expiredAt: (await time.latest()) + 60 * 60,
+      offeredItems: [
+        {
+          contractAddress: MockedERC721.address,
+          itemType: SwapItemType.Nft,
+          tokenId: 6,
+        },
+      ],
+      swapOptions: [
+        {
+          id: "proposal_deposited_option",
+          askingItems: [
+            {
+              contractAddress: MockedERC20.address,
+              itemType: SwapItemType.Currency,
+              amount: ethers.utils.parseEther("1"),
+            },
+          ],
+        },
+      ],
+    });
+
+    /**
+     * @dev Every status recorded by some version is held once the upgrade is done
+     */
+    const statuses = await Promise.all(
+      [...getQuery().proposalIds, "proposal_deposited"].map(
+        async (id) => (await Swap.proposals(id)).status
+      )
+    );
+    for (const status of RECORDED_PROPOSAL_STATUSES) {
+      expect(statuses).to.include(status);
+    }
+  });
+});
@@ -0,0 +1,124 @@
+import { BigNumberish } from "ethers";
+import { ethers, upgrades } from "hardhat";
+
+import { Etherman, HamsterSwap } from "../../typechain-types";
+import { UNSAFE_ALLOW } from "../../scripts/swap/deployment";
+import { getSwapContractFactory } from "../../scripts/swap/factory";
+
+/**
+ * @dev Mocked tokens deployed along with the swap
+ */
+export type SwapMocks = Awaited<ReturnType<typeof deployMocks>>;
+
+/**
+ * @dev Swap fixture options
+ */
+export interface DeploySwapOptions {
+  /**
+   * @dev Maximum amount of items per proposal, default to 3
+   */
+  maxAllowedItems?: BigNumberish;
+  /**
+   * @dev Maximum amount of options per proposal, default to 4
+   */
+  maxAllowedOptions?: BigNumberish;
+  /**
+   * @dev Token ids of the mocked erc721 minted to each address
+   */
+  nfts?: Record<string, BigNumberish[]>;
+  /**
+   * @dev Amount of the mocked erc20 sent to each address
+   */
+  currencies?: Record<string, BigNumberish>;
+  /**
+   * @dev Addresses whitelisted by `configure`, default to the mocked erc721 and erc20
+   */
+  whitelist?: (mocks: SwapMocks) => string[];
+  /**
+   * @dev Deploy the proxy, default to the current implementation, see `deploySwapProxy`
+   */
+  deployProxy?: () => Promise<HamsterSwap>;
+}
+
+/**
+ * @dev Deploy the libraries and the swap behind a proxy, the swap is not configured
+ */
+export const deploySwapProxy = async (): Promise<HamsterSwap> => {
+  const SwapContract = await getSwapContractFactory();
+
+  return (await upgrades.deployProxy(SwapContract, [], {
+    unsafeAllow: ["constructor", ...UNSAFE_ALLOW],
+  })) as unknown as HamsterSwap;
+};
+
+/**
+ * @dev Deploy the mocked erc20, WETH9, erc721 and erc1155
+ */
+export const deployMocks = async () => {
+  const MockedERC20Contract = await ethers.getContractFactory("MockedERC20");
+  const MockedWETH9Contract = await ethers.getContractFactory("MockedWETH9");
+  const MockedERC721Contract = await ethers.getContractFactory("MockedERC721");
+  const MockedERC1155Contract = await ethers.getContractFactory(
+    "MockedERC1155"
+  );
+
+  return {
+    MockedERC20: await MockedERC20Contract.deploy(),
+    MockedWETH9: await MockedWETH9Contract.deploy(),
+    MockedERC721: await MockedERC721Contract.deploy(),
+    MockedERC1155: await MockedERC1155Contract.deploy(),
+  };
+};
+
+/**
+ * @dev Deploy the mocks and a configured swap that owns its etherman, the first signer owns everything
+ * @param options: the fixture options
+ */
+export const deploySwap = async (options: DeploySwapOptions = {}) => {
+  const [owner] = await ethers.getSigners();
+
+  /**
+   * @dev Initializes mocked erc contracts
+   */
+  const mocks = await deployMocks();
+
+  const EthermanFactory = await ethers.getContractFactory("Etherman");
+  const EthermanContract = (await EthermanFactory.deploy(
+    mocks.MockedWETH9.address
+  )) as unknown as Etherman;
+
+  /**
+   * @dev Mint erc721 and fund erc20
+   */
+  for (const [address, tokenIds] of Object.entries(options.nfts || {})) {
+    for (const tokenId of tokenIds) {
+      await mocks.MockedERC721.connect(owner).safeMint(address, tokenId);
+    }
+  }
+  for (const [address, amount] of Object.entries(options.currencies || {})) {
+    await mocks.MockedERC20.connect(owner).transfer(address, amount);
+  }
+
+  /**
+   * @dev Deploy contract
+   */
+  const Swap = await (options.deployProxy || deploySwapProxy)();
+  const deployedAt = await ethers.provider.getBlockNumber();
+
+  await EthermanContract.connect(owner).transferOwnership(Swap.address);
+
+  /**
+   * @dev Configure registry
+   */
+  await Swap.connect(owner).configure(
+    options.maxAllowedItems ?? "3",
+    options.maxAllowedOptions ?? "4",
+    options.whitelist
+      ? options.whitelist(mocks)
+      : [mocks.MockedERC721.address, mocks.MockedERC20.address],
+    [],
+    EthermanContract.address
+  );
+
+  return { Swap, EthermanContract, deployedAt, owner, ...mocks };
+};
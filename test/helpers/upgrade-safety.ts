@@ -0,0 +1,458 @@
+import fs from "fs";
+import path from "path";
+import { execFileSync } from "child_process";
+import { BigNumber, Contract, ContractFactory, ethers as Ethers } from "ethers";
+import { config, ethers, network, run, upgrades } from "hardhat";
+import {
+  TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD,
+  TASK_COMPILE_SOLIDITY_RUN_SOLC,
+  TASK_COMPILE_SOLIDITY_RUN_SOLCJS,
+} from "hardhat/builtin-tasks/task-names";
+import {
+  getStorageLayout,
+  getVersion,
+  Manifest,
+  solcInputOutputDecoder,
+  SolcInput,
+  SolcLinkReferences,
+  SolcOutput,
+  StorageLayout,
+  validate,
+} from "@openzeppelin/upgrades-core";
+import TransparentUpgradeableProxy from "@openzeppelin/upgrades-core/artifacts/@openzeppelin/contracts/proxy/transparent/TransparentUpgradeableProxy.sol/TransparentUpgradeableProxy.json";
+
+import { ProposalStatus } from "../../src/sdk/types";
+import { UNSAFE_ALLOW } from "../../scripts/swap/deployment";
+import { getSwapContractFactory } from "../../scripts/swap/factory";
+
+/**
+ * @dev Git commit of the implementation first deployed behind the live proxies,
+ * override with `UPGRADE_BASELINE_REF` to check an upgrade from a later release
+ */
+export const BASELINE_REF =
+  process.env.UPGRADE_BASELINE_REF ||
+  "5343e0137ffdbb29eea914512181a9e5a6d8c99b";
+
+/**
+ * @dev Git commit of the last implementation recording proposals under their string id, before the storage redesign
+ */
+export const STRING_KEYED_BASELINE_REF =
+  "ba050fe7bc513ef5df2470edb9ad4303eaea2b60";
+
+/**
+ * @dev Proposal statuses recorded by some version of the swap,
+ * `Created`, `Fulfilled` and `Canceled` are declared but never assigned
+ */
+export const RECORDED_PROPOSAL_STATUSES = [
+  ProposalStatus.Deposited,
+  ProposalStatus.Redeemed,
+  ProposalStatus.Withdrawn,
+  ProposalStatus.Expired,
+];
+
+/**
+ * @dev HamsterSwap compiled from a git ref
+ */
+export interface BaselineBuild {
+  ref: string;
+  abi: Ethers.ContractInterface;
+  /** @dev Unlinked bytecode, with placeholders for the libraries it links */
+  bytecode: string;
+  linkReferences: SolcLinkReferences;
+  layout: StorageLayout;
+  /** @dev Bytecodes of the libraries linked by the swap, by name */
+  libraries: Record<string, string>;
+}
+
+/**
+ * @dev Proxy running the baseline implementation, registered in the upgrades manifest
+ */
+export interface BaselineSwap {
+  build: BaselineBuild;
+  /** @dev The proxy, with the baseline ABI */
+  swap: Contract;
+  implementation: string;
+  admin: string;
+}
+
+/**
+ * @dev What is read from the swap before and after an upgrade
+ */
+export interface SwapSnapshotQuery {
+  proposalIds: string[];
+  /** @dev Item addresses whose whitelisting is compared */
+  addresses: string[];
+}
+
+/**
+ * @dev Plain copy of the swap state, struct fields are kept by name so that
+ * snapshots read through different ABIs can be compared
+ */
+export interface SwapSnapshot {
+  config: Record<string, unknown>;
+  whitelistedAddresses: Record<string, boolean>;
+  proposals: Record<string, unknown>;
+}
+
+/**
+ * @dev Read the swap sources at a git ref along with everything they import,
+ * packages are read from node_modules as the baseline pinned the same versions
+ * @param ref: the git ref
+ */
+const readSources = (ref: string): SolcInput["sources"] => {
+  const sources: SolcInput["sources"] = {};
+  const pending = ["contracts/Swap.sol"];
+
+  while (pending.length > 0) {
+    const sourceName = pending.pop() as string;
+    if (sources[sourceName]) continue;
+
+    const content = sourceName.startsWith("contracts/")
+      ? gitShow(ref, sourceName)
+      : fs.readFileSync(
+          path.join(config.paths.root, "node_modules", sourceName),
+          "utf8"
+        );
+    sources[sourceName] = { content };
+
+    for (const [, imported] of content.matchAll(
+      /^\s*import\s+(?:[^"']*\s+from\s+)?["']([^"']+)["']/gm
+    )) {
+      pending.push(
+        imported.startsWith(".")
+          ? path.posix.join(path.posix.dirname(sourceName), imported)
+          : imported
+      );
+    }
+  }
+
+  return sources;
+};
+
+/**
+ * @dev Read a file at a git ref, shallow clones must fetch the history of the baselines first
+ * @param ref: the git ref
+ * @param sourceName: the file path from the project root
+ */
+const gitShow = (ref: string, sourceName: string) => {
+  try {
+    return execFileSync("git", ["show", `${ref}:${sourceName}`], {
+      cwd: config.paths.root,
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+  } catch {
+    throw new Error(
+      `Cannot read ${sourceName} at git ref ${ref}, run \`git fetch --unshallow\` on a shallow clone`
+    );
+  }
+};
+
+/**
+ * @dev Compile HamsterSwap as it was at a git ref, with the project compiler settings
+ * @param ref: the git ref
+ */
+export const compileBaseline = async (
+  ref = BASELINE_REF
+): Promise<BaselineBuild> => {
+  const [compiler] = config.solidity.compilers;
+  const input = {
+    language: "Solidity",
+    sources: readSources(ref),
+    settings: {
+      optimizer: compiler.settings.optimizer,
+      outputSelection: {
+        "*": {
+          "*": [
+            "abi",
+            "evm.bytecode",
+            "evm.methodIdentifiers",
+            "storageLayout",
+          ],
+          "": ["ast"],
+        },
+      },
+    },
+  };
+
+  const solcBuild = await run(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD, {
+    quiet: true,
+    solcVersion: compiler.version,
+  });
+  const output: SolcOutput & {
+    contracts: Record<
+      string,
+      Record<string, { abi: Ethers.ContractInterface }>
+    >;
+    errors?: { severity: string; formattedMessage: string }[];
+  } = solcBuild.isSolcJs
+    ? await run(TASK_COMPILE_SOLIDITY_RUN_SOLCJS, {
+        input,
+        solcJsPath: solcBuild.compilerPath,
+      })
+    : await run(TASK_COMPILE_SOLIDITY_RUN_SOLC, {
+        input,
+        solcPath: solcBuild.compilerPath,
+      });
+
+  const errors = (output.errors || []).filter(
+    ({ severity }) => severity === "error"
+  );
+  if (errors.length > 0) {
+    throw new Error(
+      `Cannot compile HamsterSwap at ${ref}:\n${errors
+        .map(({ formattedMessage }) => formattedMessage)
+        .join("\n")}`
+    );
+  }
+
+  const contract = output.contracts["contracts/Swap.sol"].HamsterSwap;
+  const runData = validate(output, solcInputOutputDecoder(input, output));
+  const linkReferences = contract.evm.bytecode.linkReferences;
+
+  const libraries: Record<string, string> = {};
+  for (const [sourceName, names] of Object.entries(linkReferences)) {
+    for (const name of Object.keys(names)) {
+      libraries[
+        name
+      ] = `0x${output.contracts[sourceName][name].evm.bytecode.object}`;
+    }
+  }
+
+  return {
+    ref,
+    abi: contract.abi,
+    bytecode: `0x${contract.evm.bytecode.object}`,
+    linkReferences,
+    layout: getStorageLayout(
+      [runData],
+      getVersion(contract.evm.bytecode.object)
+    ),
+    libraries,
+  };
+};
+
+/**
+ * @dev Fill the library placeholders of a bytecode with their addresses
+ */
+const linkBytecode = (
+  bytecode: string,
+  linkReferences: SolcLinkReferences,
+  addresses: Record<string, string>
+) => {
+  let linked = bytecode;
+
+  for (const names of Object.values(linkReferences)) {
+    for (const [name, offsets] of Object.entries(names)) {
+      for (const { start, length } of offsets) {
+        linked =
+          linked.slice(0, 2 + start * 2) +
+          addresses[name].slice(2).toLowerCase() +
+          linked.slice(2 + (start + length) * 2);
+      }
+    }
+  }
+
+  return linked;
+};
+
+/**
+ * @dev Deploy the baseline implementation behind a transparent proxy and register both
+ * in the upgrades manifest, so that `upgrades.upgradeProxy` checks the new storage layout against it
+ * @param ref: the git ref of the baseline
+ */
+export const deployBaselineSwap = async (
+  ref = BASELINE_REF
+): Promise<BaselineSwap> => {
+  const build = await compileBaseline(ref);
+  const [deployer] = await ethers.getSigners();
+
+  const libraries: Record<string, string> = {};
+  for (const [name, bytecode] of Object.entries(build.libraries)) {
+    const library = await new ContractFactory([], bytecode, deployer).deploy();
+    await library.deployed();
+    libraries[name] = library.address;
+  }
+
+  const Implementation = new ContractFactory(
+    build.abi,
+    linkBytecode(build.bytecode, build.linkReferences, libraries),
+    deployer
+  );
+  const implementation = await Implementation.deploy();
+  await implementation.deployed();
+
+  const admin = await upgrades.deployProxyAdmin();
+  const proxy = await new ContractFactory(
+    TransparentUpgradeableProxy.abi,
+    TransparentUpgradeableProxy.bytecode,
+    deployer
+  ).deploy(
+    implementation.address,
+    admin,
+    Implementation.interface.encodeFunctionData("initialize")
+  );
+  await proxy.deployed();
+
+  const version = getVersion(build.bytecode, Implementation.bytecode);
+  const manifest = await Manifest.forNetwork(network.provider);
+  await manifest.lockedRun(async () => {
+    const data = await manifest.read();
+
+    data.impls[version.linkedWithoutMetadata] = {
+      address: implementation.address,
+      txHash: implementation.deployTransaction.hash,
+      layout: build.layout,
+    };
+    data.proxies.push({
+      address: proxy.address,
+      txHash: proxy.deployTransaction.hash,
+      kind: "transparent",
+    });
+
+    await manifest.write(data);
+  });
+
+  return {
+    build,
+    swap: Implementation.attach(proxy.address),
+    implementation: implementation.address,
+    admin,
+  };
+};
+
+/**
+ * @dev Upgrade a proxy, storage layout conflicts are reported before anything is deployed
+ * @param proxyAddress: the proxy address
+ * @param factory: the new implementation, the working tree HamsterSwap by default
+ */
+export const upgradeSwapProxy = async (
+  proxyAddress: string,
+  factory?: ContractFactory
+): Promise<Contract> => {
+  const SwapContract = factory || (await getSwapContractFactory());
+
+  try {
+    return await upgrades.upgradeProxy(proxyAddress, SwapContract, {
+      unsafeAllow: UNSAFE_ALLOW,
+    });
+  } catch (error) {
+    const message = (error as Error).message;
+    if (!message.includes("storage layout")) throw error;
+
+    throw new Error(
+      `Storage layout conflict upgrading ${proxyAddress}: ${message}`
+    );
+  }
+};
+
+/**
+ * @dev Convert a call result to plain values, structs become objects keyed by field name
+ */
+const toPlain = (value: unknown): unknown => {
+  if (BigNumber.isBigNumber(value)) return value.toString();
+  if (!Array.isArray(value)) return value;
+
+  const names = Object.keys(value).filter((key) => !/^\d+$/.test(key));
+  if (names.length === 0) return value.map(toPlain);
+
+  return Object.fromEntries(
+    names.map((name) => [
+      name,
+      toPlain((value as unknown as Record<string, unknown>)[name]),
+    ])
+  );
+};
+
+/**
+ * @dev Read the configuration, whitelist and proposals of the swap
+ * @param swap: the swap, with the ABI of its current implementation
+ * @param query: the proposals and item addresses to read
+ */
+export const snapshotSwap = async (
+  swap: Contract,
+  query: SwapSnapshotQuery
+): Promise<SwapSnapshot> => {
+  const snapshot: SwapSnapshot = {
+    config: {
+      owner: await swap.owner(),
+      paused: await swap.paused(),
+      etherman: await swap.etherman(),
+      maxAllowedItems: toPlain(await swap.maxAllowedItems()),
+      maxAllowedOptions: toPlain(await swap.maxAllowedOptions()),
+    },
+    whitelistedAddresses: {},
+    proposals: {},
+  };
+
+  for (const address of query.addresses) {
+    snapshot.whitelistedAddresses[address] = await swap.whitelistedAddresses(
+      address
+    );
+  }
+
+  for (const id of query.proposalIds) {
+    snapshot.proposals[id] = {
+      proposal: toPlain(await swap.proposals(id)),
+      itemsAndOptions: toPlain(await swap.getProposalItemsAndOptions(id)),
+      registered: await swap.uniqueStringRegistry(id),
+    };
+  }
+
+  return snapshot;
+};
+
+/**
+ * @dev List the values of a snapshot that changed, values only found after the upgrade are new fields
+ * @param before: the snapshot taken before the upgrade
+ * @param after: the snapshot taken after the upgrade
+ * @param at: path of the compared values
+ */
+export const diffSnapshots = (
+  before: unknown,
+  after: unknown,
+  at = "swap"
+): string[] => {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    if (before.length !== after.length) {
+      return [`${at}: ${before.length} entries became ${after.length}`];
+    }
+
+    return before.flatMap((value, i) =>
+      diffSnapshots(value, after[i], `${at}[${i}]`)
+    );
+  }
+
+  if (isRecord(before) && isRecord(after)) {
+    return Object.keys(before).flatMap((key) =>
+      key in after
+        ? diffSnapshots(before[key], after[key], `${at}.${key}`)
+        : [`${at}.${key}: missing after the upgrade`]
+    );
+  }
+
+  return before === after
+    ? []
+    : [`${at}: ${JSON.stringify(before)} became ${JSON.stringify(after)}`];
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * @dev Throw with every changed value unless the snapshots match
+ * @param before: the snapshot taken before the upgrade
+ * @param after: the snapshot taken after the upgrade
+ */
+export const assertStatePreserved = (
+  before: SwapSnapshot,
+  after: SwapSnapshot
+) => {
+  const differences = diffSnapshots(before, after);
+
+  if (differences.length > 0) {
+    throw new Error(
+      `Swap state changed by the upgrade:\n${differences.join("\n")}`
+    );
+  }
+};